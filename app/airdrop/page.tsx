@@ -0,0 +1,15 @@
+import Header from "@/components/Header"
+import AirdropCard from "@/components/AirdropCard"
+import TransactionHistory from "@/components/TransactionHistory"
+
+export default function AirdropPage() {
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col">
+      <Header />
+      <div className="max-w-7xl mx-auto w-full px-4 py-8 space-y-6">
+        <AirdropCard />
+        <TransactionHistory />
+      </div>
+    </main>
+  )
+}
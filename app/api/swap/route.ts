@@ -1,57 +1,24 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getClientIp } from "@/services/rateLimit"
+import { AggregatorError } from "@/services/swapAggregators"
+import { buildSwap, parseSwapParams, swapRateLimiter } from "@/services/swapProxy"
 
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { quoteResponse, userPublicKey, slippageBps } = body
-
-    // Validate required parameters
-    if (!quoteResponse || !userPublicKey) {
-      return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
-    }
-
-    // In a real implementation, this would call Jupiter's swap API
-    // For this demo, we'll simulate a successful response
-
-    // Construct the URL for the swap API
-    const url = new URL("https://quote-api.jup.ag/v6/swap")
-
-    // Prepare the request body for Jupiter
-    const jupiterRequestBody = {
-      quoteResponse,
-      userPublicKey,
-      wrapAndUnwrapSol: true, // Auto wrap/unwrap SOL
-      prioritizationFeeLamports: 0, // Optional priority fee
-    }
-
-    if (slippageBps) {
-      jupiterRequestBody.slippageBps = slippageBps
-    }
-
-    /*
-    // In a real implementation, we would make this request:
-    const response = await fetch(url.toString(), {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(jupiterRequestBody),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      return NextResponse.json({ error: "Jupiter API error", details: errorData }, { status: response.status })
-    }
-
-    const data = await response.json()
-    return NextResponse.json(data)
-    */
+  const limit = swapRateLimiter.check(getClientIp(request.headers))
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many swap requests" },
+      { status: 429, headers: { "Retry-After": limit.retryAfter.toString() } },
+    )
+  }
 
-    // For this demo, return a simulated response
-    return NextResponse.json({
-      swapTransaction: "base64EncodedTransactionWouldBeHere",
-    })
+  try {
+    const params = parseSwapParams(await request.json().catch(() => null))
+    return NextResponse.json(await buildSwap(params))
   } catch (error) {
+    if (error instanceof AggregatorError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
     console.error("Error in swap API:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
@@ -1,11 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { getNetworkAddresses, parseNetwork } from "@/constants/addresses"
 
 // Mock base prices for demo purposes
-const BASE_PRICES = {
-  So11111111111111111111111111111111111111112: 100, // SOL
-  GoLDium1111111111111111111111111111111111111: 5.5, // GOLD
-  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 1.0, // USDC
-  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: 0.00000125, // BONK
+function getBasePrices(network: NetworkType): Record<string, number> {
+  const { solMint, goldMint, usdcMint, bonkMint } = getNetworkAddresses(network)
+  return {
+    [solMint]: 100,
+    [goldMint]: 5.5,
+    [usdcMint]: 1.0,
+    [bonkMint]: 0.00000125,
+  }
 }
 
 // Generate realistic price history with trends
@@ -45,6 +50,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const mint = searchParams.get("mint")
     const days = Number.parseInt(searchParams.get("days") || "7", 10)
+    const network = parseNetwork(searchParams.get("network"))
 
     if (!mint) {
       return NextResponse.json({ error: "Missing mint parameter" }, { status: 400 })
@@ -55,7 +61,7 @@ export async function GET(request: NextRequest) {
 
     // In a real implementation, we would fetch historical prices from an API
     // For this demo, we'll generate mock data
-    const basePrice = BASE_PRICES[mint]
+    const basePrice = getBasePrices(network)[mint]
 
     if (!basePrice) {
       return NextResponse.json({ error: "Token not found" }, { status: 404 })
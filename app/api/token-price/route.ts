@@ -1,17 +1,23 @@
 import { type NextRequest, NextResponse } from "next/server"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { getNetworkAddresses, parseNetwork } from "@/constants/addresses"
 
 // Mock token prices for demo purposes
-const TOKEN_PRICES = {
-  So11111111111111111111111111111111111111112: 100.25, // SOL
-  GoLDium1111111111111111111111111111111111111: 5.75, // GOLD
-  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 1.0, // USDC
-  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: 0.00000125, // BONK
+function getTokenPrices(network: NetworkType): Record<string, number> {
+  const { solMint, goldMint, usdcMint, bonkMint } = getNetworkAddresses(network)
+  return {
+    [solMint]: 100.25,
+    [goldMint]: 5.75,
+    [usdcMint]: 1.0,
+    [bonkMint]: 0.00000125,
+  }
 }
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const mint = searchParams.get("mint")
+    const network = parseNetwork(searchParams.get("network"))
 
     if (!mint) {
       return NextResponse.json({ error: "Missing mint parameter" }, { status: 400 })
@@ -19,7 +25,7 @@ export async function GET(request: NextRequest) {
 
     // In a real implementation, we would fetch the price from an API like CoinGecko
     // For this demo, we'll use mock data
-    const price = TOKEN_PRICES[mint] || null
+    const price = getTokenPrices(network)[mint] || null
 
     if (price === null) {
       return NextResponse.json({ error: "Token price not found" }, { status: 404 })
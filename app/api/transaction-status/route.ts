@@ -1,28 +1,52 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { Connection } from "@solana/web3.js"
+import { parseNetwork } from "@/constants/addresses"
+import { DEFAULT_RPC_ENDPOINTS } from "@/services/rpcEndpoints"
+import {
+  FIXTURE_TRANSACTION_STATUSES,
+  getDefaultBackendMode,
+  getLiveTransactionStatus,
+  isBackendMode,
+  type TransactionStatus,
+} from "@/services/backends"
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const signature = searchParams.get("signature")
+    const modeParam = searchParams.get("mode")
+    const networkParam = searchParams.get("network")
 
     if (!signature) {
       return NextResponse.json({ error: "Missing signature parameter" }, { status: 400 })
     }
 
-    // In a real implementation, we would check the transaction status on the blockchain
-    // For this demo, we'll randomly return a status
-    const random = Math.random()
-    let status: "confirmed" | "failed" | "pending"
+    if (modeParam && !isBackendMode(modeParam)) {
+      return NextResponse.json({ error: "Invalid mode parameter" }, { status: 400 })
+    }
+
+    const mode = modeParam && isBackendMode(modeParam) ? modeParam : getDefaultBackendMode()
+    const network = parseNetwork(networkParam)
+
+    let status: TransactionStatus
 
-    if (random < 0.8) {
-      status = "confirmed"
-    } else if (random < 0.9) {
-      status = "failed"
-    } else {
-      status = "pending"
+    switch (mode) {
+      case "fixtures":
+        status = FIXTURE_TRANSACTION_STATUSES[signature] ?? "confirmed"
+        break
+      case "simulator":
+        // The simulator ledger lives in the browser; anything it signed was applied
+        status = signature.startsWith("sim-") ? "confirmed" : "failed"
+        break
+      case "live":
+      default:
+        status = await getLiveTransactionStatus(
+          new Connection(DEFAULT_RPC_ENDPOINTS[network][0].url, "confirmed"),
+          signature,
+        )
     }
 
-    return NextResponse.json({ status })
+    return NextResponse.json({ status, mode, network })
   } catch (error) {
     console.error("Error in transaction status API:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
@@ -0,0 +1,21 @@
+import Header from "@/components/Header"
+import SendCard from "@/components/SendCard"
+import AddressBook from "@/components/AddressBook"
+import TransactionHistory from "@/components/TransactionHistory"
+
+export default function SendPage() {
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col">
+      <Header />
+      <div className="max-w-7xl mx-auto w-full px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <SendCard />
+          <TransactionHistory />
+        </div>
+        <div className="space-y-6">
+          <AddressBook />
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,272 +1,514 @@
 "use client"
 
-import { useState } from "react"
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { useEthereum } from "@/components/EthereumProvider"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
+import { RpcEndpointSettings } from "@/components/RpcEndpointSettings"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { BACKEND_MODES, isBackendMode } from "@/services/backends"
+import { PRIORITY_FEE_PRESETS, isPriorityFeePreset } from "@/services/priorityFees"
+import { type AppSettings, LANGUAGES, type NotificationSettings } from "@/services/settingsStore"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Bell, Moon, Sun, Globe, Shield, CreditCard, User, Wallet, ChevronRight } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import type { MessageKey } from "@/utils/i18n"
+import {
+  Bell,
+  Moon,
+  Sun,
+  Globe,
+  Shield,
+  CreditCard,
+  User,
+  Wallet,
+  ChevronRight,
+  Download,
+  Upload,
+  Server,
+} from "lucide-react"
+
+const SECTIONS: { id: string; name: MessageKey; icon: React.ReactNode }[] = [
+  { id: "general", name: "settings.section.general", icon: <Globe className="h-5 w-5" /> },
+  { id: "wallet", name: "settings.section.wallet", icon: <Wallet className="h-5 w-5" /> },
+  { id: "network", name: "settings.section.network", icon: <Server className="h-5 w-5" /> },
+  { id: "security", name: "settings.section.security", icon: <Shield className="h-5 w-5" /> },
+  { id: "notifications", name: "settings.section.notifications", icon: <Bell className="h-5 w-5" /> },
+  { id: "paymentMethods", name: "settings.section.paymentMethods", icon: <CreditCard className="h-5 w-5" /> },
+  { id: "profile", name: "settings.section.profile", icon: <User className="h-5 w-5" /> },
+]
+
+const NOTIFICATION_OPTIONS: { id: keyof NotificationSettings; label: MessageKey; description: MessageKey }[] = [
+  {
+    id: "transactions",
+    label: "settings.notifications.transactions",
+    description: "settings.notifications.transactionsDescription",
+  },
+  {
+    id: "priceAlerts",
+    label: "settings.notifications.priceAlerts",
+    description: "settings.notifications.priceAlertsDescription",
+  },
+  {
+    id: "newPools",
+    label: "settings.notifications.newPools",
+    description: "settings.notifications.newPoolsDescription",
+  },
+  {
+    id: "marketing",
+    label: "settings.notifications.marketing",
+    description: "settings.notifications.marketingDescription",
+  },
+]
+
+// Slippage presets in basis points; anything else is custom
+const SLIPPAGE_PRESETS = [50, 100, 200, 300]
 
 export default function SettingsPage() {
   const { connected: solanaConnected, publicKey } = useWallet()
   const { connected: ethConnected, account } = useEthereum()
-  const [theme, setTheme] = useState("dark")
-  const [slippageTolerance, setSlippageTolerance] = useState("1.0")
-  const [gasPreference, setGasPreference] = useState("standard")
-  const [notifications, setNotifications] = useState({
-    transactions: true,
-    priceAlerts: true,
-    newPools: false,
-    marketing: false,
-  })
+  const { mode: backendMode, setMode: setBackendMode } = useBackend()
+  const { settings, updateSettings, resetSettings, exportSettings, importSettings } = useSettings()
+  const { toast } = useToast()
+  const { t, formatNumber } = useLanguage()
+  const [activeSection, setActiveSection] = useState("general")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Changes are kept in a draft until saved
+  const [draft, setDraft] = useState<AppSettings>(settings)
+  const [customSlippage, setCustomSlippage] = useState(false)
+
+  useEffect(() => {
+    setDraft(settings)
+    setCustomSlippage(!SLIPPAGE_PRESETS.includes(settings.slippageBps))
+  }, [settings])
+
+  const notifications = draft.notifications
+  const setNotifications = (notifications: NotificationSettings) => setDraft({ ...draft, notifications })
+
+  const saveChanges = () => {
+    const { version, ...updates } = draft
+    updateSettings(updates)
+    toast({ title: t("settings.saved"), description: t("settings.savedDescription") })
+  }
+
+  const handleReset = () => {
+    resetSettings()
+    toast({ title: t("settings.resetDone"), description: t("settings.resetDescription") })
+  }
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportSettings()], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "goldium-settings.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      importSettings(await file.text())
+      toast({ title: t("settings.imported"), description: t("settings.importedDescription", { file: file.name }) })
+    } catch (error: any) {
+      console.error("Error importing settings:", error)
+      toast({
+        title: t("settings.importFailed"),
+        description: error.message || t("settings.importFailed"),
+        variant: "destructive",
+      })
+    }
+  }
 
   return (
     <main className="min-h-screen bg-black text-white">
       <div className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold bg-gradient-to-r from-amber-200 to-yellow-500 bg-clip-text text-transparent">
-            Settings
+            {t("settings.title")}
           </h1>
-          <p className="text-gray-400 mt-2">Customize your Goldium experience</p>
+          <p className="text-gray-400 mt-2">{t("settings.subtitle")}</p>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-[250px_1fr] gap-6">
           <div className="bg-gray-900 border border-gray-800 rounded-xl p-4 h-fit">
             <nav className="space-y-1">
-              {[
-                { name: "General", icon: <Globe className="h-5 w-5" /> },
-                { name: "Wallet", icon: <Wallet className="h-5 w-5" /> },
-                { name: "Security", icon: <Shield className="h-5 w-5" /> },
-                { name: "Notifications", icon: <Bell className="h-5 w-5" /> },
-                { name: "Payment Methods", icon: <CreditCard className="h-5 w-5" /> },
-                { name: "Profile", icon: <User className="h-5 w-5" /> },
-              ].map((item, index) => (
+              {SECTIONS.map((item) => (
                 <button
-                  key={item.name}
+                  key={item.id}
+                  onClick={() => setActiveSection(item.id)}
                   className={`flex items-center w-full px-3 py-2 text-left rounded-lg transition-colors ${
-                    index === 0 ? "bg-gold/10 text-gold" : "text-gray-300 hover:bg-gray-800 hover:text-white"
+                    activeSection === item.id
+                      ? "bg-gold/10 text-gold"
+                      : "text-gray-300 hover:bg-gray-800 hover:text-white"
                   }`}
                 >
                   {item.icon}
-                  <span className="ml-3">{item.name}</span>
-                  {index === 0 && <ChevronRight className="ml-auto h-4 w-4" />}
+                  <span className="ml-3">{t(item.name)}</span>
+                  {activeSection === item.id && <ChevronRight className="ml-auto h-4 w-4" />}
                 </button>
               ))}
             </nav>
           </div>
 
           <div className="space-y-6">
-            <Card className="bg-gray-900 border-gray-800">
-              <CardHeader>
-                <CardTitle>General Settings</CardTitle>
-                <CardDescription>Manage your app preferences</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Theme</Label>
-                    <div className="text-sm text-gray-400">Choose between dark and light mode</div>
-                  </div>
-                  <Tabs defaultValue="dark" value={theme} onValueChange={setTheme} className="w-[200px]">
-                    <TabsList className="grid grid-cols-2">
-                      <TabsTrigger value="dark" className="flex items-center gap-2">
-                        <Moon className="h-4 w-4" />
-                        <span>Dark</span>
-                      </TabsTrigger>
-                      <TabsTrigger value="light" className="flex items-center gap-2">
-                        <Sun className="h-4 w-4" />
-                        <span>Light</span>
-                      </TabsTrigger>
-                    </TabsList>
-                  </Tabs>
-                </div>
+            {activeSection === "general" && (
+              <>
+                <Card className="bg-gray-900 border-gray-800">
+                  <CardHeader>
+                    <CardTitle>{t("settings.general.title")}</CardTitle>
+                    <CardDescription>{t("settings.general.description")}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>{t("settings.theme")}</Label>
+                        <div className="text-sm text-gray-400">{t("settings.themeDescription")}</div>
+                      </div>
+                      <Tabs
+                        value={draft.theme}
+                        onValueChange={(value) => setDraft({ ...draft, theme: value === "light" ? "light" : "dark" })}
+                        className="w-[200px]"
+                      >
+                        <TabsList className="grid grid-cols-2">
+                          <TabsTrigger value="dark" className="flex items-center gap-2">
+                            <Moon className="h-4 w-4" />
+                            <span>{t("settings.theme.dark")}</span>
+                          </TabsTrigger>
+                          <TabsTrigger value="light" className="flex items-center gap-2">
+                            <Sun className="h-4 w-4" />
+                            <span>{t("settings.theme.light")}</span>
+                          </TabsTrigger>
+                        </TabsList>
+                      </Tabs>
+                    </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Language</Label>
-                    <div className="text-sm text-gray-400">Select your preferred language</div>
-                  </div>
-                  <Select defaultValue="en">
-                    <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
-                      <SelectValue placeholder="Select language" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-gray-800 border-gray-700">
-                      <SelectItem value="en">English</SelectItem>
-                      <SelectItem value="es">Español</SelectItem>
-                      <SelectItem value="fr">Français</SelectItem>
-                      <SelectItem value="de">Deutsch</SelectItem>
-                      <SelectItem value="ja">日本語</SelectItem>
-                      <SelectItem value="zh">中文</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>{t("settings.language")}</Label>
+                        <div className="text-sm text-gray-400">{t("settings.languageDescription")}</div>
+                      </div>
+                      <Select
+                        value={draft.language}
+                        onValueChange={(value) => {
+                          const language = LANGUAGES.find((option) => option.value === value)
+                          if (language) setDraft({ ...draft, language: language.value })
+                        }}
+                      >
+                        <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
+                          <SelectValue placeholder="Select language" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 border-gray-700">
+                          {LANGUAGES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Slippage Tolerance</Label>
-                    <div className="text-sm text-gray-400">Default slippage setting for swaps</div>
-                  </div>
-                  <Select value={slippageTolerance} onValueChange={setSlippageTolerance}>
-                    <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
-                      <SelectValue placeholder="Select slippage" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-gray-800 border-gray-700">
-                      <SelectItem value="0.5">0.5%</SelectItem>
-                      <SelectItem value="1.0">1.0%</SelectItem>
-                      <SelectItem value="2.0">2.0%</SelectItem>
-                      <SelectItem value="3.0">3.0%</SelectItem>
-                      <SelectItem value="custom">Custom</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>{t("settings.slippage")}</Label>
+                        <div className="text-sm text-gray-400">{t("settings.slippageDescription")}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {customSlippage && (
+                          <Input
+                            type="number"
+                            min={0}
+                            max={50}
+                            step={0.1}
+                            value={draft.slippageBps / 100}
+                            onChange={(e) =>
+                              setDraft({ ...draft, slippageBps: Math.round(Number(e.target.value) * 100) || 0 })
+                            }
+                            className="w-[100px] bg-gray-800 border-gray-700"
+                            aria-label="Slippage tolerance in percent"
+                          />
+                        )}
+                        <Select
+                          value={customSlippage ? "custom" : draft.slippageBps.toString()}
+                          onValueChange={(value) => {
+                            setCustomSlippage(value === "custom")
+                            if (value !== "custom") setDraft({ ...draft, slippageBps: Number(value) })
+                          }}
+                        >
+                          <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
+                            <SelectValue placeholder="Select slippage" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-gray-800 border-gray-700">
+                            {SLIPPAGE_PRESETS.map((bps) => (
+                              <SelectItem key={bps} value={bps.toString()}>
+                                {formatNumber(bps / 10000, { style: "percent", minimumFractionDigits: 1 })}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="custom">{t("common.custom")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label>Gas Price (Ethereum)</Label>
-                    <div className="text-sm text-gray-400">Set your preferred gas price strategy</div>
-                  </div>
-                  <Select value={gasPreference} onValueChange={setGasPreference}>
-                    <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
-                      <SelectValue placeholder="Select gas preference" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-gray-800 border-gray-700">
-                      <SelectItem value="slow">Slow (Cheaper)</SelectItem>
-                      <SelectItem value="standard">Standard</SelectItem>
-                      <SelectItem value="fast">Fast</SelectItem>
-                      <SelectItem value="custom">Custom</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </CardContent>
-            </Card>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>{t("settings.priorityFee")}</Label>
+                        <div className="text-sm text-gray-400">{t("settings.priorityFeeDescription")}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {draft.priorityFee.preset === "custom" && (
+                          <Input
+                            type="number"
+                            min={0}
+                            value={draft.priorityFee.customMicroLamports}
+                            onChange={(e) =>
+                              setDraft({
+                                ...draft,
+                                priorityFee: { ...draft.priorityFee, customMicroLamports: Number(e.target.value) || 0 },
+                              })
+                            }
+                            className="w-[140px] bg-gray-800 border-gray-700"
+                            aria-label="Compute unit price in micro-lamports"
+                            title="Compute unit price in micro-lamports"
+                          />
+                        )}
+                        <Select
+                          value={draft.priorityFee.preset}
+                          onValueChange={(value) =>
+                            isPriorityFeePreset(value) &&
+                            setDraft({ ...draft, priorityFee: { ...draft.priorityFee, preset: value } })
+                          }
+                        >
+                          <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
+                            <SelectValue placeholder="Select priority fee" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-gray-800 border-gray-700">
+                            {PRIORITY_FEE_PRESETS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {t(`settings.priorityFee.${option.value}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
 
-            <Card className="bg-gray-900 border-gray-800">
-              <CardHeader>
-                <CardTitle>Connected Wallets</CardTitle>
-                <CardDescription>Manage your connected blockchain wallets</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="p-4 border border-gray-800 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
-                        <span className="text-white font-bold">S</span>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>{t("settings.backendMode")}</Label>
+                        <div className="text-sm text-gray-400">
+                          {BACKEND_MODES.find((option) => option.value === backendMode)?.description}
+                        </div>
+                      </div>
+                      <Select
+                        value={backendMode}
+                        onValueChange={(value) => isBackendMode(value) && setBackendMode(value)}
+                      >
+                        <SelectTrigger className="w-[200px] bg-gray-800 border-gray-700">
+                          <SelectValue placeholder="Select backend mode" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 border-gray-700">
+                          {BACKEND_MODES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-gray-900 border-gray-800">
+                  <CardHeader>
+                    <CardTitle>{t("settings.backup.title")}</CardTitle>
+                    <CardDescription>
+                      {t("settings.backup.description", { scope: publicKey ? "wallet" : "browser" })}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-3">
+                    <Button variant="outline" className="border-gray-700" onClick={handleExport}>
+                      <Download className="mr-2 h-4 w-4" />
+                      {t("settings.backup.export")}
+                    </Button>
+                    <Button variant="outline" className="border-gray-700" onClick={() => fileInputRef.current?.click()}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      {t("settings.backup.import")}
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={handleImport}
+                    />
+                    <Button
+                      variant="outline"
+                      className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                      onClick={handleReset}
+                    >
+                      {t("settings.backup.reset")}
+                    </Button>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+
+            {activeSection === "wallet" && (
+              <Card className="bg-gray-900 border-gray-800">
+                <CardHeader>
+                  <CardTitle>{t("settings.wallets.title")}</CardTitle>
+                  <CardDescription>{t("settings.wallets.description")}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="p-4 border border-gray-800 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
+                          <span className="text-white font-bold">S</span>
+                        </div>
+                        <div>
+                          <h3 className="font-medium">Solana</h3>
+                          <p className="text-sm text-gray-400">
+                            {solanaConnected
+                              ? `${publicKey?.toString().slice(0, 6)}...${publicKey?.toString().slice(-4)}`
+                              : t("common.notConnected")}
+                          </p>
+                        </div>
                       </div>
                       <div>
-                        <h3 className="font-medium">Solana</h3>
-                        <p className="text-sm text-gray-400">
-                          {solanaConnected
-                            ? `${publicKey?.toString().slice(0, 6)}...${publicKey?.toString().slice(-4)}`
-                            : "Not connected"}
-                        </p>
+                        {solanaConnected ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                          >
+                            {t("common.disconnect")}
+                          </Button>
+                        ) : (
+                          <Button size="sm" className="bg-gradient-to-r from-purple-500 to-blue-500">
+                            {t("common.connect")}
+                          </Button>
+                        )}
                       </div>
                     </div>
-                    <div>
-                      {solanaConnected ? (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="border-red-500/30 text-red-500 hover:bg-red-500/10"
-                        >
-                          Disconnect
-                        </Button>
-                      ) : (
-                        <Button size="sm" className="bg-gradient-to-r from-purple-500 to-blue-500">
-                          Connect
-                        </Button>
-                      )}
-                    </div>
                   </div>
-                </div>
 
-                <div className="p-4 border border-gray-800 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full flex items-center justify-center">
-                        <span className="text-white font-bold">E</span>
+                  <div className="p-4 border border-gray-800 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full flex items-center justify-center">
+                          <span className="text-white font-bold">E</span>
+                        </div>
+                        <div>
+                          <h3 className="font-medium">Ethereum</h3>
+                          <p className="text-sm text-gray-400">
+                            {ethConnected ? `${account?.slice(0, 6)}...${account?.slice(-4)}` : t("common.notConnected")}
+                          </p>
+                        </div>
                       </div>
                       <div>
-                        <h3 className="font-medium">Ethereum</h3>
-                        <p className="text-sm text-gray-400">
-                          {ethConnected ? `${account?.slice(0, 6)}...${account?.slice(-4)}` : "Not connected"}
-                        </p>
+                        {ethConnected ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                          >
+                            {t("common.disconnect")}
+                          </Button>
+                        ) : (
+                          <Button size="sm" className="bg-gradient-to-r from-blue-500 to-indigo-500">
+                            {t("common.connect")}
+                          </Button>
+                        )}
                       </div>
                     </div>
-                    <div>
-                      {ethConnected ? (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="border-red-500/30 text-red-500 hover:bg-red-500/10"
-                        >
-                          Disconnect
-                        </Button>
-                      ) : (
-                        <Button size="sm" className="bg-gradient-to-r from-blue-500 to-indigo-500">
-                          Connect
-                        </Button>
-                      )}
-                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
 
-            <Card className="bg-gray-900 border-gray-800">
-              <CardHeader>
-                <CardTitle>Notifications</CardTitle>
-                <CardDescription>Manage your notification preferences</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {[
-                  {
-                    id: "transactions",
-                    label: "Transaction Updates",
-                    description: "Get notified about your transaction status",
-                  },
-                  {
-                    id: "priceAlerts",
-                    label: "Price Alerts",
-                    description: "Receive alerts when token prices change significantly",
-                  },
-                  {
-                    id: "newPools",
-                    label: "New Pools & Farms",
-                    description: "Be the first to know about new liquidity opportunities",
-                  },
-                  {
-                    id: "marketing",
-                    label: "Marketing & Promotions",
-                    description: "Stay updated with Goldium news and offers",
-                  },
-                ].map((item) => (
-                  <div key={item.id} className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label htmlFor={item.id}>{item.label}</Label>
-                      <div className="text-sm text-gray-400">{item.description}</div>
+            {activeSection === "network" && <RpcEndpointSettings />}
+
+            {activeSection === "notifications" && (
+              <Card className="bg-gray-900 border-gray-800">
+                <CardHeader>
+                  <CardTitle>{t("settings.notifications.title")}</CardTitle>
+                  <CardDescription>{t("settings.notifications.description")}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {NOTIFICATION_OPTIONS.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor={item.id}>{t(item.label)}</Label>
+                        <div className="text-sm text-gray-400">{t(item.description)}</div>
+                      </div>
+                      <Switch
+                        id={item.id}
+                        checked={notifications[item.id]}
+                        onCheckedChange={(checked) => setNotifications({ ...notifications, [item.id]: checked })}
+                      />
                     </div>
-                    <Switch
-                      id={item.id}
-                      checked={notifications[item.id as keyof typeof notifications]}
-                      onCheckedChange={(checked) => setNotifications({ ...notifications, [item.id]: checked })}
-                    />
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {activeSection === "profile" && (
+              <Card className="bg-gray-900 border-gray-800">
+                <CardHeader>
+                  <CardTitle>{t("settings.section.profile")}</CardTitle>
+                  <CardDescription>{t("settings.profile.description")}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button asChild variant="outline" className="border-gray-700">
+                    <Link href="/profile">{t("settings.profile.open")}</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {(activeSection === "security" || activeSection === "paymentMethods") && (
+              <Card className="bg-gray-900 border-gray-800">
+                <CardHeader>
+                  <CardTitle>
+                    {t(activeSection === "security" ? "settings.section.security" : "settings.section.paymentMethods")}
+                  </CardTitle>
+                  <CardDescription>{t("settings.emptySection")}</CardDescription>
+                </CardHeader>
+              </Card>
+            )}
 
-            <div className="flex justify-end gap-3">
-              <Button variant="outline" className="border-gray-700 text-gray-300 hover:bg-gray-800">
-                Cancel
-              </Button>
-              <Button className="bg-gradient-to-r from-amber-600 to-yellow-500 hover:from-amber-500 hover:to-yellow-400 transition-all">
-                Save Changes
-              </Button>
-            </div>
+            {(activeSection === "general" || activeSection === "notifications") && (
+              <div className="flex justify-end gap-3">
+                <Button
+                  variant="outline"
+                  className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                  onClick={() => setDraft(settings)}
+                >
+                  {t("common.cancel")}
+                </Button>
+                <Button
+                  className="bg-gradient-to-r from-amber-600 to-yellow-500 hover:from-amber-500 hover:to-yellow-400 transition-all"
+                  onClick={saveChanges}
+                >
+                  {t("common.saveChanges")}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
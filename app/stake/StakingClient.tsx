@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react"
 import dynamic from "next/dynamic"
 import { useToast } from "@/components/ui/use-toast"
+import { useStakingClient } from "@/hooks/useStaking"
 
 // Dynamically import the StakingInterface component with SSR disabled
 const StakingInterface = dynamic(() => import("@/components/StakingInterface"), {
@@ -17,22 +18,39 @@ const StakingInterface = dynamic(() => import("@/components/StakingInterface"),
 export default function StakingClient() {
   const [isMounted, setIsMounted] = useState(false)
   const { toast } = useToast()
+  const stakingClient = useStakingClient()
 
   useEffect(() => {
     // Only run on client-side
     if (typeof window === "undefined") return
 
-    try {
-      setIsMounted(true)
-    } catch (error) {
-      console.error("Error initializing StakingClient:", error)
-      toast({
-        title: "Error",
-        description: "Failed to initialize staking interface. Please refresh the page.",
-        variant: "destructive",
+    setIsMounted(true)
+  }, [])
+
+  // Warn when the staking pool hasn't been deployed on the selected network
+  useEffect(() => {
+    if (!isMounted) return
+
+    stakingClient
+      .getPoolInfo()
+      .then((poolInfo) => {
+        if (!poolInfo) {
+          toast({
+            title: "Staking unavailable",
+            description: `The GOLD staking pool is not initialized on ${stakingClient.network}.`,
+            variant: "destructive",
+          })
+        }
+      })
+      .catch((error) => {
+        console.error("Error initializing StakingClient:", error)
+        toast({
+          title: "Error",
+          description: "Failed to initialize staking interface. Please refresh the page.",
+          variant: "destructive",
+        })
       })
-    }
-  }, [toast])
+  }, [isMounted, stakingClient, toast])
 
   // Don't render anything until mounted on client
   if (!isMounted) {
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/use-toast"
+import { useAddressBook } from "@/hooks/useAddressBook"
+
+// The connected wallet's saved recipients, with adding, relabelling and removing
+export default function AddressBook() {
+  const { t } = useLanguage()
+  const { toast } = useToast()
+  const { entries, saveAddress, removeAddress } = useAddressBook()
+  const [address, setAddress] = useState("")
+  const [label, setLabel] = useState("")
+
+  const handleSave = () => {
+    try {
+      saveAddress(address, label)
+      setAddress("")
+      setLabel("")
+      toast({ title: t("addressBook.saved") })
+    } catch (error: any) {
+      toast({
+        title: t("addressBook.saveFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle>{t("addressBook.title")}</CardTitle>
+        <CardDescription>{t("addressBook.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("addressBook.empty")}</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div
+                key={entry.address}
+                className="flex items-center justify-between gap-3 p-3 border border-gray-800 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.label}</div>
+                  <div className="text-xs text-gray-500 truncate">{entry.address}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-400 hover:text-red-500"
+                  aria-label={t("addressBook.remove")}
+                  onClick={() => removeAddress(entry.address)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={t("addressBook.address")}
+            className="bg-gray-800 border-gray-700"
+          />
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={t("addressBook.labelPlaceholder")}
+              className="bg-gray-800 border-gray-700"
+            />
+            <Button
+              className="bg-gradient-to-r from-amber-600 to-yellow-500 hover:from-amber-500 hover:to-yellow-400 shrink-0"
+              disabled={!address.trim() || !label.trim()}
+              onClick={handleSave}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t("addressBook.add")}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Download, ExternalLink, Loader2, Upload } from "lucide-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { getGoldTokenForNetwork } from "@/constants/tokens"
+import { useAirdrop } from "@/hooks/useAirdrop"
+import { useSendableTokens } from "@/hooks/useSendableTokens"
+import { useWalletBalance } from "@/hooks/useWalletBalance"
+import { type AirdropRowStatus, summarizeAirdrop, toAirdropResultCsv } from "@/services/airdrop"
+import { getExplorerUrl } from "@/utils/explorer"
+
+const STATUS_CLASSES: Record<AirdropRowStatus, string> = {
+  ready: "bg-gray-500/10 text-gray-400",
+  invalid: "bg-red-500/10 text-red-500",
+  sending: "bg-yellow-500/10 text-yellow-500",
+  sent: "bg-green-500/10 text-green-500",
+  failed: "bg-red-500/10 text-red-500",
+}
+
+// Send a token to every wallet in a CSV of address,amount rows, and export the results
+export default function AirdropCard() {
+  const { connected } = useWallet()
+  const { network } = useNetwork()
+  const { t, formatTokenAmount } = useLanguage()
+  const { toast } = useToast()
+  const { balances, getBalance } = useWalletBalance()
+  const sendableTokens = useSendableTokens(balances)
+  const { rows, loadCsv, clear, run, isRunning } = useAirdrop()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState("")
+  const [mint, setMint] = useState(getGoldTokenForNetwork(network).mint)
+
+  const token = sendableTokens.find((candidate) => candidate.mint === mint) ?? sendableTokens[0]
+  const balance = token ? getBalance(token) : 0
+  const summary = summarizeAirdrop(rows)
+  const insufficientBalance = summary.pendingAmount > balance
+  const canRun = connected && !!token && summary.pending > 0 && !insufficientBalance && !isRunning
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      loadCsv(await file.text())
+      setFileName(file.name)
+    } catch (error: any) {
+      toast({
+        title: t("airdrop.loadFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRun = async () => {
+    if (!token) return
+    try {
+      await run(token)
+    } catch (error: any) {
+      console.error("Error running airdrop:", error)
+      toast({
+        title: t("airdrop.failedTitle"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([toAirdropResultCsv(rows)], { type: "text/csv" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${fileName.replace(/\.csv$/i, "") || "airdrop"}-results.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleClear = () => {
+    clear()
+    setFileName("")
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
+          {t("airdrop.title")}
+        </CardTitle>
+        <CardDescription>{t("airdrop.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>{t("send.token")}</Label>
+            <Select value={token?.mint ?? ""} onValueChange={setMint} disabled={isRunning}>
+              <SelectTrigger className="bg-gray-800 border-gray-700">
+                <SelectValue placeholder={t("send.noTokens")} />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                {sendableTokens.map((candidate) => (
+                  <SelectItem key={candidate.mint} value={candidate.mint}>
+                    {candidate.symbol} · {formatTokenAmount(getBalance(candidate))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("airdrop.file")}</Label>
+            <Button
+              variant="outline"
+              className="w-full justify-start border-gray-700"
+              disabled={isRunning}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              <span className="truncate">{fileName || t("airdrop.upload")}</span>
+            </Button>
+            <input ref={fileInputRef} type="file" accept="text/csv,.csv" className="hidden" onChange={handleUpload} />
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">{t("airdrop.format")}</p>
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-400">
+              <span>
+                {t("airdrop.pending", {
+                  count: summary.pending,
+                  amount: formatTokenAmount(summary.pendingAmount, token?.symbol),
+                })}
+              </span>
+              <span className="text-green-500">{t("airdrop.sent", { count: summary.sent })}</span>
+              {summary.failed > 0 && (
+                <span className="text-red-500">{t("airdrop.failed", { count: summary.failed })}</span>
+              )}
+              {summary.invalid > 0 && (
+                <span className="text-red-500">{t("airdrop.invalid", { count: summary.invalid })}</span>
+              )}
+            </div>
+            {insufficientBalance && <p className="text-sm text-red-500">{t("common.insufficientBalance")}</p>}
+
+            <div className="max-h-96 overflow-auto rounded-lg border border-gray-800">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800">
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>{t("send.recipient")}</TableHead>
+                    <TableHead className="text-right">{t("common.amount")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line} className="border-gray-800">
+                      <TableCell className="text-gray-500">{row.line}</TableCell>
+                      <TableCell className="font-mono text-xs break-all">{row.address}</TableCell>
+                      <TableCell className="text-right">
+                        {Number.isFinite(row.amount) ? formatTokenAmount(row.amount) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_CLASSES[row.status]}`}>
+                            {t(`airdrop.status.${row.status}`)}
+                          </span>
+                          {row.signature && (
+                            <a
+                              href={getExplorerUrl("tx", row.signature, network)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-1 text-gray-400 hover:text-white"
+                              aria-label={t("airdrop.viewTransaction")}
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </div>
+                        {row.error && <div className="text-xs mt-1 text-red-500">{row.error}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                className="flex-1 bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
+                disabled={!canRun}
+                onClick={handleRun}
+              >
+                {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isRunning
+                  ? t("send.sending")
+                  : !connected
+                    ? t("common.connectWallet")
+                    : summary.sent > 0 || summary.failed > 0
+                      ? t("airdrop.resume")
+                      : t("airdrop.start")}
+              </Button>
+              <Button variant="outline" className="border-gray-700" disabled={isRunning} onClick={handleDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                {t("airdrop.download")}
+              </Button>
+              <Button variant="ghost" className="text-gray-400" disabled={isRunning} onClick={handleClear}>
+                {t("common.clear")}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,10 +2,14 @@
 
 import { useEffect, useState } from "react"
 import { safeAddEventListener, onDOMReady } from "@/utils/dom-safe"
+import { useAddressRegistryCheck } from "@/hooks/useAddressRegistryCheck"
 
 export default function ClientInitializer() {
   const [isInitialized, setIsInitialized] = useState(false)
 
+  // Validate the address registry for the selected network
+  useAddressRegistryCheck()
+
   useEffect(() => {
     // Check if we're in the browser environment
     if (typeof window === "undefined") return
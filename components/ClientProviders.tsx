@@ -6,16 +6,28 @@ import { ThemeProvider } from "@/components/providers/ThemeProvider"
 import { WalletContextProvider } from "@/components/providers/WalletContextProvider"
 import { WalletConnectionProvider } from "@/components/providers/WalletConnectionProvider"
 import { NetworkContextProvider } from "@/components/providers/NetworkContextProvider"
+import { BackendContextProvider } from "@/components/providers/BackendContextProvider"
+import { TransactionPreviewProvider } from "@/components/providers/TransactionPreviewProvider"
 import ClientErrorBoundary from "@/components/ClientErrorBoundary"
+import { ConnectionStatusBar } from "@/components/ConnectionStatusBar"
+import { Toaster } from "@/components/ui/toaster"
 
 export function ClientProviders({ children }: { children: React.ReactNode }) {
   return (
     <ClientErrorBoundary>
       <ThemeProvider>
         <NetworkContextProvider>
-          <WalletContextProvider>
-            <WalletConnectionProvider>{children}</WalletConnectionProvider>
-          </WalletContextProvider>
+          <BackendContextProvider>
+            <WalletContextProvider>
+              <WalletConnectionProvider>
+                <TransactionPreviewProvider>
+                  <ConnectionStatusBar />
+                  {children}
+                  <Toaster />
+                </TransactionPreviewProvider>
+              </WalletConnectionProvider>
+            </WalletContextProvider>
+          </BackendContextProvider>
         </NetworkContextProvider>
       </ThemeProvider>
     </ClientErrorBoundary>
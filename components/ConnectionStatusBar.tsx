@@ -1,40 +1,51 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useWallet } from "@solana/wallet-adapter-react"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
 import { useWalletConnection } from "@/components/providers/WalletConnectionProvider"
-import { ConnectionStatusIndicator } from "@/components/ConnectionStatusIndicator"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import ConnectionStatusIndicator from "@/components/ConnectionStatusIndicator"
 import { AlertCircle, X } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { detectBrowser } from "@/utils/browser-detection"
 
 export function ConnectionStatusBar() {
-  const { status, error, isBrowserSupported } = useWalletConnection()
-  const { network } = useNetwork()
-  const { connected } = useWallet()
+  const { error } = useWalletConnection()
+  const { network, endpoints, activeEndpoint, endpointHealth, rpcStatus, lastFailover } = useNetwork()
+  const { t } = useLanguage()
   const [isVisible, setIsVisible] = useState(false)
   const [isDismissed, setIsDismissed] = useState(false)
   const browserInfo = detectBrowser()
+  const isBrowserSupported = browserInfo.isSupported
+  const rpcProblem = rpcStatus === "degraded" || rpcStatus === "down"
 
-  // Show the bar if there's an error or browser compatibility issue
+  // Show the bar if there's an error, an RPC problem or a browser compatibility issue
   useEffect(() => {
     if (isDismissed) return
 
-    if (error || !isBrowserSupported) {
+    if (error || rpcProblem || !isBrowserSupported) {
       setIsVisible(true)
     } else {
       setIsVisible(false)
     }
-  }, [error, isBrowserSupported, isDismissed])
+  }, [error, rpcProblem, isBrowserSupported, isDismissed])
 
-  // Reset dismissed state when error changes
+  // Reset dismissed state when the problem changes
   useEffect(() => {
     setIsDismissed(false)
-  }, [error])
+  }, [error, rpcStatus, lastFailover])
 
   if (!isVisible) return null
 
+  const labelOf = (url: string) => endpoints.find((endpoint) => endpoint.url === url)?.label ?? url
+  const activeHealth = endpointHealth[activeEndpoint.url]
+
+  const rpcMessage = () => {
+    if (rpcStatus === "down") return t("network.status.down", { network })
+    if (lastFailover) return t("network.status.failover", { from: labelOf(lastFailover.from), to: labelOf(lastFailover.to) })
+    return t("network.status.unhealthy", { endpoint: activeEndpoint.label, error: activeHealth?.error ?? "" })
+  }
+
   return (
     <AnimatePresence>
       <motion.div
@@ -51,13 +62,20 @@ export function ConnectionStatusBar() {
 
               {error ? (
                 <span className="text-sm text-amber-500">{error.message}</span>
-              ) : !isBrowserSupported ? (
+              ) : rpcProblem ? (
                 <span className="text-sm text-amber-500">
-                  {browserInfo.name} may have limited wallet compatibility. For the best experience, please use Chrome,
-                  Firefox, or Brave.
+                  {rpcMessage()}
+                  {activeHealth?.healthy && activeHealth.latencyMs !== null && (
+                    <span className="ml-2 text-xs text-gray-400">
+                      {t("network.rpc.latency", { ms: activeHealth.latencyMs })} ·{" "}
+                      {t("network.rpc.slotLag", { lag: activeHealth.slotLag ?? 0 })}
+                    </span>
+                  )}
                 </span>
               ) : (
-                <span className="text-sm text-amber-500">Connected to {network} network</span>
+                <span className="text-sm text-amber-500">
+                  {t("network.status.browser", { browser: browserInfo.name })}
+                </span>
               )}
             </div>
 
@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from "react"
 import { Wifi, WifiOff, AlertCircle, Check, Loader2 } from "lucide-react"
-import { useWallet } from "@/components/providers/WalletContextProvider"
+import { useWalletConnection } from "@/components/providers/WalletConnectionProvider"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
 import { cn } from "@/lib/utils"
 
 interface ConnectionStatusIndicatorProps {
@@ -16,10 +18,14 @@ export default function ConnectionStatusIndicator({
   showLabel = false,
   size = "md",
 }: ConnectionStatusIndicatorProps) {
-  const { status, error } = useWallet()
-  const [networkLatency, setNetworkLatency] = useState<number | null>(null)
+  const { status } = useWalletConnection()
+  const { activeEndpoint, endpointHealth } = useNetwork()
+  const { t } = useLanguage()
   const [networkStatus, setNetworkStatus] = useState<"online" | "offline">("online")
 
+  // Latency of the RPC endpoint in use, from the network provider's health checks
+  const networkLatency = endpointHealth[activeEndpoint.url]?.latencyMs ?? null
+
   // Check network status
   useEffect(() => {
     const handleOnline = () => setNetworkStatus("online")
@@ -32,35 +38,10 @@ export default function ConnectionStatusIndicator({
     window.addEventListener("online", handleOnline)
     window.addEventListener("offline", handleOffline)
 
-    // Check network latency
-    const checkLatency = async () => {
-      try {
-        const start = Date.now()
-        await fetch("https://api.mainnet-beta.solana.com", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: 1,
-            method: "getHealth",
-          }),
-        })
-        const latency = Date.now() - start
-        setNetworkLatency(latency)
-      } catch (err) {
-        setNetworkLatency(null)
-      }
-    }
-
-    // Check latency initially and every 30 seconds
-    checkLatency()
-    const interval = setInterval(checkLatency, 30000)
-
     // Clean up
     return () => {
       window.removeEventListener("online", handleOnline)
       window.removeEventListener("offline", handleOffline)
-      clearInterval(interval)
     }
   }, [])
 
@@ -71,7 +52,7 @@ export default function ConnectionStatusIndicator({
         icon: (
           <WifiOff className={cn("text-red-500", size === "sm" ? "h-3 w-3" : size === "lg" ? "h-5 w-5" : "h-4 w-4")} />
         ),
-        label: "Offline",
+        label: t("network.status.offline"),
         color: "text-red-500",
         bgColor: "bg-red-500/10",
         borderColor: "border-red-500/20",
@@ -86,7 +67,7 @@ export default function ConnectionStatusIndicator({
               className={cn("text-green-500", size === "sm" ? "h-3 w-3" : size === "lg" ? "h-5 w-5" : "h-4 w-4")}
             />
           ),
-          label: "Connected",
+          label: t("network.status.connected"),
           color: "text-green-500",
           bgColor: "bg-green-500/10",
           borderColor: "border-green-500/20",
@@ -101,7 +82,7 @@ export default function ConnectionStatusIndicator({
               )}
             />
           ),
-          label: "Connecting",
+          label: t("network.status.connecting"),
           color: "text-amber-500",
           bgColor: "bg-amber-500/10",
           borderColor: "border-amber-500/20",
@@ -113,7 +94,7 @@ export default function ConnectionStatusIndicator({
               className={cn("text-red-500", size === "sm" ? "h-3 w-3" : size === "lg" ? "h-5 w-5" : "h-4 w-4")}
             />
           ),
-          label: "Error",
+          label: t("network.status.error"),
           color: "text-red-500",
           bgColor: "bg-red-500/10",
           borderColor: "border-red-500/20",
@@ -123,7 +104,7 @@ export default function ConnectionStatusIndicator({
           icon: (
             <Wifi className={cn("text-gray-400", size === "sm" ? "h-3 w-3" : size === "lg" ? "h-5 w-5" : "h-4 w-4")} />
           ),
-          label: "Disconnected",
+          label: t("network.status.disconnected"),
           color: "text-gray-400",
           bgColor: "bg-gray-500/10",
           borderColor: "border-gray-500/20",
@@ -136,12 +117,12 @@ export default function ConnectionStatusIndicator({
   return (
     <div
       className={cn("flex items-center gap-1.5 rounded-full px-2 py-1 border", bgColor, borderColor, className)}
-      title={`Status: ${label}${networkLatency ? ` (${networkLatency}ms)` : ""}`}
+      title={`${label} · ${activeEndpoint.label}${networkLatency !== null ? ` (${networkLatency}ms)` : ""}`}
     >
       {icon}
       {showLabel && <span className={cn("text-xs font-medium", color)}>{label}</span>}
-      {showLabel && networkLatency && status === "connected" && (
-        <span className="text-xs text-gray-400">{networkLatency}ms</span>
+      {showLabel && networkLatency !== null && status === "connected" && (
+        <span className="text-xs text-gray-400">{t("network.rpc.latency", { ms: networkLatency })}</span>
       )}
     </div>
   )
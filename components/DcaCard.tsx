@@ -0,0 +1,374 @@
+"use client"
+
+import { useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { ExternalLink, Loader2 } from "lucide-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/components/ui/use-toast"
+import { AVAILABLE_TOKENS, getGoldTokenForNetwork } from "@/constants/tokens"
+import { useDca } from "@/hooks/useDca"
+import { useWalletBalance } from "@/hooks/useWalletBalance"
+import {
+  DCA_INTERVAL_HOURS,
+  type DcaPlan,
+  type DcaPlanStatus,
+  MAX_DCA_FAILURES,
+  MAX_DCA_ORDERS,
+  getDcaOrderAmount,
+  isDcaPlanFailing,
+  summarizeDcaPlan,
+} from "@/services/dca"
+import { getExplorerUrl } from "@/utils/explorer"
+
+const STATUS_CLASSES: Record<DcaPlanStatus, string> = {
+  active: "bg-yellow-500/10 text-yellow-500",
+  paused: "bg-blue-500/10 text-blue-400",
+  completed: "bg-green-500/10 text-green-500",
+  cancelled: "bg-gray-500/10 text-gray-400",
+}
+
+// Split a swap into equal orders at a fixed interval, and follow each plan's progress and average price
+export default function DcaCard() {
+  const { connected } = useWallet()
+  const { network } = useNetwork()
+  const { t, formatTokenAmount, formatDate } = useLanguage()
+  const { toast } = useToast()
+  const { getBalance } = useWalletBalance()
+  const { plans, createPlan, executeNow, pausePlan, resumePlan, cancelPlan, clearEndedPlans, isOrderDue, isExecuting } =
+    useDca()
+
+  const gold = getGoldTokenForNetwork(network)
+  const tokens = AVAILABLE_TOKENS.map((token) => (token.symbol === gold.symbol ? gold : token))
+  const [inputSymbol, setInputSymbol] = useState(tokens[0].symbol)
+  const [outputSymbol, setOutputSymbol] = useState(gold.symbol)
+  const [totalAmount, setTotalAmount] = useState("")
+  const [orderCount, setOrderCount] = useState("10")
+  const [intervalHours, setIntervalHours] = useState(DCA_INTERVAL_HOURS[2])
+  const [autoExecute, setAutoExecute] = useState(true)
+
+  const inputToken = tokens.find((token) => token.symbol === inputSymbol) ?? tokens[0]
+  const outputToken = tokens.find((token) => token.symbol === outputSymbol) ?? gold
+  const balance = getBalance(inputToken)
+  const parsedAmount = Number.parseFloat(totalAmount)
+  const parsedCount = Number.parseInt(orderCount, 10)
+  const insufficientBalance = parsedAmount > balance
+  const validCount = parsedCount >= 2 && parsedCount <= MAX_DCA_ORDERS
+  const canCreate =
+    connected && parsedAmount > 0 && validCount && !insufficientBalance && inputToken.mint !== outputToken.mint
+
+  const handleCreate = () => {
+    try {
+      createPlan({
+        inputToken,
+        outputToken,
+        totalAmount: parsedAmount,
+        orderCount: parsedCount,
+        interval: intervalHours * 60 * 60 * 1000,
+        autoExecute,
+      })
+      setTotalAmount("")
+      toast({ title: t("dca.createdTitle") })
+    } catch (error: any) {
+      toast({
+        title: t("dca.createFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Pausing, resuming and cancelling throw when the plan changed status in the meantime
+  const handleAction = (action: (id: string) => unknown, plan: DcaPlan) => {
+    try {
+      action(plan.id)
+    } catch (error: any) {
+      toast({
+        title: t("dca.updateFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const formatInterval = (hours: number) =>
+    hours < 24 ? t("dca.everyHours", { count: hours }) : t("dca.everyDays", { count: hours / 24 })
+
+  const renderPlan = (plan: DcaPlan) => {
+    const summary = summarizeDcaPlan(plan)
+    const lastSignature = [...plan.fills].reverse().find((fill) => fill.signature)?.signature
+    const executing = isExecuting(plan.id)
+    const due = isOrderDue(plan)
+
+    return (
+      <div key={plan.id} className="rounded-lg border border-gray-800 p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="font-medium">
+              {t("dca.planSummary", {
+                input: formatTokenAmount(plan.totalAmount, plan.inputToken.symbol),
+                output: plan.outputToken.symbol,
+              })}
+            </div>
+            <div className="text-xs text-gray-500">
+              {t("dca.planSchedule", {
+                amount: formatTokenAmount(getDcaOrderAmount(plan), plan.inputToken.symbol),
+                interval: formatInterval(plan.interval / (60 * 60 * 1000)),
+              })}
+            </div>
+          </div>
+          <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_CLASSES[plan.status]}`}>
+            {t(`dca.status.${plan.status}`)}
+          </span>
+        </div>
+
+        <div className="space-y-1">
+          <Progress value={summary.progress * 100} className="h-2" />
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>{t("dca.progress", { filled: summary.filled, total: plan.orderCount })}</span>
+            {plan.status === "active" && (
+              <span>{due ? t("dca.orderDue") : t("dca.nextOrder", { date: formatDate(plan.nextOrderAt) })}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <div className="text-xs text-gray-500">{t("dca.spent")}</div>
+            <div>{formatTokenAmount(summary.spent, plan.inputToken.symbol)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">{t("dca.received")}</div>
+            <div>{formatTokenAmount(summary.received, plan.outputToken.symbol)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">{t("dca.averagePrice")}</div>
+            <div>
+              {summary.averagePrice === null
+                ? "—"
+                : t("dca.averagePriceValue", {
+                    price: formatTokenAmount(summary.averagePrice, plan.outputToken.symbol, 6),
+                    symbol: plan.inputToken.symbol,
+                  })}
+            </div>
+          </div>
+        </div>
+
+        {summary.lastError && plan.status !== "completed" && (
+          <p className="text-xs text-red-500">{t("dca.lastError", { error: summary.lastError })}</p>
+        )}
+        {isDcaPlanFailing(plan) && (
+          <p className="text-xs text-red-500">{t("dca.pausedAfterFailures", { count: MAX_DCA_FAILURES })}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {due && (
+            <Button
+              size="sm"
+              className="bg-amber-500 hover:bg-amber-600 text-black"
+              disabled={executing}
+              onClick={() => executeNow(plan.id)}
+            >
+              {executing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {plan.autoExecute ? t("dca.executeNow") : t("dca.signOrder")}
+            </Button>
+          )}
+          {plan.status === "active" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-gray-700"
+              onClick={() => handleAction(pausePlan, plan)}
+            >
+              {t("dca.pause")}
+            </Button>
+          )}
+          {plan.status === "paused" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-gray-700"
+              onClick={() => handleAction(resumePlan, plan)}
+            >
+              {t("dca.resume")}
+            </Button>
+          )}
+          {(plan.status === "active" || plan.status === "paused") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-400"
+              disabled={executing}
+              onClick={() => handleAction(cancelPlan, plan)}
+            >
+              {t("dca.cancel")}
+            </Button>
+          )}
+          {lastSignature && (
+            <a
+              href={getExplorerUrl("tx", lastSignature, network)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-auto inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+            >
+              {t("dca.lastTransaction")}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg">{t("dca.title")}</CardTitle>
+        <CardDescription>{t("dca.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t("dca.inputToken")}</Label>
+              <Select value={inputToken.symbol} onValueChange={setInputSymbol}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {tokens
+                    .filter((token) => token.symbol !== outputToken.symbol)
+                    .map((token) => (
+                      <SelectItem key={token.symbol} value={token.symbol}>
+                        {token.symbol}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("dca.outputToken")}</Label>
+              <Select value={outputToken.symbol} onValueChange={setOutputSymbol}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {tokens
+                    .filter((token) => token.symbol !== inputToken.symbol)
+                    .map((token) => (
+                      <SelectItem key={token.symbol} value={token.symbol}>
+                        {token.symbol}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label htmlFor="dca-amount">{t("dca.totalAmount", { symbol: inputToken.symbol })}</Label>
+                <span className="text-xs text-gray-500">
+                  {t("common.balance", { amount: formatTokenAmount(balance) })}
+                </span>
+              </div>
+              <Input
+                id="dca-amount"
+                type="number"
+                min="0"
+                placeholder="0.00"
+                value={totalAmount}
+                onChange={(event) => setTotalAmount(event.target.value)}
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dca-orders">{t("dca.orderCount")}</Label>
+              <Input
+                id="dca-orders"
+                type="number"
+                min="2"
+                max={MAX_DCA_ORDERS}
+                step="1"
+                value={orderCount}
+                onChange={(event) => setOrderCount(event.target.value)}
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("dca.interval")}</Label>
+              <Select value={String(intervalHours)} onValueChange={(value) => setIntervalHours(Number(value))}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {DCA_INTERVAL_HOURS.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>
+                      {formatInterval(hours)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2 pt-7">
+                <Switch id="dca-auto-execute" checked={autoExecute} onCheckedChange={setAutoExecute} />
+                <Label htmlFor="dca-auto-execute">{t("dca.autoExecute")}</Label>
+              </div>
+            </div>
+          </div>
+
+          {parsedAmount > 0 && validCount && (
+            <p className="text-sm text-gray-400">
+              {t("dca.hint", {
+                count: parsedCount,
+                amount: formatTokenAmount(parsedAmount / parsedCount, inputToken.symbol),
+                output: outputToken.symbol,
+                interval: formatInterval(intervalHours),
+              })}
+            </p>
+          )}
+          {orderCount !== "" && !validCount && (
+            <p className="text-sm text-red-500">{t("dca.invalidOrderCount", { max: MAX_DCA_ORDERS })}</p>
+          )}
+          {insufficientBalance && <p className="text-sm text-red-500">{t("common.insufficientBalance")}</p>}
+
+          <Button
+            className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
+            disabled={!canCreate}
+            onClick={handleCreate}
+          >
+            {connected ? t("dca.create") : t("common.connectWallet")}
+          </Button>
+          <p className="text-xs text-gray-500">{autoExecute ? t("dca.keepOpenAuto") : t("dca.keepOpenManual")}</p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-medium">{t("dca.plans", { count: plans.length })}</h3>
+            {plans.some((plan) => plan.status === "completed" || plan.status === "cancelled") && (
+              <Button variant="ghost" size="sm" className="text-gray-400" onClick={clearEndedPlans}>
+                {t("dca.clearEnded")}
+              </Button>
+            )}
+          </div>
+          {plans.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">{t("dca.empty")}</p>
+          ) : (
+            <div className="max-h-[32rem] overflow-auto space-y-3">{plans.map(renderPlan)}</div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
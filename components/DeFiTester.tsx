@@ -1,22 +1,15 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
 import { useTheme } from "@/components/providers/WalletContextProvider"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
-import {
-  testSwap,
-  testLiquidityPool,
-  testStaking,
-  testBridge,
-  testFaucet,
-  initializeTestEnvironment,
-  resetTestEnvironment,
-  getUserBalances,
-} from "@/utils/testing-utils"
+import { getSimulatorBackend } from "@/services/backends"
+import type { LedgerSnapshot } from "@/utils/ledger-simulator"
+import { createDefiScenario, runScenario, type ScenarioStepResult } from "@/utils/testing-utils"
 
 export default function DeFiTester() {
   const { publicKey, connected } = useWallet()
@@ -26,23 +19,27 @@ export default function DeFiTester() {
   const isDarkTheme = theme === "dark"
 
   const [isLoading, setIsLoading] = useState(false)
-  const [testResults, setTestResults] = useState<Array<{ feature: string; success: boolean; message: string }>>([])
+  const [testResults, setTestResults] = useState<ScenarioStepResult[]>([])
   const [balances, setBalances] = useState<Record<string, number>>({})
 
-  // Initialize test environment
-  useEffect(() => {
-    if (connected && publicKey) {
-      initializeTestEnvironment(publicKey.toString())
-      updateBalances()
-    }
-  }, [connected, publicKey])
+  // Tests run against the simulator ledger for the selected network
+  const ledger = getSimulatorBackend(network).ledger
+  const initialSnapshotRef = useRef<LedgerSnapshot | null>(null)
 
   // Update balances
-  const updateBalances = () => {
+  const updateBalances = useCallback(() => {
     if (connected && publicKey) {
-      setBalances(getUserBalances(publicKey.toString()))
+      ledger.openWallet(publicKey.toString())
+      setBalances(ledger.getBalances(publicKey.toString()))
     }
-  }
+  }, [connected, publicKey, ledger])
+
+  // Remember the ledger as we found it so it can be reset
+  useEffect(() => {
+    initialSnapshotRef.current = ledger.snapshot()
+    setTestResults([])
+    updateBalances()
+  }, [ledger, updateBalances])
 
   // Run all tests
   const runAllTests = async () => {
@@ -59,72 +56,15 @@ export default function DeFiTester() {
     setTestResults([])
 
     try {
-      // Test swap
-      const swapResult = await testSwap(publicKey.toString(), "GOLD", "USDC", 10)
-      setTestResults((prev) => [...prev, { feature: "Swap", success: swapResult.success, message: swapResult.message }])
-
-      // Test liquidity pool
-      const addLiquidityResult = await testLiquidityPool(publicKey.toString(), "add", 10)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Add Liquidity", success: addLiquidityResult.success, message: addLiquidityResult.message },
-      ])
-
-      const claimFeesResult = await testLiquidityPool(publicKey.toString(), "claim")
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Claim Fees", success: claimFeesResult.success, message: claimFeesResult.message },
-      ])
-
-      const removeLiquidityResult = await testLiquidityPool(publicKey.toString(), "remove", 5)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Remove Liquidity", success: removeLiquidityResult.success, message: removeLiquidityResult.message },
-      ])
-
-      // Test staking
-      const stakeResult = await testStaking(publicKey.toString(), "stake", 10)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Stake", success: stakeResult.success, message: stakeResult.message },
-      ])
-
-      // Force stake time to be ready for unstaking (for testing purposes)
-      const now = Math.floor(Date.now() / 1000)
-      localStorage.setItem(`${publicKey.toString()}_stakeStartTime`, (now - 604800).toString())
-
-      const claimRewardsResult = await testStaking(publicKey.toString(), "claim")
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Claim Rewards", success: claimRewardsResult.success, message: claimRewardsResult.message },
-      ])
-
-      const unstakeResult = await testStaking(publicKey.toString(), "unstake", 5)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Unstake", success: unstakeResult.success, message: unstakeResult.message },
-      ])
-
-      // Test bridge
-      const bridgeResult = await testBridge(publicKey.toString(), "solana", "ethereum", 10)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Bridge", success: bridgeResult.success, message: bridgeResult.message },
-      ])
-
-      // Test faucet
-      // Reset last claim time for testing
-      localStorage.removeItem(`${publicKey.toString()}_lastClaimTime`)
-
-      const faucetResult = await testFaucet(publicKey.toString(), network)
-      setTestResults((prev) => [
-        ...prev,
-        { feature: "Faucet", success: faucetResult.success, message: faucetResult.message },
-      ])
+      const result = await runScenario(ledger, publicKey.toString(), createDefiScenario(network))
+      setTestResults(result.steps)
 
       toast({
         title: "Tests completed",
-        description: "All DeFi features have been tested",
+        description: result.success
+          ? "All DeFi features have been tested"
+          : `${result.steps.filter((step) => !step.success).length} checks failed`,
+        variant: result.success ? "default" : "destructive",
       })
     } catch (error: any) {
       console.error("Test error:", error)
@@ -141,8 +81,8 @@ export default function DeFiTester() {
 
   // Reset test environment
   const handleReset = () => {
-    if (connected && publicKey) {
-      resetTestEnvironment(publicKey.toString())
+    if (connected && publicKey && initialSnapshotRef.current) {
+      ledger.restore(initialSnapshotRef.current)
       updateBalances()
       setTestResults([])
       toast({
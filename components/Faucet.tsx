@@ -3,7 +3,7 @@ import { useWallet } from "@solana/wallet-adapter-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
-import { useTheme } from "@/components/providers/WalletContextProvider"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
 import { useFaucet } from "@/hooks/useFaucet"
 import { GOLD_TOKEN } from "@/constants/tokens"
 import Image from "next/image"
@@ -12,23 +12,24 @@ export default function Faucet() {
   const { connected } = useWallet()
   const { toast } = useToast()
   const { theme } = useTheme()
+  const { t, formatTokenAmount } = useLanguage()
   const isDarkTheme = theme === "dark"
   const { isLoading, canClaim, timeUntilNextClaim, claimGold, airdropAmount } = useFaucet()
 
   // Format time remaining
   const formatTimeRemaining = (ms: number) => {
-    if (ms <= 0) return "Ready"
+    if (ms <= 0) return t("faucet.ready")
 
     const seconds = Math.floor(ms / 1000)
     const minutes = Math.floor(seconds / 60)
     const hours = Math.floor(minutes / 60)
 
     if (hours > 0) {
-      return `${hours}h ${minutes % 60}m`
+      return t("time.hoursMinutes", { hours, minutes: minutes % 60 })
     } else if (minutes > 0) {
-      return `${minutes}m ${seconds % 60}s`
+      return t("time.minutesSeconds", { minutes, seconds: seconds % 60 })
     } else {
-      return `${seconds}s`
+      return t("time.seconds", { seconds })
     }
   }
 
@@ -38,7 +39,7 @@ export default function Faucet() {
     >
       <CardHeader className="pb-4">
         <CardTitle className="text-xl bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
-          GOLD Token Faucet
+          {t("faucet.title")}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -53,10 +54,10 @@ export default function Faucet() {
             />
           </div>
           <h3 className={`text-xl font-bold mb-2 ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
-            Get {airdropAmount} GOLD Tokens
+            {t("faucet.heading", { amount: airdropAmount })}
           </h3>
           <p className={`text-sm mb-4 ${isDarkTheme ? "text-gray-400" : "text-gray-600"}`}>
-            Use this faucet to get GOLD tokens for testing
+            {t("faucet.description")}
           </p>
           <Button
             className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
@@ -65,37 +66,39 @@ export default function Faucet() {
           >
             {isLoading ? (
               <div className="flex items-center">
-                <span className="mr-2">Processing</span>
+                <span className="mr-2">{t("common.processing")}</span>
                 <div className="w-4 h-4 border-2 border-t-transparent border-black rounded-full animate-spin" />
               </div>
             ) : !canClaim ? (
-              `Available in ${formatTimeRemaining(timeUntilNextClaim)}`
+              t("faucet.availableIn", { time: formatTimeRemaining(timeUntilNextClaim) })
             ) : (
-              "Request GOLD Tokens"
+              t("faucet.request")
             )}
           </Button>
         </div>
 
         <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} rounded-lg p-3 space-y-2 text-sm`}>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Amount</span>
-            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>{airdropAmount} GOLD</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("common.amount")}</span>
+            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>
+              {formatTokenAmount(airdropAmount, "GOLD")}
+            </span>
           </div>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Cooldown</span>
-            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>24 hours</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("faucet.cooldown")}</span>
+            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>{t("time.hours", { hours: 24 })}</span>
           </div>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Status</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("common.status")}</span>
             <span className={canClaim ? "text-green-500" : "text-yellow-500"}>
-              {canClaim ? "Available" : "Cooldown"}
+              {canClaim ? t("common.available") : t("faucet.cooldown")}
             </span>
           </div>
         </div>
 
         <div className="text-center">
           <p className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-            GOLD tokens are for testing purposes only and have no real value.
+            {t("faucet.disclaimer")}
           </p>
         </div>
       </CardContent>
@@ -7,16 +7,19 @@ import { Menu, X, Sun, Moon, Globe } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { useTheme } from "@/components/WalletContextProvider"
-import { useLanguage } from "@/components/WalletContextProvider"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { LANGUAGES } from "@/services/settingsStore"
+import type { MessageKey } from "@/utils/i18n"
 
-const tabs = [
-  { name: "swap", href: "/", current: true },
-  { name: "pools", href: "/pools", current: false },
-  { name: "farms", href: "/farms", current: false },
-  { name: "nftGallery", href: "/nft", current: false },
-  { name: "settings", href: "/settings", current: false },
+const tabs: { name: MessageKey; href: string; current: boolean }[] = [
+  { name: "nav.swap", href: "/", current: true },
+  { name: "nav.send", href: "/send", current: false },
+  { name: "nav.airdrop", href: "/airdrop", current: false },
+  { name: "nav.pools", href: "/pools", current: false },
+  { name: "nav.farms", href: "/farms", current: false },
+  { name: "nav.nftGallery", href: "/nft", current: false },
+  { name: "nav.settings", href: "/settings", current: false },
 ]
 
 export default function Header() {
@@ -80,20 +83,27 @@ export default function Header() {
             <div className="hidden md:flex items-center gap-2">
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" size="icon" className="rounded-full">
+                  <Button variant="ghost" size="icon" className="rounded-full" aria-label={t("nav.language")}>
                     <Globe className={`h-5 w-5 ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`} />
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setLanguage("en")}>English</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setLanguage("es")}>Español</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setLanguage("fr")}>Français</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setLanguage("zh")}>中文</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setLanguage("ja")}>日本語</DropdownMenuItem>
+                  {LANGUAGES.map(({ value, label }) => (
+                    <DropdownMenuItem key={value} onClick={() => setLanguage(value)} lang={value}>
+                      {label}
+                      {value === language && <span className="ml-auto text-gold">•</span>}
+                    </DropdownMenuItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
 
-              <Button variant="ghost" size="icon" className="rounded-full" onClick={toggleTheme}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="rounded-full"
+                onClick={toggleTheme}
+                aria-label={t("nav.toggleTheme")}
+              >
                 {theme === "dark" ? (
                   <Sun className="h-5 w-5 text-gray-300" />
                 ) : (
@@ -119,7 +129,7 @@ export default function Header() {
                 } focus:outline-none focus:ring-2 focus:ring-gold focus:ring-offset-2`}
                 onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
               >
-                <span className="sr-only">Open main menu</span>
+                <span className="sr-only">{t("nav.openMenu")}</span>
                 {mobileMenuOpen ? (
                   <X className="block h-6 w-6" aria-hidden="true" />
                 ) : (
@@ -158,7 +168,13 @@ export default function Header() {
           <div className={`border-t ${theme === "dark" ? "border-gray-700" : "border-gray-200"} pb-3 pt-4`}>
             <div className="flex items-center justify-between px-5">
               <div className="flex items-center gap-2">
-                <Button variant="ghost" size="icon" className="rounded-full" onClick={toggleTheme}>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full"
+                  onClick={toggleTheme}
+                  aria-label={t("nav.toggleTheme")}
+                >
                   {theme === "dark" ? (
                     <Sun className="h-5 w-5 text-gray-300" />
                   ) : (
@@ -168,16 +184,17 @@ export default function Header() {
 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="rounded-full">
+                    <Button variant="ghost" size="icon" className="rounded-full" aria-label={t("nav.language")}>
                       <Globe className={`h-5 w-5 ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`} />
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => setLanguage("en")}>English</DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setLanguage("es")}>Español</DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setLanguage("fr")}>Français</DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setLanguage("zh")}>中文</DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setLanguage("ja")}>日本語</DropdownMenuItem>
+                    {LANGUAGES.map(({ value, label }) => (
+                      <DropdownMenuItem key={value} onClick={() => setLanguage(value)} lang={value}>
+                        {label}
+                        {value === language && <span className="ml-auto text-gold">•</span>}
+                      </DropdownMenuItem>
+                    ))}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { Button } from "@/components/ui/button"
 import { useLiquidityPool } from "@/hooks/useLiquidityPool"
@@ -11,24 +11,11 @@ import { GOLD_TOKEN } from "@/constants/tokens"
 export function LiquidityPool() {
   const { connected, publicKey } = useWallet()
   const { toast } = useToast()
-  const { poolData, userPoolShare, addLiquidity, removeLiquidity, isLoading, fetchPoolData } = useLiquidityPool(
-    GOLD_TOKEN.mint,
-  )
+  const { poolData, userPoolShare, addLiquidity, removeLiquidity, isLoading } = useLiquidityPool(GOLD_TOKEN.mint)
 
   const [amount, setAmount] = useState<string>("")
   const [isAdding, setIsAdding] = useState<boolean>(true)
 
-  useEffect(() => {
-    if (connected && publicKey) {
-      fetchPoolData()
-      const interval = setInterval(() => {
-        fetchPoolData()
-      }, 10000)
-
-      return () => clearInterval(interval)
-    }
-  }, [connected, publicKey, fetchPoolData])
-
   const handleSubmit = async () => {
     if (!connected || !publicKey) {
       toast({
@@ -5,7 +5,7 @@ import Image from "next/image"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { getNFTs } from "@/utils/jupiter"
 import { Loader2, Search, Grid3X3, List } from "lucide-react"
-import { useTheme } from "@/components/WalletContextProvider"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
@@ -13,6 +13,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 export default function NFTGallery() {
   const { connected, publicKey } = useWallet()
   const { theme } = useTheme()
+  const { t, formatNumber } = useLanguage()
   const isDarkTheme = theme === "dark"
 
   const [nfts, setNfts] = useState<any[]>([])
@@ -53,8 +54,13 @@ export default function NFTGallery() {
       className={`p-6 rounded-xl ${isDarkTheme ? "bg-gray-900 border border-gray-800" : "bg-white border border-gray-200"} shadow-lg`}
     >
       <h2 className="text-xl font-bold text-center mb-6 bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
-        NFT Gallery
+        {t("nft.title")}
       </h2>
+      {connected && !isLoading && (
+        <p className={`-mt-4 mb-6 text-center text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+          {t("nft.count", { count: nfts.length })}
+        </p>
+      )}
 
       <div className="flex flex-col md:flex-row gap-4 items-center justify-between mb-6">
         <div className="w-full md:w-1/2 relative">
@@ -62,7 +68,7 @@ export default function NFTGallery() {
             className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${isDarkTheme ? "text-gray-400" : "text-gray-500"} h-4 w-4`}
           />
           <Input
-            placeholder="Search by name or collection"
+            placeholder={t("nft.searchPlaceholder")}
             className={`pl-10 ${isDarkTheme ? "bg-gray-800 border-gray-700" : "bg-white border-gray-300"}`}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
@@ -88,10 +94,10 @@ export default function NFTGallery() {
       {!connected ? (
         <div className="text-center py-12">
           <p className={`mb-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
-            Connect your wallet to view your NFTs
+            {t("nft.connectPrompt")}
           </p>
           <Button className="bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-400 hover:to-yellow-400">
-            Connect Wallet
+            {t("common.connectWallet")}
           </Button>
         </div>
       ) : isLoading ? (
@@ -119,12 +125,14 @@ export default function NFTGallery() {
                     <div
                       className={`${isDarkTheme ? "bg-gray-700" : "bg-gray-100"} px-2 py-1 rounded text-xs font-medium text-gold`}
                     >
-                      {nft.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || "Common"}
+                      {nft.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || t("nft.rarityCommon")}
                     </div>
                   </div>
                   <div className="mt-3 flex justify-between items-center">
                     <div className="flex items-center">
-                      <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>{nft.price}</span>
+                      <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
+                        {formatNumber(Number(nft.price))}
+                      </span>
                       <span className={`ml-1 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{nft.currency}</span>
                     </div>
                     <Button
@@ -132,7 +140,7 @@ export default function NFTGallery() {
                       size="sm"
                       className={`text-xs h-8 ${isDarkTheme ? "border-gold/30 text-gold hover:bg-gold/10" : "border-amber-500/30 text-amber-600 hover:bg-amber-50"}`}
                     >
-                      View
+                      {t("common.view")}
                     </Button>
                   </div>
                 </div>
@@ -154,7 +162,7 @@ export default function NFTGallery() {
                         <div
                           className={`${isDarkTheme ? "bg-gray-700" : "bg-gray-100"} px-2 py-0.5 rounded text-xs font-medium text-gold`}
                         >
-                          {nft.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || "Common"}
+                          {nft.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || t("nft.rarityCommon")}
                         </div>
                       </div>
                       <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{nft.collection}</p>
@@ -167,7 +175,9 @@ export default function NFTGallery() {
                   </div>
                   <div className="mt-3 flex justify-between items-center">
                     <div className="flex items-center">
-                      <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>{nft.price}</span>
+                      <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
+                        {formatNumber(Number(nft.price))}
+                      </span>
                       <span className={`ml-1 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{nft.currency}</span>
                     </div>
                     <Button
@@ -175,7 +185,7 @@ export default function NFTGallery() {
                       size="sm"
                       className={`text-xs h-8 ${isDarkTheme ? "border-gold/30 text-gold hover:bg-gold/10" : "border-amber-500/30 text-amber-600 hover:bg-amber-50"}`}
                     >
-                      View
+                      {t("common.view")}
                     </Button>
                   </div>
                 </div>
@@ -186,7 +196,7 @@ export default function NFTGallery() {
       ) : (
         <div className="text-center py-12">
           <p className={`mb-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
-            {searchQuery ? "No NFTs found matching your search" : "No NFTs found in your wallet"}
+            {searchQuery ? t("nft.noResults") : t("nft.empty")}
           </p>
           {searchQuery && (
             <Button
@@ -198,7 +208,7 @@ export default function NFTGallery() {
               }
               onClick={() => setSearchQuery("")}
             >
-              Clear Search
+              {t("nft.clearSearch")}
             </Button>
           )}
         </div>
@@ -227,7 +237,7 @@ export default function NFTGallery() {
               <div>
                 <div className="flex items-center justify-between mb-4">
                   <div>
-                    <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Collection</p>
+                    <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("nft.collection")}</p>
                     <p className={`font-medium text-lg ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
                       {selectedNFT.collection}
                     </p>
@@ -235,20 +245,20 @@ export default function NFTGallery() {
                   <div
                     className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} px-3 py-1 rounded-full text-sm font-medium text-gold`}
                   >
-                    {selectedNFT.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || "Common"}
+                    {selectedNFT.attributes.find((attr: any) => attr.trait_type === "Rarity")?.value || t("nft.rarityCommon")}
                   </div>
                 </div>
 
                 <div className="mb-6">
-                  <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Description</p>
+                  <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("nft.description")}</p>
                   <p className={`mt-1 ${isDarkTheme ? "text-white" : "text-gray-900"}`}>{selectedNFT.description}</p>
                 </div>
 
                 <div className="mb-6">
-                  <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Current Price</p>
+                  <p className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("nft.currentPrice")}</p>
                   <div className="flex items-baseline">
                     <span className={`text-3xl font-bold ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
-                      {selectedNFT.price}
+                      {formatNumber(Number(selectedNFT.price))}
                     </span>
                     <span className={`ml-2 text-xl ${isDarkTheme ? "text-gray-300" : "text-gray-700"}`}>
                       {selectedNFT.currency}
@@ -257,7 +267,7 @@ export default function NFTGallery() {
                 </div>
 
                 <div className="mb-6">
-                  <p className={`${isDarkTheme ? "text-gray-400" : "text-gray-500"} mb-2`}>Attributes</p>
+                  <p className={`${isDarkTheme ? "text-gray-400" : "text-gray-500"} mb-2`}>{t("nft.attributes")}</p>
                   <div className="grid grid-cols-2 gap-2">
                     {selectedNFT.attributes.map((attr: any, index: number) => (
                       <div
@@ -275,13 +285,13 @@ export default function NFTGallery() {
 
                 <div className="flex gap-3">
                   <Button className="flex-1 bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-400 hover:to-yellow-400 transition-all">
-                    Buy Now
+                    {t("nft.buyNow")}
                   </Button>
                   <Button
                     variant="outline"
                     className={`flex-1 ${isDarkTheme ? "border-gold/30 text-gold hover:bg-gold/10" : "border-amber-500/30 text-amber-600 hover:bg-amber-50"}`}
                   >
-                    Make Offer
+                    {t("nft.makeOffer")}
                   </Button>
                 </div>
               </div>
@@ -15,6 +15,7 @@ export function NetworkSelector() {
     { id: "devnet", name: "Devnet", color: "text-purple-400" },
     { id: "testnet", name: "Testnet", color: "text-blue-400" },
     { id: "mainnet-beta", name: "Mainnet Beta", color: "text-green-400" },
+    { id: "localnet", name: "Localnet", color: "text-gray-300" },
   ] as const
 
   const currentNetwork = networks.find((n) => n.id === network) || networks[0]
@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { type NetworkType, useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import type { RpcEndpoint } from "@/services/rpcEndpoints"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react"
+
+const NETWORKS: { id: NetworkType; name: string }[] = [
+  { id: "devnet", name: "Devnet" },
+  { id: "testnet", name: "Testnet" },
+  { id: "mainnet-beta", name: "Mainnet Beta" },
+  { id: "localnet", name: "Localnet" },
+]
+
+// Endpoint list for the settings page: health of every endpoint plus adding and removing custom ones
+export function RpcEndpointSettings() {
+  const { network, activeEndpoint, endpointHealth, getEndpoints, addEndpoint, removeEndpoint, checkHealth } =
+    useNetwork()
+  const { t } = useLanguage()
+  const { toast } = useToast()
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkType>(network)
+  const [url, setUrl] = useState("")
+  const [label, setLabel] = useState("")
+  const [isChecking, setIsChecking] = useState(false)
+
+  const endpoints = getEndpoints(selectedNetwork)
+
+  const runCheck = async (target: NetworkType) => {
+    setIsChecking(true)
+    try {
+      await checkHealth(target)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  // Other networks aren't checked in the background, so check them when they're shown
+  useEffect(() => {
+    if (selectedNetwork !== network) runCheck(selectedNetwork)
+  }, [selectedNetwork])
+
+  const handleAdd = async () => {
+    try {
+      const endpoint = addEndpoint(selectedNetwork, url, label)
+      setUrl("")
+      setLabel("")
+      toast({ title: t("network.rpc.added"), description: endpoint.url })
+      await runCheck(selectedNetwork)
+    } catch (error: any) {
+      toast({
+        title: t("network.rpc.addFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const renderHealth = (endpoint: RpcEndpoint) => {
+    const health = endpointHealth[endpoint.url]
+    if (!health) return <span className="text-xs text-gray-500">{t("network.rpc.unchecked")}</span>
+    if (!health.healthy) {
+      return (
+        <span className="text-xs text-red-500" title={health.error ?? undefined}>
+          {t("network.rpc.unhealthy")}
+        </span>
+      )
+    }
+    return (
+      <span className="text-xs text-green-500" title={health.version ? `v${health.version}` : undefined}>
+        {t("network.rpc.healthy")}
+        {health.latencyMs !== null && ` · ${t("network.rpc.latency", { ms: health.latencyMs })}`}
+        {health.slotLag !== null && ` · ${t("network.rpc.slotLag", { lag: health.slotLag })}`}
+      </span>
+    )
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle>{t("network.rpc.title")}</CardTitle>
+        <CardDescription>{t("network.rpc.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Tabs value={selectedNetwork} onValueChange={(value) => setSelectedNetwork(value as NetworkType)}>
+            <TabsList className="grid grid-cols-4">
+              {NETWORKS.map((item) => (
+                <TabsTrigger key={item.id} value={item.id}>
+                  {item.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-gray-700"
+            disabled={isChecking}
+            onClick={() => runCheck(selectedNetwork)}
+          >
+            {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            {t("network.rpc.checkNow")}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <div
+              key={endpoint.url}
+              className="flex items-center justify-between gap-3 p-3 border border-gray-800 rounded-lg"
+            >
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{endpoint.label}</span>
+                  {selectedNetwork === network && endpoint.url === activeEndpoint.url && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gold/10 text-gold">
+                      {t("network.rpc.active")}
+                    </span>
+                  )}
+                  {endpoint.custom && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-800 text-gray-400">
+                      {t("network.rpc.custom")}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 truncate">{endpoint.url}</div>
+                {renderHealth(endpoint)}
+              </div>
+              {endpoint.custom && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-400 hover:text-red-500"
+                  aria-label={t("network.rpc.remove")}
+                  onClick={() => removeEndpoint(selectedNetwork, endpoint.url)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={t("network.rpc.urlPlaceholder")}
+            className="bg-gray-800 border-gray-700"
+          />
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={t("network.rpc.labelPlaceholder")}
+            className="bg-gray-800 border-gray-700 sm:w-48"
+          />
+          <Button
+            className="bg-gradient-to-r from-amber-600 to-yellow-500 hover:from-amber-500 hover:to-yellow-400"
+            disabled={!url.trim()}
+            onClick={handleAdd}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("network.rpc.add")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,236 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Loader2, Send } from "lucide-react"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { SOL_TOKEN } from "@/constants/tokens"
+import { useAddressBook } from "@/hooks/useAddressBook"
+import { useRecipient } from "@/hooks/useRecipient"
+import { useSendableTokens } from "@/hooks/useSendableTokens"
+import { useTransfer } from "@/hooks/useTransfer"
+import { useWalletBalance } from "@/hooks/useWalletBalance"
+
+// SOL kept back by MAX to pay for the transaction and a new token account
+const SOL_FEE_BUFFER = 0.01
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`
+}
+
+// Transfer SOL or any held token to an address, a .sol name or an address book entry
+export default function SendCard() {
+  const { connected } = useWallet()
+  const { t, formatTokenAmount } = useLanguage()
+  const { toast } = useToast()
+  const { balances, getBalance } = useWalletBalance()
+  const { entries, saveAddress } = useAddressBook()
+  const { send, isSending } = useTransfer()
+
+  const [mint, setMint] = useState(SOL_TOKEN.mint)
+  const [amount, setAmount] = useState("")
+  const [recipientInput, setRecipientInput] = useState("")
+  const [acknowledged, setAcknowledged] = useState(false)
+  const [label, setLabel] = useState("")
+  const { recipient, error: recipientError, isResolving } = useRecipient(recipientInput)
+
+  const sendableTokens = useSendableTokens(balances)
+
+  const token = sendableTokens.find((candidate) => candidate.mint === mint) ?? SOL_TOKEN
+  const balance = getBalance(token)
+  const parsedAmount = Number.parseFloat(amount)
+  const amountError =
+    amount === ""
+      ? null
+      : !Number.isFinite(parsedAmount) || parsedAmount <= 0
+        ? t("common.invalidAmount")
+        : parsedAmount > balance
+          ? t("common.insufficientBalance")
+          : null
+
+  const savedEntry = recipient && entries.find((entry) => entry.address === recipient.address.toBase58())
+  const needsAcknowledgement = (recipient?.warnings.length ?? 0) > 0
+
+  // A new recipient needs a fresh acknowledgement
+  useEffect(() => {
+    setAcknowledged(false)
+  }, [recipient])
+
+  const canSend =
+    connected &&
+    !!recipient &&
+    amount !== "" &&
+    !amountError &&
+    (!needsAcknowledgement || acknowledged) &&
+    !isSending
+
+  const handleMax = () => {
+    const max = token.mint === SOL_TOKEN.mint ? Math.max(0, balance - SOL_FEE_BUFFER) : balance
+    setAmount(max.toString())
+  }
+
+  const handleSaveAddress = () => {
+    if (!recipient) return
+    try {
+      saveAddress(recipient.address.toBase58(), label || recipient.name || "")
+      setLabel("")
+      toast({ title: t("addressBook.saved") })
+    } catch (error: any) {
+      toast({
+        title: t("addressBook.saveFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSend = async () => {
+    if (!recipient) return
+    try {
+      await send({ token, recipient: recipient.address, amount: parsedAmount })
+      toast({
+        title: t("send.successTitle"),
+        description: t("send.successDescription", {
+          amount: formatTokenAmount(parsedAmount, token.symbol),
+          recipient: savedEntry ? savedEntry.label : recipient.name ?? shortAddress(recipient.address.toBase58()),
+        }),
+      })
+      setAmount("")
+    } catch (error: any) {
+      console.error("Error sending tokens:", error)
+      toast({ title: t("send.failedTitle"), description: error?.message || String(error), variant: "destructive" })
+    }
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
+          {t("send.title")}
+        </CardTitle>
+        <CardDescription>{t("send.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-2">
+          <Label>{t("send.token")}</Label>
+          <Select value={token.mint} onValueChange={setMint}>
+            <SelectTrigger className="bg-gray-800 border-gray-700">
+              <SelectValue placeholder={t("send.noTokens")} />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700">
+              {sendableTokens.map((candidate) => (
+                <SelectItem key={candidate.mint} value={candidate.mint}>
+                  {candidate.symbol} · {formatTokenAmount(getBalance(candidate))}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="send-amount">{t("send.amount")}</Label>
+            <span className="text-sm text-gray-400">
+              {t("common.balance", { amount: formatTokenAmount(balance, token.symbol) })}
+              <button type="button" className="ml-2 text-gold hover:underline" onClick={handleMax}>
+                {t("common.max")}
+              </button>
+            </span>
+          </div>
+          <Input
+            id="send-amount"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="bg-gray-800 border-gray-700"
+          />
+          {amountError && <p className="text-sm text-red-500">{amountError}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="send-recipient">{t("send.recipient")}</Label>
+            {entries.length > 0 && (
+              <Select value="" onValueChange={setRecipientInput}>
+                <SelectTrigger className="w-48 h-8 bg-gray-800 border-gray-700">
+                  <SelectValue placeholder={t("send.fromAddressBook")} />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {entries.map((entry) => (
+                    <SelectItem key={entry.address} value={entry.address}>
+                      {entry.label} · {shortAddress(entry.address)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <Input
+            id="send-recipient"
+            placeholder={t("send.recipientPlaceholder")}
+            value={recipientInput}
+            onChange={(e) => setRecipientInput(e.target.value)}
+            className="bg-gray-800 border-gray-700"
+          />
+          {isResolving && (
+            <p className="flex items-center text-sm text-gray-400">
+              <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+              {t("send.resolving")}
+            </p>
+          )}
+          {recipientError && <p className="text-sm text-red-500">{t(`send.error.${recipientError}`)}</p>}
+          {recipient?.name && (
+            <p className="text-sm text-gray-400 break-all">
+              {t("send.resolvedName", { name: recipient.name, address: recipient.address.toBase58() })}
+            </p>
+          )}
+          {savedEntry && <p className="text-sm text-gold">{savedEntry.label}</p>}
+          {recipient && !savedEntry && (
+            <div className="flex gap-2">
+              <Input
+                placeholder={t("addressBook.labelPlaceholder")}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="h-8 bg-gray-800 border-gray-700"
+              />
+              <Button variant="outline" size="sm" className="border-gray-700 shrink-0" onClick={handleSaveAddress}>
+                {t("send.saveToAddressBook")}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {needsAcknowledgement && (
+          <div className="space-y-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3">
+            {recipient?.warnings.map((warning) => (
+              <p key={warning} className="text-sm text-amber-400">
+                {t(`send.warning.${warning}`)}
+              </p>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <Checkbox checked={acknowledged} onCheckedChange={(checked) => setAcknowledged(checked === true)} />
+              {t("send.acknowledge")}
+            </label>
+          </div>
+        )}
+
+        <Button
+          className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
+          disabled={!canSend}
+          onClick={handleSend}
+        >
+          {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          {isSending ? t("send.sending") : connected ? t("send.submit") : t("common.connectWallet")}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -9,19 +9,21 @@ import { useStaking } from "@/hooks/useStaking"
 import { useWalletBalance } from "@/hooks/useWalletBalance"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { GOLD_TOKEN } from "@/constants/tokens"
-import { useTheme } from "@/components/providers/WalletContextProvider"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
 import { useToast } from "@/components/ui/use-toast"
 
 export default function StakingInterface() {
   const { connected, publicKey } = useWallet()
   const { theme } = useTheme()
   const { toast } = useToast()
+  const { t, formatNumber, formatTokenAmount } = useLanguage()
   const isDarkTheme = theme === "dark"
 
   const {
     stakedAmount,
     pendingRewards,
     apy,
+    lockupPeriod,
     timeRemaining,
     isStaking,
     isUnstaking,
@@ -34,7 +36,7 @@ export default function StakingInterface() {
     refreshStakingData,
   } = useStaking()
 
-  const { balances, refreshBalances } = useWalletBalance()
+  const { getBalance, refreshBalances } = useWalletBalance()
 
   const [stakeAmount, setStakeAmount] = useState("")
   const [unstakeAmount, setUnstakeAmount] = useState("")
@@ -44,11 +46,6 @@ export default function StakingInterface() {
   // Initialize component
   useEffect(() => {
     if (connected && publicKey) {
-      // Initialize local storage for testing if needed
-      if (!localStorage.getItem(`${publicKey.toString()}_goldBalance`)) {
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, "1000")
-      }
-
       refreshBalances()
       refreshStakingData()
       setIsInitialized(true)
@@ -65,8 +62,8 @@ export default function StakingInterface() {
   const handleStake = async () => {
     if (!stakeAmount || Number(stakeAmount) <= 0) {
       toast({
-        title: "Invalid amount",
-        description: "Please enter a valid amount to stake",
+        title: t("common.invalidAmount"),
+        description: t("staking.enterStakeAmount"),
         variant: "destructive",
       })
       return
@@ -79,15 +76,15 @@ export default function StakingInterface() {
       if (success) {
         setStakeAmount("")
         toast({
-          title: "Success",
-          description: `Successfully staked ${amount} GOLD`,
+          title: t("common.success"),
+          description: t("staking.stakeSuccess", { amount: formatTokenAmount(amount, "GOLD") }),
         })
       }
     } catch (error) {
       console.error("Staking error:", error)
       toast({
-        title: "Staking failed",
-        description: error instanceof Error ? error.message : "Failed to stake tokens",
+        title: t("staking.stakeFailed"),
+        description: error instanceof Error ? error.message : t("staking.stakeFailedDescription"),
         variant: "destructive",
       })
     }
@@ -97,8 +94,8 @@ export default function StakingInterface() {
   const handleUnstake = async () => {
     if (!unstakeAmount || Number(unstakeAmount) <= 0) {
       toast({
-        title: "Invalid amount",
-        description: "Please enter a valid amount to unstake",
+        title: t("common.invalidAmount"),
+        description: t("staking.enterUnstakeAmount"),
         variant: "destructive",
       })
       return
@@ -111,15 +108,15 @@ export default function StakingInterface() {
       if (success) {
         setUnstakeAmount("")
         toast({
-          title: "Success",
-          description: `Successfully unstaked ${amount} GOLD`,
+          title: t("common.success"),
+          description: t("staking.unstakeSuccess", { amount: formatTokenAmount(amount, "GOLD") }),
         })
       }
     } catch (error) {
       console.error("Unstaking error:", error)
       toast({
-        title: "Unstaking failed",
-        description: error instanceof Error ? error.message : "Failed to unstake tokens",
+        title: t("staking.unstakeFailed"),
+        description: error instanceof Error ? error.message : t("staking.unstakeFailedDescription"),
         variant: "destructive",
       })
     }
@@ -132,15 +129,15 @@ export default function StakingInterface() {
 
       if (success) {
         toast({
-          title: "Success",
-          description: `Successfully claimed your rewards`,
+          title: t("common.success"),
+          description: t("staking.claimSuccess"),
         })
       }
     } catch (error) {
       console.error("Claim rewards error:", error)
       toast({
-        title: "Claim failed",
-        description: error instanceof Error ? error.message : "Failed to claim rewards",
+        title: t("staking.claimFailed"),
+        description: error instanceof Error ? error.message : t("staking.claimFailedDescription"),
         variant: "destructive",
       })
     }
@@ -148,10 +145,12 @@ export default function StakingInterface() {
 
   // Handle max stake
   const handleMaxStake = () => {
-    const goldBalance = balances[GOLD_TOKEN.symbol] || 0
+    const goldBalance = getBalance(GOLD_TOKEN)
     setStakeAmount(goldBalance.toString())
   }
 
+  const lockupDays = Math.round(lockupPeriod / 86400)
+
   // Handle max unstake
   const handleMaxUnstake = () => {
     setUnstakeAmount(stakedAmount.toString())
@@ -166,7 +165,7 @@ export default function StakingInterface() {
         <CardContent className="p-6 flex justify-center items-center h-64">
           <div className="flex flex-col items-center">
             <div className="w-10 h-10 border-4 border-t-transparent border-amber-500 rounded-full animate-spin mb-4"></div>
-            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Loading staking data...</p>
+            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("staking.loading")}</p>
           </div>
         </CardContent>
       </Card>
@@ -182,10 +181,10 @@ export default function StakingInterface() {
         <CardContent className="p-6 flex justify-center items-center h-64">
           <div className="flex flex-col items-center text-center">
             <p className={`text-lg font-medium mb-4 ${isDarkTheme ? "text-gray-300" : "text-gray-700"}`}>
-              Connect your wallet to start staking
+              {t("staking.connectTitle")}
             </p>
             <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"} mb-6`}>
-              You need to connect your wallet to stake GOLD tokens and earn rewards.
+              {t("staking.connectDescription")}
             </p>
           </div>
         </CardContent>
@@ -200,19 +199,23 @@ export default function StakingInterface() {
       <CardContent className="p-6">
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} p-4 rounded-lg`}>
-            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Staked GOLD</p>
-            <p className="text-xl font-bold">{stakedAmount.toFixed(2)}</p>
+            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("staking.staked")}</p>
+            <p className="text-xl font-bold">
+              {formatNumber(stakedAmount, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </p>
           </div>
           <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} p-4 rounded-lg`}>
-            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Pending Rewards</p>
-            <p className="text-xl font-bold text-amber-500">{pendingRewards.toFixed(4)}</p>
+            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("staking.pendingRewards")}</p>
+            <p className="text-xl font-bold text-amber-500">
+              {formatNumber(pendingRewards, { minimumFractionDigits: 4, maximumFractionDigits: 4 })}
+            </p>
           </div>
           <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} p-4 rounded-lg`}>
-            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>APY</p>
-            <p className="text-xl font-bold text-green-500">{apy}%</p>
+            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("staking.apy")}</p>
+            <p className="text-xl font-bold text-green-500">{formatNumber(apy / 100, { style: "percent", maximumFractionDigits: 2 })}</p>
           </div>
           <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} p-4 rounded-lg`}>
-            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Lock Time</p>
+            <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("staking.lockTime")}</p>
             <p className="text-xl font-bold">{formattedTimeRemaining()}</p>
           </div>
         </div>
@@ -225,26 +228,28 @@ export default function StakingInterface() {
           >
             {isClaimingRewards ? (
               <div className="flex items-center">
-                <span className="mr-2">Claiming</span>
+                <span className="mr-2">{t("staking.claiming")}</span>
                 <div className="w-4 h-4 border-2 border-t-transparent border-black rounded-full animate-spin" />
               </div>
             ) : (
-              `Claim ${pendingRewards.toFixed(4)} GOLD`
+              t("staking.claim", { amount: formatTokenAmount(pendingRewards, "GOLD") })
             )}
           </Button>
         )}
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid grid-cols-2 mb-4">
-            <TabsTrigger value="stake">Stake</TabsTrigger>
-            <TabsTrigger value="unstake">Unstake</TabsTrigger>
+            <TabsTrigger value="stake">{t("staking.stakeTab")}</TabsTrigger>
+            <TabsTrigger value="unstake">{t("staking.unstakeTab")}</TabsTrigger>
           </TabsList>
           <TabsContent value="stake">
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Available GOLD</span>
+                <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+                  {t("staking.availableGold")}
+                </span>
                 <span className={`text-sm ${isDarkTheme ? "text-gray-300" : "text-gray-700"}`}>
-                  {balances[GOLD_TOKEN.symbol]?.toFixed(4) || "0"}
+                  {formatTokenAmount(getBalance(GOLD_TOKEN))}
                 </span>
               </div>
               <div className="relative">
@@ -266,7 +271,7 @@ export default function StakingInterface() {
                   className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-amber-500 h-6 px-2"
                   onClick={handleMaxStake}
                 >
-                  MAX
+                  {t("common.max")}
                 </Button>
               </div>
               <Button
@@ -276,30 +281,32 @@ export default function StakingInterface() {
                   !connected ||
                   !stakeAmount ||
                   Number(stakeAmount) <= 0 ||
-                  Number(stakeAmount) > (balances[GOLD_TOKEN.symbol] || 0)
+                  Number(stakeAmount) > getBalance(GOLD_TOKEN)
                 }
                 className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
               >
                 {isStaking ? (
                   <div className="flex items-center">
-                    <span className="mr-2">Staking</span>
+                    <span className="mr-2">{t("staking.staking")}</span>
                     <div className="w-4 h-4 border-2 border-t-transparent border-black rounded-full animate-spin" />
                   </div>
                 ) : (
-                  "Stake GOLD"
+                  t("staking.stake")
                 )}
               </Button>
               <p className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-                Note: Staked GOLD is locked for 7 days. You will earn {apy}% APY during this period.
+                {t("staking.stakeNote", { days: lockupDays, apy })}
               </p>
             </div>
           </TabsContent>
           <TabsContent value="unstake">
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>Staked GOLD</span>
+                <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+                  {t("staking.staked")}
+                </span>
                 <span className={`text-sm ${isDarkTheme ? "text-gray-300" : "text-gray-700"}`}>
-                  {stakedAmount.toFixed(4)}
+                  {formatTokenAmount(stakedAmount)}
                 </span>
               </div>
               <div className="relative">
@@ -321,7 +328,7 @@ export default function StakingInterface() {
                   className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-amber-500 h-6 px-2"
                   onClick={handleMaxUnstake}
                 >
-                  MAX
+                  {t("common.max")}
                 </Button>
               </div>
               <Button
@@ -338,18 +345,17 @@ export default function StakingInterface() {
               >
                 {isUnstaking ? (
                   <div className="flex items-center">
-                    <span className="mr-2">Unstaking</span>
+                    <span className="mr-2">{t("staking.unstaking")}</span>
                     <div className="w-4 h-4 border-2 border-t-transparent border-black rounded-full animate-spin" />
                   </div>
                 ) : timeRemaining > 0 ? (
-                  `Locked for ${formattedTimeRemaining()}`
+                  t("staking.lockedFor", { time: formattedTimeRemaining() })
                 ) : (
-                  "Unstake GOLD"
+                  t("staking.unstake")
                 )}
               </Button>
               <p className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-                Note: You can only unstake after the 7-day lock period. Make sure to claim your rewards before
-                unstaking.
+                {t("staking.unstakeNote", { days: lockupDays })}
               </p>
             </div>
           </TabsContent>
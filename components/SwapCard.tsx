@@ -7,8 +7,9 @@ import TokenSelector from "./TokenSelector"
 import QuoteDisplay from "./QuoteDisplay"
 import { getQuote, executeSwap } from "@/utils/jupiter"
 import { SOL_TOKEN, GOLD_TOKEN } from "@/constants/tokens"
-import { useWalletBalance } from "@/components/providers/WalletContextProvider"
-import { useTransactions, useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
+import { useWalletBalance } from "@/hooks/useWalletBalance"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Slider } from "@/components/ui/slider"
@@ -28,10 +29,11 @@ import { Label } from "@/components/ui/label"
 import { motion } from "framer-motion"
 
 export default function SwapCard() {
-  const { connected, publicKey } = useWallet()
+  const { connected, publicKey, signTransaction } = useWallet()
   const { connection } = useConnection()
+  const { settings } = useSettings()
   const [inputAmount, setInputAmount] = useState("")
-  const [slippage, setSlippage] = useState(1)
+  const [slippage, setSlippage] = useState(settings.slippageBps / 100)
   const [fromToken, setFromToken] = useState(SOL_TOKEN)
   const [toToken, setToToken] = useState(GOLD_TOKEN)
   const [quote, setQuote] = useState(null)
@@ -43,12 +45,16 @@ export default function SwapCard() {
   const [gasEstimate, setGasEstimate] = useState("0.000005")
   const [priceImpact, setPriceImpact] = useState("< 0.01%")
   const { refreshBalances } = useWalletBalance()
-  const { addTransaction, updateTransaction } = useTransactions()
   const { toast } = useToast()
   const { theme } = useTheme()
-  const { t } = useLanguage()
+  const { t, formatTokenAmount } = useLanguage()
   const isDarkTheme = theme === "dark"
 
+  // Start from the default slippage in Settings
+  useEffect(() => {
+    setSlippage(settings.slippageBps / 100)
+  }, [settings.slippageBps])
+
   // Ref to track if component is mounted
   const isMounted = useRef(true)
 
@@ -129,7 +135,7 @@ export default function SwapCard() {
     } catch (err) {
       console.error("Error fetching quote:", err)
       if (isMounted.current) {
-        setError("Failed to fetch quote. Please try again.")
+        setError(t("swap.quoteFailed"))
         setQuote(null)
       }
     } finally {
@@ -137,7 +143,7 @@ export default function SwapCard() {
         setIsLoading(false)
       }
     }
-  }, [inputAmount, fromToken, toToken, slippage, autoAdjustSlippage])
+  }, [inputAmount, fromToken, toToken, slippage, autoAdjustSlippage, t])
 
   useEffect(() => {
     if (connected && inputAmount && Number.parseFloat(inputAmount) > 0) {
@@ -179,26 +185,11 @@ export default function SwapCard() {
     setIsSwapping(true)
     setError("")
 
-    // Create a transaction record
-    const txId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-    const txRecord = {
-      id: txId,
-      fromToken: fromToken.symbol,
-      toToken: toToken.symbol,
-      fromAmount: Number(inputAmount),
-      toAmount: Number(quote.outAmount) / 10 ** toToken.decimals,
-      status: "pending" as const,
-      timestamp: Date.now(),
-    }
-
-    // Add to transaction history
-    addTransaction(txRecord)
-
     try {
       // Execute the swap
       const result = await executeSwap({
         connection,
-        wallet: { publicKey },
+        wallet: { publicKey, signTransaction },
         fromToken,
         toToken,
         quote,
@@ -206,26 +197,15 @@ export default function SwapCard() {
       })
 
       if (result.success) {
-        // Update transaction status
-        updateTransaction(txId, {
-          status: "confirmed",
-          signature: result.signature,
-        })
-
         // Show success toast with animation
         toast({
-          title: "Swap Successful",
+          title: t("swap.successTitle"),
           description: (
             <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
-              Swapped {inputAmount} {fromToken.symbol} to{" "}
-              <motion.span
-                initial={{ color: "#10B981" }}
-                animate={{ color: "white" }}
-                transition={{ duration: 2 }}
-                className="font-bold"
-              >
-                {(Number(quote.outAmount) / 10 ** toToken.decimals).toFixed(6)} {toToken.symbol}
-              </motion.span>
+              {t("swap.successDescription", {
+                input: formatTokenAmount(Number(inputAmount), fromToken.symbol, 6),
+                output: formatTokenAmount(Number(quote.outAmount) / 10 ** toToken.decimals, toToken.symbol, 6),
+              })}
             </motion.div>
           ),
           variant: "default",
@@ -245,17 +225,14 @@ export default function SwapCard() {
     } catch (err) {
       console.error("Swap error:", err)
 
-      // Update transaction status
-      updateTransaction(txId, { status: "failed" })
-
       // Show error toast
       toast({
-        title: "Swap Failed",
-        description: err.message || "Failed to execute swap. Please try again.",
+        title: t("swap.failedTitle"),
+        description: err.message || t("swap.failedDescription"),
         variant: "destructive",
       })
 
-      setError(err.message || "Failed to execute swap. Please try again.")
+      setError(err.message || t("swap.failedDescription"))
     } finally {
       setIsSwapping(false)
     }
@@ -281,7 +258,7 @@ export default function SwapCard() {
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold text-center bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
-              {t("swap")}
+              {t("swap.title")}
             </h2>
 
             <Dialog>
@@ -292,9 +269,11 @@ export default function SwapCard() {
               </DialogTrigger>
               <DialogContent className={isDarkTheme ? "bg-gray-900 border-gray-800" : "bg-white border-gray-200"}>
                 <DialogHeader>
-                  <DialogTitle className={isDarkTheme ? "text-white" : "text-gray-900"}>Swap Settings</DialogTitle>
+                  <DialogTitle className={isDarkTheme ? "text-white" : "text-gray-900"}>
+                    {t("swap.settingsTitle")}
+                  </DialogTitle>
                   <DialogDescription className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>
-                    Customize your swap experience
+                    {t("swap.settingsDescription")}
                   </DialogDescription>
                 </DialogHeader>
 
@@ -302,7 +281,7 @@ export default function SwapCard() {
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <Label htmlFor="slippage" className={isDarkTheme ? "text-white" : "text-gray-900"}>
-                        Slippage Tolerance
+                        {t("swap.slippageTolerance")}
                       </Label>
                       <span className={`text-sm font-medium ${isDarkTheme ? "text-gold" : "text-amber-600"}`}>
                         {slippage}%
@@ -341,7 +320,7 @@ export default function SwapCard() {
                   <div className="flex items-center space-x-2">
                     <Switch id="auto-slippage" checked={autoAdjustSlippage} onCheckedChange={setAutoAdjustSlippage} />
                     <Label htmlFor="auto-slippage" className={isDarkTheme ? "text-white" : "text-gray-900"}>
-                      Auto-Adjust Slippage
+                      {t("swap.autoAdjustSlippage")}
                     </Label>
                   </div>
                 </div>
@@ -349,7 +328,7 @@ export default function SwapCard() {
                 <DialogFooter>
                   <DialogClose asChild>
                     <Button type="button" variant="secondary">
-                      Close
+                      {t("common.close")}
                     </Button>
                   </DialogClose>
                 </DialogFooter>
@@ -361,9 +340,10 @@ export default function SwapCard() {
             <TokenSelector
               selectedToken={fromToken}
               onSelectToken={setFromToken}
+              otherToken={toToken}
               balance={fromToken.balance}
               onMaxClick={handleMaxClick}
-              label={t("pay_with")}
+              label={t("swap.youPay")}
             />
             <div className="relative flex justify-center">
               <Button
@@ -375,7 +355,12 @@ export default function SwapCard() {
                 <ArrowDownUp className="h-5 w-5 text-gold" />
               </Button>
             </div>
-            <TokenSelector selectedToken={toToken} onSelectToken={setToToken} label={t("you_receive")} />
+            <TokenSelector
+              selectedToken={toToken}
+              onSelectToken={setToToken}
+              otherToken={fromToken}
+              label={t("swap.youReceive")}
+            />
             <Input
               type="text"
               placeholder="0.0"
@@ -388,7 +373,7 @@ export default function SwapCard() {
           {insufficientBalance && (
             <div className="flex items-center gap-2 text-sm text-red-500 mt-2">
               <AlertCircle className="h-4 w-4" />
-              {t("insufficient_balance")}
+              {t("common.insufficientBalance")}
             </div>
           )}
 
@@ -414,15 +399,15 @@ export default function SwapCard() {
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t("getting_quote")}
+                {t("swap.fetchingQuote")}
               </>
             ) : isSwapping ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t("swapping")}
+                {t("swap.swapping")}
               </>
             ) : (
-              t("swap")
+              t("swap.title")
             )}
           </Button>
         </div>
@@ -10,6 +10,15 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Loader2, CheckCircle, XCircle, AlertTriangle, RefreshCw } from "lucide-react"
 import { runAllTests, type TestResult } from "@/utils/testing"
+import {
+  LIMIT_ORDER_SCENARIO,
+  LIQUIDITY_SCENARIO,
+  STAKING_SCENARIO,
+  SWAP_SCENARIO,
+  runScenario,
+  type Scenario,
+} from "@/utils/testing-utils"
+import { getSimulatorBackend } from "@/services/backends"
 import { NetworkSelector } from "@/components/NetworkSelector"
 
 export function TestingDashboard() {
@@ -31,6 +40,23 @@ export function TestingDashboard() {
     }
   }
 
+  // Run a scenario against the simulator ledger, leaving the ledger as it was
+  const runSimulatorScenario = async (scenario: Scenario) => {
+    if (!wallet.publicKey) return
+
+    const ledger = getSimulatorBackend(network).ledger
+    const result = await runScenario(ledger, wallet.publicKey.toBase58(), scenario, { restore: true, network })
+    setResults(
+      result.steps.map((step) => ({
+        feature: `${scenario.name}: ${step.feature}`,
+        success: step.success,
+        message: step.message,
+        details: step.signature ? { signature: step.signature } : undefined,
+      })),
+    )
+    setActiveTab("overview")
+  }
+
   useEffect(() => {
     if (wallet.connected) {
       runTests()
@@ -178,7 +204,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can stake GOLD tokens on the current network.
+                      This test will verify that you can stake GOLD tokens in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -186,10 +212,7 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to staking page
-                        window.location.href = "/stake"
-                      }}
+                      onClick={() => runSimulatorScenario(STAKING_SCENARIO)}
                     >
                       Test Staking
                     </Button>
@@ -203,7 +226,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can claim staking rewards on the current network.
+                      This test will verify that you can claim staking rewards in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -211,10 +234,7 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to staking page
-                        window.location.href = "/stake"
-                      }}
+                      onClick={() => runSimulatorScenario(STAKING_SCENARIO)}
                     >
                       Test Claiming
                     </Button>
@@ -239,7 +259,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can swap GOLD tokens for SOL on the current network.
+                      This test will verify that you can swap GOLD tokens for SOL in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -247,10 +267,7 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to swap page
-                        window.location.href = "/swap"
-                      }}
+                      onClick={() => runSimulatorScenario(SWAP_SCENARIO)}
                     >
                       Test Swapping
                     </Button>
@@ -264,7 +281,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can swap SOL for GOLD tokens on the current network.
+                      This test will verify that you can swap SOL for GOLD tokens in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -272,15 +289,35 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to swap page
-                        window.location.href = "/swap"
-                      }}
+                      onClick={() => runSimulatorScenario(SWAP_SCENARIO)}
                     >
                       Test Swapping
                     </Button>
                   </CardFooter>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Limit Orders</CardTitle>
+                    <CardDescription>Test GOLD limit orders</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-gray-400 mb-4">
+                      This test will place, fill, cancel and expire limit orders with the matching simulator, at the
+                      simulator's pool prices for the current network.
+                    </p>
+                  </CardContent>
+                  <CardFooter>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={!wallet.connected || isLoading}
+                      onClick={() => runSimulatorScenario(LIMIT_ORDER_SCENARIO)}
+                    >
+                      Test Limit Orders
+                    </Button>
+                  </CardFooter>
+                </Card>
               </div>
             </div>
           </TabsContent>
@@ -302,7 +339,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can add liquidity to GOLD/SOL pool on the current network.
+                      This test will verify that you can add liquidity to GOLD/SOL pool in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -310,10 +347,7 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to pools page
-                        window.location.href = "/pools"
-                      }}
+                      onClick={() => runSimulatorScenario(LIQUIDITY_SCENARIO)}
                     >
                       Test Adding Liquidity
                     </Button>
@@ -327,7 +361,7 @@ export function TestingDashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-gray-400 mb-4">
-                      This test will verify that you can remove liquidity from GOLD/SOL pool on the current network.
+                      This test will verify that you can remove liquidity from GOLD/SOL pool in the simulator for the current network.
                     </p>
                   </CardContent>
                   <CardFooter>
@@ -335,10 +369,7 @@ export function TestingDashboard() {
                       variant="outline"
                       className="w-full"
                       disabled={!wallet.connected || isLoading}
-                      onClick={() => {
-                        // Navigate to pools page
-                        window.location.href = "/pools"
-                      }}
+                      onClick={() => runSimulatorScenario(LIQUIDITY_SCENARIO)}
                     >
                       Test Removing Liquidity
                     </Button>
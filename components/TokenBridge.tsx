@@ -9,7 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/components/ui/use-toast"
 import { GOLD_TOKEN } from "@/constants/tokens"
 import { useWalletBalance } from "@/hooks/useWalletBalance"
-import { useTheme } from "@/components/providers/WalletContextProvider"
+import { useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
+import type { MessageKey } from "@/utils/i18n"
 import Image from "next/image"
 
 // Network options
@@ -36,11 +37,18 @@ const NETWORKS = [
   },
 ]
 
+const BRIDGE_STATUS_LABELS: Record<string, MessageKey> = {
+  pending: "bridge.status.pending",
+  completed: "bridge.status.completed",
+  failed: "bridge.status.failed",
+}
+
 export default function TokenBridge() {
   const { connected, publicKey } = useWallet()
   const { toast } = useToast()
-  const { balances, refreshBalances } = useWalletBalance()
+  const { getBalance, refreshBalances } = useWalletBalance()
   const { theme } = useTheme()
+  const { t, formatTokenAmount } = useLanguage()
   const isDarkTheme = theme === "dark"
 
   // State
@@ -49,7 +57,7 @@ export default function TokenBridge() {
   const [amount, setAmount] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [estimatedGas, setEstimatedGas] = useState("0.001")
-  const [estimatedTime, setEstimatedTime] = useState("2-5 minutes")
+  const [estimatedTime, setEstimatedTime] = useState({ min: 2, max: 5 }) // minutes
   const [bridgeHistory, setBridgeHistory] = useState<any[]>([])
 
   // Handle network change
@@ -86,20 +94,20 @@ export default function TokenBridge() {
   // Handle max button click
   const handleMaxClick = useCallback(() => {
     if (sourceNetwork.id === "solana") {
-      const maxAmount = balances[GOLD_TOKEN.symbol] || 0
+      const maxAmount = getBalance(GOLD_TOKEN)
       setAmount(maxAmount > 0 ? maxAmount.toString() : "0")
     } else {
       // For demo purposes, set a mock balance for other networks
       setAmount("1000")
     }
-  }, [sourceNetwork.id, balances])
+  }, [sourceNetwork.id, getBalance])
 
   // Handle bridge
   const handleBridge = async () => {
     if (!connected) {
       toast({
-        title: "Wallet not connected",
-        description: "Please connect your wallet to use the bridge",
+        title: t("common.walletNotConnected"),
+        description: t("bridge.connectDescription"),
         variant: "destructive",
       })
       return
@@ -107,8 +115,8 @@ export default function TokenBridge() {
 
     if (!amount || Number.parseFloat(amount) <= 0) {
       toast({
-        title: "Invalid amount",
-        description: "Please enter a valid amount to bridge",
+        title: t("common.invalidAmount"),
+        description: t("bridge.enterAmount"),
         variant: "destructive",
       })
       return
@@ -116,11 +124,11 @@ export default function TokenBridge() {
 
     // Check if user has enough balance
     if (sourceNetwork.id === "solana") {
-      const goldBalance = balances[GOLD_TOKEN.symbol] || 0
+      const goldBalance = getBalance(GOLD_TOKEN)
       if (goldBalance < Number(amount)) {
         toast({
-          title: "Insufficient balance",
-          description: `You don't have enough GOLD tokens on ${sourceNetwork.name}`,
+          title: t("common.insufficientBalance"),
+          description: t("bridge.insufficientDescription", { network: sourceNetwork.name }),
           variant: "destructive",
         })
         return
@@ -148,8 +156,12 @@ export default function TokenBridge() {
       setBridgeHistory((prev) => [bridgeRecord, ...prev])
 
       toast({
-        title: "Bridge initiated",
-        description: `Bridging ${amount} GOLD from ${sourceNetwork.name} to ${targetNetwork.name}. This may take a few minutes.`,
+        title: t("bridge.initiatedTitle"),
+        description: t("bridge.initiatedDescription", {
+          amount: formatTokenAmount(Number(amount), "GOLD"),
+          source: sourceNetwork.name,
+          target: targetNetwork.name,
+        }),
       })
 
       // If source is Solana, update GOLD balance
@@ -170,8 +182,11 @@ export default function TokenBridge() {
         )
 
         toast({
-          title: "Bridge completed",
-          description: `Successfully bridged ${amount} GOLD to ${targetNetwork.name}`,
+          title: t("bridge.completedTitle"),
+          description: t("bridge.completedDescription", {
+            amount: formatTokenAmount(Number(amount), "GOLD"),
+            network: targetNetwork.name,
+          }),
         })
 
         setAmount("")
@@ -179,8 +194,8 @@ export default function TokenBridge() {
     } catch (error: any) {
       console.error("Bridge error:", error)
       toast({
-        title: "Bridge failed",
-        description: error.message || "Failed to bridge tokens",
+        title: t("bridge.failedTitle"),
+        description: error.message || t("bridge.failedDescription"),
         variant: "destructive",
       })
     } finally {
@@ -193,16 +208,16 @@ export default function TokenBridge() {
     // These would be calculated based on current network conditions in a real app
     if (targetNetwork.id === "ethereum") {
       setEstimatedGas("0.005")
-      setEstimatedTime("5-10 minutes")
+      setEstimatedTime({ min: 5, max: 10 })
     } else if (targetNetwork.id === "polygon") {
       setEstimatedGas("0.001")
-      setEstimatedTime("1-3 minutes")
+      setEstimatedTime({ min: 1, max: 3 })
     } else if (targetNetwork.id === "avalanche") {
       setEstimatedGas("0.002")
-      setEstimatedTime("2-4 minutes")
+      setEstimatedTime({ min: 2, max: 4 })
     } else {
       setEstimatedGas("0.001")
-      setEstimatedTime("2-5 minutes")
+      setEstimatedTime({ min: 2, max: 5 })
     }
   }, [targetNetwork.id])
 
@@ -234,17 +249,17 @@ export default function TokenBridge() {
     >
       <CardHeader className="pb-4">
         <CardTitle className="text-xl bg-gradient-to-r from-amber-500 to-yellow-500 bg-clip-text text-transparent">
-          Cross-Chain Bridge
+          {t("bridge.title")}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Source Network */}
         <div className="space-y-2">
           <div className="flex justify-between items-center">
-            <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>From</span>
+            <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("common.from")}</span>
             {sourceNetwork.id === "solana" && (
               <span className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-                Balance: {balances[GOLD_TOKEN.symbol]?.toFixed(4) || "0"} GOLD
+                {t("common.balance", { amount: formatTokenAmount(getBalance(GOLD_TOKEN), "GOLD") })}
               </span>
             )}
           </div>
@@ -302,7 +317,7 @@ export default function TokenBridge() {
                 className="absolute right-2 top-1/2 transform -translate-y-1/2 text-xs text-amber-500 h-6 px-2"
                 onClick={handleMaxClick}
               >
-                MAX
+                {t("common.max")}
               </Button>
             </div>
           </div>
@@ -334,7 +349,7 @@ export default function TokenBridge() {
         {/* Target Network */}
         <div className="space-y-2">
           <div className="flex justify-between items-center">
-            <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>To</span>
+            <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("common.to")}</span>
           </div>
           <div className="flex space-x-2">
             <Select value={targetNetwork.id} onValueChange={handleTargetNetworkChange}>
@@ -384,17 +399,19 @@ export default function TokenBridge() {
         {/* Bridge Info */}
         <div className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} rounded-lg p-3 space-y-2 text-sm`}>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Estimated Gas</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("bridge.estimatedGas")}</span>
             <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>
               {estimatedGas} {targetNetwork.id.toUpperCase()}
             </span>
           </div>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Estimated Time</span>
-            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>{estimatedTime}</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("bridge.estimatedTime")}</span>
+            <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>
+              {t("time.minuteRange", estimatedTime)}
+            </span>
           </div>
           <div className="flex justify-between items-center">
-            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Bridge Fee</span>
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{t("bridge.fee")}</span>
             <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>0.1%</span>
           </div>
         </div>
@@ -407,11 +424,11 @@ export default function TokenBridge() {
         >
           {isProcessing ? (
             <div className="flex items-center">
-              <span className="mr-2">Processing</span>
+              <span className="mr-2">{t("common.processing")}</span>
               <div className="w-4 h-4 border-2 border-t-transparent border-black rounded-full animate-spin" />
             </div>
           ) : (
-            `Bridge GOLD to ${targetNetwork.name}`
+            t("bridge.bridgeTo", { network: targetNetwork.name })
           )}
         </Button>
 
@@ -419,7 +436,7 @@ export default function TokenBridge() {
         {bridgeHistory.length > 0 && (
           <div className="mt-4">
             <h3 className={`text-sm font-medium mb-2 ${isDarkTheme ? "text-gray-300" : "text-gray-700"}`}>
-              Recent Transactions
+              {t("transactions.recent")}
             </h3>
             <div
               className={`${isDarkTheme ? "bg-gray-800" : "bg-gray-100"} rounded-lg p-3 space-y-2 text-sm max-h-40 overflow-y-auto`}
@@ -428,7 +445,10 @@ export default function TokenBridge() {
                 <div key={record.id} className="flex justify-between items-center">
                   <div>
                     <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>
-                      {record.amount} GOLD to {record.targetNetwork}
+                      {t("bridge.historyEntry", {
+                        amount: formatTokenAmount(record.amount, "GOLD"),
+                        network: record.targetNetwork,
+                      })}
                     </span>
                   </div>
                   <span
@@ -440,7 +460,7 @@ export default function TokenBridge() {
                           : "text-red-500"
                     }
                   >
-                    {record.status}
+                    {BRIDGE_STATUS_LABELS[record.status] ? t(BRIDGE_STATUS_LABELS[record.status]) : record.status}
                   </span>
                 </div>
               ))}
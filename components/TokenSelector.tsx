@@ -2,98 +2,199 @@
 
 import { useState } from "react"
 import Image from "next/image"
-import { ChevronDown, Search } from "lucide-react"
+import { ChevronDown, Loader2, Plus, Search, Trash2 } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
-import { AVAILABLE_TOKENS, type Token } from "@/constants/tokens"
-import { useTheme } from "@/components/WalletContextProvider"
+import { useToast } from "@/components/ui/use-toast"
+import type { Token } from "@/constants/tokens"
+import { isValidAddress } from "@/constants/addresses"
+import { useLanguage, useTheme } from "@/components/providers/WalletContextProvider"
+import { useTokenList } from "@/hooks/useTokenList"
+import type { TokenTier } from "@/services/tokenList"
 
 interface TokenSelectorProps {
   selectedToken: Token
   onSelectToken: (token: Token) => void
-  otherToken: Token
+  otherToken?: Token
+  label?: string
+  balance?: number
+  onMaxClick?: () => void
 }
 
-export default function TokenSelector({ selectedToken, onSelectToken, otherToken }: TokenSelectorProps) {
+const TIER_STYLES: Record<TokenTier, string> = {
+  verified: "bg-gold/10 text-gold",
+  community: "bg-gray-500/10 text-gray-400",
+  imported: "bg-orange-500/10 text-orange-400",
+}
+
+export default function TokenSelector({
+  selectedToken,
+  onSelectToken,
+  otherToken,
+  label,
+  balance,
+  onMaxClick,
+}: TokenSelectorProps) {
   const [open, setOpen] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
+  const [isImporting, setIsImporting] = useState(false)
   const { theme } = useTheme()
+  const { t, formatTokenAmount } = useLanguage()
+  const { toast } = useToast()
+  const { tokens, importToken, removeToken } = useTokenList()
   const isDarkTheme = theme === "dark"
 
-  const filteredTokens = AVAILABLE_TOKENS.filter(
+  const query = searchQuery.trim().toLowerCase()
+  const filteredTokens = tokens.filter(
     (token) =>
-      token.mint !== otherToken.mint &&
-      (token.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        token.symbol.toLowerCase().includes(searchQuery.toLowerCase())),
+      token.mint !== otherToken?.mint &&
+      (token.name.toLowerCase().includes(query) ||
+        token.symbol.toLowerCase().includes(query) ||
+        token.mint.toLowerCase() === query),
   )
 
+  // A pasted mint that isn't listed can be imported
+  const canImport = isValidAddress(searchQuery.trim()) && !tokens.some((token) => token.mint === searchQuery.trim())
+
+  const selectToken = (token: Token) => {
+    onSelectToken(token)
+    setSearchQuery("")
+    setOpen(false)
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    try {
+      const token = await importToken(searchQuery)
+      toast({ title: t("tokens.imported"), description: token.mint })
+      selectToken(token)
+    } catch (error: any) {
+      toast({
+        title: t("tokens.importFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <button
-          className={`flex items-center gap-2 py-1 px-2 rounded-lg ${isDarkTheme ? "bg-gray-800 hover:bg-gray-700" : "bg-gray-200 hover:bg-gray-300"} transition-colors`}
-        >
-          <div className="relative w-6 h-6">
-            <Image
-              src={selectedToken.logoURI || "/placeholder.svg"}
-              alt={selectedToken.name}
-              width={24}
-              height={24}
-              className="rounded-full"
+    <div>
+      {label && (
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>{label}</span>
+          {balance !== undefined && (
+            <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>
+              {t("common.balance", { amount: formatTokenAmount(balance, selectedToken.symbol) })}
+              {onMaxClick && (
+                <button type="button" className="ml-2 text-gold hover:underline" onClick={onMaxClick}>
+                  {t("common.max")}
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <button
+            className={`flex items-center gap-2 py-1 px-2 rounded-lg ${isDarkTheme ? "bg-gray-800 hover:bg-gray-700" : "bg-gray-200 hover:bg-gray-300"} transition-colors`}
+          >
+            <div className="relative w-6 h-6">
+              <Image
+                src={selectedToken.logoURI || "/placeholder.svg"}
+                alt={selectedToken.name}
+                width={24}
+                height={24}
+                className="rounded-full"
+              />
+            </div>
+            <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
+              {selectedToken.symbol}
+            </span>
+            <ChevronDown className={`h-4 w-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`} />
+          </button>
+        </DialogTrigger>
+        <DialogContent className={isDarkTheme ? "bg-gray-900 border-gray-800" : "bg-white border-gray-200"}>
+          <DialogHeader>
+            <DialogTitle className={isDarkTheme ? "text-white" : "text-gray-900"}>{t("tokens.select")}</DialogTitle>
+          </DialogHeader>
+          <div className="mt-4 relative">
+            <Search
+              className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${isDarkTheme ? "text-gray-400" : "text-gray-500"} h-4 w-4`}
+            />
+            <Input
+              placeholder={t("tokens.search")}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className={`pl-10 ${isDarkTheme ? "bg-gray-800 border-gray-700 text-white" : "bg-white border-gray-300 text-gray-900"}`}
             />
           </div>
-          <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>{selectedToken.symbol}</span>
-          <ChevronDown className={`h-4 w-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`} />
-        </button>
-      </DialogTrigger>
-      <DialogContent className={isDarkTheme ? "bg-gray-900 border-gray-800" : "bg-white border-gray-200"}>
-        <DialogHeader>
-          <DialogTitle className={isDarkTheme ? "text-white" : "text-gray-900"}>Select a token</DialogTitle>
-        </DialogHeader>
-        <div className="mt-4 relative">
-          <Search
-            className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${isDarkTheme ? "text-gray-400" : "text-gray-500"} h-4 w-4`}
-          />
-          <Input
-            placeholder="Search by name or symbol"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className={`pl-10 ${isDarkTheme ? "bg-gray-800 border-gray-700 text-white" : "bg-white border-gray-300 text-gray-900"}`}
-          />
-        </div>
-        <div className="mt-4 max-h-60 overflow-y-auto pr-1">
-          {filteredTokens.length > 0 ? (
-            <div className="grid gap-2">
-              {filteredTokens.map((token) => (
+          <div className="mt-4 max-h-60 overflow-y-auto pr-1">
+            {filteredTokens.length > 0 ? (
+              <div className="grid gap-2">
+                {filteredTokens.map((token) => (
+                  <div
+                    key={token.mint}
+                    className={`flex items-center gap-3 p-3 rounded-lg ${isDarkTheme ? "hover:bg-gray-800" : "hover:bg-gray-100"} transition-colors`}
+                  >
+                    <button className="flex flex-1 min-w-0 items-center gap-3" onClick={() => selectToken(token)}>
+                      <div className="relative w-8 h-8">
+                        <Image
+                          src={token.logoURI || "/placeholder.svg"}
+                          alt={token.name}
+                          width={32}
+                          height={32}
+                          className="rounded-full"
+                        />
+                      </div>
+                      <div className="min-w-0 text-left">
+                        <div className="flex items-center gap-2">
+                          <span className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
+                            {token.symbol}
+                          </span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${TIER_STYLES[token.tier]}`}>
+                            {t(`tokens.tier.${token.tier}`)}
+                          </span>
+                        </div>
+                        <div className={`text-sm truncate ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+                          {token.name}
+                        </div>
+                      </div>
+                    </button>
+                    {token.tier === "imported" && (
+                      <button
+                        className="text-gray-400 hover:text-red-500"
+                        aria-label={t("tokens.remove")}
+                        onClick={() => removeToken(token.mint)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : canImport ? (
+              <div className="space-y-3 py-2">
+                <p className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{t("tokens.importHint")}</p>
                 <button
-                  key={token.mint}
-                  className={`flex items-center gap-3 p-3 rounded-lg ${isDarkTheme ? "hover:bg-gray-800" : "hover:bg-gray-100"} transition-colors`}
-                  onClick={() => {
-                    onSelectToken(token)
-                    setOpen(false)
-                  }}
+                  className="flex w-full items-center justify-center gap-2 p-3 rounded-lg bg-gradient-to-r from-amber-600 to-yellow-500 hover:from-amber-500 hover:to-yellow-400 text-black font-medium disabled:opacity-50"
+                  disabled={isImporting}
+                  onClick={handleImport}
                 >
-                  <div className="relative w-8 h-8">
-                    <Image
-                      src={token.logoURI || "/placeholder.svg"}
-                      alt={token.name}
-                      width={32}
-                      height={32}
-                      className="rounded-full"
-                    />
-                  </div>
-                  <div className="text-left">
-                    <div className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>{token.symbol}</div>
-                    <div className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>{token.name}</div>
-                  </div>
+                  {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                  {t("tokens.import")}
                 </button>
-              ))}
-            </div>
-          ) : (
-            <div className={`text-center py-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>No tokens found</div>
-          )}
-        </div>
-      </DialogContent>
-    </Dialog>
+              </div>
+            ) : (
+              <div className={`text-center py-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+                {t("tokens.noResults")}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
   )
 }
@@ -1,12 +1,14 @@
 "use client"
 
 import { useState } from "react"
-import { useTransactions } from "@/components/WalletContextProvider"
-import { useTheme } from "@/components/WalletContextProvider"
-import { useLanguage } from "@/components/WalletContextProvider"
+import { useTransactions, useTheme, useLanguage } from "@/components/providers/WalletContextProvider"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { type TransactionLifecycleStatus, isPendingStatus } from "@/services/transactionEngine"
 import { Button } from "@/components/ui/button"
 import { Loader2, CheckCircle2, XCircle, ExternalLink, ChevronDown, ChevronUp, Trash2 } from "lucide-react"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import type { MessageKey } from "@/utils/i18n"
+import { getExplorerUrl } from "@/utils/explorer"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,45 +21,42 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 
+// Catalog key for each lifecycle stage
+const STATUS_LABELS: Record<TransactionLifecycleStatus, MessageKey> = {
+  built: "transactions.status.built",
+  signed: "transactions.status.signed",
+  sent: "transactions.status.sent",
+  processed: "transactions.status.processed",
+  confirmed: "transactions.status.confirmed",
+  finalized: "transactions.status.finalized",
+  expired: "transactions.status.expired",
+  failed: "transactions.status.failed",
+  cancelled: "transactions.status.cancelled",
+}
+
 export default function TransactionHistory() {
   const { transactions, clearTransactions } = useTransactions()
+  const { network } = useNetwork()
   const [isOpen, setIsOpen] = useState(false)
   const { theme } = useTheme()
-  const { t } = useLanguage()
+  const { t, formatDate } = useLanguage()
   const isDarkTheme = theme === "dark"
 
-  // Format date
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp)
-    return date.toLocaleString()
-  }
-
   // Get status icon
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "pending":
-        return <Loader2 className="h-4 w-4 animate-spin text-yellow-500" />
-      case "confirmed":
-        return <CheckCircle2 className="h-4 w-4 text-green-500" />
-      case "failed":
-        return <XCircle className="h-4 w-4 text-red-500" />
-      default:
-        return null
-    }
+  const getStatusIcon = (status: TransactionLifecycleStatus) => {
+    if (isPendingStatus(status)) return <Loader2 className="h-4 w-4 animate-spin text-yellow-500" />
+    if (status === "confirmed" || status === "finalized") return <CheckCircle2 className="h-4 w-4 text-green-500" />
+    return <XCircle className="h-4 w-4 text-red-500" />
   }
 
   // Get status text
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "pending":
-        return t("pending")
-      case "confirmed":
-        return t("confirmed")
-      case "failed":
-        return t("failed")
-      default:
-        return status
-    }
+  const getStatusText = (status: TransactionLifecycleStatus) => t(STATUS_LABELS[status])
+
+  // Get status badge colors
+  const getStatusClass = (status: TransactionLifecycleStatus) => {
+    if (isPendingStatus(status)) return "bg-yellow-500/10 text-yellow-500"
+    if (status === "confirmed" || status === "finalized") return "bg-green-500/10 text-green-500"
+    return "bg-red-500/10 text-red-500"
   }
 
   if (transactions.length === 0) {
@@ -76,7 +75,10 @@ export default function TransactionHistory() {
                 : "border-gray-300 text-gray-700 hover:bg-gray-100"
             }`}
           >
-            <span>{t("transactionHistory")}</span>
+            <span>{t("transactions.history")}</span>
+            <span className="ml-auto mr-2 text-xs opacity-70">
+              {t("transactions.count", { count: transactions.length })}
+            </span>
             {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
           </Button>
         </CollapsibleTrigger>
@@ -88,7 +90,9 @@ export default function TransactionHistory() {
           >
             <div className="p-4 space-y-4">
               <div className="flex justify-between items-center">
-                <h3 className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>Recent Transactions</h3>
+                <h3 className={`font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
+                  {t("transactions.recent")}
+                </h3>
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button
@@ -102,18 +106,18 @@ export default function TransactionHistory() {
                   <AlertDialogContent className={isDarkTheme ? "bg-gray-900 border-gray-800" : "bg-white"}>
                     <AlertDialogHeader>
                       <AlertDialogTitle className={isDarkTheme ? "text-white" : "text-gray-900"}>
-                        Clear Transaction History
+                        {t("transactions.clearTitle")}
                       </AlertDialogTitle>
                       <AlertDialogDescription className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>
-                        This will clear all your transaction history. This action cannot be undone.
+                        {t("transactions.clearDescription")}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
                       <AlertDialogCancel className={isDarkTheme ? "bg-gray-800 text-white hover:bg-gray-700" : ""}>
-                        Cancel
+                        {t("common.cancel")}
                       </AlertDialogCancel>
                       <AlertDialogAction onClick={clearTransactions} className="bg-red-500 text-white hover:bg-red-600">
-                        Clear
+                        {t("common.clear")}
                       </AlertDialogAction>
                     </AlertDialogFooter>
                   </AlertDialogContent>
@@ -122,7 +126,7 @@ export default function TransactionHistory() {
 
               {transactions.length === 0 ? (
                 <div className={`text-center py-4 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
-                  {t("noTransactions")}
+                  {t("transactions.none")}
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -138,29 +142,30 @@ export default function TransactionHistory() {
                           <div className="flex items-center gap-1">
                             {getStatusIcon(tx.status)}
                             <span className={`text-sm font-medium ${isDarkTheme ? "text-white" : "text-gray-900"}`}>
-                              {tx.fromAmount} {tx.fromToken} → {tx.toAmount.toFixed(6)} {tx.toToken}
+                              {tx.label}
                             </span>
                           </div>
                           <div className={`text-xs mt-1 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
-                            {formatDate(tx.timestamp)}
+                            {formatDate(tx.createdAt)}
                           </div>
+                          {tx.error && <div className="text-xs mt-1 text-red-500">{tx.error}</div>}
+                          {tx.logs && (
+                            <details className={`text-xs mt-1 ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+                              <summary className="cursor-pointer">{t("transactions.programLogs")}</summary>
+                              <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                                {tx.logs.join("\n")}
+                              </pre>
+                            </details>
+                          )}
                         </div>
                         <div className="flex items-center gap-1">
-                          <span
-                            className={`text-xs px-2 py-0.5 rounded-full ${
-                              tx.status === "confirmed"
-                                ? "bg-green-500/10 text-green-500"
-                                : tx.status === "pending"
-                                  ? "bg-yellow-500/10 text-yellow-500"
-                                  : "bg-red-500/10 text-red-500"
-                            }`}
-                          >
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusClass(tx.status)}`}>
                             {getStatusText(tx.status)}
                           </span>
 
                           {tx.signature && (
                             <a
-                              href={`https://explorer.solana.com/tx/${tx.signature}?cluster=devnet`}
+                              href={getExplorerUrl("tx", tx.signature, network)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className={`ml-2 p-1 rounded-full ${
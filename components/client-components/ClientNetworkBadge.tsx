@@ -31,6 +31,8 @@ export default function ClientNetworkBadge() {
         return "bg-yellow-500"
       case "devnet":
         return "bg-purple-500"
+      case "localnet":
+        return "bg-gray-300"
       default:
         return "bg-gray-500"
     }
@@ -1,10 +1,11 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { motion } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { useWallet } from "@/components/providers/WalletContextProvider"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
 import { useToast } from "@/components/ui/use-toast"
 import { ArrowDownUp, Info, Settings } from 'lucide-react'
 import { delay } from "@/lib/utils"
@@ -27,14 +28,20 @@ export default function SwapCard() {
   const { status, balance, simulateTransaction } = useWallet()
   const { network } = useNetwork()
   const { toast } = useToast()
+  const { settings } = useSettings()
   
   const [fromToken, setFromToken] = useState<Token>(tokens[0])
   const [toToken, setToToken] = useState<Token>(tokens[2])
   const [fromAmount, setFromAmount] = useState<string>("")
   const [toAmount, setToAmount] = useState<string>("")
-  const [slippage, setSlippage] = useState<number>(0.5)
+  const [slippage, setSlippage] = useState<number>(settings.slippageBps / 100)
   const [showSettings, setShowSettings] = useState<boolean>(false)
   const [swapping, setSwapping] = useState<boolean>(false)
+
+  // Start from the default slippage in Settings
+  useEffect(() => {
+    setSlippage(settings.slippageBps / 100)
+  }, [settings.slippageBps])
   
   const handleFromAmountChange = (value: string) => {
     if (value === "" || /^\d*\.?\d*$/.test(value)) {
@@ -0,0 +1,356 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { ExternalLink, X } from "lucide-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { AVAILABLE_TOKENS, getGoldTokenForNetwork } from "@/constants/tokens"
+import { useLimitOrders } from "@/hooks/useLimitOrders"
+import { useWalletBalance } from "@/hooks/useWalletBalance"
+import {
+  LIMIT_ORDER_EXPIRY_HOURS,
+  type LimitOrder,
+  type LimitOrderStatus,
+  getGoldLimitPrice,
+  isGoldSellOrder,
+} from "@/services/limitOrders"
+import { fetchPairPrice } from "@/services/priceFeed"
+import { getExplorerUrl } from "@/utils/explorer"
+
+type OrderSide = "sell" | "buy"
+
+const STATUS_CLASSES: Record<LimitOrderStatus, string> = {
+  open: "bg-yellow-500/10 text-yellow-500",
+  filled: "bg-green-500/10 text-green-500",
+  cancelled: "bg-gray-500/10 text-gray-400",
+  expired: "bg-gray-500/10 text-gray-400",
+}
+
+// Place limit orders for GOLD against another token, and follow them until they fill, expire or are cancelled
+export default function LimitOrders() {
+  const { connected } = useWallet()
+  const { network } = useNetwork()
+  const { t, formatTokenAmount, formatDate } = useLanguage()
+  const { toast } = useToast()
+  const { getBalance } = useWalletBalance()
+  const { orders, placeOrder, cancelOrder, clearClosedOrders } = useLimitOrders((order) =>
+    toast({
+      title: t("limitOrders.filledTitle"),
+      description: t("limitOrders.filledDescription", {
+        input: formatTokenAmount(order.inputAmount, order.inputToken.symbol),
+        output: formatTokenAmount(order.outputAmount ?? 0, order.outputToken.symbol),
+      }),
+    }),
+  )
+
+  const gold = getGoldTokenForNetwork(network)
+  const counterTokens = AVAILABLE_TOKENS.filter((token) => token.symbol !== gold.symbol)
+  const [side, setSide] = useState<OrderSide>("sell")
+  const [counterMint, setCounterMint] = useState(counterTokens[0].mint)
+  const [amount, setAmount] = useState("")
+  const [limitPrice, setLimitPrice] = useState("")
+  const [expiryHours, setExpiryHours] = useState(LIMIT_ORDER_EXPIRY_HOURS[1])
+  const [marketPrice, setMarketPrice] = useState<number | null>(null)
+
+  const counter = counterTokens.find((token) => token.mint === counterMint) ?? counterTokens[0]
+  const [inputToken, outputToken] = side === "sell" ? [gold, counter] : [counter, gold]
+  const balance = getBalance(inputToken)
+  const parsedAmount = Number.parseFloat(amount)
+  const parsedPrice = Number.parseFloat(limitPrice)
+  const insufficientBalance = parsedAmount > balance
+  const canPlace = connected && parsedAmount > 0 && parsedPrice > 0 && !insufficientBalance
+
+  // Price of GOLD in the other token, as a reference for the limit
+  useEffect(() => {
+    let cancelled = false
+    setMarketPrice(null)
+    fetchPairPrice(network, gold.mint, counter.mint)
+      .then((price) => !cancelled && setMarketPrice(price))
+      .catch((error) => console.error("Error fetching GOLD price:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [network, gold.mint, counter.mint])
+
+  const handlePlace = () => {
+    try {
+      placeOrder({
+        inputToken,
+        outputToken,
+        inputAmount: parsedAmount,
+        // Orders fill at or above a price in output per input token
+        targetPrice: side === "sell" ? parsedPrice : 1 / parsedPrice,
+        expiresIn: expiryHours * 60 * 60 * 1000,
+      })
+      setAmount("")
+      toast({ title: t("limitOrders.placedTitle") })
+    } catch (error: any) {
+      toast({
+        title: t("limitOrders.placeFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCancel = (order: LimitOrder) => {
+    try {
+      cancelOrder(order.id)
+    } catch (error: any) {
+      toast({
+        title: t("limitOrders.cancelFailed"),
+        description: error?.message || String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const formatExpiry = (hours: number) =>
+    hours < 24 ? t("limitOrders.expiryHours", { count: hours }) : t("limitOrders.expiryDays", { count: hours / 24 })
+
+  const counterSymbol = (order: LimitOrder) => (isGoldSellOrder(order) ? order.outputToken : order.inputToken).symbol
+
+  const groups: { value: "open" | "filled" | "cancelled"; statuses: LimitOrderStatus[] }[] = [
+    { value: "open", statuses: ["open"] },
+    { value: "filled", statuses: ["filled"] },
+    { value: "cancelled", statuses: ["cancelled", "expired"] },
+  ]
+
+  const renderOrders = (statuses: LimitOrderStatus[]) => {
+    const shown = orders.filter((order) => statuses.includes(order.status))
+    if (shown.length === 0) {
+      return <p className="py-6 text-center text-sm text-gray-500">{t("limitOrders.empty")}</p>
+    }
+
+    return (
+      <div className="max-h-96 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-800">
+              <TableHead>{t("limitOrders.order")}</TableHead>
+              <TableHead className="text-right">{t("limitOrders.limitPrice")}</TableHead>
+              <TableHead>{t("common.status")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map((order) => (
+              <TableRow key={order.id} className="border-gray-800">
+                <TableCell>
+                  <div className="font-medium">
+                    {t(isGoldSellOrder(order) ? "limitOrders.sellSummary" : "limitOrders.buySummary", {
+                      input: formatTokenAmount(order.inputAmount, order.inputToken.symbol),
+                      output: order.outputToken.symbol,
+                    })}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {order.status === "filled" && order.filledAt
+                      ? t("limitOrders.filledAt", {
+                          amount: formatTokenAmount(order.outputAmount ?? 0, order.outputToken.symbol),
+                          date: formatDate(order.filledAt),
+                        })
+                      : t("limitOrders.expiresAt", { date: formatDate(order.expiresAt) })}
+                  </div>
+                  {order.status === "open" && order.error && (
+                    <div className="text-xs mt-1 text-red-500">{order.error}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatTokenAmount(getGoldLimitPrice(order), counterSymbol(order), 6)}
+                </TableCell>
+                <TableCell>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_CLASSES[order.status]}`}>
+                    {t(`limitOrders.status.${order.status}`)}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">
+                  {order.status === "open" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleCancel(order)}
+                      aria-label={t("limitOrders.cancel")}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {order.signature && (
+                    <a
+                      href={getExplorerUrl("tx", order.signature, network)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex p-2 text-gray-400 hover:text-white"
+                      aria-label={t("limitOrders.viewTransaction")}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg">{t("limitOrders.title")}</CardTitle>
+        <CardDescription>{t("limitOrders.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(["sell", "buy"] as const).map((value) => (
+              <Button
+                key={value}
+                variant={side === value ? "default" : "outline"}
+                className={side === value ? "bg-amber-500 hover:bg-amber-600 text-black" : "border-gray-700"}
+                onClick={() => setSide(value)}
+              >
+                {t(value === "sell" ? "limitOrders.sellGold" : "limitOrders.buyGold", { symbol: gold.symbol })}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t(side === "sell" ? "limitOrders.receiveToken" : "limitOrders.payToken")}</Label>
+              <Select value={counter.mint} onValueChange={setCounterMint}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {counterTokens.map((token) => (
+                    <SelectItem key={token.mint} value={token.mint}>
+                      {token.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label htmlFor="limit-amount">{t("limitOrders.amount", { symbol: inputToken.symbol })}</Label>
+                <span className="text-xs text-gray-500">
+                  {t("common.balance", { amount: formatTokenAmount(balance) })}
+                </span>
+              </div>
+              <Input
+                id="limit-amount"
+                type="number"
+                min="0"
+                placeholder="0.00"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label htmlFor="limit-price">
+                  {t("limitOrders.priceLabel", { gold: gold.symbol, symbol: counter.symbol })}
+                </Label>
+                {marketPrice !== null && (
+                  <button
+                    type="button"
+                    className="text-xs text-amber-500 hover:underline"
+                    onClick={() => setLimitPrice(marketPrice.toPrecision(6))}
+                  >
+                    {t("limitOrders.marketPrice", { price: formatTokenAmount(marketPrice, counter.symbol, 6) })}
+                  </button>
+                )}
+              </div>
+              <Input
+                id="limit-price"
+                type="number"
+                min="0"
+                placeholder="0.00"
+                value={limitPrice}
+                onChange={(event) => setLimitPrice(event.target.value)}
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("limitOrders.expiry")}</Label>
+              <Select value={String(expiryHours)} onValueChange={(value) => setExpiryHours(Number(value))}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {LIMIT_ORDER_EXPIRY_HOURS.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>
+                      {formatExpiry(hours)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {parsedAmount > 0 && parsedPrice > 0 && (
+            <p className="text-sm text-gray-400">
+              {t(side === "sell" ? "limitOrders.sellHint" : "limitOrders.buyHint", {
+                gold: gold.symbol,
+                price: formatTokenAmount(parsedPrice, counter.symbol, 6),
+                total: formatTokenAmount(
+                  side === "sell" ? parsedAmount * parsedPrice : parsedAmount / parsedPrice,
+                  outputToken.symbol,
+                ),
+              })}
+            </p>
+          )}
+          {insufficientBalance && <p className="text-sm text-red-500">{t("common.insufficientBalance")}</p>}
+
+          <Button
+            className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
+            disabled={!canPlace}
+            onClick={handlePlace}
+          >
+            {connected ? t("limitOrders.place") : t("common.connectWallet")}
+          </Button>
+          <p className="text-xs text-gray-500">{t("limitOrders.keepOpen")}</p>
+        </div>
+
+        <Tabs defaultValue="open">
+          <div className="flex items-center justify-between gap-2">
+            <TabsList>
+              {groups.map((group) => (
+                <TabsTrigger key={group.value} value={group.value}>
+                  {t(`limitOrders.tab.${group.value}`, {
+                    count: orders.filter((order) => group.statuses.includes(order.status)).length,
+                  })}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {orders.some((order) => order.status !== "open") && (
+              <Button variant="ghost" size="sm" className="text-gray-400" onClick={clearClosedOrders}>
+                {t("limitOrders.clearHistory")}
+              </Button>
+            )}
+          </div>
+          {groups.map((group) => (
+            <TabsContent key={group.value} value={group.value}>
+              {renderOrders(group.statuses)}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import LimitOrders from "./LimitOrders"
+import RecentTransactions from "./RecentTransactions"
+
+// Recent swaps and limit orders, side by side in tabs
+export default function SwapActivity() {
+  const { t } = useLanguage()
+
+  return (
+    <Tabs defaultValue="recent" className="w-full">
+      <TabsList className="mb-4">
+        <TabsTrigger value="recent">{t("swap.recentTransactions")}</TabsTrigger>
+        <TabsTrigger value="limit-orders">{t("limitOrders.title")}</TabsTrigger>
+      </TabsList>
+      <TabsContent value="recent" className="mt-0">
+        <RecentTransactions />
+      </TabsContent>
+      <TabsContent value="limit-orders" className="mt-0">
+        <LimitOrders />
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -9,10 +9,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider"
 import { ArrowDownIcon, RefreshCwIcon, SettingsIcon, AlertCircle } from "lucide-react"
 import { useJupiterSwap } from "@/hooks/useJupiterSwap"
+import { useAutoSlippage } from "@/hooks/useAutoSlippage"
 import { useWalletBalance } from "@/hooks/useWalletBalance"
 import { AVAILABLE_TOKENS } from "@/constants/tokens"
 import { useToast } from "@/components/ui/use-toast"
-import { useTheme } from "@/components/providers/WalletContextProvider"
+import { useLanguage, useTheme } from "@/components/providers/WalletContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
+import { getSlippageWarning, isValidSlippageBounds } from "@/services/slippage"
 import {
   Dialog,
   DialogContent,
@@ -25,12 +28,23 @@ import {
 } from "@/components/ui/dialog"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import SwapRoutes from "./SwapRoutes"
+
+// Slippage bounds typed in percent, in basis points
+function parseSlippageBounds(draft: { min: string; max: string }) {
+  return {
+    minBps: Math.round(Number.parseFloat(draft.min) * 100),
+    maxBps: Math.round(Number.parseFloat(draft.max) * 100),
+  }
+}
 
 export default function SwapCard() {
   const { connected, publicKey } = useWallet()
-  const { balances, refreshBalances } = useWalletBalance()
+  const { getBalance, refreshBalances } = useWalletBalance()
   const { toast } = useToast()
   const { theme } = useTheme()
+  const { t } = useLanguage()
+  const { settings, updateSettings } = useSettings()
   const isDarkTheme = theme === "dark"
 
   const {
@@ -40,9 +54,11 @@ export default function SwapCard() {
     isSwapping,
     error,
     slippage,
+    onlyDirectRoutes,
     getRoutes,
     executeSwap,
     setSlippage,
+    setOnlyDirectRoutes,
     selectRoute,
   } = useJupiterSwap()
 
@@ -53,6 +69,35 @@ export default function SwapCard() {
   const [outputAmount, setOutputAmount] = useState("")
   const [showSettings, setShowSettings] = useState(false)
   const [autoAdjustSlippage, setAutoAdjustSlippage] = useState(false)
+  // Auto slippage bounds as typed, in percent; saved to Settings once they make a valid range
+  const [boundsDraft, setBoundsDraft] = useState({
+    min: String(settings.slippageBounds.minBps / 100),
+    max: String(settings.slippageBounds.maxBps / 100),
+  })
+
+  const { recommendation: recommendedSlippage, isLoading: isLoadingSlippage } = useAutoSlippage(
+    inputToken,
+    outputToken,
+    Number.parseFloat(inputAmount) || 0,
+    selectedRoute,
+    autoAdjustSlippage,
+  )
+
+  // Follow the recommendation while auto slippage is on. Routes are quoted again at the new slippage.
+  useEffect(() => {
+    if (autoAdjustSlippage && recommendedSlippage) setSlippage(recommendedSlippage.bps)
+  }, [autoAdjustSlippage, recommendedSlippage, setSlippage])
+
+  const validBounds = isValidSlippageBounds(parseSlippageBounds(boundsDraft))
+
+  const handleBoundsChange = (bound: "min" | "max", value: string) => {
+    const draft = { ...boundsDraft, [bound]: value }
+    setBoundsDraft(draft)
+    const bounds = parseSlippageBounds(draft)
+    if (isValidSlippageBounds(bounds)) updateSettings({ slippageBounds: bounds })
+  }
+
+  const slippageWarning = getSlippageWarning(slippage)
 
   // Get routes when inputs change
   useEffect(() => {
@@ -114,7 +159,7 @@ export default function SwapCard() {
   }, [publicKey, selectedRoute, executeSwap, inputToken, outputToken, refreshBalances, toast])
 
   // Calculate max amount user can swap
-  const maxAmount = balances[inputToken.symbol] || 0
+  const maxAmount = getBalance(inputToken)
 
   // Handle max button click
   const handleMaxClick = useCallback(() => {
@@ -128,8 +173,8 @@ export default function SwapCard() {
     }
   }, [maxAmount, inputToken.symbol])
 
-  // Price impact calculation
-  const priceImpact = selectedRoute ? Number.parseFloat(selectedRoute.priceImpactPct) : 0
+  // Price impact calculation; routes quote it as a fraction
+  const priceImpact = selectedRoute ? Number.parseFloat(selectedRoute.priceImpactPct) * 100 : 0
 
   // Price display
   const price = selectedRoute
@@ -228,9 +273,82 @@ export default function SwapCard() {
                     </div>
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Switch id="auto-slippage" checked={autoAdjustSlippage} onCheckedChange={setAutoAdjustSlippage} />
-                    <Label htmlFor="auto-slippage">Auto-Adjust Slippage</Label>
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="auto-slippage"
+                        checked={autoAdjustSlippage}
+                        onCheckedChange={setAutoAdjustSlippage}
+                      />
+                      <Label htmlFor="auto-slippage">Auto-Adjust Slippage</Label>
+                    </div>
+                    <p className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
+                      {t("swap.autoSlippageDescription")}
+                    </p>
+
+                    {autoAdjustSlippage && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          {(["min", "max"] as const).map((bound) => (
+                            <div key={bound} className="space-y-1">
+                              <Label htmlFor={`slippage-${bound}`} className="text-xs">
+                                {t(bound === "min" ? "swap.minSlippage" : "swap.maxSlippage")}
+                              </Label>
+                              <Input
+                                id={`slippage-${bound}`}
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={boundsDraft[bound]}
+                                onChange={(event) => handleBoundsChange(bound, event.target.value)}
+                                className={isDarkTheme ? "bg-gray-800 border-gray-700" : "bg-gray-100 border-gray-300"}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        {!validBounds && <p className="text-xs text-red-500">{t("swap.invalidSlippageBounds")}</p>}
+
+                        <div className={`text-xs space-y-1 ${isDarkTheme ? "text-gray-400" : "text-gray-600"}`}>
+                          {recommendedSlippage ? (
+                            <>
+                              <div>
+                                {t("swap.recommendedSlippage", {
+                                  slippage: (recommendedSlippage.bps / 100).toFixed(2),
+                                })}
+                              </div>
+                              <div>
+                                {t("swap.slippageBreakdown", {
+                                  impact: (recommendedSlippage.impactBps / 100).toFixed(2),
+                                  volatility: (recommendedSlippage.volatilityBps / 100).toFixed(2),
+                                  liquidity: (recommendedSlippage.liquidityBps / 100).toFixed(2),
+                                })}
+                              </div>
+                              {recommendedSlippage.unclampedBps !== recommendedSlippage.bps && (
+                                <div>
+                                  {t("swap.slippageClamped", {
+                                    slippage: (recommendedSlippage.unclampedBps / 100).toFixed(2),
+                                  })}
+                                </div>
+                              )}
+                            </>
+                          ) : (
+                            <div>
+                              {isLoadingSlippage ? t("swap.loadingMarketConditions") : t("swap.autoSlippageWaiting")}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Switch id="direct-routes" checked={onlyDirectRoutes} onCheckedChange={setOnlyDirectRoutes} />
+                      <Label htmlFor="direct-routes">{t("swap.onlyDirectRoutes")}</Label>
+                    </div>
+                    <p className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
+                      {t("swap.onlyDirectRoutesDescription")}
+                    </p>
                   </div>
                 </div>
 
@@ -252,7 +370,7 @@ export default function SwapCard() {
           <div className="flex justify-between items-center">
             <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>From</span>
             <span className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-              Balance: {balances[inputToken.symbol]?.toFixed(4) || "0"} {inputToken.symbol}
+              Balance: {getBalance(inputToken).toFixed(4)} {inputToken.symbol}
             </span>
           </div>
           <div className="flex space-x-2">
@@ -334,7 +452,7 @@ export default function SwapCard() {
           <div className="flex justify-between items-center">
             <span className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>To</span>
             <span className={`text-xs ${isDarkTheme ? "text-gray-500" : "text-gray-600"}`}>
-              Balance: {balances[outputToken.symbol]?.toFixed(4) || "0"} {outputToken.symbol}
+              Balance: {getBalance(outputToken).toFixed(4)} {outputToken.symbol}
             </span>
           </div>
           <div className="flex space-x-2">
@@ -423,11 +541,43 @@ export default function SwapCard() {
             </div>
             <div className="flex justify-between items-center">
               <span className={isDarkTheme ? "text-gray-400" : "text-gray-500"}>Slippage Tolerance</span>
-              <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>{(slippage / 100).toFixed(2)}%</span>
+              <span className={isDarkTheme ? "text-gray-300" : "text-gray-700"}>
+                {autoAdjustSlippage
+                  ? t("swap.autoSlippageValue", { slippage: (slippage / 100).toFixed(2) })
+                  : `${(slippage / 100).toFixed(2)}%`}
+              </span>
             </div>
           </div>
         )}
 
+        {/* Slippage warning */}
+        {slippageWarning && (
+          <div
+            className={`flex items-start gap-2 text-sm mt-2 p-2 rounded-md ${
+              slippageWarning === "frontRunning" ? "text-red-500 bg-red-500/10" : "text-yellow-500 bg-yellow-500/10"
+            }`}
+          >
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {t(slippageWarning === "frontRunning" ? "swap.frontRunningWarning" : "swap.highSlippageWarning", {
+                slippage: (slippage / 100).toFixed(2),
+              })}
+            </span>
+          </div>
+        )}
+
+        {/* Alternative routes */}
+        {Number.parseFloat(inputAmount) > 0 && (
+          <SwapRoutes
+            routes={routes}
+            selectedRoute={selectedRoute}
+            onSelect={selectRoute}
+            inputToken={inputToken}
+            outputToken={outputToken}
+            isDarkTheme={isDarkTheme}
+          />
+        )}
+
         {/* Swap button */}
         <Button
           className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-black font-semibold"
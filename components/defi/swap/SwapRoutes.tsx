@@ -0,0 +1,140 @@
+"use client"
+
+import { ArrowRight } from "lucide-react"
+import { useLanguage } from "@/components/providers/WalletContextProvider"
+import type { Token } from "@/constants/tokens"
+import { useTokenList } from "@/hooks/useTokenList"
+import type { RouteHop, SwapRoute } from "@/services/backends"
+
+interface SwapRoutesProps {
+  routes: SwapRoute[]
+  selectedRoute: SwapRoute | null
+  onSelect: (route: SwapRoute) => void
+  inputToken: Token
+  outputToken: Token
+  isDarkTheme?: boolean
+}
+
+// Hops between the same two tokens, e.g. a trade split across two AMMs
+interface RouteLeg {
+  inputMint: string
+  outputMint: string
+  hops: RouteHop[]
+}
+
+function toLegs(hops: RouteHop[]): RouteLeg[] {
+  return hops.reduce<RouteLeg[]>((legs, hop) => {
+    const last = legs[legs.length - 1]
+    if (last && last.inputMint === hop.inputMint && last.outputMint === hop.outputMint) {
+      last.hops.push(hop)
+    } else {
+      legs.push({ inputMint: hop.inputMint, outputMint: hop.outputMint, hops: [hop] })
+    }
+    return legs
+  }, [])
+}
+
+// Alternative swap routes with their output, price impact, hops and fees. Clicking one selects it.
+export default function SwapRoutes({
+  routes,
+  selectedRoute,
+  onSelect,
+  inputToken,
+  outputToken,
+  isDarkTheme = true,
+}: SwapRoutesProps) {
+  const { t, formatTokenAmount } = useLanguage()
+  const { tokens } = useTokenList()
+
+  const findToken = (mint: string) =>
+    [inputToken, outputToken].find((token) => token.mint === mint) ?? tokens.find((token) => token.mint === mint)
+  const symbolOf = (mint: string) => findToken(mint)?.symbol ?? `${mint.slice(0, 4)}…`
+
+  // Fees summed per token. Fees in mints missing from the token list can't be shown in UI units.
+  const formatFees = (hops: RouteHop[]) => {
+    const totals = new Map<string, number>()
+    hops.forEach((hop) => {
+      const token = hop.feeMint ? findToken(hop.feeMint) : undefined
+      if (!token || !hop.feeAmount) return
+      const amount = Number(hop.feeAmount) / Math.pow(10, token.decimals)
+      totals.set(token.symbol, (totals.get(token.symbol) ?? 0) + amount)
+    })
+    return Array.from(totals)
+      .filter(([, amount]) => amount > 0)
+      .map(([symbol, amount]) => formatTokenAmount(amount, symbol, 6))
+      .join(" + ")
+  }
+
+  if (routes.length === 0) return null
+
+  const bestOut = Number(routes[0].outAmount)
+
+  return (
+    <div className="space-y-2">
+      <div className={`text-sm ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+        {t("swap.routeCount", { count: routes.length })}
+      </div>
+      {routes.map((route, index) => {
+        const selected = route === selectedRoute
+        const outAmount = Number(route.outAmount) / Math.pow(10, outputToken.decimals)
+        const difference = bestOut > 0 ? ((Number(route.outAmount) - bestOut) / bestOut) * 100 : 0
+        const priceImpact = Number(route.priceImpactPct) * 100
+        const legs = toLegs(route.hops)
+        const fees = formatFees(route.hops)
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSelect(route)}
+            aria-pressed={selected}
+            className={`w-full text-left rounded-lg border p-3 space-y-2 text-sm transition-colors ${
+              selected
+                ? "border-amber-500 bg-amber-500/10"
+                : isDarkTheme
+                  ? "border-gray-700 bg-gray-800 hover:border-gray-600"
+                  : "border-gray-200 bg-gray-100 hover:border-gray-300"
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{formatTokenAmount(outAmount, outputToken.symbol, 6)}</span>
+              {index === 0 ? (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/10 text-green-500">
+                  {t("swap.bestRoute")}
+                </span>
+              ) : (
+                <span className="text-xs text-red-500">{difference.toFixed(2)}%</span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="font-medium">{symbolOf(route.hops[0]?.inputMint ?? inputToken.mint)}</span>
+              {legs.map((leg, legIndex) => (
+                <span key={legIndex} className="flex items-center gap-1">
+                  <ArrowRight className="h-3 w-3 text-gray-500" />
+                  <span
+                    className={`px-1.5 py-0.5 rounded ${isDarkTheme ? "bg-gray-700 text-gray-300" : "bg-gray-200 text-gray-600"}`}
+                  >
+                    {leg.hops
+                      .map((hop) => (leg.hops.length > 1 ? `${hop.label} ${hop.percent}%` : hop.label))
+                      .join(" · ")}
+                  </span>
+                  <ArrowRight className="h-3 w-3 text-gray-500" />
+                  <span className="font-medium">{symbolOf(leg.outputMint)}</span>
+                </span>
+              ))}
+            </div>
+
+            <div className={`flex flex-wrap gap-x-4 gap-y-1 text-xs ${isDarkTheme ? "text-gray-400" : "text-gray-500"}`}>
+              <span>{legs.length <= 1 ? t("swap.direct") : t("swap.hops", { count: legs.length })}</span>
+              <span className={priceImpact > 5 ? "text-red-500" : priceImpact > 3 ? "text-yellow-500" : ""}>
+                {t("swap.priceImpact", { percent: `${priceImpact.toFixed(2)}%` })}
+              </span>
+              {fees && <span>{t("swap.fees", { fees })}</span>}
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -6,6 +6,10 @@ import { Star, Copy, Check, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
 import CTABackground from "@/components/three/CTABackground"
+import { NETWORK_ADDRESSES } from "@/constants/addresses"
+
+// The GOLD contract address shown to visitors is always the mainnet one
+const GOLD_CONTRACT_ADDRESS = NETWORK_ADDRESSES["mainnet-beta"].goldMint
 
 export default function CTASection() {
   const [isCopied, setIsCopied] = useState(false)
@@ -26,7 +30,7 @@ export default function CTASection() {
   }
 
   const copyToClipboard = () => {
-    navigator.clipboard.writeText("APKBq8kzMBpVKxvqrw67vkd6KuGWqSu2GVb19eK4pump")
+    navigator.clipboard.writeText(GOLD_CONTRACT_ADDRESS)
     setIsCopied(true)
     toast({
       title: "Address Copied",
@@ -79,7 +83,9 @@ export default function CTASection() {
                 className="border-amber-500/30 bg-black/50 backdrop-blur-md hover:bg-amber-500/10 text-amber-300 font-medium flex items-center gap-2"
                 size="lg"
               >
-                <span className="font-mono">APKBq8kz...4pump</span>
+                <span className="font-mono">
+                  {GOLD_CONTRACT_ADDRESS.slice(0, 8)}...{GOLD_CONTRACT_ADDRESS.slice(-5)}
+                </span>
                 {isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
               </Button>
             </div>
@@ -10,6 +10,7 @@ import { Loader2, Wallet } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import dynamic from "next/dynamic"
 import { isBrowser } from "@/utils/browser"
+import { NETWORK_ADDRESSES } from "@/constants/addresses"
 
 // Dynamically import the ThreeScene component with SSR disabled
 const ThreeScene = dynamic(() => import("@/components/three/ThreeScene"), {
@@ -204,7 +205,7 @@ export default function HeroSection() {
               <span className="text-amber-500 font-medium">GOLD Token Contract Address</span>
             </div>
             <div className="mt-2 bg-gray-900 rounded px-4 py-2 font-mono text-sm text-gray-300">
-              ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump
+              {NETWORK_ADDRESSES["mainnet-beta"].goldMint}
             </div>
           </div>
         </motion.div>
@@ -3,6 +3,9 @@
 import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
 import { ArrowDown } from "lucide-react"
+import { NETWORK_ADDRESSES } from "@/constants/addresses"
+
+const GOLD_CONTRACT_ADDRESS = NETWORK_ADDRESSES["mainnet-beta"].goldMint
 
 export default function StaticHeroSection() {
   const [mounted, setMounted] = useState(false)
@@ -102,7 +105,7 @@ export default function StaticHeroSection() {
             Get Started
           </button>
           <button className="px-8 py-3 rounded-lg bg-black/40 border border-amber-500/50 text-amber-100 font-bold hover:bg-black/60 hover:border-amber-400 transform hover:scale-105 transition-all">
-            APKBq8kz.pump
+            {GOLD_CONTRACT_ADDRESS.slice(0, 8)}.{GOLD_CONTRACT_ADDRESS.slice(-4)}
           </button>
         </motion.div>
 
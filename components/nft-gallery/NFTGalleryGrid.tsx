@@ -3,19 +3,19 @@
 import { useState, useEffect } from "react"
 import Image from "next/image"
 import { useWallet } from "@solana/wallet-adapter-react"
-import { useConnection } from "@solana/wallet-adapter-react"
 import { Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { getGoldNftsForOwner } from "@/services/nftService"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import type { NftItem } from "@/services/backends"
 import NFTDetailModal from "@/components/nft-gallery/NFTDetailModal"
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui"
 
 export default function NFTGalleryGrid() {
-  const { connection } = useConnection()
   const { publicKey, connected } = useWallet()
-  const [nfts, setNfts] = useState<any[]>([])
+  const { backend } = useBackend()
+  const [nfts, setNfts] = useState<NftItem[]>([])
   const [loading, setLoading] = useState(false)
-  const [selectedNft, setSelectedNft] = useState<any | null>(null)
+  const [selectedNft, setSelectedNft] = useState<NftItem | null>(null)
 
   useEffect(() => {
     async function fetchNfts() {
@@ -23,94 +23,17 @@ export default function NFTGalleryGrid() {
 
       setLoading(true)
       try {
-        const userNfts = await getGoldNftsForOwner(connection, publicKey)
-
-        // Transform the NFTs into a more usable format
-        const formattedNfts = userNfts.map((nft) => ({
-          mint: nft.address.toString(),
-          name: nft.name,
-          symbol: nft.symbol,
-          description: nft.json?.description || "No description",
-          image: nft.json?.image || "/digital-art-collection.png",
-          attributes: nft.json?.attributes || [],
-          collection: nft.collection?.address.toString() || "Unknown Collection",
-          collectionName: nft.collection?.name || "Unknown Collection",
-        }))
-
-        setNfts(formattedNfts)
+        setNfts(await backend.getNfts(publicKey))
       } catch (error) {
         console.error("Error fetching NFTs:", error)
-
-        // For demo purposes, add some mock NFTs if none are found
-        setNfts([
-          {
-            mint: "mock-mint-1",
-            name: "Golden Egg #1",
-            symbol: "GOLD",
-            description: "A rare golden egg from the Goldium collection",
-            image: "/placeholder.svg?key=dmy27",
-            attributes: [
-              { trait_type: "Background", value: "Cosmic" },
-              { trait_type: "Shell", value: "Diamond" },
-              { trait_type: "Glow", value: "Radiant Gold" },
-              { trait_type: "Rarity", value: "Legendary" },
-            ],
-            collection: "GOLD-collection",
-            collectionName: "Goldium Genesis",
-          },
-          {
-            mint: "mock-mint-2",
-            name: "Golden Egg #42",
-            symbol: "GOLD",
-            description: "A beautiful golden egg from the Goldium collection",
-            image: "/placeholder.svg?key=s0zpi",
-            attributes: [
-              { trait_type: "Background", value: "Nebula" },
-              { trait_type: "Shell", value: "Platinum" },
-              { trait_type: "Glow", value: "Amber" },
-              { trait_type: "Rarity", value: "Epic" },
-            ],
-            collection: "GOLD-collection",
-            collectionName: "Goldium Genesis",
-          },
-          {
-            mint: "mock-mint-3",
-            name: "Golden Egg #78",
-            symbol: "GOLD",
-            description: "A shimmering golden egg from the Goldium collection",
-            image: "/placeholder.svg?key=fgavg",
-            attributes: [
-              { trait_type: "Background", value: "Deep Space" },
-              { trait_type: "Shell", value: "Gold" },
-              { trait_type: "Glow", value: "Subtle" },
-              { trait_type: "Rarity", value: "Rare" },
-            ],
-            collection: "GOLD-collection",
-            collectionName: "Goldium Genesis",
-          },
-          {
-            mint: "mock-mint-4",
-            name: "Goldium Founder #5",
-            symbol: "GOLD",
-            description: "A legendary founder NFT granting governance rights",
-            image: "/placeholder.svg?key=bnq6p",
-            attributes: [
-              { trait_type: "Background", value: "Void" },
-              { trait_type: "Material", value: "Ancient Gold" },
-              { trait_type: "Inscription", value: "Founder" },
-              { trait_type: "Rarity", value: "Mythic" },
-            ],
-            collection: "GOLD-founders",
-            collectionName: "Goldium Founders",
-          },
-        ])
+        setNfts([])
       } finally {
         setLoading(false)
       }
     }
 
     fetchNfts()
-  }, [connection, publicKey, connected])
+  }, [backend, publicKey, connected])
 
   if (!connected) {
     return (
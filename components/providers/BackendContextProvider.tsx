@@ -0,0 +1,66 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useContext, useState, useCallback, useEffect, useMemo } from "react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import {
+  type BackendMode,
+  type DefiBackend,
+  createBackend,
+  getDefaultBackendMode,
+  getStoredBackendMode,
+  storeBackendMode,
+} from "@/services/backends"
+
+// Define the context type
+interface BackendContextType {
+  mode: BackendMode
+  setMode: (mode: BackendMode) => void
+  backend: DefiBackend
+}
+
+// Create the context
+const BackendContext = createContext<BackendContextType | undefined>(undefined)
+
+// Custom hook to use the backend context
+export function useBackend() {
+  const context = useContext(BackendContext)
+  if (!context) {
+    throw new Error("useBackend must be used within a BackendContextProvider")
+  }
+  return context
+}
+
+// Provider props
+interface BackendContextProviderProps {
+  children: React.ReactNode
+}
+
+// Provider component
+export function BackendContextProvider({ children }: BackendContextProviderProps) {
+  const { network, connection } = useNetwork()
+  const [mode, setModeState] = useState<BackendMode>(getDefaultBackendMode)
+
+  // Restore the mode chosen in Settings once we're on the client
+  useEffect(() => {
+    setModeState(getStoredBackendMode())
+  }, [])
+
+  // Set the mode and persist it
+  const setMode = useCallback((newMode: BackendMode) => {
+    storeBackendMode(newMode)
+    setModeState(newMode)
+  }, [])
+
+  const backend = useMemo(() => createBackend(mode, connection, network), [mode, connection, network])
+
+  // Context value
+  const value = {
+    mode,
+    setMode,
+    backend,
+  }
+
+  return <BackendContext.Provider value={value}>{children}</BackendContext.Provider>
+}
@@ -2,17 +2,48 @@
 
 import type React from "react"
 
-import { createContext, useContext, useState, useCallback, useMemo } from "react"
+import { createContext, useContext, useState, useCallback, useMemo, useEffect, useRef } from "react"
 import { Connection } from "@solana/web3.js"
+import {
+  type RpcEndpoint,
+  type RpcHealth,
+  HEALTH_CHECK_INTERVAL_MS,
+  addCustomEndpoint,
+  checkEndpoints,
+  createFailoverFetch,
+  getEndpoints,
+  rankEndpoints,
+  removeCustomEndpoint,
+} from "@/services/rpcEndpoints"
 
 // Define the network types
-export type NetworkType = "mainnet-beta" | "testnet" | "devnet"
+export type NetworkType = "mainnet-beta" | "testnet" | "devnet" | "localnet"
+
+// Health of the endpoint in use: healthy, running on a fallback, or every endpoint failing
+export type RpcStatus = "checking" | "healthy" | "degraded" | "down"
+
+export interface RpcFailover {
+  from: string
+  to: string
+  error: string
+  at: number
+}
 
 // Define the context type
 interface NetworkContextType {
   network: NetworkType
   setNetwork: (network: NetworkType) => void
   connection: Connection
+  isTestEnvironment: boolean
+  endpoints: RpcEndpoint[]
+  activeEndpoint: RpcEndpoint
+  endpointHealth: Record<string, RpcHealth>
+  rpcStatus: RpcStatus
+  lastFailover: RpcFailover | null
+  getEndpoints: (network: NetworkType) => RpcEndpoint[]
+  addEndpoint: (network: NetworkType, url: string, label?: string) => RpcEndpoint
+  removeEndpoint: (network: NetworkType, url: string) => void
+  checkHealth: (network?: NetworkType) => Promise<void>
 }
 
 // Create the context
@@ -33,38 +64,129 @@ interface NetworkContextProviderProps {
   defaultNetwork?: NetworkType
 }
 
-// Provider component
+// Provider component. Health-checks the network's RPC endpoints, uses the healthiest one
+// and fails over to the next when a request to it fails.
 export function NetworkContextProvider({ children, defaultNetwork = "devnet" }: NetworkContextProviderProps) {
   const [network, setNetworkState] = useState<NetworkType>(defaultNetwork)
+  const [endpointsVersion, setEndpointsVersion] = useState(0)
+  const [endpointHealth, setEndpointHealth] = useState<Record<string, RpcHealth>>({})
+  const [activeUrl, setActiveUrl] = useState(() => getEndpoints(defaultNetwork)[0].url)
+  const [lastFailover, setLastFailover] = useState<RpcFailover | null>(null)
+
+  // Custom endpoints come from localStorage, so re-read them whenever they change
+  const endpoints = useMemo(() => getEndpoints(network), [network, endpointsVersion])
+  const ranked = useMemo(() => rankEndpoints(endpoints, endpointHealth), [endpoints, endpointHealth])
 
-  // Get the RPC URL for the current network
-  const getRpcUrl = useCallback((network: NetworkType): string => {
-    switch (network) {
-      case "mainnet-beta":
-        return "https://api.mainnet-beta.solana.com"
-      case "testnet":
-        return "https://api.testnet.solana.com"
-      case "devnet":
-      default:
-        return "https://api.devnet.solana.com"
+  // Read by the failover fetch, which lives as long as the connection
+  const candidatesRef = useRef<string[]>([])
+  candidatesRef.current = [activeUrl, ...ranked.filter((url) => url !== activeUrl)]
+
+  // Checks the current network unless another one is given, e.g. from the settings page
+  const checkHealth = useCallback(
+    async (target?: NetworkType) => {
+      const health = await checkEndpoints(target ? getEndpoints(target) : endpoints)
+      setEndpointHealth((current) => ({ ...current, ...health }))
+      // The failover notice lasts until the endpoint in use passes a check
+      if (health[candidatesRef.current[0]]?.healthy) setLastFailover(null)
+    },
+    [endpoints],
+  )
+
+  // Check on network change and periodically afterwards
+  useEffect(() => {
+    checkHealth()
+    const interval = setInterval(() => checkHealth(), HEALTH_CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [checkHealth])
+
+  // Move to the healthiest endpoint, unless the current one is healthy and equally good
+  useEffect(() => {
+    const best = ranked[0]
+    if (!best || best === activeUrl) return
+    const current = endpointHealth[activeUrl]
+    const bestHealth = endpointHealth[best]
+    if (!endpoints.some((endpoint) => endpoint.url === activeUrl) || (bestHealth?.healthy && !current?.healthy)) {
+      setActiveUrl(best)
+    } else if (bestHealth?.healthy && current?.healthy && bestHealth.latencyMs !== null && current.latencyMs !== null) {
+      // Avoid flapping between endpoints with similar latency
+      if (bestHealth.latencyMs * 2 < current.latencyMs) setActiveUrl(best)
     }
+  }, [ranked, activeUrl, endpoints, endpointHealth])
+
+  const handleFailover = useCallback((url: string, error: string) => {
+    const from = candidatesRef.current[0]
+    if (!from || from === url) return
+
+    setActiveUrl(url)
+    setLastFailover({ from, to: url, error, at: Date.now() })
+    // Keep the failed endpoint out of rotation until the next health check clears it
+    setEndpointHealth((current) => ({
+      ...current,
+      [from]: {
+        url: from,
+        latencyMs: current[from]?.latencyMs ?? null,
+        slot: current[from]?.slot ?? null,
+        slotLag: current[from]?.slotLag ?? null,
+        version: current[from]?.version ?? null,
+        healthy: false,
+        error,
+        checkedAt: Date.now(),
+      },
+    }))
   }, [])
 
   // Create a connection to the Solana network
   const connection = useMemo(() => {
-    return new Connection(getRpcUrl(network), "confirmed")
-  }, [network, getRpcUrl])
+    return new Connection(activeUrl, {
+      commitment: "confirmed",
+      fetch: createFailoverFetch(() => candidatesRef.current, handleFailover),
+    })
+  }, [activeUrl, handleFailover])
 
   // Set the network and update the connection
   const setNetwork = useCallback((newNetwork: NetworkType) => {
     setNetworkState(newNetwork)
+    setActiveUrl(getEndpoints(newNetwork)[0].url)
+    setLastFailover(null)
+  }, [])
+
+  const addEndpoint = useCallback((network: NetworkType, url: string, label?: string) => {
+    const endpoint = addCustomEndpoint(network, url, label)
+    setEndpointsVersion((version) => version + 1)
+    return endpoint
+  }, [])
+
+  const removeEndpoint = useCallback((network: NetworkType, url: string) => {
+    removeCustomEndpoint(network, url)
+    setEndpointsVersion((version) => version + 1)
   }, [])
 
+  const getNetworkEndpoints = useCallback((network: NetworkType) => getEndpoints(network), [endpointsVersion])
+
+  const activeEndpoint = endpoints.find((endpoint) => endpoint.url === activeUrl) ?? endpoints[0]
+
+  const rpcStatus: RpcStatus = useMemo(() => {
+    const active = endpointHealth[activeEndpoint.url]
+    if (!active) return "checking"
+    if (endpoints.every((endpoint) => endpointHealth[endpoint.url]?.healthy === false)) return "down"
+    return active.healthy && !lastFailover ? "healthy" : "degraded"
+  }, [endpointHealth, activeEndpoint, endpoints, lastFailover])
+
   // Context value
   const value = {
     network,
     setNetwork,
     connection,
+    isTestEnvironment: network !== "mainnet-beta",
+    endpoints,
+    activeEndpoint,
+    endpointHealth,
+    rpcStatus,
+    lastFailover,
+    getEndpoints: getNetworkEndpoints,
+    addEndpoint,
+    removeEndpoint,
+    checkHealth,
   }
 
   return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>
@@ -0,0 +1,75 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useContext, useState, useEffect } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useTheme as useNextTheme } from "next-themes"
+import {
+  type AppSettings,
+  type SettingsUpdate,
+  exportSettings,
+  getSettings,
+  importSettings,
+  loadSettings,
+  resetSettings,
+  subscribeSettings,
+  updateSettings,
+} from "@/services/settingsStore"
+
+// Define the context type
+interface SettingsContextType {
+  settings: AppSettings
+  updateSettings: (updates: SettingsUpdate) => AppSettings
+  resetSettings: () => AppSettings
+  exportSettings: () => string
+  importSettings: (json: string) => AppSettings
+}
+
+// Create the context
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
+
+// Custom hook to use the settings context
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (!context) {
+    throw new Error("useSettings must be used within a SettingsContextProvider")
+  }
+  return context
+}
+
+// Provider props
+interface SettingsContextProviderProps {
+  children: React.ReactNode
+}
+
+// Provider component. Loads the connected wallet's settings and applies the theme.
+export function SettingsContextProvider({ children }: SettingsContextProviderProps) {
+  const { publicKey } = useWallet()
+  const { setTheme } = useNextTheme()
+  const [settings, setSettings] = useState<AppSettings>(getSettings)
+
+  const owner = publicKey?.toBase58() ?? null
+
+  useEffect(() => subscribeSettings(setSettings), [])
+
+  // Switch to the wallet's settings whenever the wallet changes
+  useEffect(() => {
+    loadSettings(owner)
+  }, [owner])
+
+  useEffect(() => {
+    setTheme(settings.theme)
+  }, [settings.theme, setTheme])
+
+  // Context value
+  const value = {
+    settings,
+    updateSettings,
+    resetSettings,
+    exportSettings,
+    importSettings,
+  }
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { type TransactionPreview, setPreviewHandler } from "@/services/transactionPreview"
+
+interface PendingPreview {
+  preview: TransactionPreview
+  resolve: (confirmed: boolean) => void
+}
+
+function formatAmount(amount: number) {
+  return Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 9 })
+}
+
+function PreviewRow({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  )
+}
+
+// Shared confirmation dialog for simulated transaction previews. Previews requested while one is open wait
+// their turn, so every request is answered.
+export function TransactionPreviewProvider({ children }: { children: React.ReactNode }) {
+  const [queue, setQueue] = useState<PendingPreview[]>([])
+  const pending = queue[0] ?? null
+
+  useEffect(
+    () =>
+      setPreviewHandler(
+        (preview) => new Promise((resolve) => setQueue((current) => [...current, { preview, resolve }])),
+      ),
+    [],
+  )
+
+  const settle = useCallback(
+    (confirmed: boolean) => {
+      if (!pending) return
+      pending.resolve(confirmed)
+      // Only drop the preview that was answered, should settle run twice before the dialog updates
+      setQueue((current) => (current[0] === pending ? current.slice(1) : current))
+    },
+    [pending],
+  )
+
+  const preview = pending?.preview
+  const sent = preview?.changes.filter((change) => change.amount < 0) ?? []
+  const received = preview?.changes.filter((change) => change.amount > 0) ?? []
+
+  return (
+    <>
+      {children}
+      <Dialog open={!!pending} onOpenChange={(open) => !open && settle(false)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirm transaction</DialogTitle>
+            <DialogDescription>{preview?.label}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {sent.map((change) => (
+              <PreviewRow
+                key={`sent-${change.mint}`}
+                label="You send"
+                value={`${formatAmount(change.amount)} ${change.symbol}`}
+                className="text-red-500"
+              />
+            ))}
+            {received.map((change) => (
+              <PreviewRow
+                key={`received-${change.mint}`}
+                label="You receive"
+                value={`${formatAmount(change.amount)} ${change.symbol}`}
+                className="text-green-500"
+              />
+            ))}
+            {preview?.minimumReceived && (
+              <PreviewRow
+                label="Minimum received"
+                value={`≥${formatAmount(preview.minimumReceived.amount)} ${preview.minimumReceived.symbol}`}
+              />
+            )}
+            {preview && <PreviewRow label="Network fee" value={`${formatAmount(preview.fee)} SOL`} />}
+            {preview?.computeUnits !== undefined && (
+              <PreviewRow label="Compute units" value={preview.computeUnits.toLocaleString()} />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => settle(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => settle(true)}>Confirm</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
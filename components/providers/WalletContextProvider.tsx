@@ -1,7 +1,5 @@
 "use client"
 
-import type React from "react"
-
 import { useEffect, useMemo, useState, createContext, useContext, type ReactNode, useCallback } from "react"
 import {
   ConnectionProvider,
@@ -14,43 +12,74 @@ import { PhantomWalletAdapter, SolflareWalletAdapter, TorusWalletAdapter } from
 import { useToast } from "@/components/ui/use-toast"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
 import { WalletAdapterNetwork } from "@solana/wallet-adapter-base"
-import { clusterApiUrl } from "@solana/web3.js"
+import { type TrackedTransaction, onTransactionUpdate } from "@/services/transactionEngine"
+import type { LanguagePreference, ThemePreference } from "@/services/settingsStore"
+import { SettingsContextProvider, useSettings } from "@/components/providers/SettingsContextProvider"
+import * as i18n from "@/utils/i18n"
+import type { MessageKey, MessageValues } from "@/utils/i18n"
 
 // Import the wallet adapter styles
 import "@solana/wallet-adapter-react-ui/styles.css"
 
-// Transaction context
-type Transaction = {
-  id: string
-  fromToken: string
-  toToken: string
-  fromAmount: number
-  toAmount: number
-  status: "pending" | "confirmed" | "failed"
-  timestamp: number
-  signature?: string
-}
+// Transaction context, fed by the transaction engine
+const TRANSACTION_HISTORY_KEY = "goldium-transaction-history"
+const MAX_TRANSACTION_HISTORY = 50
 
 type TransactionContextType = {
-  transactions: Transaction[]
-  addTransaction: (transaction: Omit<Transaction, "id" | "timestamp">) => void
-  updateTransaction: (id: string, updates: Partial<Transaction>) => void
+  transactions: TrackedTransaction[]
   clearTransactions: () => void
 }
 
 const TransactionContext = createContext<TransactionContextType>({
   transactions: [],
-  addTransaction: () => {},
-  updateTransaction: () => {},
   clearTransactions: () => {},
 })
 
 export const useTransactions = () => useContext(TransactionContext)
 
+function TransactionHistoryProvider({ children }: { children: ReactNode }) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([])
+
+  // Load saved history
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(TRANSACTION_HISTORY_KEY)
+      if (saved) setTransactions(JSON.parse(saved))
+    } catch (error) {
+      console.error("Error loading transaction history:", error)
+    }
+  }, [])
+
+  // Record every status transition reported by the engine
+  useEffect(
+    () =>
+      onTransactionUpdate((transaction) => {
+        setTransactions((current) => {
+          const next = current.some((tx) => tx.id === transaction.id)
+            ? current.map((tx) => (tx.id === transaction.id ? transaction : tx))
+            : [transaction, ...current]
+          const trimmed = next.slice(0, MAX_TRANSACTION_HISTORY)
+          window.localStorage.setItem(TRANSACTION_HISTORY_KEY, JSON.stringify(trimmed))
+          return trimmed
+        })
+      }),
+    [],
+  )
+
+  const clearTransactions = useCallback(() => {
+    window.localStorage.removeItem(TRANSACTION_HISTORY_KEY)
+    setTransactions([])
+  }, [])
+
+  return (
+    <TransactionContext.Provider value={{ transactions, clearTransactions }}>{children}</TransactionContext.Provider>
+  )
+}
+
 // Theme context
 type ThemeContextType = {
-  theme: "dark" | "light"
-  setTheme: (theme: "dark" | "light") => void
+  theme: ThemePreference
+  setTheme: (theme: ThemePreference) => void
 }
 
 const ThemeContext = createContext<ThemeContextType>({
@@ -60,121 +89,61 @@ const ThemeContext = createContext<ThemeContextType>({
 
 export const useTheme = () => useContext(ThemeContext)
 
-// Language context
-type Language = "en" | "es" | "fr" | "zh" | "ja"
+// Language context, backed by the message catalogs in locales/
+type Language = LanguagePreference
 
 type LanguageContextType = {
   language: Language
   setLanguage: (language: Language) => void
-  t: (key: string) => string
+  t: (key: MessageKey, values?: MessageValues) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatTokenAmount: (amount: number, symbol?: string, maximumFractionDigits?: number) => string
+  formatCurrency: (value: number, currency?: string) => string
+  formatDate: (date: number | Date, options?: Intl.DateTimeFormatOptions) => string
 }
 
-const translations: Record<Language, Record<string, string>> = {
-  en: {
-    swap: "Swap",
-    pools: "Pools",
-    farms: "Farms",
-    nftGallery: "NFT Gallery",
-    settings: "Settings",
-    connectWallet: "Connect Wallet",
-    from: "From",
-    to: "To",
-    slippageTolerance: "Slippage Tolerance",
-    enterAmount: "Enter an amount",
-    insufficientBalance: "Insufficient Balance",
-    fetchingQuote: "Fetching Quote",
-    transactionHistory: "Transaction History",
-    noTransactions: "No transactions yet",
-    pending: "Pending",
-    confirmed: "Confirmed",
-    failed: "Failed",
-  },
-  es: {
-    swap: "Intercambiar",
-    pools: "Pools",
-    farms: "Granjas",
-    nftGallery: "Galería NFT",
-    settings: "Ajustes",
-    connectWallet: "Conectar Billetera",
-    from: "De",
-    to: "A",
-    slippageTolerance: "Tolerancia de Deslizamiento",
-    enterAmount: "Ingrese una cantidad",
-    insufficientBalance: "Saldo Insuficiente",
-    fetchingQuote: "Obteniendo Cotización",
-    transactionHistory: "Historial de Transacciones",
-    noTransactions: "Aún no hay transacciones",
-    pending: "Pendiente",
-    confirmed: "Confirmado",
-    failed: "Fallido",
-  },
-  fr: {
-    swap: "Échanger",
-    pools: "Pools",
-    farms: "Fermes",
-    nftGallery: "Galerie NFT",
-    settings: "Paramètres",
-    connectWallet: "Connecter Portefeuille",
-    from: "De",
-    to: "À",
-    slippageTolerance: "Tolérance de Glissement",
-    enterAmount: "Entrez un montant",
-    insufficientBalance: "Solde Insuffisant",
-    fetchingQuote: "Récupération du Devis",
-    transactionHistory: "Historique des Transactions",
-    noTransactions: "Pas encore de transactions",
-    pending: "En attente",
-    confirmed: "Confirmé",
-    failed: "Échoué",
-  },
-  zh: {
-    swap: "兑换",
-    pools: "流动池",
-    farms: "农场",
-    nftGallery: "NFT 画廊",
-    settings: "设置",
-    connectWallet: "连接钱包",
-    from: "从",
-    to: "到",
-    slippageTolerance: "滑点容忍度",
-    enterAmount: "输入金额",
-    insufficientBalance: "余额不足",
-    fetchingQuote: "获取报价",
-    transactionHistory: "交易历史",
-    noTransactions: "暂无交易",
-    pending: "待处理",
-    confirmed: "已确认",
-    failed: "失败",
-  },
-  ja: {
-    swap: "スワップ",
-    pools: "プール",
-    farms: "ファーム",
-    nftGallery: "NFTギャラリー",
-    settings: "設定",
-    connectWallet: "ウォレットを接続",
-    from: "から",
-    to: "へ",
-    slippageTolerance: "スリッページ許容度",
-    enterAmount: "金額を入力",
-    insufficientBalance: "残高不足",
-    fetchingQuote: "見積もりを取得中",
-    transactionHistory: "取引履歴",
-    noTransactions: "まだ取引はありません",
-    pending: "保留中",
-    confirmed: "確認済み",
-    failed: "失敗",
-  },
+// Binds the i18n helpers to a language
+function createLanguageHelpers(language: Language) {
+  return {
+    t: (key: MessageKey, values?: MessageValues) => i18n.translate(language, key, values),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => i18n.formatNumber(language, value, options),
+    formatTokenAmount: (amount: number, symbol?: string, maximumFractionDigits?: number) =>
+      i18n.formatTokenAmount(language, amount, symbol, maximumFractionDigits),
+    formatCurrency: (value: number, currency?: string) => i18n.formatCurrency(language, value, currency),
+    formatDate: (date: number | Date, options?: Intl.DateTimeFormatOptions) =>
+      i18n.formatDate(language, date, options),
+  }
 }
 
 const LanguageContext = createContext<LanguageContextType>({
   language: "en",
   setLanguage: () => {},
-  t: (key) => key,
+  ...createLanguageHelpers("en"),
 })
 
 export const useLanguage = () => useContext(LanguageContext)
 
+// Theme and language, backed by the settings store
+function PreferencesProvider({ children }: { children: ReactNode }) {
+  const { settings, updateSettings } = useSettings()
+  const { theme, language } = settings
+
+  const setTheme = useCallback((theme: ThemePreference) => updateSettings({ theme }), [updateSettings])
+  const setLanguage = useCallback((language: Language) => updateSettings({ language }), [updateSettings])
+  const helpers = useMemo(() => createLanguageHelpers(language), [language])
+
+  // Catalog gaps are only reported in development
+  useEffect(() => {
+    i18n.reportMissingTranslations()
+  }, [])
+
+  return (
+    <ThemeContext.Provider value={{ theme, setTheme }}>
+      <LanguageContext.Provider value={{ language, setLanguage, ...helpers }}>{children}</LanguageContext.Provider>
+    </ThemeContext.Provider>
+  )
+}
+
 interface WalletContextType {
   wallets: any[]
   isConnecting: boolean
@@ -193,11 +162,12 @@ export function useWalletContext() {
 
 interface WalletContextProviderProps {
   children: ReactNode
-  network?: "devnet" | "testnet" | "mainnet-beta"
 }
 
-export function WalletContextProvider({ children }: { children: React.ReactNode }) {
-  const { network } = useNetwork()
+// The single provider composition for wallet state: wallet adapter, transaction history, settings, theme and language
+export function WalletContextProvider({ children }: WalletContextProviderProps) {
+  const { network, connection } = useNetwork()
+  const { toast } = useToast()
   const [isConnecting, setIsConnecting] = useState(false)
 
   // Set network to WalletAdapterNetwork format
@@ -207,21 +177,31 @@ export function WalletContextProvider({ children }: { children: React.ReactNode
         return WalletAdapterNetwork.Mainnet
       case "testnet":
         return WalletAdapterNetwork.Testnet
+      // Wallet adapters have no localnet; devnet is the closest match
+      case "localnet":
       case "devnet":
       default:
         return WalletAdapterNetwork.Devnet
     }
   }, [network])
 
-  // Generate RPC endpoint based on network
-  const endpoint = useMemo(() => clusterApiUrl(walletNetwork), [walletNetwork])
-
   // Initialize wallet adapters
   const wallets = useMemo(
     () => [new PhantomWalletAdapter(), new SolflareWalletAdapter(), new TorusWalletAdapter()],
     [walletNetwork],
   )
 
+  const onWalletError = useCallback(
+    (error: Error) => {
+      toast({
+        title: "Wallet Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+    [toast],
+  )
+
   // Expose wallet context
   const value = {
     wallets,
@@ -229,10 +209,19 @@ export function WalletContextProvider({ children }: { children: React.ReactNode
     setIsConnecting,
   }
 
+  // Share the network's RPC endpoint so wallet-adapter hooks and our services use the same cluster
   return (
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect>
-        <WalletModalProvider value={value}>{children}</WalletModalProvider>
+    <ConnectionProvider endpoint={connection.rpcEndpoint}>
+      <WalletProvider wallets={wallets} autoConnect onError={onWalletError}>
+        <WalletContext.Provider value={value}>
+          <WalletModalProvider>
+            <SettingsContextProvider>
+              <PreferencesProvider>
+                <TransactionHistoryProvider>{children}</TransactionHistoryProvider>
+              </PreferencesProvider>
+            </SettingsContextProvider>
+          </WalletModalProvider>
+        </WalletContext.Provider>
       </WalletProvider>
     </ConnectionProvider>
   )
@@ -288,41 +277,3 @@ export function useWalletStatus() {
 }
 
 export const useWallet = useWalletStatus
-export const useWalletBalance = () => {
-  const { connection } = useConnection()
-  const { publicKey, connected } = useSolanaWallet()
-  const [balances, setBalances] = useState<{ [key: string]: number }>({})
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  const fetchBalances = useCallback(async () => {
-    if (!publicKey || !connected) return
-
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      const solBalance = (await connection.getBalance(publicKey)) / 10 ** 9
-      setBalances((prev) => ({ ...prev, SOL: solBalance }))
-
-      setIsLoading(false)
-    } catch (error: any) {
-      console.error("Failed to fetch balances", error)
-      setError(error.message || "Failed to fetch balances")
-      setIsLoading(false)
-    }
-  }, [connection, publicKey, connected])
-
-  useEffect(() => {
-    if (publicKey && connected) {
-      fetchBalances()
-    }
-  }, [publicKey, connected, fetchBalances])
-
-  return {
-    balances,
-    isLoading,
-    error,
-    refreshBalances: fetchBalances,
-  }
-}
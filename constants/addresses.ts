@@ -0,0 +1,199 @@
+import { type Connection, PublicKey } from "@solana/web3.js"
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import localnetManifest from "@/deployments/localnet.json"
+
+// Address registry: every mint, program, pool and collection the dApp uses, per network.
+// Services and API routes read addresses from here rather than keeping their own copies.
+// Localnet addresses come from deployments/localnet.json, which the local deploy writes after
+// creating fresh mints and programs on solana-test-validator.
+
+export interface NetworkAddresses {
+  // Mints
+  goldMint: string
+  solMint: string // wrapped SOL
+  usdcMint: string
+  bonkMint: string
+  // Programs
+  stakingProgram: string
+  faucetProgram: string
+  memoProgram: string
+  // Accounts
+  stakingPool: string // the staking program's "staking_pool" PDA
+  goldSolPool: string
+  goldUsdcPool: string
+  goldCollection: string // collection NFT mint
+}
+
+export type AddressKey = keyof NetworkAddresses
+
+// What each address is expected to be on chain, checked by validateNetworkAddresses
+type AddressSpec = { kind: "mint" } | { kind: "program" } | { kind: "account"; owner?: AddressKey }
+
+const ADDRESS_SPECS: Record<AddressKey, AddressSpec> = {
+  goldMint: { kind: "mint" },
+  solMint: { kind: "mint" },
+  usdcMint: { kind: "mint" },
+  bonkMint: { kind: "mint" },
+  stakingProgram: { kind: "program" },
+  faucetProgram: { kind: "program" },
+  memoProgram: { kind: "program" },
+  stakingPool: { kind: "account", owner: "stakingProgram" },
+  goldSolPool: { kind: "account" },
+  goldUsdcPool: { kind: "account" },
+  goldCollection: { kind: "mint" },
+}
+
+const ADDRESS_KEYS = Object.keys(ADDRESS_SPECS) as AddressKey[]
+
+// The addresses a localnet deploy must provide; the rest default to the public cluster ones
+const REQUIRED_MANIFEST_KEYS: AddressKey[] = ["goldMint", "stakingProgram", "stakingPool", "goldCollection"]
+
+export interface DeploymentManifest {
+  network: NetworkType
+  rpcUrl?: string
+  addresses: Partial<NetworkAddresses>
+}
+
+export const DEFAULT_LOCALNET_RPC_URL = "http://127.0.0.1:8899"
+
+// Thrown when a deployment manifest is missing fields or holds invalid addresses
+export class DeploymentManifestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "DeploymentManifestError"
+  }
+}
+
+export function isValidAddress(value: unknown): value is string {
+  if (typeof value !== "string") return false
+  try {
+    new PublicKey(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Validate a manifest read from JSON
+export function parseDeploymentManifest(json: unknown): DeploymentManifest {
+  const manifest = json as Partial<DeploymentManifest> | null
+  if (!manifest || typeof manifest !== "object" || !manifest.addresses || typeof manifest.addresses !== "object") {
+    throw new DeploymentManifestError("Deployment manifest must have an addresses object")
+  }
+
+  const addresses = manifest.addresses as Record<string, unknown>
+  const missing = REQUIRED_MANIFEST_KEYS.filter((key) => addresses[key] === undefined)
+  const invalid = ADDRESS_KEYS.filter((key) => addresses[key] !== undefined && !isValidAddress(addresses[key]))
+  const problems = [
+    ...missing.map((key) => `${key} is missing`),
+    ...invalid.map((key) => `${key} is not a valid address`),
+  ]
+  if (problems.length > 0) {
+    throw new DeploymentManifestError(`Invalid deployment manifest: ${problems.join(", ")}`)
+  }
+
+  if (manifest.rpcUrl !== undefined && typeof manifest.rpcUrl !== "string") {
+    throw new DeploymentManifestError("Deployment manifest rpcUrl must be a string")
+  }
+
+  const parsed: Partial<NetworkAddresses> = {}
+  ADDRESS_KEYS.forEach((key) => {
+    if (addresses[key] !== undefined) parsed[key] = addresses[key] as string
+  })
+  return { network: manifest.network ?? "localnet", rpcUrl: manifest.rpcUrl, addresses: parsed }
+}
+
+// The public clusters currently share one set of addresses
+const PUBLIC_CLUSTER_ADDRESSES: NetworkAddresses = {
+  goldMint: "ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump",
+  solMint: "So11111111111111111111111111111111111111112",
+  usdcMint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  bonkMint: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+  stakingProgram: "GStKMnqHM6uJiVKGiznWSJQNuDtcMiNMM2WgaTJgr5P9",
+  faucetProgram: "FaucGo1dTkH8CjDXSFpZ7kVToKDnNXpKNYPfMJjJwHjR",
+  memoProgram: "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr",
+  stakingPool: "8TfCndXXdpw8ftqKcsGts4qXzJgGVuuTdEFQtxv3DMjg",
+  goldSolPool: "GS1dsoPnAEuBnuXvzjVrAyJRxJhiR9Jbs3VaX7JJKnY",
+  goldUsdcPool: "GU1dcUSgMGd9Bz1QBqMrwQoogZi1kHhfzFHcPXVZmtBE",
+  goldCollection: "GoLDNFT111111111111111111111111111111111111",
+}
+
+function loadLocalnetManifest(): DeploymentManifest {
+  try {
+    return parseDeploymentManifest(localnetManifest)
+  } catch (error) {
+    // Keep the other networks usable; localnet falls back to the public cluster addresses
+    console.error("Invalid deployments/localnet.json, using the public cluster addresses:", error)
+    return { network: "localnet", rpcUrl: DEFAULT_LOCALNET_RPC_URL, addresses: {} }
+  }
+}
+
+export const LOCALNET_DEPLOYMENT = loadLocalnetManifest()
+
+export const LOCALNET_RPC_URL = LOCALNET_DEPLOYMENT.rpcUrl || DEFAULT_LOCALNET_RPC_URL
+
+export const NETWORK_ADDRESSES: Record<NetworkType, NetworkAddresses> = {
+  "mainnet-beta": PUBLIC_CLUSTER_ADDRESSES,
+  testnet: PUBLIC_CLUSTER_ADDRESSES,
+  devnet: PUBLIC_CLUSTER_ADDRESSES,
+  localnet: { ...PUBLIC_CLUSTER_ADDRESSES, ...LOCALNET_DEPLOYMENT.addresses },
+}
+
+// A typo in the registry would break every transaction, so fail on load rather than on first use
+Object.entries(NETWORK_ADDRESSES).forEach(([network, addresses]) => {
+  ADDRESS_KEYS.forEach((key) => {
+    if (!isValidAddress(addresses[key])) {
+      throw new Error(`Address registry: ${network} ${key} "${addresses[key]}" is not a valid address`)
+    }
+  })
+})
+
+export const NETWORKS: NetworkType[] = ["mainnet-beta", "testnet", "devnet", "localnet"]
+
+// Network named by a request parameter, defaulting to devnet
+export function parseNetwork(value: string | null): NetworkType {
+  return NETWORKS.find((network) => network === value) ?? "devnet"
+}
+
+export function getNetworkAddresses(network: NetworkType): NetworkAddresses {
+  return NETWORK_ADDRESSES[network]
+}
+
+export function getAddress(network: NetworkType, key: AddressKey): PublicKey {
+  return new PublicKey(NETWORK_ADDRESSES[network][key])
+}
+
+export interface AddressIssue {
+  key: AddressKey
+  address: string
+  problem: string
+}
+
+// Check the registry against the chain: every account exists, mints belong to a token program,
+// programs are executable and program-owned accounts belong to the expected program.
+export async function validateNetworkAddresses(connection: Connection, network: NetworkType): Promise<AddressIssue[]> {
+  const addresses = NETWORK_ADDRESSES[network]
+  const accounts = await connection.getMultipleAccountsInfo(ADDRESS_KEYS.map((key) => new PublicKey(addresses[key])))
+  const issues: AddressIssue[] = []
+
+  ADDRESS_KEYS.forEach((key, index) => {
+    const account = accounts[index]
+    const spec = ADDRESS_SPECS[key]
+    const issue = (problem: string) => issues.push({ key, address: addresses[key], problem })
+
+    if (!account) {
+      issue("account does not exist")
+    } else if (spec.kind === "mint") {
+      if (!account.owner.equals(TOKEN_PROGRAM_ID) && !account.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        issue(`expected a token mint, owned by ${account.owner.toBase58()}`)
+      }
+    } else if (spec.kind === "program") {
+      if (!account.executable) issue("expected an executable program")
+    } else if (spec.owner && account.owner.toBase58() !== addresses[spec.owner]) {
+      issue(`expected owner ${spec.owner} (${addresses[spec.owner]}), owned by ${account.owner.toBase58()}`)
+    }
+  })
+
+  return issues
+}
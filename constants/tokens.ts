@@ -1,3 +1,5 @@
+import { NETWORK_ADDRESSES } from "@/constants/addresses"
+
 export interface Token {
   name: string
   symbol: string
@@ -7,18 +9,14 @@ export interface Token {
   totalSupply?: number
 }
 
-// Token addresses for different networks
-export const GOLD_MINT_ADDRESS = {
-  "mainnet-beta": "ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump",
-  devnet: "ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump",
-  testnet: "ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump",
-}
+// Mints come from the address registry; the static tokens below use the devnet ones
+const { goldMint, solMint, usdcMint, bonkMint } = NETWORK_ADDRESSES.devnet
 
 // Solana token
 export const SOL_TOKEN: Token = {
   name: "Solana",
   symbol: "SOL",
-  mint: "So11111111111111111111111111111111111111112",
+  mint: solMint,
   decimals: 9,
   logoURI: "/solana-logo.png",
 }
@@ -27,7 +25,7 @@ export const SOL_TOKEN: Token = {
 export const GOLD_TOKEN: Token = {
   name: "Goldium",
   symbol: "GOLD",
-  mint: GOLD_MINT_ADDRESS["devnet"], // Default to devnet
+  mint: goldMint,
   decimals: 9,
   logoURI: "/goldium-logo.png",
   totalSupply: 1_000_000, // Updated from 1 billion to 1 million tokens
@@ -37,7 +35,7 @@ export const GOLD_TOKEN: Token = {
 export function getGoldTokenForNetwork(network: string): Token {
   return {
     ...GOLD_TOKEN,
-    mint: GOLD_MINT_ADDRESS[network as keyof typeof GOLD_MINT_ADDRESS] || GOLD_MINT_ADDRESS.devnet,
+    mint: NETWORK_ADDRESSES[network as keyof typeof NETWORK_ADDRESSES]?.goldMint ?? goldMint,
   }
 }
 
@@ -45,7 +43,7 @@ export function getGoldTokenForNetwork(network: string): Token {
 export const USDC_TOKEN: Token = {
   name: "USD Coin",
   symbol: "USDC",
-  mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  mint: usdcMint,
   decimals: 6,
   logoURI: "/usdc-logo.png",
 }
@@ -53,22 +51,10 @@ export const USDC_TOKEN: Token = {
 export const BONK_TOKEN: Token = {
   name: "Bonk",
   symbol: "BONK",
-  mint: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+  mint: bonkMint,
   decimals: 5,
   logoURI: "/bonk-token-logo.png",
 }
 
 // List of all available tokens
 export const AVAILABLE_TOKENS: Token[] = [SOL_TOKEN, GOLD_TOKEN, USDC_TOKEN, BONK_TOKEN]
-
-// Staking program ID
-export const STAKING_PROGRAM_ID = "GStKMnqHM6uJiVKGiznWSJQNuDtcMiNMM2WgaTJgr5P9"
-
-// Faucet program ID
-export const FAUCET_PROGRAM_ID = "FaucGo1dTkH8CjDXSFpZ7kVToKDnNXpKNYPfMJjJwHjR"
-
-// Liquidity pool IDs
-export const LIQUIDITY_POOLS = {
-  GOLD_SOL: "GS1dsoPnAEuBnuXvzjVrAyJRxJhiR9Jbs3VaX7JJKnY",
-  GOLD_USDC: "GU1dcUSgMGd9Bz1QBqMrwQoogZi1kHhfzFHcPXVZmtBE",
-}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import {
+  type AddressBookEntry,
+  getAddressBook,
+  removeAddress as removeBookAddress,
+  saveAddress as saveBookAddress,
+  subscribeAddressBook,
+} from "@/services/addressBook"
+
+// The connected wallet's address book, kept in sync across components
+export function useAddressBook() {
+  const { publicKey } = useWallet()
+  const owner = publicKey?.toBase58() ?? null
+  const [entries, setEntries] = useState<AddressBookEntry[]>([])
+
+  useEffect(() => {
+    const update = () => setEntries(getAddressBook(owner))
+    update()
+    return subscribeAddressBook(update)
+  }, [owner])
+
+  const saveAddress = useCallback((address: string, label: string) => saveBookAddress(owner, address, label), [owner])
+
+  const removeAddress = useCallback((address: string) => removeBookAddress(owner, address), [owner])
+
+  return { entries, saveAddress, removeAddress }
+}
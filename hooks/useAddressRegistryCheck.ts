@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect } from "react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useToast } from "@/components/ui/use-toast"
+import { validateNetworkAddresses } from "@/constants/addresses"
+
+// Check the address registry against the selected network once per network switch.
+// Problems are logged; in development they're also toasted so a stale localnet manifest is noticed.
+export function useAddressRegistryCheck() {
+  const { network, connection } = useNetwork()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    let cancelled = false
+
+    validateNetworkAddresses(connection, network)
+      .then((issues) => {
+        if (cancelled || issues.length === 0) return
+        issues.forEach((issue) => {
+          console.error(`Address registry (${network}) ${issue.key} ${issue.address}: ${issue.problem}`)
+        })
+
+        if (process.env.NODE_ENV !== "production") {
+          toast({
+            title: "Address registry mismatch",
+            description: `These addresses don't match ${network}: ${issues.map((issue) => issue.key).join(", ")}`,
+            variant: "destructive",
+          })
+        }
+      })
+      .catch((error) => console.error("Error validating the address registry:", error))
+
+    return () => {
+      cancelled = true
+    }
+    // Re-run on network switches only, not on every RPC failover
+  }, [network])
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { PublicKey } from "@solana/web3.js"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import type { Token } from "@/constants/tokens"
+import { type AirdropRow, applyTransferResult, isPendingRow, parseAirdropCsv } from "@/services/airdrop"
+import { useWalletBalance } from "./useWalletBalance"
+
+// Rows of an uploaded airdrop CSV, sent through the active backend. Running again resumes the failed rows.
+export function useAirdrop() {
+  const wallet = useWallet()
+  const { backend } = useBackend()
+  const { refreshBalances } = useWalletBalance()
+  const [rows, setRows] = useState<AirdropRow[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  // Throws AirdropCsvError for files without usable rows
+  const loadCsv = useCallback((text: string) => setRows(parseAirdropCsv(text)), [])
+
+  const clear = useCallback(() => setRows([]), [])
+
+  const run = useCallback(
+    async (token: Token) => {
+      const pending = rows.flatMap((row, index) => (isPendingRow(row) ? [index] : []))
+      if (pending.length === 0) return
+      const transfers = pending.map((index) => ({
+        recipient: new PublicKey(rows[index].address),
+        amount: rows[index].amount,
+      }))
+
+      setIsRunning(true)
+      setRows((current) =>
+        current.map((row, index) => (pending.includes(index) ? { ...row, status: "sending", error: undefined } : row)),
+      )
+      try {
+        await backend.transferBatch(wallet, { token, transfers }, (result) => {
+          const rowIndex = pending[result.index]
+          setRows((current) =>
+            current.map((row, index) => (index === rowIndex ? applyTransferResult(row, result) : row)),
+          )
+        })
+      } catch (error: any) {
+        // Nothing still marked as sending went out
+        setRows((current) =>
+          current.map((row) => (row.status === "sending" ? { ...row, status: "failed", error: error.message } : row)),
+        )
+        throw error
+      } finally {
+        setIsRunning(false)
+        refreshBalances()
+      }
+    },
+    [backend, wallet, rows, refreshBalances],
+  )
+
+  return { rows, loadCsv, clear, run, isRunning }
+}
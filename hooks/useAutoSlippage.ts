@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { Token } from "@/constants/tokens"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
+import type { SwapRoute } from "@/services/backends"
+import { fetchPairPriceHistory, fetchTokenPrice } from "@/services/priceFeed"
+import {
+  SLIPPAGE_HISTORY_DAYS,
+  type SlippageRecommendation,
+  dailyVolatility,
+  recommendSlippage,
+} from "@/services/slippage"
+
+interface PairMarket {
+  volatility: number | null
+  liquidityUsd: number | null // of the shallower of the two tokens' pools
+  inputPriceUsd: number | null
+}
+
+// Recommended slippage for a swap, from the selected route's price impact and the pair's volatility and
+// liquidity, within the bounds in Settings. Market data is fetched once per pair while enabled; signals
+// that can't be read are left out and the recommendation falls back to a fixed allowance for them.
+export function useAutoSlippage(
+  inputToken: Token,
+  outputToken: Token,
+  amount: number,
+  route: SwapRoute | null,
+  enabled: boolean,
+) {
+  const { network } = useNetwork()
+  const { backend } = useBackend()
+  const { settings } = useSettings()
+  const [market, setMarket] = useState<PairMarket | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    setMarket(null)
+
+    Promise.allSettled([
+      fetchPairPriceHistory(network, inputToken.mint, outputToken.mint, SLIPPAGE_HISTORY_DAYS),
+      backend.getPoolData(inputToken.mint),
+      backend.getPoolData(outputToken.mint),
+      fetchTokenPrice(network, inputToken.mint),
+    ]).then(([history, inputPool, outputPool, inputPrice]) => {
+      if (cancelled) return
+      const tvls: number[] = []
+      for (const pool of [inputPool, outputPool]) {
+        if (pool.status === "fulfilled" && pool.value.tvl > 0) tvls.push(pool.value.tvl)
+      }
+
+      setMarket({
+        volatility: history.status === "fulfilled" ? dailyVolatility(history.value) : null,
+        liquidityUsd: tvls.length > 0 ? Math.min(...tvls) : null,
+        inputPriceUsd: inputPrice.status === "fulfilled" ? inputPrice.value : null,
+      })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, network, backend, inputToken.mint, outputToken.mint])
+
+  const recommendation = useMemo<SlippageRecommendation | null>(() => {
+    if (!enabled || !route || !market) return null
+
+    const { volatility, liquidityUsd, inputPriceUsd } = market
+    const liquidityShare =
+      liquidityUsd !== null && inputPriceUsd !== null ? (amount * inputPriceUsd) / liquidityUsd : null
+    const priceImpactPct = Number.parseFloat(route.priceImpactPct)
+    return recommendSlippage(
+      { priceImpactPct: Number.isFinite(priceImpactPct) ? priceImpactPct : 0, volatility, liquidityShare },
+      settings.slippageBounds,
+    )
+  }, [enabled, route, market, amount, settings.slippageBounds])
+
+  return { recommendation, isLoading: enabled && market === null }
+}
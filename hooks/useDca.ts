@@ -0,0 +1,147 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import {
+  DCA_CHECK_INTERVAL,
+  type DcaPlan,
+  type NewDcaPlan,
+  cancelDcaPlan,
+  clearEndedDcaPlans,
+  createDcaPlan,
+  getDcaOrderAmount,
+  getDcaPlans,
+  isDcaOrderDue,
+  pauseDcaPlan,
+  recordDcaFill,
+  resumeDcaPlan,
+  subscribeDcaPlans,
+} from "@/services/dca"
+import { useJupiterSwap } from "./useJupiterSwap"
+import { useWalletBalance } from "./useWalletBalance"
+
+// The connected wallet's DCA plans on the selected network. While this hook is mounted and the page is
+// visible, due orders of auto-executing plans are swapped through useJupiterSwap; other due orders wait
+// for the user to start them with executeNow, which asks the wallet to sign.
+export function useDca() {
+  const { publicKey } = useWallet()
+  const { network } = useNetwork()
+  const { getRoutes, executeSwap } = useJupiterSwap()
+  const { refreshBalances } = useWalletBalance()
+  const owner = publicKey?.toBase58() ?? null
+  const [plans, setPlans] = useState<DcaPlan[]>([])
+  const [executingIds, setExecutingIds] = useState<string[]>([])
+  // When plans were last read or checked; orders falling due between checks show up at the next one
+  const [now, setNow] = useState(Date.now)
+
+  // Plans with an order in flight, so a check and a click can't swap the same order twice
+  const executingRef = useRef(new Set<string>())
+  const checkingRef = useRef(false)
+
+  useEffect(() => {
+    const update = () => {
+      setPlans(owner ? getDcaPlans(owner, network) : [])
+      setNow(Date.now())
+    }
+    update()
+    return subscribeDcaPlans(update)
+  }, [owner, network])
+
+  // Swap a plan's due order, reading the plan again in case it was paused or cancelled meanwhile
+  const runOrder = useCallback(
+    async (id: string) => {
+      const plan = owner ? getDcaPlans(owner, network).find((candidate) => candidate.id === id) : undefined
+      if (!owner || !plan || !isDcaOrderDue(plan) || executingRef.current.has(plan.id)) return
+      executingRef.current.add(plan.id)
+      setExecutingIds(Array.from(executingRef.current))
+
+      const inputAmount = getDcaOrderAmount(plan)
+      try {
+        const [route] = await getRoutes(plan.inputToken, plan.outputToken, inputAmount)
+        if (!route) {
+          throw new Error(`No route from ${plan.inputToken.symbol} to ${plan.outputToken.symbol}`)
+        }
+        // executeSwap reports its own failures in a toast
+        const result = await executeSwap(plan.inputToken, plan.outputToken, route)
+        if (!result) throw new Error("Swap failed")
+
+        recordDcaFill(owner, plan.id, {
+          at: Date.now(),
+          inputAmount: result.inputAmount,
+          outputAmount: result.outputAmount,
+          signature: result.signature,
+        })
+        refreshBalances()
+      } catch (error: any) {
+        console.error("Error executing DCA order:", error)
+        recordDcaFill(owner, plan.id, {
+          at: Date.now(),
+          inputAmount,
+          outputAmount: 0,
+          error: error?.message || String(error),
+        })
+      } finally {
+        executingRef.current.delete(plan.id)
+        setExecutingIds(Array.from(executingRef.current))
+      }
+    },
+    [owner, network, getRoutes, executeSwap, refreshBalances],
+  )
+
+  const checkPlans = useCallback(async () => {
+    setNow(Date.now())
+    if (!owner || document.visibilityState !== "visible") return
+    // One order at a time, so the wallet isn't asked to sign several swaps at once: an order can wait on
+    // the preview and the wallet longer than the check interval, so a tick while one is in flight waits
+    // for the next
+    if (checkingRef.current || executingRef.current.size > 0) return
+    checkingRef.current = true
+    try {
+      const due = getDcaPlans(owner, network).filter((plan) => plan.autoExecute && isDcaOrderDue(plan))
+      for (const plan of due) await runOrder(plan.id)
+    } finally {
+      checkingRef.current = false
+    }
+  }, [owner, network, runOrder])
+
+  const hasActivePlans = plans.some((plan) => plan.status === "active")
+  useEffect(() => {
+    if (!hasActivePlans) return
+    checkPlans()
+    const interval = setInterval(checkPlans, DCA_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [hasActivePlans, checkPlans])
+
+  const createPlan = useCallback(
+    (request: NewDcaPlan) => {
+      if (!owner) throw new Error("Wallet not connected")
+      return createDcaPlan(owner, network, request)
+    },
+    [owner, network],
+  )
+
+  const pausePlan = useCallback((id: string) => owner && pauseDcaPlan(owner, id), [owner])
+
+  const resumePlan = useCallback((id: string) => owner && resumeDcaPlan(owner, id), [owner])
+
+  const cancelPlan = useCallback((id: string) => owner && cancelDcaPlan(owner, id), [owner])
+
+  const clearEndedPlans = useCallback(() => owner && clearEndedDcaPlans(owner, network), [owner, network])
+
+  const isOrderDue = useCallback((plan: DcaPlan) => isDcaOrderDue(plan, now), [now])
+
+  const isExecuting = useCallback((id: string) => executingIds.includes(id), [executingIds])
+
+  return {
+    plans,
+    createPlan,
+    executeNow: runOrder,
+    pausePlan,
+    resumePlan,
+    cancelPlan,
+    clearEndedPlans,
+    isOrderDue,
+    isExecuting,
+  }
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useBackend } from "@/components/providers/BackendContextProvider"
 import { useToast } from "@/components/ui/use-toast"
 import { useWalletBalance } from "./useWalletBalance"
 
@@ -10,8 +11,10 @@ import { useWalletBalance } from "./useWalletBalance"
 const COOLDOWN_PERIOD = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
 
 export function useFaucet() {
-  const { publicKey, connected } = useWallet()
+  const wallet = useWallet()
+  const { publicKey, connected } = wallet
   const { network } = useNetwork()
+  const { backend } = useBackend()
   const { toast } = useToast()
   const { refreshBalances } = useWalletBalance()
 
@@ -83,16 +86,10 @@ export function useFaucet() {
     setIsLoading(true)
 
     try {
-      // Simulate transaction delay
-      await new Promise((resolve) => setTimeout(resolve, 1500))
-
       // Get airdrop amount
       const amount = getAirdropAmount()
 
-      // Update GOLD balance
-      const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-      const newGoldBalance = Number(currentGoldBalance) + amount
-      localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
+      await backend.claimFaucet(wallet, amount)
 
       // Update last claim time
       const now = Date.now()
@@ -121,7 +118,7 @@ export function useFaucet() {
     } finally {
       setIsLoading(false)
     }
-  }, [connected, publicKey, canClaim, getAirdropAmount, toast, refreshBalances])
+  }, [connected, publicKey, wallet, backend, canClaim, getAirdropAmount, toast, refreshBalances])
 
   // Initial check
   useEffect(() => {
@@ -1,53 +1,42 @@
 "use client"
 
 import { useState, useCallback, useEffect, useRef } from "react"
-import { useConnection, useWallet } from "@solana/wallet-adapter-react"
-import { useTransaction } from "./useTransaction"
+import { useWallet } from "@solana/wallet-adapter-react"
 import type { Token } from "@/constants/tokens"
 import { useToast } from "@/components/ui/use-toast"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
-
-interface SwapRoute {
-  inAmount: string
-  outAmount: string
-  outAmountWithSlippage: string
-  priceImpactPct: string
-  marketInfos: any[]
-  slippageBps: number
-}
-
-interface QuoteResponse {
-  inputMint: string
-  outputMint: string
-  inAmount: string
-  outAmount: string
-  otherAmountThreshold: string
-  swapMode: string
-  slippageBps: number
-  platformFee: any
-  priceImpactPct: string
-  routePlan: any[]
-  contextSlot: number
-  timeTaken: number
-}
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
+import { type SwapResult, type SwapRoute, swapRouteKey } from "@/services/backends"
+import { assertValidSlippageBps } from "@/services/slippage"
 
 export function useJupiterSwap() {
-  const { connection } = useConnection()
-  const { publicKey, signTransaction } = useWallet()
-  const { sendAndConfirmTransaction, isProcessing } = useTransaction()
+  const wallet = useWallet()
+  const { publicKey, signTransaction } = wallet
   const { toast } = useToast()
   const { network } = useNetwork()
+  const { backend } = useBackend()
+  const { settings } = useSettings()
 
   const [routes, setRoutes] = useState<SwapRoute[]>([])
   const [selectedRoute, setSelectedRoute] = useState<SwapRoute | null>(null)
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [isSwapping, setIsSwapping] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
-  const [slippage, setSlippage] = useState<number>(100) // 1% default slippage (in basis points)
+  const [slippage, setSlippage] = useState<number>(settings.slippageBps) // in basis points
+  const [onlyDirectRoutes, setOnlyDirectRoutes] = useState<boolean>(false)
+
+  // Start from the default slippage in Settings
+  useEffect(() => {
+    setSlippage(settings.slippageBps)
+  }, [settings.slippageBps])
 
   // Use a ref to track active requests and prevent race conditions
   const activeRequestRef = useRef<string | null>(null)
 
+  // Route the user picked, kept selected across refreshes while it is still quoted
+  const chosenRouteKeyRef = useRef<string | null>(null)
+
   // Get swap routes
   const getRoutes = useCallback(
     async (
@@ -69,51 +58,27 @@ export function useJupiterSwap() {
       try {
         setIsLoading(true)
         setError(null)
+        assertValidSlippageBps(slippageBps)
 
-        // Convert amount to input token's smallest unit
-        const inputAmount = Math.floor(amount * Math.pow(10, inputToken.decimals)).toString()
-
-        // Fetch quote from Jupiter API
-        const quoteUrl = `https://quote-api.jup.ag/v6/quote?inputMint=${inputToken.mint}&outputMint=${outputToken.mint}&amount=${inputAmount}&slippageBps=${slippageBps}`
-
-        const response = await fetch(quoteUrl)
-
-        // Check if this is still the active request
-        if (activeRequestRef.current !== requestId) {
-          return []
-        }
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
-          console.error("Jupiter API error:", errorData)
-          throw new Error(`Failed to fetch swap routes: ${errorData.error || "Unknown error"}`)
-        }
-
-        const data = await response.json()
+        const formattedRoutes = await backend.getSwapRoutes(inputToken, outputToken, amount, slippageBps, {
+          onlyDirectRoutes,
+        })
 
         // Check if this is still the active request
         if (activeRequestRef.current !== requestId) {
           return []
         }
 
-        if (!data.data || data.data.length === 0) {
+        if (formattedRoutes.length === 0) {
           setRoutes([])
           setSelectedRoute(null)
           return []
         }
 
-        // Format routes
-        const formattedRoutes: SwapRoute[] = data.data.map((route: any) => ({
-          inAmount: route.inAmount,
-          outAmount: route.outAmount,
-          outAmountWithSlippage: route.otherAmountThreshold,
-          priceImpactPct: route.priceImpactPct,
-          marketInfos: route.marketInfos,
-          slippageBps: slippageBps,
-        }))
-
         setRoutes(formattedRoutes)
-        setSelectedRoute(formattedRoutes[0]) // Select best route by default
+        // Select the best route unless the user chose another one
+        const chosenRoute = formattedRoutes.find((route) => swapRouteKey(route) === chosenRouteKeyRef.current)
+        setSelectedRoute(chosenRoute ?? formattedRoutes[0])
         return formattedRoutes
       } catch (err: any) {
         console.error("Error fetching swap routes:", err)
@@ -128,64 +93,48 @@ export function useJupiterSwap() {
         }
       }
     },
-    [slippage],
+    [slippage, onlyDirectRoutes, backend],
   )
 
-  // Select a specific route
-  const selectRoute = useCallback((route: SwapRoute) => {
-    setSelectedRoute(route)
-  }, [])
+  // Select a specific route. Choosing the best one goes back to following whichever route is best.
+  const selectRoute = useCallback(
+    (route: SwapRoute) => {
+      chosenRouteKeyRef.current = route === routes[0] ? null : swapRouteKey(route)
+      setSelectedRoute(route)
+    },
+    [routes],
+  )
 
-  // Execute swap
+  // Execute swap. Resolves with the result, or null when the swap failed (already reported in a toast).
   const executeSwap = useCallback(
-    async (inputToken: Token, outputToken: Token, route: SwapRoute) => {
+    async (inputToken: Token, outputToken: Token, route: SwapRoute): Promise<SwapResult | null> => {
       if (!publicKey || !signTransaction || !route) {
         toast({
           title: "Swap Error",
           description: "Wallet not connected or route not selected",
           variant: "destructive",
         })
-        return false
+        return null
       }
 
       try {
         setIsSwapping(true)
         setError(null)
+        assertValidSlippageBps(route.slippageBps)
 
-        // For demo purposes, we'll simulate a successful swap
-        // In a real implementation, you would call the Jupiter API
-
-        // Simulate API call delay
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Update local storage to simulate balance changes
         const inputAmount = Number(route.inAmount) / Math.pow(10, inputToken.decimals)
-        const outputAmount = Number(route.outAmount) / Math.pow(10, outputToken.decimals)
-
-        // Get current balances from localStorage
-        const inputBalance = localStorage.getItem(`${publicKey.toString()}_${inputToken.symbol.toLowerCase()}Balance`)
-        const outputBalance = localStorage.getItem(`${publicKey.toString()}_${outputToken.symbol.toLowerCase()}Balance`)
-
-        // Calculate new balances
-        const newInputBalance = Math.max(0, (inputBalance ? Number(inputBalance) : 1000) - inputAmount)
-        const newOutputBalance = (outputBalance ? Number(outputBalance) : 0) + outputAmount
-
-        // Update localStorage
-        localStorage.setItem(
-          `${publicKey.toString()}_${inputToken.symbol.toLowerCase()}Balance`,
-          newInputBalance.toString(),
-        )
-        localStorage.setItem(
-          `${publicKey.toString()}_${outputToken.symbol.toLowerCase()}Balance`,
-          newOutputBalance.toString(),
+        const result = await backend.swap(
+          wallet,
+          { inputToken, outputToken, amount: inputAmount, slippageBps: route.slippageBps },
+          route,
         )
 
         toast({
           title: "Swap Successful",
-          description: `Swapped ${inputAmount.toFixed(4)} ${inputToken.symbol} for ${outputAmount.toFixed(4)} ${outputToken.symbol}`,
+          description: `Swapped ${inputAmount.toFixed(4)} ${inputToken.symbol} for ${result.outputAmount.toFixed(4)} ${outputToken.symbol}`,
         })
 
-        return true
+        return result
       } catch (error: any) {
         console.error("Error executing swap:", error)
         setError(error.message || "Failed to execute swap")
@@ -196,20 +145,21 @@ export function useJupiterSwap() {
           variant: "destructive",
         })
 
-        return false
+        return null
       } finally {
         setIsSwapping(false)
       }
     },
-    [publicKey, signTransaction, toast],
+    [publicKey, signTransaction, wallet, backend, toast],
   )
 
   // Update routes when network changes
   useEffect(() => {
-    // Clear routes when network changes
+    // Clear routes when network or backend changes
     setRoutes([])
     setSelectedRoute(null)
-  }, [network])
+    chosenRouteKeyRef.current = null
+  }, [network, backend])
 
   // Cleanup function to cancel any pending requests when component unmounts
   useEffect(() => {
@@ -225,9 +175,11 @@ export function useJupiterSwap() {
     isSwapping,
     error,
     slippage,
+    onlyDirectRoutes,
     getRoutes,
     executeSwap,
     setSlippage,
+    setOnlyDirectRoutes,
     selectRoute,
   }
 }
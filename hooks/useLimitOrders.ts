@@ -0,0 +1,96 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import {
+  LIMIT_ORDER_CHECK_INTERVAL,
+  type LimitOrder,
+  type NewLimitOrder,
+  cancelLimitOrder,
+  checkLimitOrders,
+  clearClosedLimitOrders,
+  createSwapExecutor,
+  getLimitOrderExecutor,
+  getLimitOrders,
+  placeLimitOrder,
+  subscribeLimitOrders,
+} from "@/services/limitOrders"
+import { useWalletBalance } from "./useWalletBalance"
+
+// The connected wallet's limit orders on the selected network. Open orders are checked against the price
+// feed while this hook is mounted, and filled ones are passed to onFilled.
+export function useLimitOrders(onFilled?: (order: LimitOrder) => void) {
+  const wallet = useWallet()
+  const { network } = useNetwork()
+  const { backend } = useBackend()
+  const { refreshBalances } = useWalletBalance()
+  const owner = wallet.publicKey?.toBase58() ?? null
+  const [orders, setOrders] = useState<LimitOrder[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+
+  const onFilledRef = useRef(onFilled)
+  onFilledRef.current = onFilled
+
+  // A check asked for while one is running, e.g. by placing an order, runs once it's done rather than
+  // alongside it, so two checks never fill the same order
+  const checkingRef = useRef(false)
+  const recheckRef = useRef(false)
+
+  useEffect(() => {
+    const update = () => setOrders(owner ? getLimitOrders(owner, network) : [])
+    update()
+    return subscribeLimitOrders(update)
+  }, [owner, network])
+
+  const checkOrders = useCallback(async () => {
+    if (!owner) return
+    if (checkingRef.current) {
+      recheckRef.current = true
+      return
+    }
+    checkingRef.current = true
+    setIsChecking(true)
+    try {
+      do {
+        recheckRef.current = false
+        try {
+          const executor = getLimitOrderExecutor() ?? createSwapExecutor(backend, wallet)
+          const filled = await checkLimitOrders(owner, network, executor)
+          if (filled.length > 0) refreshBalances()
+          filled.forEach((order) => onFilledRef.current?.(order))
+        } catch (error) {
+          console.error("Error checking limit orders:", error)
+        }
+      } while (recheckRef.current)
+    } finally {
+      checkingRef.current = false
+      setIsChecking(false)
+    }
+  }, [owner, network, backend, wallet, refreshBalances])
+
+  const hasOpenOrders = orders.some((order) => order.status === "open")
+  useEffect(() => {
+    if (!hasOpenOrders) return
+    const interval = setInterval(checkOrders, LIMIT_ORDER_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [hasOpenOrders, checkOrders])
+
+  const placeOrder = useCallback(
+    (request: NewLimitOrder) => {
+      if (!owner) throw new Error("Wallet not connected")
+      const order = placeLimitOrder(owner, network, request)
+      // The target may already be reached
+      checkOrders()
+      return order
+    },
+    [owner, network, checkOrders],
+  )
+
+  const cancelOrder = useCallback((id: string) => owner && cancelLimitOrder(owner, id), [owner])
+
+  const clearClosedOrders = useCallback(() => owner && clearClosedLimitOrders(owner, network), [owner, network])
+
+  return { orders, placeOrder, cancelOrder, clearClosedOrders, checkOrders, isChecking }
+}
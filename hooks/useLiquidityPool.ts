@@ -1,36 +1,23 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
-import { useConnection, useWallet } from "@solana/wallet-adapter-react"
-import { useTransaction } from "./useTransaction"
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
 import { useToast } from "@/components/ui/use-toast"
-import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import type { PoolData, UserPoolShare } from "@/services/backends"
 import { useWalletBalance } from "./useWalletBalance"
+import { useSubscription } from "./useSubscription"
 import { GOLD_TOKEN } from "@/constants/tokens"
 
 export function useLiquidityPool(tokenMint: string) {
-  const { connection } = useConnection()
-  const { publicKey, connected } = useWallet()
-  const { sendAndConfirmTransaction, isProcessing } = useTransaction()
-  const { network } = useNetwork()
-  const { refreshBalances, balances } = useWalletBalance()
+  const wallet = useWallet()
+  const { publicKey, connected } = wallet
+  const { backend } = useBackend()
+  const { refreshBalances, getBalance } = useWalletBalance()
   const { toast } = useToast()
 
-  const [poolData, setPoolData] = useState<{
-    tvl: number
-    volume24h: number
-    fees24h: number
-    apy: number
-    tokenAReserve: number
-    tokenBReserve: number
-  } | null>(null)
-
-  const [userPoolShare, setUserPoolShare] = useState<{
-    lpTokens: number
-    percentage: number
-    value: number
-    earnedFees: number
-  } | null>(null)
+  const [poolData, setPoolData] = useState<PoolData | null>(null)
+  const [userPoolShare, setUserPoolShare] = useState<UserPoolShare | null>(null)
 
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
@@ -46,41 +33,11 @@ export function useLiquidityPool(tokenMint: string) {
       setIsLoading(true)
       setError(null)
 
-      // For demo purposes, we'll use mock data
-      // In a real implementation, you would fetch this from the blockchain
-
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 500))
-
-      // Set pool data based on network
-      const poolTvl = network === "mainnet-beta" ? 1250000 : network === "testnet" ? 500000 : 250000
-
-      setPoolData({
-        tvl: poolTvl,
-        volume24h: poolTvl * 0.25, // 25% of TVL
-        fees24h: poolTvl * 0.25 * 0.003, // 0.3% fee on volume
-        apy: network === "mainnet-beta" ? 12.5 : network === "testnet" ? 15 : 20, // Higher APY on devnet
-        tokenAReserve: poolTvl * 0.5, // 50% of TVL in token A
-        tokenBReserve: (poolTvl * 0.5) / 100, // 50% of TVL in token B (assuming 1:100 price ratio)
-      })
+      setPoolData(await backend.getPoolData(tokenMint))
 
       // If wallet is connected, fetch user's pool share
       if (connected && publicKey) {
-        // Get user's LP tokens from localStorage
-        const userLpTokens = localStorage.getItem(`${publicKey.toString()}_lpTokens`) || "0"
-        const lpTokens = Number(userLpTokens)
-
-        // Calculate user's pool share
-        const percentage = lpTokens > 0 ? (lpTokens / 10000) * 100 : 0 // Assuming 10,000 total LP tokens
-        const value = (percentage * poolTvl) / 100
-        const earnedFees = value * 0.003 * 7 // Assuming 0.3% fee and 7 days of earnings
-
-        setUserPoolShare({
-          lpTokens,
-          percentage,
-          value,
-          earnedFees,
-        })
+        setUserPoolShare(await backend.getUserPoolShare(publicKey, tokenMint))
       } else {
         setUserPoolShare(null)
       }
@@ -97,19 +54,21 @@ export function useLiquidityPool(tokenMint: string) {
     } finally {
       setIsLoading(false)
     }
-  }, [tokenMint, publicKey, connected, network, toast])
+  }, [tokenMint, publicKey, connected, backend, toast])
 
-  // Initial fetch and polling
+  // Initial fetch
   useEffect(() => {
     fetchPoolData()
-
-    const interval = setInterval(() => {
-      fetchPoolData()
-    }, 30000) // Update every 30 seconds
-
-    return () => clearInterval(interval)
   }, [fetchPoolData])
 
+  // Refresh when the pool's accounts change
+  const subscribePoolData = useMemo(() => {
+    const subscribe = backend.subscribePoolData?.bind(backend)
+    if (!tokenMint || !subscribe) return null
+    return (onChange: () => void) => subscribe(tokenMint, onChange)
+  }, [backend, tokenMint])
+  useSubscription(subscribePoolData, fetchPoolData)
+
   // Add liquidity
   const addLiquidity = useCallback(
     async (amount: number) => {
@@ -123,7 +82,7 @@ export function useLiquidityPool(tokenMint: string) {
       }
 
       // Check if user has enough GOLD
-      const goldBalance = balances[GOLD_TOKEN.symbol] || 0
+      const goldBalance = getBalance(GOLD_TOKEN)
       if (goldBalance < amount) {
         toast({
           title: "Error",
@@ -137,18 +96,7 @@ export function useLiquidityPool(tokenMint: string) {
         setIsAddingLiquidity(true)
         setError(null)
 
-        // Simulate transaction delay
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Update user's LP tokens in localStorage
-        const currentLpTokens = localStorage.getItem(`${publicKey.toString()}_lpTokens`) || "0"
-        const newLpTokens = Number(currentLpTokens) + amount * 10 // 1 GOLD = 10 LP tokens for demo
-        localStorage.setItem(`${publicKey.toString()}_lpTokens`, newLpTokens.toString())
-
-        // Update user's GOLD balance
-        const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-        const newGoldBalance = Math.max(0, Number(currentGoldBalance) - amount)
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
+        const signature = await backend.addLiquidity(wallet, tokenMint, amount)
 
         // Refresh balances
         refreshBalances()
@@ -161,7 +109,7 @@ export function useLiquidityPool(tokenMint: string) {
           description: `Added ${amount} GOLD to the liquidity pool`,
         })
 
-        return "mock_transaction_signature"
+        return signature
       } catch (error: any) {
         console.error("Error adding liquidity:", error)
         setError(error.message || "Failed to add liquidity")
@@ -175,7 +123,7 @@ export function useLiquidityPool(tokenMint: string) {
         setIsAddingLiquidity(false)
       }
     },
-    [connected, publicKey, fetchPoolData, toast, refreshBalances, balances],
+    [connected, publicKey, wallet, backend, tokenMint, fetchPoolData, toast, refreshBalances, getBalance],
   )
 
   // Remove liquidity
@@ -191,8 +139,7 @@ export function useLiquidityPool(tokenMint: string) {
       }
 
       // Check if user has enough LP tokens
-      const currentLpTokens = Number(localStorage.getItem(`${publicKey.toString()}_lpTokens`) || "0")
-      if (currentLpTokens < amount) {
+      if ((userPoolShare?.lpTokens ?? 0) < amount) {
         toast({
           title: "Error",
           description: "Insufficient LP tokens",
@@ -205,18 +152,7 @@ export function useLiquidityPool(tokenMint: string) {
         setIsRemovingLiquidity(true)
         setError(null)
 
-        // Simulate transaction delay
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Update user's LP tokens in localStorage
-        const newLpTokens = Math.max(0, currentLpTokens - amount)
-        localStorage.setItem(`${publicKey.toString()}_lpTokens`, newLpTokens.toString())
-
-        // Update user's GOLD balance (1 LP token = 0.1 GOLD for demo)
-        const goldAmount = amount * 0.1
-        const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-        const newGoldBalance = Number(currentGoldBalance) + goldAmount
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
+        const signature = await backend.removeLiquidity(wallet, tokenMint, amount)
 
         // Refresh balances
         refreshBalances()
@@ -229,7 +165,7 @@ export function useLiquidityPool(tokenMint: string) {
           description: `Removed ${amount} LP tokens from the liquidity pool`,
         })
 
-        return "mock_transaction_signature"
+        return signature
       } catch (error: any) {
         console.error("Error removing liquidity:", error)
         setError(error.message || "Failed to remove liquidity")
@@ -243,7 +179,7 @@ export function useLiquidityPool(tokenMint: string) {
         setIsRemovingLiquidity(false)
       }
     },
-    [connected, publicKey, fetchPoolData, toast, refreshBalances],
+    [connected, publicKey, wallet, backend, tokenMint, userPoolShare, fetchPoolData, toast, refreshBalances],
   )
 
   // Claim fees
@@ -271,29 +207,20 @@ export function useLiquidityPool(tokenMint: string) {
       setIsClaimingFees(true)
       setError(null)
 
-      // Simulate transaction delay
-      await new Promise((resolve) => setTimeout(resolve, 1500))
-
-      // Update user's GOLD balance
-      const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-      const newGoldBalance = Number(currentGoldBalance) + userPoolShare.earnedFees
-      localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
-
-      // Reset earned fees
-      setUserPoolShare({
-        ...userPoolShare,
-        earnedFees: 0,
-      })
+      const signature = await backend.claimPoolFees(wallet, tokenMint)
 
       // Refresh balances
       refreshBalances()
 
+      // Refresh pool data
+      fetchPoolData()
+
       toast({
         title: "Success",
         description: `Claimed ${userPoolShare.earnedFees.toFixed(2)} GOLD in fees`,
       })
 
-      return "mock_transaction_signature"
+      return signature
     } catch (error: any) {
       console.error("Error claiming fees:", error)
       setError(error.message || "Failed to claim fees")
@@ -306,12 +233,12 @@ export function useLiquidityPool(tokenMint: string) {
     } finally {
       setIsClaimingFees(false)
     }
-  }, [connected, publicKey, userPoolShare, toast, refreshBalances])
+  }, [connected, publicKey, wallet, backend, tokenMint, userPoolShare, fetchPoolData, toast, refreshBalances])
 
   return {
     poolData,
     userPoolShare,
-    isLoading: isLoading || isProcessing,
+    isLoading,
     isAddingLiquidity,
     isRemovingLiquidity,
     isClaimingFees,
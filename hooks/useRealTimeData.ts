@@ -1,8 +1,12 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
-import { useConnection } from "@solana/wallet-adapter-react"
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useBackend } from "@/components/providers/BackendContextProvider"
 import { GOLD_TOKEN } from "@/constants/tokens"
+import { useSubscription } from "./useSubscription"
+
+// The price comes from an off-chain API with nothing to subscribe to
+const PRICE_REFRESH_INTERVAL = 30000
 
 interface TokenPrice {
   price: number
@@ -27,7 +31,7 @@ interface PoolStats {
 }
 
 export function useRealTimeData() {
-  const { connection } = useConnection()
+  const { backend } = useBackend()
   const [goldPrice, setGoldPrice] = useState<TokenPrice | null>(null)
   const [stakingStats, setStakingStats] = useState<StakingStats | null>(null)
   const [poolStats, setPoolStats] = useState<PoolStats | null>(null)
@@ -106,14 +110,23 @@ export function useRealTimeData() {
     fetchAllData()
   }, [fetchAllData])
 
-  // Set up polling for real-time updates
-  useEffect(() => {
-    const interval = setInterval(() => {
-      fetchAllData()
-    }, 10000) // Update every 10 seconds
+  // Refresh staking and pool stats when their accounts change
+  const subscribeStakingInfo = useMemo(() => {
+    const subscribe = backend.subscribeStakingInfo?.bind(backend)
+    return subscribe ? (onChange: () => void) => subscribe(null, onChange) : null
+  }, [backend])
+  useSubscription(subscribeStakingInfo, fetchStakingStats)
+
+  const subscribePoolData = useMemo(() => {
+    const subscribe = backend.subscribePoolData?.bind(backend)
+    return subscribe ? (onChange: () => void) => subscribe(GOLD_TOKEN.mint, onChange) : null
+  }, [backend])
+  useSubscription(subscribePoolData, fetchPoolStats)
 
+  useEffect(() => {
+    const interval = setInterval(fetchGoldPrice, PRICE_REFRESH_INTERVAL)
     return () => clearInterval(interval)
-  }, [fetchAllData])
+  }, [fetchGoldPrice])
 
   return {
     goldPrice,
@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import {
+  RecipientError,
+  type RecipientErrorReason,
+  type ResolvedRecipient,
+  resolveRecipient,
+} from "@/services/recipients"
+
+// Wait for typing to pause before looking names and accounts up
+const RESOLVE_DELAY_MS = 400
+
+// Resolve a typed recipient, an address or a .sol name, and check it for warnings
+export function useRecipient(input: string) {
+  const { network, connection } = useNetwork()
+  const { publicKey } = useWallet()
+  const [recipient, setRecipient] = useState<ResolvedRecipient | null>(null)
+  const [error, setError] = useState<RecipientErrorReason | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
+
+  useEffect(() => {
+    setRecipient(null)
+    setError(null)
+    if (!input.trim()) {
+      setIsResolving(false)
+      return
+    }
+
+    let cancelled = false
+    setIsResolving(true)
+    const timer = setTimeout(() => {
+      resolveRecipient(connection, input, publicKey)
+        .then((resolved) => {
+          if (!cancelled) setRecipient(resolved)
+        })
+        .catch((err) => {
+          if (cancelled) return
+          if (!(err instanceof RecipientError)) console.error("Error resolving recipient:", err)
+          setError(err instanceof RecipientError ? err.reason : "unresolved")
+        })
+        .finally(() => {
+          if (!cancelled) setIsResolving(false)
+        })
+    }, RESOLVE_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+    // Re-resolve when the input, wallet or network changes, not on every RPC failover
+  }, [input, publicKey, network])
+
+  return { recipient, error, isResolving }
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useMemo } from "react"
+import { SOL_TOKEN, type Token } from "@/constants/tokens"
+import type { TokenBalances } from "@/services/backends"
+import { useTokenList } from "./useTokenList"
+
+// SOL plus every token in the balances, named from the token list when it's listed
+export function useSendableTokens(balances: TokenBalances): Token[] {
+  const { tokens } = useTokenList()
+
+  return useMemo(
+    () =>
+      Object.values(balances)
+        .filter((balance) => balance.mint === SOL_TOKEN.mint || balance.uiAmount > 0)
+        .map(
+          (balance) =>
+            tokens.find((token) => token.mint === balance.mint) ?? {
+              name: balance.mint,
+              symbol: balance.symbol ?? `${balance.mint.slice(0, 4)}…${balance.mint.slice(-4)}`,
+              mint: balance.mint,
+              decimals: balance.decimals,
+              logoURI: "",
+            },
+        ),
+    [balances, tokens],
+  )
+}
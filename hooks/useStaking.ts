@@ -1,67 +1,59 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useBackend } from "@/components/providers/BackendContextProvider"
 import { useToast } from "@/components/ui/use-toast"
 import { useWalletBalance } from "./useWalletBalance"
+import { useSubscription } from "./useSubscription"
 import { GOLD_TOKEN } from "@/constants/tokens"
-
-// Adjusted for 1M total supply
-const REWARD_RATE = 0.15 // 15% APY
-const REWARD_INTERVAL = 86400 // 1 day in seconds
-const MIN_STAKE_DURATION = 604800 // 7 days in seconds
+import {
+  DEFAULT_STAKING_APY,
+  EMPTY_USER_STAKING_INFO,
+  MIN_STAKE_DURATION,
+  StakingClient,
+  type StakingPoolInfo,
+  type UserStakingInfo,
+} from "@/services/stakingService"
+
+// Staking client for the selected network
+export function useStakingClient() {
+  const { network, connection } = useNetwork()
+  return useMemo(() => new StakingClient(connection, network), [connection, network])
+}
 
 export function useStaking() {
-  const { publicKey, connected } = useWallet()
+  const wallet = useWallet()
+  const { publicKey, connected } = wallet
   const { network } = useNetwork()
   const { toast } = useToast()
-  const { refreshBalances, balances } = useWalletBalance()
+  const { refreshBalances, getBalance } = useWalletBalance()
+  const client = useStakingClient()
+  const { backend } = useBackend()
 
-  const [stakedAmount, setStakedAmount] = useState(0)
-  const [pendingRewards, setPendingRewards] = useState(0)
-  const [stakeStartTime, setStakeStartTime] = useState(0)
-  const [timeRemaining, setTimeRemaining] = useState(0)
-  const [apy, setApy] = useState(REWARD_RATE * 100)
+  const [poolInfo, setPoolInfo] = useState<StakingPoolInfo | null>(null)
+  const [userInfo, setUserInfo] = useState<UserStakingInfo>(EMPTY_USER_STAKING_INFO)
+  const [now, setNow] = useState(Date.now())
 
   const [isStaking, setIsStaking] = useState(false)
   const [isUnstaking, setIsUnstaking] = useState(false)
   const [isClaimingRewards, setIsClaimingRewards] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
 
-  // Format time remaining
-  const formattedTimeRemaining = useCallback(() => {
-    if (timeRemaining <= 0) return "Ready to unstake"
-
-    const days = Math.floor(timeRemaining / 86400)
-    const hours = Math.floor((timeRemaining % 86400) / 3600)
-    const minutes = Math.floor((timeRemaining % 3600) / 60)
-
-    return `${days}d ${hours}h ${minutes}m`
-  }, [timeRemaining])
-
-  // Calculate pending rewards
-  const calculatePendingRewards = useCallback(() => {
-    if (stakedAmount <= 0 || stakeStartTime <= 0) return 0
-
-    const now = Math.floor(Date.now() / 1000)
-    const stakeDuration = now - stakeStartTime
+  const apy = poolInfo?.apy ?? DEFAULT_STAKING_APY[network]
+  const lockupPeriod = poolInfo?.lockupPeriod ?? MIN_STAKE_DURATION
+  const stakedAmount = userInfo.stakedAmount
+  const pendingRewards = client.calculatePendingRewards(userInfo, apy, now)
+  const timeRemaining = client.getTimeRemaining(userInfo, now)
 
-    // Calculate rewards based on staked amount, duration, and APY
-    // For 1M total supply, we adjust the reward calculation
-    const dailyRewardRate = REWARD_RATE / 365
-    const daysStaked = stakeDuration / 86400
-
-    return stakedAmount * dailyRewardRate * daysStaked
-  }, [stakedAmount, stakeStartTime])
+  // Format time remaining
+  const formattedTimeRemaining = useCallback(() => StakingClient.formatTimeRemaining(timeRemaining), [timeRemaining])
 
   // Refresh staking data
   const refreshStakingData = useCallback(async () => {
     if (!connected || !publicKey) {
-      setStakedAmount(0)
-      setPendingRewards(0)
-      setStakeStartTime(0)
-      setTimeRemaining(0)
+      setUserInfo(EMPTY_USER_STAKING_INFO)
       setIsLoading(false)
       return
     }
@@ -69,40 +61,10 @@ export function useStaking() {
     setIsLoading(true)
 
     try {
-      // Get staked amount from localStorage
-      const storedStakedAmount = localStorage.getItem(`${publicKey.toString()}_stakedAmount`)
-      const storedStakeStartTime = localStorage.getItem(`${publicKey.toString()}_stakeStartTime`)
-
-      const staked = storedStakedAmount ? Number(storedStakedAmount) : 0
-      const startTime = storedStakeStartTime ? Number(storedStakeStartTime) : 0
-
-      setStakedAmount(staked)
-      setStakeStartTime(startTime)
-
-      // Calculate pending rewards
-      if (staked > 0 && startTime > 0) {
-        const rewards = calculatePendingRewards()
-        setPendingRewards(rewards)
-
-        // Calculate time remaining until unstake is available
-        const now = Math.floor(Date.now() / 1000)
-        const unlockTime = startTime + MIN_STAKE_DURATION
-        const remaining = Math.max(0, unlockTime - now)
-
-        setTimeRemaining(remaining)
-      } else {
-        setPendingRewards(0)
-        setTimeRemaining(0)
-      }
-
-      // Set APY based on network
-      if (network === "testnet") {
-        setApy(15) // 15% APY on testnet
-      } else if (network === "devnet") {
-        setApy(20) // 20% APY on devnet for testing
-      } else {
-        setApy(12) // 12% APY on mainnet
-      }
+      const [pool, user] = await Promise.all([backend.getStakingPoolInfo(), backend.getUserStakingInfo(publicKey)])
+      setPoolInfo(pool)
+      setUserInfo(user)
+      setNow(Date.now())
     } catch (error) {
       console.error("Error refreshing staking data:", error)
       toast({
@@ -113,7 +75,7 @@ export function useStaking() {
     } finally {
       setIsLoading(false)
     }
-  }, [connected, publicKey, network, calculatePendingRewards, toast])
+  }, [connected, publicKey, backend, toast])
 
   // Stake tokens
   const stakeTokens = useCallback(
@@ -128,7 +90,7 @@ export function useStaking() {
       }
 
       // Check if user has enough GOLD
-      const goldBalance = balances[GOLD_TOKEN.symbol] || 0
+      const goldBalance = getBalance(GOLD_TOKEN)
       if (goldBalance < amount) {
         toast({
           title: "Error",
@@ -141,27 +103,7 @@ export function useStaking() {
       setIsStaking(true)
 
       try {
-        // Simulate transaction delay
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Get current staked amount
-        const storedStakedAmount = localStorage.getItem(`${publicKey.toString()}_stakedAmount`)
-        const currentStakedAmount = storedStakedAmount ? Number(storedStakedAmount) : 0
-
-        // Update staked amount
-        const newStakedAmount = currentStakedAmount + amount
-        localStorage.setItem(`${publicKey.toString()}_stakedAmount`, newStakedAmount.toString())
-
-        // Update GOLD balance
-        const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-        const newGoldBalance = Math.max(0, Number(currentGoldBalance) - amount)
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
-
-        // Set stake start time if this is the first stake
-        if (currentStakedAmount <= 0) {
-          const now = Math.floor(Date.now() / 1000)
-          localStorage.setItem(`${publicKey.toString()}_stakeStartTime`, now.toString())
-        }
+        await backend.stake(wallet, amount)
 
         // Refresh balances
         refreshBalances()
@@ -187,7 +129,7 @@ export function useStaking() {
         setIsStaking(false)
       }
     },
-    [connected, publicKey, refreshStakingData, toast, refreshBalances, balances],
+    [connected, publicKey, backend, wallet, refreshStakingData, toast, refreshBalances, getBalance],
   )
 
   // Unstake tokens
@@ -215,26 +157,7 @@ export function useStaking() {
       setIsUnstaking(true)
 
       try {
-        // Simulate transaction delay
-        await new Promise((resolve) => setTimeout(resolve, 1500))
-
-        // Get current staked amount
-        const storedStakedAmount = localStorage.getItem(`${publicKey.toString()}_stakedAmount`)
-        const currentStakedAmount = storedStakedAmount ? Number(storedStakedAmount) : 0
-
-        // Update staked amount
-        const newStakedAmount = Math.max(0, currentStakedAmount - amount)
-        localStorage.setItem(`${publicKey.toString()}_stakedAmount`, newStakedAmount.toString())
-
-        // Update GOLD balance
-        const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-        const newGoldBalance = Number(currentGoldBalance) + amount
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
-
-        // Reset stake start time if all tokens are unstaked
-        if (newStakedAmount <= 0) {
-          localStorage.removeItem(`${publicKey.toString()}_stakeStartTime`)
-        }
+        await backend.unstake(wallet, amount)
 
         // Refresh balances
         refreshBalances()
@@ -263,6 +186,8 @@ export function useStaking() {
     [
       connected,
       publicKey,
+      backend,
+      wallet,
       stakedAmount,
       timeRemaining,
       formattedTimeRemaining,
@@ -286,25 +211,15 @@ export function useStaking() {
     setIsClaimingRewards(true)
 
     try {
-      // Simulate transaction delay
-      await new Promise((resolve) => setTimeout(resolve, 1500))
-
-      // Update GOLD balance with rewards
-      const currentGoldBalance = localStorage.getItem(`${publicKey.toString()}_goldBalance`) || "0"
-      const newGoldBalance = Number(currentGoldBalance) + pendingRewards
-      localStorage.setItem(`${publicKey.toString()}_goldBalance`, newGoldBalance.toString())
-
-      // Update stake start time to now for future reward calculations
-      const now = Math.floor(Date.now() / 1000)
-      localStorage.setItem(`${publicKey.toString()}_stakeStartTime`, now.toString())
-
-      // Reset pending rewards
       const claimedAmount = pendingRewards
-      setPendingRewards(0)
+      await backend.claimStakingRewards(wallet)
 
       // Refresh balances
       refreshBalances()
 
+      // Refresh staking data
+      await refreshStakingData()
+
       toast({
         title: "Success",
         description: `Successfully claimed ${claimedAmount.toFixed(4)} GOLD rewards`,
@@ -322,46 +237,35 @@ export function useStaking() {
     } finally {
       setIsClaimingRewards(false)
     }
-  }, [connected, publicKey, pendingRewards, toast, refreshBalances])
+  }, [connected, publicKey, backend, wallet, pendingRewards, refreshStakingData, toast, refreshBalances])
 
   // Initial load
   useEffect(() => {
     refreshStakingData()
+  }, [refreshStakingData])
 
-    // Initialize localStorage if needed for testing
-    if (connected && publicKey && typeof window !== "undefined") {
-      if (!localStorage.getItem(`${publicKey.toString()}_goldBalance`)) {
-        localStorage.setItem(`${publicKey.toString()}_goldBalance`, "1000")
-      }
-    }
-  }, [refreshStakingData, connected, publicKey])
+  // Refresh when the pool or the user's stake account changes
+  const subscribeStakingInfo = useMemo(() => {
+    const subscribe = backend.subscribeStakingInfo?.bind(backend)
+    if (!connected || !publicKey || !subscribe) return null
+    return (onChange: () => void) => subscribe(publicKey, onChange)
+  }, [backend, connected, publicKey])
+  useSubscription(subscribeStakingInfo, refreshStakingData)
 
-  // Set up interval to refresh data
+  // Tick the clock so pending rewards and lock time stay current
   useEffect(() => {
-    const intervalId = setInterval(() => {
-      if (connected && publicKey) {
-        // Update pending rewards calculation
-        const rewards = calculatePendingRewards()
-        setPendingRewards(rewards)
-
-        // Update time remaining
-        if (stakeStartTime > 0) {
-          const now = Math.floor(Date.now() / 1000)
-          const unlockTime = stakeStartTime + MIN_STAKE_DURATION
-          const remaining = Math.max(0, unlockTime - now)
-
-          setTimeRemaining(remaining)
-        }
-      }
-    }, 5000)
+    if (!connected || !publicKey) return
 
+    const intervalId = setInterval(() => setNow(Date.now()), 5000)
     return () => clearInterval(intervalId)
-  }, [connected, publicKey, calculatePendingRewards, stakeStartTime])
+  }, [connected, publicKey])
 
   return {
     stakedAmount,
     pendingRewards,
     apy,
+    lockupPeriod,
+    poolInfo,
     timeRemaining,
     isStaking,
     isUnstaking,
@@ -0,0 +1,27 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// A single transaction can touch several accounts; coalesce their notifications into one refresh
+const CHANGE_DEBOUNCE_MS = 500
+
+// Call onChange when a subscription fires. Pass a memoized subscribe function, or null to stay idle.
+export function useSubscription(subscribe: ((onChange: () => void) => () => void) | null, onChange: () => void) {
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (!subscribe) return
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = subscribe(() => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => onChangeRef.current(), CHANGE_DEBOUNCE_MS)
+    })
+
+    return () => {
+      clearTimeout(timeoutId)
+      unsubscribe()
+    }
+  }, [subscribe])
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import {
+  type ListedToken,
+  getTokenList,
+  importToken as importListToken,
+  refreshTokenList,
+  removeImportedToken,
+  subscribeTokenList,
+} from "@/services/tokenList"
+
+// The hosted list is fetched once per page load, by whichever component asks for tokens first
+let refreshStarted = false
+
+// Tokens for the selected network, including the ones the connected wallet imported
+export function useTokenList() {
+  const { network, connection } = useNetwork()
+  const { publicKey } = useWallet()
+  const owner = publicKey?.toBase58() ?? null
+
+  const [tokens, setTokens] = useState<ListedToken[]>(() => getTokenList(network, owner))
+
+  useEffect(() => {
+    const update = () => setTokens(getTokenList(network, owner))
+    update()
+    return subscribeTokenList(update)
+  }, [network, owner])
+
+  useEffect(() => {
+    if (refreshStarted) return
+    refreshStarted = true
+    refreshTokenList()
+  }, [])
+
+  const importToken = useCallback(
+    (mint: string) => importListToken(connection, network, owner, mint),
+    [connection, network, owner],
+  )
+
+  const removeToken = useCallback((mint: string) => removeImportedToken(network, owner, mint), [network, owner])
+
+  return { tokens, importToken, removeToken }
+}
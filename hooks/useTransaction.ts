@@ -2,22 +2,36 @@
 
 import { useState, useCallback } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
-import { type Connection, Transaction, type VersionedTransaction, type TransactionSignature } from "@solana/web3.js"
+import type { Transaction, VersionedTransaction } from "@solana/web3.js"
 import { useToast } from "@/components/ui/use-toast"
-
-interface TransactionOptions {
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import { useSettings } from "@/components/providers/SettingsContextProvider"
+import {
+  type SendTransactionOptions,
+  type TrackedTransaction,
+  TransactionExpiredError,
+  sendTransaction as sendWithLifecycle,
+} from "@/services/transactionEngine"
+import { TransactionCancelledError } from "@/services/transactionPreview"
+
+interface TransactionOptions extends Omit<SendTransactionOptions, "onStatusChange"> {
   onSuccess?: (signature: string) => void
   onError?: (error: Error) => void
 }
 
-export function useTransaction(connection?: Connection) {
-  const { publicKey, signTransaction, signAllTransactions } = useWallet()
-  const [isProcessing, setIsProcessing] = useState(false)
+// Send transactions through the lifecycle engine. Every transaction also shows up in the transaction history,
+// and confirmations are announced when transaction notifications are enabled in Settings.
+export function useTransaction() {
+  const wallet = useWallet()
+  const { connection } = useNetwork()
   const { toast } = useToast()
+  const { settings } = useSettings()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [transaction, setTransaction] = useState<TrackedTransaction | null>(null)
 
   const sendTransaction = useCallback(
-    async (transaction: Transaction, options?: TransactionOptions) => {
-      if (!publicKey || !signTransaction) {
+    async (tx: Transaction | VersionedTransaction, { onSuccess, onError, ...options }: TransactionOptions = {}) => {
+      if (!wallet.publicKey || !wallet.signTransaction) {
         toast({
           title: "Wallet not connected",
           description: "Please connect your wallet to continue",
@@ -29,39 +43,22 @@ export function useTransaction(connection?: Connection) {
       setIsProcessing(true)
 
       try {
-        // Add recent blockhash
-        if (!transaction.recentBlockhash) {
-          const { blockhash } = await connection!.getLatestBlockhash()
-          transaction.recentBlockhash = blockhash
-        }
+        const signature = await sendWithLifecycle(connection, wallet, tx, { ...options, onStatusChange: setTransaction })
+        onSuccess?.(signature)
 
-        // Set fee payer
-        if (!transaction.feePayer) {
-          transaction.feePayer = publicKey
-        }
-
-        // Sign transaction
-        const signedTransaction = await signTransaction(transaction)
-
-        // Send transaction
-        const signature = await connection!.sendRawTransaction(signedTransaction.serialize())
-
-        // Call onSuccess callback if provided
-        if (options?.onSuccess) {
-          options.onSuccess(signature)
+        if (settings.notifications.transactions) {
+          toast({ title: "Transaction confirmed", description: options.label ?? signature })
         }
 
         return signature
       } catch (error: any) {
-        console.error("Transaction error:", error)
+        onError?.(error)
+        if (error instanceof TransactionCancelledError) return null
 
-        // Call onError callback if provided
-        if (options?.onError) {
-          options.onError(error)
-        }
+        console.error("Transaction error:", error, error.logs ?? "")
 
         toast({
-          title: "Transaction failed",
+          title: error instanceof TransactionExpiredError ? "Transaction expired" : "Transaction failed",
           description: error.message || "Failed to send transaction",
           variant: "destructive",
         })
@@ -71,127 +68,12 @@ export function useTransaction(connection?: Connection) {
         setIsProcessing(false)
       }
     },
-    [publicKey, signTransaction, connection, toast],
-  )
-
-  const sendAndConfirmTransaction = useCallback(
-    async (transaction: Transaction | VersionedTransaction, options?: TransactionOptions) => {
-      if (!publicKey || !signTransaction) {
-        toast({
-          title: "Wallet not connected",
-          description: "Please connect your wallet to continue",
-          variant: "destructive",
-        })
-        return null
-      }
-
-      setIsProcessing(true)
-
-      try {
-        let signature: TransactionSignature
-
-        if (transaction instanceof Transaction) {
-          // Add recent blockhash if not already set
-          if (!transaction.recentBlockhash) {
-            const { blockhash } = await connection!.getLatestBlockhash()
-            transaction.recentBlockhash = blockhash
-          }
-
-          // Set fee payer if not already set
-          if (!transaction.feePayer) {
-            transaction.feePayer = publicKey
-          }
-
-          // Sign transaction
-          const signedTransaction = await signTransaction(transaction)
-
-          // Send transaction
-          signature = await connection!.sendRawTransaction(signedTransaction.serialize())
-        } else {
-          // For VersionedTransaction
-          const signedTransaction = await signTransaction(transaction)
-
-          // Send transaction
-          signature = await connection!.sendRawTransaction(signedTransaction.serialize())
-        }
-
-        // Confirm transaction
-        const confirmation = await connection!.confirmTransaction(signature, "confirmed")
-
-        if (confirmation.value.err) {
-          throw new Error(`Transaction failed: ${confirmation.value.err.toString()}`)
-        }
-
-        // Call onSuccess callback if provided
-        if (options?.onSuccess) {
-          options.onSuccess(signature)
-        }
-
-        return signature
-      } catch (error: any) {
-        console.error("Transaction error:", error)
-
-        // Call onError callback if provided
-        if (options?.onError) {
-          options.onError(error)
-        }
-
-        toast({
-          title: "Transaction failed",
-          description: error.message || "Failed to send transaction",
-          variant: "destructive",
-        })
-
-        return null
-      } finally {
-        setIsProcessing(false)
-      }
-    },
-    [publicKey, signTransaction, connection, toast],
-  )
-
-  const signTransactions = useCallback(
-    async (transactions: Transaction[]) => {
-      if (!publicKey || !signAllTransactions) {
-        toast({
-          title: "Wallet not connected",
-          description: "Please connect your wallet to continue",
-          variant: "destructive",
-        })
-        return null
-      }
-
-      try {
-        // Add recent blockhash and fee payer to all transactions
-        const { blockhash } = await connection!.getLatestBlockhash()
-        transactions.forEach((tx) => {
-          if (!tx.recentBlockhash) {
-            tx.recentBlockhash = blockhash
-          }
-          if (!tx.feePayer) {
-            tx.feePayer = publicKey
-          }
-        })
-
-        // Sign all transactions
-        return await signAllTransactions(transactions)
-      } catch (error: any) {
-        console.error("Transaction signing error:", error)
-        toast({
-          title: "Signing failed",
-          description: error.message || "Failed to sign transactions",
-          variant: "destructive",
-        })
-        return null
-      }
-    },
-    [publicKey, signAllTransactions, connection, toast],
+    [wallet, connection, toast, settings.notifications.transactions],
   )
 
   return {
     sendTransaction,
-    sendAndConfirmTransaction,
-    signTransactions,
+    transaction, // the latest transaction sent through this hook
     isProcessing,
   }
 }
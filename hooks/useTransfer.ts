@@ -0,0 +1,31 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import type { TransferRequest } from "@/services/backends"
+import { useWalletBalance } from "./useWalletBalance"
+
+// Send SOL or an SPL token through the active backend
+export function useTransfer() {
+  const wallet = useWallet()
+  const { backend } = useBackend()
+  const { refreshBalances } = useWalletBalance()
+  const [isSending, setIsSending] = useState(false)
+
+  const send = useCallback(
+    async (request: TransferRequest) => {
+      setIsSending(true)
+      try {
+        const signature = await backend.transfer(wallet, request)
+        refreshBalances()
+        return signature
+      } finally {
+        setIsSending(false)
+      }
+    },
+    [backend, wallet, refreshBalances],
+  )
+
+  return { send, isSending }
+}
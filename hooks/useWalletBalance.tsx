@@ -1,26 +1,30 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
-import { useConnection } from "@solana/wallet-adapter-react"
 import { useToast } from "@/components/ui/use-toast"
+import { useBackend } from "@/components/providers/BackendContextProvider"
+import { useNetwork } from "@/components/providers/NetworkContextProvider"
+import type { TokenBalances } from "@/services/backends"
+import { getUiBalance } from "@/services/balanceService"
+import { SOL_TOKEN, type Token, getGoldTokenForNetwork } from "@/constants/tokens"
+import { useSubscription } from "./useSubscription"
 
 export function useWalletBalance() {
   const { publicKey, connected } = useWallet()
-  const { connection } = useConnection()
+  const { backend } = useBackend()
+  const { network } = useNetwork()
   const { toast } = useToast()
 
-  // Initialize with null to indicate "not loaded yet" state
-  const [solBalance, setSolBalance] = useState<number | undefined>(undefined)
-  const [goldBalance, setGoldBalance] = useState<number | undefined>(undefined)
+  // Initialize with undefined to indicate "not loaded yet" state
+  const [balances, setBalances] = useState<TokenBalances | undefined>(undefined)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   const refreshBalances = useCallback(async () => {
-    if (!publicKey || !connected || !connection) {
+    if (!publicKey || !connected) {
       // Reset balances when disconnected
-      setSolBalance(undefined)
-      setGoldBalance(undefined)
+      setBalances(undefined)
       return
     }
 
@@ -28,21 +32,10 @@ export function useWalletBalance() {
     setError(null)
 
     try {
-      // Fetch SOL balance
-      const balance = await connection.getBalance(publicKey)
-      const solBalanceValue = balance / 10 ** 9 // Convert lamports to SOL
-      setSolBalance(solBalanceValue)
-
-      // Simulate fetching GOLD token balance (in a real app, you'd fetch from a token account)
-      // This is just a placeholder - in a real app you'd use proper token account lookup
-      setTimeout(() => {
-        setGoldBalance(1000) // Simulated GOLD balance
-        setIsLoading(false)
-      }, 500)
+      setBalances(await backend.getBalances(publicKey))
     } catch (err: any) {
       console.error("Failed to fetch balances", err)
       setError(err.message || "Failed to fetch balances")
-      setIsLoading(false)
 
       toast({
         title: "Error fetching balances",
@@ -51,10 +44,11 @@ export function useWalletBalance() {
       })
 
       // Set default values on error
-      setSolBalance(0)
-      setGoldBalance(0)
+      setBalances({})
+    } finally {
+      setIsLoading(false)
     }
-  }, [connection, publicKey, connected, toast])
+  }, [backend, publicKey, connected, toast])
 
   // Fetch balances when wallet connects
   useEffect(() => {
@@ -62,14 +56,29 @@ export function useWalletBalance() {
       refreshBalances()
     } else {
       // Reset balances when disconnected
-      setSolBalance(undefined)
-      setGoldBalance(undefined)
+      setBalances(undefined)
     }
   }, [connected, publicKey, refreshBalances])
 
+  // Refresh when the wallet's accounts change on chain
+  const subscribeBalances = useMemo(() => {
+    const subscribe = backend.subscribeBalances?.bind(backend)
+    if (!connected || !publicKey || !subscribe) return null
+    return (onChange: () => void) => subscribe(publicKey, onChange)
+  }, [backend, connected, publicKey])
+  useSubscription(subscribeBalances, refreshBalances)
+
+  // UI balance of a token or mint
+  const getBalance = useCallback(
+    (token: Token | string) => getUiBalance(balances ?? {}, typeof token === "string" ? token : token.mint),
+    [balances],
+  )
+
   return {
-    solBalance: solBalance ?? 0, // Provide default value of 0 if undefined
-    goldBalance: goldBalance ?? 0, // Provide default value of 0 if undefined
+    balances: balances ?? {},
+    getBalance,
+    solBalance: getBalance(SOL_TOKEN),
+    goldBalance: getBalance(getGoldTokenForNetwork(network)),
     isLoading,
     error,
     refreshBalances,
@@ -0,0 +1,91 @@
+import { isValidAddress } from "@/constants/addresses"
+
+// Address book: labelled recipients, kept per wallet in the browser
+
+export interface AddressBookEntry {
+  address: string
+  label: string
+  addedAt: number
+}
+
+export const ADDRESS_BOOK_STORAGE_KEY = "goldium_address_book"
+
+const MAX_LABEL_LENGTH = 32
+
+// Thrown when an entry can't be saved
+export class AddressBookError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AddressBookError"
+  }
+}
+
+type AddressBookListener = () => void
+const listeners = new Set<AddressBookListener>()
+
+// Called whenever an entry is saved or removed
+export function subscribeAddressBook(listener: AddressBookListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function storageKey(owner: string | null): string {
+  return owner ? `${ADDRESS_BOOK_STORAGE_KEY}:${owner}` : ADDRESS_BOOK_STORAGE_KEY
+}
+
+function writeAddressBook(owner: string | null, entries: AddressBookEntry[]) {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(entries))
+  } catch (error) {
+    console.error("Error saving address book:", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+// Entries sorted by label
+export function getAddressBook(owner: string | null): AddressBookEntry[] {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = localStorage.getItem(storageKey(owner))
+    const entries: AddressBookEntry[] = stored ? JSON.parse(stored) : []
+    return entries.sort((a, b) => a.label.localeCompare(b.label))
+  } catch (error) {
+    console.error("Error reading address book:", error)
+    return []
+  }
+}
+
+export function findAddressBookEntry(owner: string | null, address: string): AddressBookEntry | undefined {
+  return getAddressBook(owner).find((entry) => entry.address === address)
+}
+
+// Add an address, or relabel it if it's already saved
+export function saveAddress(owner: string | null, address: string, label: string): AddressBookEntry {
+  const trimmedAddress = address.trim()
+  const trimmedLabel = label.trim()
+  if (!isValidAddress(trimmedAddress)) {
+    throw new AddressBookError("Enter a valid wallet address")
+  }
+  if (!trimmedLabel) {
+    throw new AddressBookError("Enter a label for this address")
+  }
+  if (trimmedLabel.length > MAX_LABEL_LENGTH) {
+    throw new AddressBookError(`Labels can be at most ${MAX_LABEL_LENGTH} characters`)
+  }
+
+  const entries = getAddressBook(owner)
+  const existing = entries.find((entry) => entry.address === trimmedAddress)
+  const entry: AddressBookEntry = {
+    address: trimmedAddress,
+    label: trimmedLabel,
+    addedAt: existing?.addedAt ?? Date.now(),
+  }
+  writeAddressBook(owner, [...entries.filter((e) => e.address !== trimmedAddress), entry])
+  return entry
+}
+
+export function removeAddress(owner: string | null, address: string) {
+  writeAddressBook(owner, getAddressBook(owner).filter((entry) => entry.address !== address))
+}
@@ -0,0 +1,139 @@
+import { isValidAddress } from "@/constants/addresses"
+import type { BatchTransferResult } from "@/services/backends/types"
+
+// Batch airdrops from a CSV of `address,amount` rows, with per-row status and a results CSV.
+// Loading a results CSV again resumes the airdrop: rows already sent keep their signatures and are skipped.
+
+export type AirdropRowStatus =
+  | "ready"
+  | "invalid" // never sent, see the error
+  | "sending"
+  | "sent"
+  | "failed" // sent again when the airdrop is resumed
+
+export interface AirdropRow {
+  line: number // in the uploaded file
+  address: string
+  amount: number
+  status: AirdropRowStatus
+  signature?: string
+  error?: string
+}
+
+export const MAX_AIRDROP_ROWS = 2000
+
+const RESULT_COLUMNS = ["address", "amount", "status", "signature", "error"]
+
+// Thrown when a CSV has no usable rows or too many of them
+export class AirdropCsvError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AirdropCsvError"
+  }
+}
+
+// Split a CSV line, honouring quoted fields with "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map((value) => value.trim())
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Rows from an uploaded CSV. A header line and `#` comments are skipped. Rows that can't be sent are
+// kept as invalid, so every line of the file is accounted for.
+export function parseAirdropCsv(text: string): AirdropRow[] {
+  const rows: AirdropRow[] = []
+  const seen = new Set<string>()
+  let firstLine = true
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line || line.startsWith("#")) return
+
+    const [address = "", amountText = "", status, signature] = splitCsvLine(line)
+    const amount = Number(amountText)
+    const isHeader = firstLine && !isValidAddress(address) && Number.isNaN(amount)
+    firstLine = false
+    if (isHeader) return
+
+    const row: AirdropRow = { line: i + 1, address, amount, status: "ready" }
+    if (!isValidAddress(address)) {
+      Object.assign(row, { status: "invalid", error: "Not a valid wallet address" })
+    } else if (!amountText || !Number.isFinite(amount) || amount <= 0) {
+      Object.assign(row, { status: "invalid", error: "Amount must be a positive number" })
+    } else if (seen.has(address)) {
+      Object.assign(row, { status: "invalid", error: "Duplicate of an earlier row" })
+    } else if (status === "sent" && signature) {
+      Object.assign(row, { status: "sent", signature })
+    }
+    seen.add(address)
+    rows.push(row)
+  })
+
+  if (rows.length === 0) {
+    throw new AirdropCsvError("No recipients found. Expected one address,amount pair per line.")
+  }
+  if (rows.length > MAX_AIRDROP_ROWS) {
+    throw new AirdropCsvError(`Airdrops are limited to ${MAX_AIRDROP_ROWS} recipients per file`)
+  }
+  return rows
+}
+
+// Rows sent when the airdrop is started or resumed
+export function isPendingRow(row: AirdropRow): boolean {
+  return row.status === "ready" || row.status === "failed"
+}
+
+// Update a row with the outcome of its transfer
+export function applyTransferResult(row: AirdropRow, result: BatchTransferResult): AirdropRow {
+  return result.signature
+    ? { ...row, status: "sent", signature: result.signature, error: undefined }
+    : { ...row, status: "failed", error: result.error ?? "Transfer failed" }
+}
+
+export function summarizeAirdrop(rows: AirdropRow[]) {
+  const count = (status: AirdropRowStatus) => rows.filter((row) => row.status === status).length
+  return {
+    pending: rows.filter(isPendingRow).length,
+    pendingAmount: rows.filter(isPendingRow).reduce((sum, row) => sum + row.amount, 0),
+    sent: count("sent"),
+    failed: count("failed"),
+    invalid: count("invalid"),
+  }
+}
+
+// Results CSV with every row's status and signature, which can be loaded again to resume
+export function toAirdropResultCsv(rows: AirdropRow[]): string {
+  const lines = rows.map((row) => {
+    const amount = Number.isFinite(row.amount) ? String(row.amount) : ""
+    return [row.address, amount, row.status, row.signature ?? "", row.error ?? ""].map(escapeCsvField).join(",")
+  })
+  return [RESULT_COLUMNS.join(","), ...lines].join("\n") + "\n"
+}
@@ -0,0 +1,139 @@
+import type { PublicKey } from "@solana/web3.js"
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import type { Token } from "@/constants/tokens"
+import {
+  FIXTURE_BALANCES,
+  FIXTURE_NFTS,
+  FIXTURE_POOL_DATA,
+  FIXTURE_SIGNATURES,
+  FIXTURE_STAKING_POOL_INFO,
+  FIXTURE_TRANSACTION_STATUSES,
+  FIXTURE_USER_POOL_SHARE,
+  FIXTURE_USER_STAKING_INFO,
+  fixtureRoutes,
+} from "./fixtures"
+import type {
+  BatchTransferRequest,
+  BatchTransferResult,
+  DefiBackend,
+  SwapRequest,
+  SwapResult,
+  SwapRoute,
+  SwapRouteOptions,
+  TransactionStatus,
+  TransferRequest,
+} from "./types"
+
+// Backend replaying recorded responses. Writes are acknowledged with recorded signatures but change nothing.
+export class FixtureBackend implements DefiBackend {
+  readonly mode = "fixtures" as const
+
+  constructor(readonly network: NetworkType) {}
+
+  async getBalances(owner: PublicKey) {
+    return { ...FIXTURE_BALANCES }
+  }
+
+  async getSwapRoutes(
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippageBps: number,
+    options?: SwapRouteOptions,
+  ) {
+    const inAmountRaw = Math.floor(amount * Math.pow(10, inputToken.decimals))
+    return fixtureRoutes(inputToken, outputToken, inAmountRaw, slippageBps, options)
+  }
+
+  async swap(wallet: WalletContextState, request: SwapRequest, route: SwapRoute): Promise<SwapResult> {
+    this.assertConnected(wallet)
+
+    return {
+      signature: FIXTURE_SIGNATURES.swap,
+      inputAmount: Number(route.inAmount) / Math.pow(10, request.inputToken.decimals),
+      outputAmount: Number(route.outAmount) / Math.pow(10, request.outputToken.decimals),
+    }
+  }
+
+  async transfer(wallet: WalletContextState, request: TransferRequest) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.transfer
+  }
+
+  async transferBatch(
+    wallet: WalletContextState,
+    request: BatchTransferRequest,
+    onResult?: (result: BatchTransferResult) => void,
+  ) {
+    this.assertConnected(wallet)
+    const results = request.transfers.map((_, index) => ({ index, signature: FIXTURE_SIGNATURES.transfer }))
+    results.forEach((result) => onResult?.(result))
+    return results
+  }
+
+  async getStakingPoolInfo() {
+    return FIXTURE_STAKING_POOL_INFO
+  }
+
+  async getUserStakingInfo(owner: PublicKey) {
+    return FIXTURE_USER_STAKING_INFO
+  }
+
+  async stake(wallet: WalletContextState, amount: number) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.stake
+  }
+
+  async unstake(wallet: WalletContextState, amount: number) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.unstake
+  }
+
+  async claimStakingRewards(wallet: WalletContextState) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.claimStakingRewards
+  }
+
+  async claimFaucet(wallet: WalletContextState, amount: number) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.claimFaucet
+  }
+
+  async getPoolData(tokenMint: string) {
+    return FIXTURE_POOL_DATA
+  }
+
+  async getUserPoolShare(owner: PublicKey, tokenMint: string) {
+    return FIXTURE_USER_POOL_SHARE
+  }
+
+  async addLiquidity(wallet: WalletContextState, tokenMint: string, amount: number) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.addLiquidity
+  }
+
+  async removeLiquidity(wallet: WalletContextState, tokenMint: string, lpTokens: number) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.removeLiquidity
+  }
+
+  async claimPoolFees(wallet: WalletContextState, tokenMint: string) {
+    this.assertConnected(wallet)
+    return FIXTURE_SIGNATURES.claimPoolFees
+  }
+
+  async getNfts(owner: PublicKey) {
+    return FIXTURE_NFTS
+  }
+
+  async getTransactionStatus(signature: string): Promise<TransactionStatus> {
+    return FIXTURE_TRANSACTION_STATUSES[signature] ?? "confirmed"
+  }
+
+  private assertConnected(wallet: WalletContextState) {
+    if (!wallet.publicKey) {
+      throw new Error("Wallet not connected")
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { PublicKey } from "@solana/web3.js"
+import { AVAILABLE_TOKENS, GOLD_TOKEN, type Token } from "@/constants/tokens"
+import { toTokenBalances } from "@/services/balanceService"
+import { toStakingPoolInfo, toUserStakingInfo } from "@/services/stakingService"
+import { decodeStakingPoolAccount, decodeUserStakeAccount } from "@/utils/staking-layout"
+import { STAKING_POOL_FIXTURE, USER_STAKE_FIXTURE, fixtureData } from "@/utils/staking-fixtures"
+import type {
+  NftItem,
+  PoolData,
+  SwapRoute,
+  SwapRouteOptions,
+  TokenBalances,
+  TransactionStatus,
+  UserPoolShare,
+} from "./types"
+
+// Recorded responses replayed by the fixtures backend
+
+// Fixed clock for recorded data: 2024-06-01T00:00:00Z
+export const FIXTURE_NOW = 1717200000 * 1000
+
+export const FIXTURE_BALANCES: TokenBalances = toTokenBalances(
+  {
+    SOL: 12.5,
+    GOLD: 1000,
+    USDC: 250,
+    BONK: 1500000,
+  },
+  AVAILABLE_TOKENS,
+)
+
+export const FIXTURE_STAKING_POOL_INFO = toStakingPoolInfo(
+  new PublicKey(STAKING_POOL_FIXTURE.address),
+  decodeStakingPoolAccount(fixtureData(STAKING_POOL_FIXTURE)),
+  GOLD_TOKEN.decimals,
+)
+
+export const FIXTURE_USER_STAKING_INFO = toUserStakingInfo(
+  decodeUserStakeAccount(fixtureData(USER_STAKE_FIXTURE)),
+  GOLD_TOKEN.decimals,
+  FIXTURE_NOW,
+)
+
+export const FIXTURE_POOL_DATA: PoolData = {
+  tvl: 250000,
+  volume24h: 62500,
+  fees24h: 187.5,
+  apy: 20,
+  tokenAReserve: 125000,
+  tokenBReserve: 1250,
+}
+
+export const FIXTURE_USER_POOL_SHARE: UserPoolShare = {
+  lpTokens: 500,
+  percentage: 5,
+  value: 12500,
+  earnedFees: 262.5,
+}
+
+// A recorded route: the AMM of each hop, and the tokens traded through between input and output
+export interface FixtureQuote {
+  outPerIn: number
+  priceImpactPct: string
+  hops: string[]
+  via: string[] // intermediate symbols, one fewer than hops
+}
+
+// Recorded quotes keyed by "<inputSymbol>-<outputSymbol>", for an input of 1 token, best first
+export const FIXTURE_QUOTES: Record<string, FixtureQuote[]> = {
+  "SOL-GOLD": [
+    { outPerIn: 199.4, priceImpactPct: "0.0012", hops: ["Raydium"], via: [] },
+    { outPerIn: 198.8, priceImpactPct: "0.0019", hops: ["Orca (Whirlpools)", "Raydium"], via: ["USDC"] },
+  ],
+  "GOLD-SOL": [
+    { outPerIn: 0.004985, priceImpactPct: "0.0012", hops: ["Raydium"], via: [] },
+    { outPerIn: 0.00497, priceImpactPct: "0.0019", hops: ["Raydium", "Orca (Whirlpools)"], via: ["USDC"] },
+  ],
+  "SOL-USDC": [
+    { outPerIn: 99.7, priceImpactPct: "0.0003", hops: ["Orca (Whirlpools)"], via: [] },
+    { outPerIn: 99.4, priceImpactPct: "0.0033", hops: ["Raydium", "Raydium"], via: ["GOLD"] },
+  ],
+  "USDC-SOL": [
+    { outPerIn: 0.00997, priceImpactPct: "0.0003", hops: ["Orca (Whirlpools)"], via: [] },
+    { outPerIn: 0.00994, priceImpactPct: "0.0033", hops: ["Raydium", "Raydium"], via: ["GOLD"] },
+  ],
+  "GOLD-USDC": [
+    { outPerIn: 0.4985, priceImpactPct: "0.0021", hops: ["Raydium"], via: [] },
+    { outPerIn: 0.497, priceImpactPct: "0.0015", hops: ["Raydium", "Orca (Whirlpools)"], via: ["SOL"] },
+  ],
+  "USDC-GOLD": [
+    { outPerIn: 1.994, priceImpactPct: "0.0021", hops: ["Raydium"], via: [] },
+    { outPerIn: 1.988, priceImpactPct: "0.0015", hops: ["Orca (Whirlpools)", "Raydium"], via: ["SOL"] },
+  ],
+  "GOLD-BONK": [
+    { outPerIn: 797.6, priceImpactPct: "0.0048", hops: ["Raydium", "Meteora"], via: ["SOL"] },
+    { outPerIn: 795.2, priceImpactPct: "0.0061", hops: ["Meteora"], via: [] },
+  ],
+  "BONK-GOLD": [
+    { outPerIn: 0.001246, priceImpactPct: "0.0048", hops: ["Meteora", "Raydium"], via: ["SOL"] },
+    { outPerIn: 0.001242, priceImpactPct: "0.0061", hops: ["Meteora"], via: [] },
+  ],
+}
+
+// Recorded signatures returned for writes
+export const FIXTURE_SIGNATURES = {
+  swap: "5wHu1qwD7q4XGMpcUDWYChkw9ZyA6qDsxRbhHyaKjbYvAVgTcL2vjT3hBPeVfjfMFaCbdfyBQLKoC9pJRkcs3z2d",
+  stake: "3n6KCwgVR4dHqLoDMvCWcbWkBdBLxumQsr4VQ4XnQ9ELgyJiRP6Z5bVNfN9Jkj2j9VoTrhcyWHNjDeR5vKgPTvZs",
+  unstake: "4Pq7mVbXhJJZ6mC1ZrFf3Tt6WrVDRLdFM8b6zn1Xy1dW9bzbJ1dH9YoJ7ycSuGMyfPZLo2sYb4aDmT1Jh9kS2Xhw",
+  claimStakingRewards: "2sK9uQ6hQ3GkN4uZbA3kPqv1sB3cW1bY7n1yTtqDq4JfM6xVcRdN7Z5a6KhVjT2oBq8XrLwY3pFmC9eN4uHgS1Tz",
+  claimFaucet: "67rT3cHnU2aKx8wYpE5qZ9vB4dN1mF6sJ2hL7gR3tC8kV5bW9yX4nP1zQ6aM2eD7fG3hJ8kL5mN9pQ2rS4tU6vW",
+  addLiquidity: "4AaMyd44rCtUp3bp8vC1FYXSyttRhDyJxqheERkAvou6CKUe6maR34bXLUzNXzp6sJsRQVjnUw1KM6QnErNKJJGh",
+  removeLiquidity: "4u4CqxkgXT54UCQpFMcrSexuRg3mxTkLMpBEm4hZkx3CBQSQUQFQeKG68V2eR5t4N2HN182kcBneNwCQM5HjARC2",
+  claimPoolFees: "4sPgpT5jz47ndTqDGQytdyK4u6n2hzCjXGRhMm7VqNQMx963EmzoUjZ4vL7sDy6EGDh9ECaYef8hCZMRrLyXvmwY",
+  transfer: "2RxNZWbJ1DEKLdhCCXPrXvkJHc7dznpVqZ7Xeawbp3JCNTS66W9vnKG7sMiJs3QVTj8hCdAbE3yChonKgbhp6umz",
+}
+
+// Recorded transaction statuses; unknown signatures replay as confirmed
+export const FIXTURE_TRANSACTION_STATUSES: Record<string, TransactionStatus> = {
+  [FIXTURE_SIGNATURES.swap]: "confirmed",
+  [FIXTURE_SIGNATURES.stake]: "confirmed",
+  [FIXTURE_SIGNATURES.unstake]: "confirmed",
+  [FIXTURE_SIGNATURES.claimStakingRewards]: "confirmed",
+  [FIXTURE_SIGNATURES.claimFaucet]: "confirmed",
+  [FIXTURE_SIGNATURES.addLiquidity]: "confirmed",
+  [FIXTURE_SIGNATURES.removeLiquidity]: "failed",
+  [FIXTURE_SIGNATURES.claimPoolFees]: "pending",
+  [FIXTURE_SIGNATURES.transfer]: "confirmed",
+}
+
+export const FIXTURE_NFTS: NftItem[] = [
+  {
+    mint: "mock-mint-1",
+    name: "Golden Egg #1",
+    symbol: "GOLD",
+    description: "A rare golden egg from the Goldium collection",
+    image: "/placeholder.svg?key=dmy27",
+    attributes: [
+      { trait_type: "Background", value: "Cosmic" },
+      { trait_type: "Shell", value: "Diamond" },
+      { trait_type: "Glow", value: "Radiant Gold" },
+      { trait_type: "Rarity", value: "Legendary" },
+    ],
+    collection: "GOLD-collection",
+    collectionName: "Goldium Genesis",
+  },
+  {
+    mint: "mock-mint-2",
+    name: "Golden Egg #42",
+    symbol: "GOLD",
+    description: "A beautiful golden egg from the Goldium collection",
+    image: "/placeholder.svg?key=s0zpi",
+    attributes: [
+      { trait_type: "Background", value: "Nebula" },
+      { trait_type: "Shell", value: "Platinum" },
+      { trait_type: "Glow", value: "Amber" },
+      { trait_type: "Rarity", value: "Epic" },
+    ],
+    collection: "GOLD-collection",
+    collectionName: "Goldium Genesis",
+  },
+  {
+    mint: "mock-mint-3",
+    name: "Golden Egg #78",
+    symbol: "GOLD",
+    description: "A shimmering golden egg from the Goldium collection",
+    image: "/placeholder.svg?key=fgavg",
+    attributes: [
+      { trait_type: "Background", value: "Deep Space" },
+      { trait_type: "Shell", value: "Gold" },
+      { trait_type: "Glow", value: "Subtle" },
+      { trait_type: "Rarity", value: "Rare" },
+    ],
+    collection: "GOLD-collection",
+    collectionName: "Goldium Genesis",
+  },
+  {
+    mint: "mock-mint-4",
+    name: "Goldium Founder #5",
+    symbol: "GOLD",
+    description: "A legendary founder NFT granting governance rights",
+    image: "/placeholder.svg?key=bnq6p",
+    attributes: [
+      { trait_type: "Background", value: "Void" },
+      { trait_type: "Material", value: "Ancient Gold" },
+      { trait_type: "Inscription", value: "Founder" },
+      { trait_type: "Rarity", value: "Mythic" },
+    ],
+    collection: "GOLD-founders",
+    collectionName: "Goldium Founders",
+  },
+]
+
+// Recorded routes for a token pair, best first
+export function fixtureRoutes(
+  inputToken: Token,
+  outputToken: Token,
+  inAmountRaw: number,
+  slippageBps: number,
+  options: SwapRouteOptions = {},
+): SwapRoute[] {
+  const quotes = FIXTURE_QUOTES[`${inputToken.symbol}-${outputToken.symbol}`] ?? []
+  const mintOf = (symbol: string) => AVAILABLE_TOKENS.find((token) => token.symbol === symbol)?.mint ?? symbol
+
+  return quotes
+    .filter((quote) => !options.onlyDirectRoutes || quote.hops.length === 1)
+    .map((quote) => {
+      const outAmount = Math.floor(
+        (inAmountRaw / Math.pow(10, inputToken.decimals)) * quote.outPerIn * Math.pow(10, outputToken.decimals),
+      )
+      const mints = [inputToken.mint, ...quote.via.map(mintOf), outputToken.mint]
+
+      return {
+        inAmount: inAmountRaw.toString(),
+        outAmount: outAmount.toString(),
+        outAmountWithSlippage: Math.floor((outAmount * (10000 - slippageBps)) / 10000).toString(),
+        priceImpactPct: quote.priceImpactPct,
+        hops: quote.hops.map((label, i) => ({ label, inputMint: mints[i], outputMint: mints[i + 1], percent: 100 })),
+        slippageBps,
+      }
+    })
+}
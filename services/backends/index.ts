@@ -0,0 +1,63 @@
+import type { Connection } from "@solana/web3.js"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { FixtureBackend } from "./fixtureBackend"
+import { LiveBackend } from "./liveBackend"
+import { SimulatorBackend } from "./simulatorBackend"
+import { BACKEND_MODES, type BackendMode, type DefiBackend } from "./types"
+
+export * from "./types"
+export { compareSwapRoutes, swapRouteKey } from "./routes"
+export { LiveBackend, getLiveTransactionStatus } from "./liveBackend"
+export { SimulatorBackend } from "./simulatorBackend"
+export { FixtureBackend } from "./fixtureBackend"
+export { FIXTURE_TRANSACTION_STATUSES } from "./fixtures"
+
+export const BACKEND_MODE_STORAGE_KEY = "goldium_backend_mode"
+
+export function isBackendMode(value: unknown): value is BackendMode {
+  return BACKEND_MODES.some((mode) => mode.value === value)
+}
+
+// Mode from NEXT_PUBLIC_BACKEND_MODE, defaulting to live
+export function getDefaultBackendMode(): BackendMode {
+  const envMode = process.env.NEXT_PUBLIC_BACKEND_MODE
+  return isBackendMode(envMode) ? envMode : "live"
+}
+
+// Mode chosen in Settings, falling back to the env default
+export function getStoredBackendMode(): BackendMode {
+  if (typeof window === "undefined") return getDefaultBackendMode()
+
+  const stored = localStorage.getItem(BACKEND_MODE_STORAGE_KEY)
+  return isBackendMode(stored) ? stored : getDefaultBackendMode()
+}
+
+export function storeBackendMode(mode: BackendMode) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(BACKEND_MODE_STORAGE_KEY, mode)
+}
+
+// Simulators keep their state for the lifetime of the page, one per network
+const simulators = new Map<NetworkType, SimulatorBackend>()
+
+export function getSimulatorBackend(network: NetworkType): SimulatorBackend {
+  let simulator = simulators.get(network)
+  if (!simulator) {
+    simulator = new SimulatorBackend(network)
+    simulators.set(network, simulator)
+  }
+  return simulator
+}
+
+// Create the backend for a mode
+export function createBackend(mode: BackendMode, connection: Connection, network: NetworkType): DefiBackend {
+  switch (mode) {
+    case "simulator":
+      return getSimulatorBackend(network)
+    case "fixtures":
+      return new FixtureBackend(network)
+    case "live":
+    default:
+      return new LiveBackend(connection, network)
+  }
+}
@@ -0,0 +1,313 @@
+import { type Connection, PublicKey } from "@solana/web3.js"
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { AVAILABLE_TOKENS, SOL_TOKEN, type Token, getGoldTokenForNetwork } from "@/constants/tokens"
+import { getAddress } from "@/constants/addresses"
+import { fetchTokenBalances, subscribeToTokenBalances } from "@/services/balanceService"
+import { StakingClient } from "@/services/stakingService"
+import { getSubscriptionManager } from "@/services/subscriptionManager"
+import { mintGoldTokens, transferSol, transferTokens, transferTokensBatch } from "@/services/tokenService"
+import { getGoldNftsForOwner } from "@/services/nftService"
+import { getAmountAfterTransferFee, getMintInfo } from "@/services/tokenPrograms"
+import type { QuoteParams } from "@/services/swapAggregators"
+import { executeSwap, getLiquidityPools, getQuote } from "@/utils/jupiter"
+import { compareSwapRoutes, swapRouteKey } from "./routes"
+import type {
+  BatchTransferRequest,
+  BatchTransferResult,
+  DefiBackend,
+  NftItem,
+  PoolData,
+  RouteHop,
+  SwapRequest,
+  SwapResult,
+  SwapRoute,
+  SwapRouteOptions,
+  TokenBalances,
+  TransactionStatus,
+  TransferRequest,
+  UserPoolShare,
+} from "./types"
+
+// Map a signature status from the cluster to an app transaction status
+export async function getLiveTransactionStatus(connection: Connection, signature: string): Promise<TransactionStatus> {
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true })
+
+  if (!value) return "pending"
+  if (value.err) return "failed"
+  if (value.confirmationStatus === "confirmed" || value.confirmationStatus === "finalized") return "confirmed"
+  return "pending"
+}
+
+// Route legs from a v6 routePlan or a legacy marketInfos list
+function toRouteHops(quote: any): RouteHop[] {
+  if (Array.isArray(quote.routePlan)) {
+    return quote.routePlan.map(({ swapInfo = {}, percent = 100 }: any) => ({
+      label: swapInfo.label ?? "Unknown AMM",
+      inputMint: swapInfo.inputMint,
+      outputMint: swapInfo.outputMint,
+      percent,
+      feeAmount: swapInfo.feeAmount,
+      feeMint: swapInfo.feeMint,
+    }))
+  }
+
+  return (quote.marketInfos ?? []).map((info: any) => ({
+    label: info.label ?? "Unknown AMM",
+    inputMint: info.inputMint,
+    outputMint: info.outputMint,
+    percent: 100,
+    feeAmount: info.lpFee?.amount?.toString(),
+    feeMint: info.lpFee?.mint,
+  }))
+}
+
+// Normalize a Jupiter quote response (v6 single quote or legacy route list) into swap routes
+export function toSwapRoutes(data: any, slippageBps: number): SwapRoute[] {
+  const quotes: any[] = Array.isArray(data?.data) ? data.data : data?.outAmount ? [data] : []
+
+  return quotes.map((quote) => ({
+    inAmount: quote.inAmount,
+    outAmount: quote.outAmount,
+    outAmountWithSlippage: quote.otherAmountThreshold ?? quote.outAmountWithSlippage,
+    priceImpactPct: quote.priceImpactPct,
+    hops: toRouteHops(quote),
+    slippageBps,
+    quote,
+  }))
+}
+
+// Routes without repeats, best output first
+function mergeSwapRoutes(routes: SwapRoute[]): SwapRoute[] {
+  const seen = new Set<string>()
+  return routes
+    .filter((route) => {
+      const key = swapRouteKey(route)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .sort(compareSwapRoutes)
+}
+
+// Backend talking to the selected Solana cluster and Jupiter
+export class LiveBackend implements DefiBackend {
+  readonly mode = "live" as const
+  private readonly stakingClient: StakingClient
+
+  constructor(
+    private readonly connection: Connection,
+    readonly network: NetworkType,
+  ) {
+    this.stakingClient = new StakingClient(connection, network)
+  }
+
+  private get tokens(): Token[] {
+    const gold = getGoldTokenForNetwork(this.network)
+    return AVAILABLE_TOKENS.map((token) => (token.symbol === gold.symbol ? gold : token))
+  }
+
+  getBalances(owner: PublicKey): Promise<TokenBalances> {
+    return fetchTokenBalances(this.connection, owner, this.tokens)
+  }
+
+  subscribeBalances(owner: PublicKey, onChange: () => void) {
+    return subscribeToTokenBalances(this.connection, owner, onChange)
+  }
+
+  // Jupiter quotes one route per request, so alternatives are asked for separately: the best direct route,
+  // and the best route avoiding the AMMs of the overall best. Alternatives that can't be quoted are left out.
+  async getSwapRoutes(
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippageBps: number,
+    options: SwapRouteOptions = {},
+  ) {
+    const params: QuoteParams = {
+      inputMint: inputToken.mint,
+      outputMint: outputToken.mint,
+      amount: Math.floor(amount * Math.pow(10, inputToken.decimals)).toString(),
+      slippageBps,
+      onlyDirectRoutes: options.onlyDirectRoutes,
+    }
+
+    const best = toSwapRoutes(await getQuote(params), slippageBps)
+    const bestLabels = Array.from(new Set(best.flatMap((route) => route.hops.map((hop) => hop.label))))
+    const alternatives = await Promise.allSettled([
+      options.onlyDirectRoutes ? null : getQuote({ ...params, onlyDirectRoutes: true }),
+      bestLabels.length > 0 ? getQuote({ ...params, excludeDexes: bestLabels }) : null,
+    ])
+
+    const routes = alternatives.reduce(
+      (all, result) => (result.status === "fulfilled" ? [...all, ...toSwapRoutes(result.value, slippageBps)] : all),
+      best,
+    )
+    return this.withTransferFee(mergeSwapRoutes(routes), outputToken)
+  }
+
+  // Show output amounts as received, after the output mint's transfer fee
+  private async withTransferFee(routes: SwapRoute[], outputToken: Token): Promise<SwapRoute[]> {
+    try {
+      const mint = await getMintInfo(this.connection, outputToken.mint)
+      if (!mint.transferFee) return routes
+
+      return Promise.all(
+        routes.map(async (route) => ({
+          ...route,
+          outAmount: (await getAmountAfterTransferFee(this.connection, mint, BigInt(route.outAmount))).toString(),
+          outAmountWithSlippage: (
+            await getAmountAfterTransferFee(this.connection, mint, BigInt(route.outAmountWithSlippage))
+          ).toString(),
+        })),
+      )
+    } catch (error) {
+      console.error("Error reading output mint, showing quoted amounts:", error)
+      return routes
+    }
+  }
+
+  async swap(wallet: WalletContextState, request: SwapRequest, route: SwapRoute): Promise<SwapResult> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    const result = await executeSwap({
+      connection: this.connection,
+      wallet,
+      fromToken: request.inputToken,
+      toToken: request.outputToken,
+      quote: route.quote,
+      slippageBps: request.slippageBps,
+    })
+
+    if (!result.success || !result.signature) {
+      throw new Error(result.error || "Failed to execute swap")
+    }
+
+    return {
+      signature: result.signature,
+      inputAmount: Number(route.inAmount) / Math.pow(10, request.inputToken.decimals),
+      outputAmount: Number(route.outAmount) / Math.pow(10, request.outputToken.decimals),
+    }
+  }
+
+  transfer(wallet: WalletContextState, request: TransferRequest) {
+    const { token, recipient, amount } = request
+    if (token.mint === SOL_TOKEN.mint) {
+      return transferSol(this.connection, wallet, recipient, amount)
+    }
+    return transferTokens(this.connection, wallet, new PublicKey(token.mint), recipient, amount, token.symbol)
+  }
+
+  transferBatch(
+    wallet: WalletContextState,
+    request: BatchTransferRequest,
+    onResult?: (result: BatchTransferResult) => void,
+  ) {
+    const { token, transfers } = request
+    return transferTokensBatch(this.connection, wallet, new PublicKey(token.mint), transfers, token.symbol, onResult)
+  }
+
+  getStakingPoolInfo() {
+    return this.stakingClient.getPoolInfo()
+  }
+
+  getUserStakingInfo(owner: PublicKey) {
+    return this.stakingClient.getUserStakingInfo(owner)
+  }
+
+  stake(wallet: WalletContextState, amount: number) {
+    return this.stakingClient.stake(wallet, amount)
+  }
+
+  unstake(wallet: WalletContextState, amount: number) {
+    return this.stakingClient.unstake(wallet, amount)
+  }
+
+  claimStakingRewards(wallet: WalletContextState) {
+    return this.stakingClient.claimRewards(wallet)
+  }
+
+  claimFaucet(wallet: WalletContextState, amount: number) {
+    return mintGoldTokens(this.connection, wallet, amount, this.network)
+  }
+
+  async getPoolData(tokenMint: string): Promise<PoolData> {
+    const token = this.tokens.find((t) => t.mint === tokenMint)
+    const pools = await getLiquidityPools(tokenMint)
+    const pool = pools.find((p) => p.token1Info.symbol === token?.symbol) ?? pools[0]
+    if (!pool) {
+      throw new Error(`No liquidity pool found for ${token?.symbol ?? tokenMint} on ${this.network}`)
+    }
+
+    return {
+      tvl: pool.tvl,
+      volume24h: pool.volume24h,
+      fees24h: (pool.volume24h * pool.fee) / 100,
+      apy: pool.apy,
+      tokenAReserve: pool.reserves.token1,
+      tokenBReserve: pool.reserves.token2,
+    }
+  }
+
+  async getUserPoolShare(owner: PublicKey, tokenMint: string): Promise<UserPoolShare | null> {
+    // LP positions aren't tracked on-chain yet
+    return null
+  }
+
+  async addLiquidity(wallet: WalletContextState, tokenMint: string, amount: number): Promise<string> {
+    throw new Error(`Liquidity pools are not available on ${this.network}`)
+  }
+
+  async removeLiquidity(wallet: WalletContextState, tokenMint: string, lpTokens: number): Promise<string> {
+    throw new Error(`Liquidity pools are not available on ${this.network}`)
+  }
+
+  async claimPoolFees(wallet: WalletContextState, tokenMint: string): Promise<string> {
+    throw new Error(`Liquidity pools are not available on ${this.network}`)
+  }
+
+  async getNfts(owner: PublicKey): Promise<NftItem[]> {
+    const nfts = await getGoldNftsForOwner(this.connection, owner, this.network)
+
+    return nfts.map((nft) => ({
+      mint: nft.address.toString(),
+      name: nft.name,
+      symbol: nft.symbol,
+      description: nft.json?.description || "No description",
+      image: nft.json?.image || "/placeholder.svg",
+      attributes: (nft.json?.attributes || []).map((attribute) => ({
+        trait_type: attribute.trait_type ?? "",
+        value: attribute.value ?? "",
+      })),
+      collection: nft.collection?.address.toString() || "Unknown Collection",
+      collectionName: "Unknown Collection",
+    }))
+  }
+
+  getTransactionStatus(signature: string) {
+    return getLiveTransactionStatus(this.connection, signature)
+  }
+
+  private subscribeAccounts(addresses: PublicKey[], onChange: () => void) {
+    const subscriptions = getSubscriptionManager(this.connection)
+    const unsubscribes = addresses.map((address) => subscriptions.subscribeAccount(address, () => onChange()))
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }
+
+  subscribeStakingInfo(owner: PublicKey | null, onChange: () => void) {
+    // The pool the client reads and stakes into, which a deployment may set apart from the program's PDA
+    const pool = this.stakingClient.poolAddress
+    const addresses = owner ? [pool, this.stakingClient.findUserStakePDA(owner)[0]] : [pool]
+    return this.subscribeAccounts(addresses, onChange)
+  }
+
+  // Reserves are read through Jupiter; refresh whenever one of the GOLD pool accounts changes
+  subscribePoolData(tokenMint: string, onChange: () => void) {
+    return this.subscribeAccounts(
+      [getAddress(this.network, "goldSolPool"), getAddress(this.network, "goldUsdcPool")],
+      onChange,
+    )
+  }
+}
@@ -0,0 +1,13 @@
+import type { SwapRoute } from "./types"
+
+// Identifies a route by the AMMs and tokens it goes through, so the same route can be found again in
+// a refreshed quote
+export function swapRouteKey(route: SwapRoute): string {
+  return route.hops.map((hop) => `${hop.label}:${hop.inputMint}:${hop.outputMint}:${hop.percent}`).join("|")
+}
+
+// Best output first
+export function compareSwapRoutes(a: SwapRoute, b: SwapRoute): number {
+  const difference = BigInt(b.outAmount) - BigInt(a.outAmount)
+  return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0
+}
@@ -0,0 +1,347 @@
+import { LAMPORTS_PER_SOL, type PublicKey } from "@solana/web3.js"
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { AVAILABLE_TOKENS, GOLD_TOKEN, SOL_TOKEN, type Token } from "@/constants/tokens"
+import { getNetworkAddresses } from "@/constants/addresses"
+import {
+  DEFAULT_STAKING_APY,
+  EMPTY_USER_STAKING_INFO,
+  MIN_STAKE_DURATION,
+  type StakingPoolInfo,
+  type UserStakingInfo,
+} from "@/services/stakingService"
+import { toTokenBalances } from "@/services/balanceService"
+import { type TransactionPreview, confirmPreview, toBalanceChanges } from "@/services/transactionPreview"
+import { BASE_FEE_LAMPORTS, type LedgerBalances, LedgerSimulator, POOL_FEE_BPS } from "@/utils/ledger-simulator"
+import { FIXTURE_NFTS } from "./fixtures"
+import type {
+  BatchTransferRequest,
+  BatchTransferResult,
+  DefiBackend,
+  PoolData,
+  SwapRequest,
+  SwapResult,
+  SwapRoute,
+  SwapRouteOptions,
+  TokenBalances,
+  TransactionStatus,
+  TransferRequest,
+  UserPoolShare,
+} from "./types"
+
+// Balances every wallet starts with in the simulator
+export const SIMULATOR_INITIAL_BALANCES: LedgerBalances = {
+  SOL: 10,
+  GOLD: 1000,
+  USDC: 100,
+  BONK: 0,
+}
+
+export const SIMULATOR_FAUCET_COOLDOWN = 24 * 60 * 60 // seconds
+
+export interface SimulatorOptions {
+  clock?: () => number
+}
+
+// Create the ledger backing a network's simulator
+export function createSimulatorLedger(network: NetworkType, options: SimulatorOptions = {}): LedgerSimulator {
+  return new LedgerSimulator({
+    initialBalances: SIMULATOR_INITIAL_BALANCES,
+    stakingApy: DEFAULT_STAKING_APY[network],
+    lockupPeriod: MIN_STAKE_DURATION,
+    faucetCooldown: SIMULATOR_FAUCET_COOLDOWN,
+    signaturePrefix: `sim-${network}`,
+    clock: options.clock ?? Date.now,
+  })
+}
+
+// Backend served by the in-memory ledger simulator. Every wallet starts from the same
+// balances and every write produces the same result for the same sequence of calls.
+export class SimulatorBackend implements DefiBackend {
+  readonly mode = "simulator" as const
+  readonly ledger: LedgerSimulator
+
+  constructor(
+    readonly network: NetworkType,
+    options: SimulatorOptions = {},
+  ) {
+    this.ledger = createSimulatorLedger(network, options)
+  }
+
+  private owner(wallet: WalletContextState): string {
+    if (!wallet.publicKey) {
+      throw new Error("Wallet not connected")
+    }
+    return wallet.publicKey.toBase58()
+  }
+
+  private tokenBySymbol(symbol: string): Token {
+    const token = AVAILABLE_TOKENS.find((t) => t.symbol === symbol)
+    if (!token) throw new Error(`Unknown token ${symbol}`)
+    return token
+  }
+
+  // Pools are keyed by their first token, e.g. GOLD -> GOLD-SOL
+  private poolIdForMint(tokenMint: string): string {
+    const token = AVAILABLE_TOKENS.find((t) => t.mint === tokenMint) ?? GOLD_TOKEN
+    const poolId = this.ledger.getPoolIds().find((id) => this.ledger.getPool(id).tokenA === token.symbol)
+    if (!poolId) throw new Error(`No simulated pool for ${token.symbol}`)
+    return poolId
+  }
+
+  // Dry-run a write, ask the user to confirm what it does, then apply it
+  private async confirmAndRun<T>(
+    owner: string,
+    label: string,
+    run: () => T,
+    minimumReceived?: TransactionPreview["minimumReceived"],
+  ): Promise<T> {
+    this.ledger.openWallet(owner)
+    const fee = Number(BASE_FEE_LAMPORTS) / LAMPORTS_PER_SOL
+    const before = this.ledger.getBalances(owner)
+    const after = this.ledger.dryRun(() => {
+      run()
+      return this.ledger.getBalances(owner)
+    })
+
+    // Report the fee separately from the SOL the action itself moves
+    after[SOL_TOKEN.symbol] = (after[SOL_TOKEN.symbol] ?? 0) + fee
+    await confirmPreview({ label, changes: toBalanceChanges(before, after), fee, minimumReceived })
+    return run()
+  }
+
+  async getBalances(owner: PublicKey): Promise<TokenBalances> {
+    this.ledger.openWallet(owner.toBase58())
+    return toTokenBalances(this.ledger.getBalances(owner.toBase58()), AVAILABLE_TOKENS)
+  }
+
+  // One route per simulated path: the direct pool and every two-hop path through a shared token
+  async getSwapRoutes(
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippageBps: number,
+    options: SwapRouteOptions = {},
+  ) {
+    if (amount <= 0) return []
+
+    return this.ledger
+      .findPaths(inputToken.symbol, outputToken.symbol)
+      .filter((path) => !options.onlyDirectRoutes || path.length === 2)
+      .map((path) => this.ledger.quoteSwap(inputToken.symbol, outputToken.symbol, amount, path)!)
+      .sort((a, b) => b.amountOut - a.amountOut)
+      .map((quote): SwapRoute => {
+        const outAmount = Math.floor(quote.amountOut * Math.pow(10, outputToken.decimals))
+        return {
+          inAmount: Math.floor(amount * Math.pow(10, inputToken.decimals)).toString(),
+          outAmount: outAmount.toString(),
+          outAmountWithSlippage: Math.floor((outAmount * (10000 - slippageBps)) / 10000).toString(),
+          priceImpactPct: quote.priceImpact.toFixed(6),
+          hops: quote.path.slice(0, -1).map((symbol, i) => {
+            const token = this.tokenBySymbol(symbol)
+            return {
+              label: "Goldium Simulator",
+              inputMint: token.mint,
+              outputMint: this.tokenBySymbol(quote.path[i + 1]).mint,
+              percent: 100,
+              feeAmount: Math.floor(quote.fees[i] * Math.pow(10, token.decimals)).toString(),
+              feeMint: token.mint,
+            }
+          }),
+          slippageBps,
+        }
+      })
+  }
+
+  // Symbols a route trades through, from its hops
+  private routePath(request: SwapRequest, route: SwapRoute): string[] | undefined {
+    if (route.hops.length === 0) return undefined
+    const intermediates = route.hops
+      .slice(1)
+      .map((hop) => AVAILABLE_TOKENS.find((t) => t.mint === hop.inputMint)?.symbol ?? hop.inputMint)
+    return [request.inputToken.symbol, ...intermediates, request.outputToken.symbol]
+  }
+
+  async swap(wallet: WalletContextState, request: SwapRequest, route: SwapRoute): Promise<SwapResult> {
+    const { inputToken, outputToken } = request
+    const inputAmount = Number(route.inAmount) / Math.pow(10, inputToken.decimals)
+    const minimumOut = Number(route.outAmountWithSlippage) / Math.pow(10, outputToken.decimals)
+    const path = this.routePath(request, route)
+
+    const owner = this.owner(wallet)
+    const result = await this.confirmAndRun(
+      owner,
+      `Swap ${inputToken.symbol} for ${outputToken.symbol}`,
+      () => this.ledger.swap(owner, inputToken.symbol, outputToken.symbol, inputAmount, minimumOut, path),
+      { symbol: outputToken.symbol, amount: minimumOut },
+    )
+    return { signature: result.signature, inputAmount: result.amountIn, outputAmount: result.amountOut }
+  }
+
+  async transfer(wallet: WalletContextState, request: TransferRequest) {
+    const { token, recipient, amount } = request
+    const owner = this.owner(wallet)
+    return this.confirmAndRun(owner, `Send ${amount} ${token.symbol}`, () =>
+      this.ledger.transfer(owner, recipient.toBase58(), token.symbol, amount),
+    )
+  }
+
+  // One approval for the whole batch, with each transfer its own ledger transaction
+  async transferBatch(
+    wallet: WalletContextState,
+    request: BatchTransferRequest,
+    onResult?: (result: BatchTransferResult) => void,
+  ) {
+    const { token, transfers } = request
+    const owner = this.owner(wallet)
+    const results = await this.confirmAndRun(owner, `Send ${token.symbol} to ${transfers.length} wallets`, () =>
+      transfers.map(({ recipient, amount }, index): BatchTransferResult => {
+        try {
+          return { index, signature: this.ledger.transfer(owner, recipient.toBase58(), token.symbol, amount) }
+        } catch (error: any) {
+          return { index, error: error.message }
+        }
+      }),
+    )
+    results.forEach((result) => onResult?.(result))
+    return results
+  }
+
+  async getStakingPoolInfo(): Promise<StakingPoolInfo> {
+    return {
+      address: getNetworkAddresses(this.network).stakingPool,
+      totalStaked: this.ledger.totalStaked,
+      apy: this.ledger.stakingApy,
+      lockupPeriod: this.ledger.lockupPeriod,
+      rewardTokenMint: GOLD_TOKEN.mint,
+      rewardTokenSymbol: GOLD_TOKEN.symbol,
+    }
+  }
+
+  async getUserStakingInfo(owner: PublicKey): Promise<UserStakingInfo> {
+    const position = this.ledger.getStakePosition(owner.toBase58())
+    if (!position) return EMPTY_USER_STAKING_INFO
+    if (position.amount <= 0) return { ...EMPTY_USER_STAKING_INFO, rewards: position.rewards }
+
+    // Rewards are settled up to now, so accrual restarts from the ledger clock
+    return {
+      stakedAmount: position.amount,
+      rewards: position.rewards,
+      stakingTime: position.stakeTime,
+      unlockTime: position.unlockTime,
+      lastClaimTime: this.ledger.now(),
+      isLocked: position.isLocked,
+    }
+  }
+
+  async stake(wallet: WalletContextState, amount: number) {
+    const owner = this.owner(wallet)
+    return this.confirmAndRun(owner, `Stake ${amount} GOLD`, () => this.ledger.stake(owner, amount))
+  }
+
+  async unstake(wallet: WalletContextState, amount: number) {
+    const owner = this.owner(wallet)
+    return this.confirmAndRun(owner, `Unstake ${amount} GOLD`, () => this.ledger.unstake(owner, amount))
+  }
+
+  async claimStakingRewards(wallet: WalletContextState) {
+    const owner = this.owner(wallet)
+    const { signature } = await this.confirmAndRun(owner, "Claim staking rewards", () =>
+      this.ledger.claimStakingRewards(owner),
+    )
+    return signature
+  }
+
+  async claimFaucet(wallet: WalletContextState, amount: number) {
+    const owner = this.owner(wallet)
+    return this.confirmAndRun(owner, `Claim ${amount} GOLD from the faucet`, () =>
+      this.ledger.claimFaucet(owner, amount),
+    )
+  }
+
+  async getPoolData(tokenMint: string): Promise<PoolData> {
+    const pool = this.ledger.getPool(this.poolIdForMint(tokenMint))
+    const tvl = pool.reserveA * this.ledger.referencePrice(pool.tokenA) * 2
+    const fees = (pool.volume * POOL_FEE_BPS) / 10000
+
+    return {
+      tvl,
+      volume24h: pool.volume,
+      fees24h: fees,
+      apy: tvl > 0 ? ((fees * 365) / tvl) * 100 : 0,
+      tokenAReserve: pool.reserveA,
+      tokenBReserve: pool.reserveB,
+    }
+  }
+
+  async getUserPoolShare(owner: PublicKey, tokenMint: string): Promise<UserPoolShare | null> {
+    const poolId = this.poolIdForMint(tokenMint)
+    const pool = this.ledger.getPool(poolId)
+    const lpTokens = this.ledger.getBalance(owner.toBase58(), pool.lpSymbol)
+    const share = pool.lpSupply > 0 ? lpTokens / pool.lpSupply : 0
+
+    // Fees accrue in both pool tokens; report them valued in GOLD
+    const goldPrice = this.ledger.referencePrice(GOLD_TOKEN.symbol)
+    const fees = this.ledger.getAccruedPoolFees(owner.toBase58(), poolId)
+    const earnedFees = Object.entries(fees).reduce(
+      (total, [symbol, amount]) => total + (amount * this.ledger.referencePrice(symbol)) / goldPrice,
+      0,
+    )
+
+    return {
+      lpTokens,
+      percentage: share * 100,
+      value: share * pool.reserveA * this.ledger.referencePrice(pool.tokenA) * 2,
+      earnedFees,
+    }
+  }
+
+  // Deposit tokenA with the matching amount of tokenB at the current pool ratio
+  async addLiquidity(wallet: WalletContextState, tokenMint: string, amount: number) {
+    const owner = this.owner(wallet)
+    const poolId = this.poolIdForMint(tokenMint)
+    const { signature } = await this.confirmAndRun(owner, `Add liquidity to ${poolId}`, () =>
+      this.ledger.addLiquidity(owner, poolId, amount),
+    )
+    return signature
+  }
+
+  async removeLiquidity(wallet: WalletContextState, tokenMint: string, lpTokens: number) {
+    const owner = this.owner(wallet)
+    const poolId = this.poolIdForMint(tokenMint)
+    const { signature } = await this.confirmAndRun(owner, `Remove liquidity from ${poolId}`, () =>
+      this.ledger.removeLiquidity(owner, poolId, lpTokens),
+    )
+    return signature
+  }
+
+  async claimPoolFees(wallet: WalletContextState, tokenMint: string) {
+    const owner = this.owner(wallet)
+    const poolId = this.poolIdForMint(tokenMint)
+    const { signature } = await this.confirmAndRun(owner, `Claim ${poolId} pool fees`, () =>
+      this.ledger.claimPoolFees(owner, poolId),
+    )
+    return signature
+  }
+
+  async getNfts(owner: PublicKey) {
+    return FIXTURE_NFTS
+  }
+
+  async getTransactionStatus(signature: string): Promise<TransactionStatus> {
+    return this.ledger.getTransaction(signature)?.status ?? "failed"
+  }
+
+  // Every ledger change can move balances, stakes and reserves, so all subscriptions share one listener
+  subscribeBalances(owner: PublicKey, onChange: () => void) {
+    return this.ledger.subscribe(() => onChange())
+  }
+
+  subscribeStakingInfo(owner: PublicKey | null, onChange: () => void) {
+    return this.ledger.subscribe(() => onChange())
+  }
+
+  subscribePoolData(tokenMint: string, onChange: () => void) {
+    return this.ledger.subscribe(() => onChange())
+  }
+}
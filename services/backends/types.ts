@@ -0,0 +1,176 @@
+import type { PublicKey } from "@solana/web3.js"
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import type { Token } from "@/constants/tokens"
+import type { StakingPoolInfo, UserStakingInfo } from "@/services/stakingService"
+
+// Where DeFi reads and writes are served from
+// - live: the selected Solana cluster and Jupiter
+// - simulator: a deterministic in-memory ledger, nothing leaves the browser
+// - fixtures: recorded responses, writes are acknowledged but change nothing
+export type BackendMode = "live" | "simulator" | "fixtures"
+
+export const BACKEND_MODES: { value: BackendMode; label: string; description: string }[] = [
+  { value: "live", label: "Live", description: "Send transactions to the selected Solana network" },
+  { value: "simulator", label: "Simulator", description: "Deterministic local ledger for demos and testing" },
+  { value: "fixtures", label: "Recorded fixtures", description: "Replay recorded responses, read-only" },
+]
+
+export type TransactionStatus = "pending" | "confirmed" | "failed"
+
+// Balance held by a wallet for one mint, summed over all of its token accounts
+export interface TokenBalance {
+  mint: string
+  symbol?: string // set when the mint is in the token list
+  decimals: number
+  amount: bigint // raw amount in base units
+  uiAmount: number
+  programId: string // token program owning the accounts
+}
+
+// Token balances keyed by mint. Native SOL is keyed by the wrapped SOL mint.
+export type TokenBalances = Record<string, TokenBalance>
+
+// One leg of a swap route, e.g. SOL -> USDC on Orca
+export interface RouteHop {
+  label: string // AMM or DEX the leg trades on
+  inputMint: string
+  outputMint: string
+  percent: number // share of the leg's input token routed through this AMM
+  feeAmount?: string // raw amount in feeMint, when the venue reports it
+  feeMint?: string
+}
+
+// A single swap route
+export interface SwapRoute {
+  inAmount: string
+  outAmount: string
+  outAmountWithSlippage: string
+  priceImpactPct: string
+  hops: RouteHop[]
+  slippageBps: number
+  quote?: any // raw quote response, required to execute through Jupiter
+}
+
+export interface SwapRouteOptions {
+  onlyDirectRoutes?: boolean // single-hop routes only
+}
+
+export interface SwapRequest {
+  inputToken: Token
+  outputToken: Token
+  amount: number // in input token UI units
+  slippageBps: number
+}
+
+// A transfer of SOL or any SPL token to another wallet
+export interface TransferRequest {
+  token: Token // SOL is identified by the wrapped SOL mint
+  recipient: PublicKey
+  amount: number // in token UI units
+}
+
+// The same token sent to many wallets, e.g. a community airdrop
+export interface BatchTransferRequest {
+  token: Token
+  transfers: { recipient: PublicKey; amount: number }[] // amounts in token UI units
+}
+
+// Outcome of one transfer in a batch. Transfers packed into the same transaction share its signature.
+export interface BatchTransferResult {
+  index: number // position in the request's transfers
+  signature?: string
+  error?: string
+}
+
+export interface SwapResult {
+  signature: string
+  inputAmount: number
+  outputAmount: number
+}
+
+// Liquidity pool state
+export interface PoolData {
+  tvl: number
+  volume24h: number
+  fees24h: number
+  apy: number
+  tokenAReserve: number
+  tokenBReserve: number
+}
+
+// A wallet's share of a liquidity pool
+export interface UserPoolShare {
+  lpTokens: number
+  percentage: number
+  value: number
+  earnedFees: number
+}
+
+// NFT as displayed in the gallery
+export interface NftItem {
+  mint: string
+  name: string
+  symbol: string
+  description: string
+  image: string
+  attributes: { trait_type: string; value: string }[]
+  collection: string
+  collectionName: string
+}
+
+// Backend serving every DeFi flow in the app
+export interface DefiBackend {
+  readonly mode: BackendMode
+  readonly network: NetworkType
+
+  // Balances
+  getBalances(owner: PublicKey): Promise<TokenBalances>
+
+  // Swaps, with alternative routes listed best output first
+  getSwapRoutes(
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippageBps: number,
+    options?: SwapRouteOptions,
+  ): Promise<SwapRoute[]>
+  swap(wallet: WalletContextState, request: SwapRequest, route: SwapRoute): Promise<SwapResult>
+
+  // Transfers
+  transfer(wallet: WalletContextState, request: TransferRequest): Promise<string>
+  // Reports each transfer as it settles, and resolves with every result in request order
+  transferBatch(
+    wallet: WalletContextState,
+    request: BatchTransferRequest,
+    onResult?: (result: BatchTransferResult) => void,
+  ): Promise<BatchTransferResult[]>
+
+  // Staking
+  getStakingPoolInfo(): Promise<StakingPoolInfo | null>
+  getUserStakingInfo(owner: PublicKey): Promise<UserStakingInfo>
+  stake(wallet: WalletContextState, amount: number): Promise<string>
+  unstake(wallet: WalletContextState, amount: number): Promise<string>
+  claimStakingRewards(wallet: WalletContextState): Promise<string>
+
+  // Faucet
+  claimFaucet(wallet: WalletContextState, amount: number): Promise<string>
+
+  // Liquidity pools
+  getPoolData(tokenMint: string): Promise<PoolData>
+  getUserPoolShare(owner: PublicKey, tokenMint: string): Promise<UserPoolShare | null>
+  addLiquidity(wallet: WalletContextState, tokenMint: string, amount: number): Promise<string>
+  removeLiquidity(wallet: WalletContextState, tokenMint: string, lpTokens: number): Promise<string>
+  claimPoolFees(wallet: WalletContextState, tokenMint: string): Promise<string>
+
+  // NFTs
+  getNfts(owner: PublicKey): Promise<NftItem[]>
+
+  // Transactions
+  getTransactionStatus(signature: string): Promise<TransactionStatus>
+
+  // Change notifications, each returning an unsubscribe function. Backends without them are static.
+  subscribeBalances?(owner: PublicKey, onChange: () => void): () => void
+  subscribeStakingInfo?(owner: PublicKey | null, onChange: () => void): () => void
+  subscribePoolData?(tokenMint: string, onChange: () => void): () => void
+}
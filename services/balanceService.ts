@@ -0,0 +1,112 @@
+import type { Connection, PublicKey } from "@solana/web3.js"
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token"
+import { SOL_TOKEN, type Token } from "@/constants/tokens"
+import type { TokenBalance, TokenBalances } from "@/services/backends/types"
+import { getSubscriptionManager } from "@/services/subscriptionManager"
+import { TOKEN_PROGRAMS, getMintInfo, toMintUiAmount } from "@/services/tokenPrograms"
+import { toRawAmount, toUiAmount } from "@/utils/staking-layout"
+
+// Token balance discovery and change subscriptions
+
+// Offset of the owner field in an SPL token account (same for Token-2022)
+const TOKEN_ACCOUNT_OWNER_OFFSET = 32
+
+function createBalance(token: Token, amount: bigint, programId: PublicKey = TOKEN_PROGRAM_ID): TokenBalance {
+  return {
+    mint: token.mint,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    amount,
+    uiAmount: toUiAmount(amount, token.decimals),
+    programId: programId.toBase58(),
+  }
+}
+
+// Build mint-keyed balances from UI amounts keyed by symbol
+export function toTokenBalances(amounts: Record<string, number>, tokens: Token[]): TokenBalances {
+  const balances: TokenBalances = {}
+  tokens.forEach((token) => {
+    balances[token.mint] = createBalance(token, toRawAmount(amounts[token.symbol] ?? 0, token.decimals))
+  })
+  return balances
+}
+
+// UI balance of a mint, 0 when the wallet holds none
+export function getUiBalance(balances: TokenBalances, mint: string): number {
+  return balances[mint]?.uiAmount ?? 0
+}
+
+// Fetch native SOL and every SPL and Token-2022 balance held by the owner.
+// Known tokens are always present, unlisted mints are included without a symbol.
+export async function fetchTokenBalances(
+  connection: Connection,
+  owner: PublicKey,
+  tokens: Token[],
+): Promise<TokenBalances> {
+  const [lamports, ...tokenAccounts] = await Promise.all([
+    connection.getBalance(owner),
+    ...TOKEN_PROGRAMS.map((programId) => connection.getParsedTokenAccountsByOwner(owner, { programId })),
+  ])
+
+  const balances = toTokenBalances({}, tokens)
+  balances[SOL_TOKEN.mint] = createBalance(SOL_TOKEN, BigInt(lamports))
+
+  tokenAccounts.forEach(({ value }, i) => {
+    value.forEach(({ account }) => {
+      const info = account.data.parsed.info
+      // Wrapped SOL is reported separately from the native balance above
+      if (info.mint === NATIVE_MINT.toBase58()) return
+
+      const decimals: number = info.tokenAmount.decimals
+      const amount = (balances[info.mint]?.amount ?? BigInt(0)) + BigInt(info.tokenAmount.amount)
+      const token = tokens.find((t) => t.mint === info.mint)
+
+      balances[info.mint] = {
+        mint: info.mint,
+        symbol: token?.symbol,
+        decimals,
+        amount,
+        uiAmount: toUiAmount(amount, decimals),
+        programId: TOKEN_PROGRAMS[i].toBase58(),
+      }
+    })
+  })
+
+  await applyInterest(connection, balances)
+  return balances
+}
+
+// Interest-bearing Token-2022 mints show balances with accrued interest, like wallets and explorers do
+async function applyInterest(connection: Connection, balances: TokenBalances) {
+  const token2022Balances = Object.values(balances).filter(
+    (balance) => balance.programId === TOKEN_2022_PROGRAM_ID.toBase58(),
+  )
+
+  await Promise.all(
+    token2022Balances.map(async (balance) => {
+      try {
+        const mint = await getMintInfo(connection, balance.mint)
+        if (mint.interestBearing) balance.uiAmount = toMintUiAmount(mint, balance.amount)
+      } catch (error) {
+        console.error(`Error reading mint ${balance.mint}:`, error)
+      }
+    }),
+  )
+}
+
+// Call onChange whenever the owner's lamports or any of its token accounts change
+export function subscribeToTokenBalances(connection: Connection, owner: PublicKey, onChange: () => void): () => void {
+  const subscriptions = getSubscriptionManager(connection)
+  const unsubscribes = [
+    subscriptions.subscribeAccount(owner, () => onChange()),
+    ...TOKEN_PROGRAMS.map((programId) =>
+      subscriptions.subscribeProgram(
+        programId,
+        [{ memcmp: { offset: TOKEN_ACCOUNT_OWNER_OFFSET, bytes: owner.toBase58() } }],
+        () => onChange(),
+      ),
+    ),
+  ]
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+}
@@ -0,0 +1,230 @@
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import type { Token } from "@/constants/tokens"
+
+// Dollar-cost averaging: a total amount swapped in equal orders at a fixed interval. Plans are kept per
+// wallet in the browser and run while the app is open. Orders missed while it was closed aren't caught up
+// in a burst: the next one runs when the user is back, and the schedule continues from there.
+
+export type DcaPlanStatus = "active" | "paused" | "completed" | "cancelled"
+
+// One child swap, or a failed attempt at one
+export interface DcaFill {
+  at: number
+  inputAmount: number
+  outputAmount: number
+  signature?: string
+  error?: string // set on failed attempts, which are retried at the next interval
+}
+
+export interface DcaPlan {
+  id: string
+  network: NetworkType
+  inputToken: Token
+  outputToken: Token
+  totalAmount: number // in input token UI units, split evenly over the orders
+  orderCount: number
+  interval: number // ms between orders
+  autoExecute: boolean // swap as soon as an order is due, rather than waiting for the user to start it
+  createdAt: number
+  nextOrderAt: number
+  status: DcaPlanStatus
+  fills: DcaFill[]
+  consecutiveFailures?: number // failed attempts since the last fill or resume; missing on older plans
+}
+
+export interface NewDcaPlan {
+  inputToken: Token
+  outputToken: Token
+  totalAmount: number
+  orderCount: number
+  interval: number
+  autoExecute: boolean
+}
+
+export const DCA_PLANS_STORAGE_KEY = "goldium_dca_plans"
+export const DCA_CHECK_INTERVAL = 15000
+export const DCA_INTERVAL_HOURS = [1, 4, 24, 24 * 7]
+export const MAX_DCA_ORDERS = 100
+export const MAX_DCA_FAILURES = 3 // failed attempts in a row before the plan is paused
+
+const MIN_DCA_INTERVAL = 60 * 1000
+
+// Thrown when a plan can't be created or changed
+export class DcaPlanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "DcaPlanError"
+  }
+}
+
+type DcaPlanListener = () => void
+const listeners = new Set<DcaPlanListener>()
+
+// Called whenever a plan is created, changes status or records a fill
+export function subscribeDcaPlans(listener: DcaPlanListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function storageKey(owner: string): string {
+  return `${DCA_PLANS_STORAGE_KEY}:${owner}`
+}
+
+function readDcaPlans(owner: string): DcaPlan[] {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = localStorage.getItem(storageKey(owner))
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error("Error reading DCA plans:", error)
+    return []
+  }
+}
+
+function writeDcaPlans(owner: string, plans: DcaPlan[]) {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(plans))
+  } catch (error) {
+    console.error("Error saving DCA plans:", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+function updateDcaPlan(owner: string, id: string, update: (plan: DcaPlan) => Partial<DcaPlan>): DcaPlan {
+  const plans = readDcaPlans(owner)
+  const index = plans.findIndex((plan) => plan.id === id)
+  if (index === -1) {
+    throw new DcaPlanError("Plan not found")
+  }
+
+  plans[index] = { ...plans[index], ...update(plans[index]) }
+  writeDcaPlans(owner, plans)
+  return plans[index]
+}
+
+// A wallet's plans on a network, newest first
+export function getDcaPlans(owner: string, network: NetworkType): DcaPlan[] {
+  return readDcaPlans(owner)
+    .filter((plan) => plan.network === network)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export function createDcaPlan(owner: string, network: NetworkType, request: NewDcaPlan): DcaPlan {
+  const { inputToken, outputToken, totalAmount, orderCount, interval, autoExecute } = request
+  if (inputToken.mint === outputToken.mint) {
+    throw new DcaPlanError("Choose two different tokens")
+  }
+  if (!Number.isFinite(totalAmount) || totalAmount <= 0) {
+    throw new DcaPlanError("Total amount must be greater than zero")
+  }
+  if (!Number.isInteger(orderCount) || orderCount < 2 || orderCount > MAX_DCA_ORDERS) {
+    throw new DcaPlanError(`Number of orders must be between 2 and ${MAX_DCA_ORDERS}`)
+  }
+  if (!Number.isFinite(interval) || interval < MIN_DCA_INTERVAL) {
+    throw new DcaPlanError("Orders must be at least a minute apart")
+  }
+
+  const now = Date.now()
+  const plan: DcaPlan = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    network,
+    inputToken,
+    outputToken,
+    totalAmount,
+    orderCount,
+    interval,
+    autoExecute,
+    createdAt: now,
+    nextOrderAt: now, // the first order goes out right away
+    status: "active",
+    fills: [],
+    consecutiveFailures: 0,
+  }
+  writeDcaPlans(owner, [...readDcaPlans(owner), plan])
+  return plan
+}
+
+export function pauseDcaPlan(owner: string, id: string): DcaPlan {
+  return updateDcaPlan(owner, id, (plan) => {
+    if (plan.status !== "active") throw new DcaPlanError("Only active plans can be paused")
+    return { status: "paused" }
+  })
+}
+
+// Orders due while the plan was paused are skipped, not run at once
+export function resumeDcaPlan(owner: string, id: string, now = Date.now()): DcaPlan {
+  return updateDcaPlan(owner, id, (plan) => {
+    if (plan.status !== "paused") throw new DcaPlanError("Only paused plans can be resumed")
+    return { status: "active", nextOrderAt: Math.max(plan.nextOrderAt, now), consecutiveFailures: 0 }
+  })
+}
+
+export function cancelDcaPlan(owner: string, id: string): DcaPlan {
+  return updateDcaPlan(owner, id, (plan) => {
+    if (plan.status === "completed" || plan.status === "cancelled") throw new DcaPlanError("The plan has ended")
+    return { status: "cancelled" }
+  })
+}
+
+// Forget completed and cancelled plans on a network
+export function clearEndedDcaPlans(owner: string, network: NetworkType) {
+  writeDcaPlans(
+    owner,
+    readDcaPlans(owner).filter(
+      (plan) => plan.network !== network || plan.status === "active" || plan.status === "paused",
+    ),
+  )
+}
+
+// Input amount of each child swap
+export function getDcaOrderAmount(plan: Pick<DcaPlan, "totalAmount" | "orderCount">): number {
+  return plan.totalAmount / plan.orderCount
+}
+
+export function isDcaOrderDue(plan: DcaPlan, now = Date.now()): boolean {
+  return plan.status === "active" && plan.nextOrderAt <= now
+}
+
+// Record the outcome of a child swap and schedule the next one. The plan completes with its last fill, and
+// is paused after MAX_DCA_FAILURES failed attempts in a row, so one that can't fill (no balance or route)
+// doesn't retry forever.
+export function recordDcaFill(owner: string, id: string, fill: DcaFill): DcaPlan {
+  return updateDcaPlan(owner, id, (plan) => {
+    const fills = [...plan.fills, fill]
+    const filled = fills.filter((candidate) => !candidate.error).length
+    const consecutiveFailures = fill.error ? (plan.consecutiveFailures ?? 0) + 1 : 0
+    // Keep to the schedule, unless the order ran late enough that its successor is already due
+    const scheduled = plan.nextOrderAt + plan.interval
+    let status = plan.status
+    if (filled >= plan.orderCount) status = "completed"
+    else if (status === "active" && consecutiveFailures >= MAX_DCA_FAILURES) status = "paused"
+    return {
+      fills,
+      consecutiveFailures,
+      status,
+      nextOrderAt: scheduled > fill.at ? scheduled : fill.at + plan.interval,
+    }
+  })
+}
+
+// Whether the plan was paused for failing rather than by the user
+export function isDcaPlanFailing(plan: DcaPlan): boolean {
+  return plan.status === "paused" && (plan.consecutiveFailures ?? 0) >= MAX_DCA_FAILURES
+}
+
+export function summarizeDcaPlan(plan: DcaPlan) {
+  const fills = plan.fills.filter((fill) => !fill.error)
+  const spent = fills.reduce((sum, fill) => sum + fill.inputAmount, 0)
+  const received = fills.reduce((sum, fill) => sum + fill.outputAmount, 0)
+  return {
+    filled: fills.length,
+    remaining: plan.orderCount - fills.length,
+    spent,
+    received,
+    averagePrice: spent > 0 ? received / spent : null, // output tokens per input token
+    progress: fills.length / plan.orderCount,
+    lastError: plan.fills[plan.fills.length - 1]?.error,
+  }
+}
@@ -1,201 +0,0 @@
-import type { Connection, PublicKey } from "@solana/web3.js"
-import type { WalletContextState } from "@solana/wallet-adapter-react"
-import { GOLD_MINT_ADDRESS, GOLD_TOKEN_METADATA } from "@/services/tokenService"
-
-// Staking pool addresses
-export const STAKING_POOL_ADDRESSES = {
-  devnet: "GoLDStake11111111111111111111111111111111111",
-  testnet: "GoLDStake11111111111111111111111111111111111",
-  "mainnet-beta": "GoLDStake11111111111111111111111111111111111",
-}
-
-// Staking pool info
-export interface StakingPoolInfo {
-  totalStaked: number
-  apy: number
-  lockupPeriod: number // in days, 0 for flexible
-  rewardTokenMint: string
-  rewardTokenSymbol: string
-}
-
-// User staking info
-export interface UserStakingInfo {
-  stakedAmount: number
-  rewards: number
-  stakingTime: number // timestamp
-  unlockTime: number // timestamp
-  isLocked: boolean
-}
-
-// Get staking pool info
-export async function getStakingPoolInfo(connection: Connection, poolAddress: string): Promise<StakingPoolInfo> {
-  try {
-    // In a real implementation, you would fetch this data from the staking program
-    // This is a mock implementation
-    return {
-      totalStaked: 1250000,
-      apy: 12.5,
-      lockupPeriod: 0, // flexible
-      rewardTokenMint: GOLD_MINT_ADDRESS.devnet,
-      rewardTokenSymbol: GOLD_TOKEN_METADATA.symbol,
-    }
-  } catch (error) {
-    console.error("Error getting staking pool info:", error)
-    throw error
-  }
-}
-
-// Get user staking info
-export async function getUserStakingInfo(
-  connection: Connection,
-  walletPublicKey: PublicKey,
-  poolAddress: string,
-): Promise<UserStakingInfo> {
-  try {
-    // In a real implementation, you would fetch this data from the staking program
-    // This is a mock implementation
-    return {
-      stakedAmount: 1000,
-      rewards: 25.5,
-      stakingTime: Date.now() - 7 * 24 * 60 * 60 * 1000, // 7 days ago
-      unlockTime: 0, // flexible staking
-      isLocked: false,
-    }
-  } catch (error) {
-    console.error("Error getting user staking info:", error)
-    throw error
-  }
-}
-
-// Stake tokens
-export async function stakeTokens(
-  connection: Connection,
-  wallet: WalletContextState,
-  poolAddress: string,
-  amount: number,
-): Promise<string> {
-  try {
-    if (!wallet.publicKey || !wallet.signTransaction) {
-      throw new Error("Wallet not connected")
-    }
-
-    // In a real implementation, you would create a transaction to stake tokens
-    // This is a mock implementation
-
-    // Return a mock transaction signature
-    return "mock_stake_transaction_signature"
-  } catch (error) {
-    console.error("Error staking tokens:", error)
-    throw error
-  }
-}
-
-// Unstake tokens
-export async function unstakeTokens(
-  connection: Connection,
-  wallet: WalletContextState,
-  poolAddress: string,
-  amount: number,
-): Promise<string> {
-  try {
-    if (!wallet.publicKey || !wallet.signTransaction) {
-      throw new Error("Wallet not connected")
-    }
-
-    // In a real implementation, you would create a transaction to unstake tokens
-    // This is a mock implementation
-
-    // Return a mock transaction signature
-    return "mock_unstake_transaction_signature"
-  } catch (error) {
-    console.error("Error unstaking tokens:", error)
-    throw error
-  }
-}
-
-// Claim rewards
-export async function claimRewards(
-  connection: Connection,
-  wallet: WalletContextState,
-  poolAddress: string,
-): Promise<string> {
-  try {
-    if (!wallet.publicKey || !wallet.signTransaction) {
-      throw new Error("Wallet not connected")
-    }
-
-    // In a real implementation, you would create a transaction to claim rewards
-    // This is a mock implementation
-
-    // Return a mock transaction signature
-    return "mock_claim_rewards_transaction_signature"
-  } catch (error) {
-    console.error("Error claiming rewards:", error)
-    throw error
-  }
-}
-
-// Swap tokens using Jupiter API
-export interface SwapParams {
-  inputMint: string
-  outputMint: string
-  amount: number
-  slippage: number
-}
-
-export interface SwapResult {
-  signature: string
-  inputAmount: number
-  outputAmount: number
-  fee: number
-  priceImpact: number
-}
-
-export async function swapTokens(
-  connection: Connection,
-  wallet: WalletContextState,
-  params: SwapParams,
-): Promise<SwapResult> {
-  try {
-    if (!wallet.publicKey || !wallet.signTransaction) {
-      throw new Error("Wallet not connected")
-    }
-
-    // In a real implementation, you would use the Jupiter API to swap tokens
-    // This is a mock implementation
-
-    // Calculate a mock output amount
-    const outputAmount = params.amount * (params.inputMint === GOLD_MINT_ADDRESS.devnet ? 0.1 : 10)
-
-    return {
-      signature: "mock_swap_transaction_signature",
-      inputAmount: params.amount,
-      outputAmount,
-      fee: params.amount * 0.003, // 0.3% fee
-      priceImpact: 0.1, // 0.1% price impact
-    }
-  } catch (error) {
-    console.error("Error swapping tokens:", error)
-    throw error
-  }
-}
-
-// Get token price
-export async function getTokenPrice(connection: Connection, mintAddress: string): Promise<number> {
-  try {
-    // In a real implementation, you would fetch the price from an oracle or API
-    // This is a mock implementation
-    if (mintAddress === GOLD_MINT_ADDRESS.devnet) {
-      return 5.75 // $5.75 per GOLD
-    } else if (mintAddress === "So11111111111111111111111111111111111111112") {
-      return 100.25 // $100.25 per SOL
-    } else if (mintAddress === "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v") {
-      return 1.0 // $1.00 per USDC
-    } else {
-      return 0.0
-    }
-  } catch (error) {
-    console.error("Error getting token price:", error)
-    return 0.0
-  }
-}
@@ -0,0 +1,312 @@
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { type Token, getGoldTokenForNetwork } from "@/constants/tokens"
+import type { DefiBackend } from "@/services/backends"
+import { fetchPairPrice } from "@/services/priceFeed"
+
+// Limit orders for GOLD pairs: sell an amount of one token once it trades at or above a target price in
+// the other. Orders are kept per wallet in the browser and checked against the price feed while the app is
+// open. A triggered order is filled by an executor, by default a swap through the active backend.
+
+export type LimitOrderStatus = "open" | "filled" | "cancelled" | "expired"
+
+export interface LimitOrder {
+  id: string
+  network: NetworkType
+  inputToken: Token
+  outputToken: Token
+  inputAmount: number // in input token UI units
+  targetPrice: number // output tokens per input token
+  createdAt: number
+  expiresAt: number
+  status: LimitOrderStatus
+  filledAt?: number
+  outputAmount?: number
+  signature?: string
+  error?: string // why the last fill attempt failed; the order stays open
+}
+
+export interface NewLimitOrder {
+  inputToken: Token
+  outputToken: Token
+  inputAmount: number
+  targetPrice: number
+  expiresIn: number // ms
+}
+
+export interface LimitOrderFill {
+  signature?: string // none when filled off-chain, e.g. by the matching simulator
+  outputAmount: number
+}
+
+// Fills orders whose target price was reached
+export interface LimitOrderExecutor {
+  readonly name: string
+  // Rejects when the order can't be filled at its target, leaving it open for the next check
+  fill(order: LimitOrder, marketPrice: number): Promise<LimitOrderFill>
+}
+
+export const LIMIT_ORDERS_STORAGE_KEY = "goldium_limit_orders"
+export const LIMIT_ORDER_CHECK_INTERVAL = 30000 // the price feed refreshes about this often
+export const LIMIT_ORDER_EXPIRY_HOURS = [1, 24, 24 * 7, 24 * 30]
+export const MAX_OPEN_LIMIT_ORDERS = 20
+
+const MAX_FILL_SLIPPAGE_BPS = 5000
+
+// Thrown when an order can't be placed, cancelled or filled
+export class LimitOrderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LimitOrderError"
+  }
+}
+
+type LimitOrderListener = () => void
+const listeners = new Set<LimitOrderListener>()
+
+// Orders being filled right now, which can't be cancelled or filled again
+const filling = new Set<string>()
+
+// Called whenever an order is placed or changes status
+export function subscribeLimitOrders(listener: LimitOrderListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function storageKey(owner: string): string {
+  return `${LIMIT_ORDERS_STORAGE_KEY}:${owner}`
+}
+
+function readLimitOrders(owner: string): LimitOrder[] {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = localStorage.getItem(storageKey(owner))
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error("Error reading limit orders:", error)
+    return []
+  }
+}
+
+function writeLimitOrders(owner: string, orders: LimitOrder[]) {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(orders))
+  } catch (error) {
+    console.error("Error saving limit orders:", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+function updateLimitOrder(owner: string, id: string, update: Partial<LimitOrder>): LimitOrder | undefined {
+  const orders = readLimitOrders(owner)
+  const index = orders.findIndex((order) => order.id === id)
+  if (index === -1) return undefined
+
+  orders[index] = { ...orders[index], ...update }
+  writeLimitOrders(owner, orders)
+  return orders[index]
+}
+
+// A wallet's orders on a network, newest first
+export function getLimitOrders(owner: string, network: NetworkType): LimitOrder[] {
+  return readLimitOrders(owner)
+    .filter((order) => order.network === network)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Whether the order sells GOLD, as opposed to buying it
+export function isGoldSellOrder(order: Pick<LimitOrder, "network" | "inputToken">): boolean {
+  return order.inputToken.mint === getGoldTokenForNetwork(order.network).mint
+}
+
+// The order's target as the price of one GOLD in the other token
+export function getGoldLimitPrice(order: LimitOrder): number {
+  return isGoldSellOrder(order) ? order.targetPrice : 1 / order.targetPrice
+}
+
+export function placeLimitOrder(
+  owner: string,
+  network: NetworkType,
+  request: NewLimitOrder,
+  now = Date.now(),
+): LimitOrder {
+  const { inputToken, outputToken, inputAmount, targetPrice, expiresIn } = request
+  const goldMint = getGoldTokenForNetwork(network).mint
+
+  if (inputToken.mint === outputToken.mint || (inputToken.mint !== goldMint && outputToken.mint !== goldMint)) {
+    throw new LimitOrderError("Limit orders trade GOLD against another token")
+  }
+  if (!Number.isFinite(inputAmount) || inputAmount <= 0) {
+    throw new LimitOrderError("Amount must be greater than zero")
+  }
+  if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+    throw new LimitOrderError("Target price must be greater than zero")
+  }
+  if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+    throw new LimitOrderError("Choose when the order expires")
+  }
+
+  const orders = readLimitOrders(owner)
+  if (orders.filter((order) => order.status === "open").length >= MAX_OPEN_LIMIT_ORDERS) {
+    throw new LimitOrderError(`At most ${MAX_OPEN_LIMIT_ORDERS} orders can be open at once`)
+  }
+
+  const order: LimitOrder = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    network,
+    inputToken,
+    outputToken,
+    inputAmount,
+    targetPrice,
+    createdAt: now,
+    expiresAt: now + expiresIn,
+    status: "open",
+  }
+  writeLimitOrders(owner, [...orders, order])
+  return order
+}
+
+export function cancelLimitOrder(owner: string, id: string) {
+  if (filling.has(id)) {
+    throw new LimitOrderError("The order is being filled")
+  }
+  const order = readLimitOrders(owner).find((candidate) => candidate.id === id)
+  if (order?.status !== "open") {
+    throw new LimitOrderError("Only open orders can be cancelled")
+  }
+  updateLimitOrder(owner, id, { status: "cancelled", error: undefined })
+}
+
+// Forget filled, cancelled and expired orders on a network
+export function clearClosedLimitOrders(owner: string, network: NetworkType) {
+  writeLimitOrders(
+    owner,
+    readLimitOrders(owner).filter((order) => order.network !== network || order.status === "open"),
+  )
+}
+
+// Price of one input token in output tokens
+export type PairPriceSource = (inputMint: string, outputMint: string) => Promise<number>
+
+// Expire stale orders and fill the ones whose target price was reached, one at a time. Resolves with the
+// orders filled by this check.
+export async function checkLimitOrders(
+  owner: string,
+  network: NetworkType,
+  executor: LimitOrderExecutor,
+  getPrice: PairPriceSource = (inputMint, outputMint) => fetchPairPrice(network, inputMint, outputMint),
+  now = Date.now(),
+): Promise<LimitOrder[]> {
+  const filled: LimitOrder[] = []
+  const prices = new Map<string, Promise<number>>() // one lookup per pair
+
+  for (const order of getLimitOrders(owner, network)) {
+    if (order.status !== "open" || filling.has(order.id)) continue
+    if (order.expiresAt <= now) {
+      updateLimitOrder(owner, order.id, { status: "expired" })
+      continue
+    }
+
+    const pair = `${order.inputToken.mint}:${order.outputToken.mint}`
+    if (!prices.has(pair)) prices.set(pair, getPrice(order.inputToken.mint, order.outputToken.mint))
+    let price: number
+    try {
+      price = await prices.get(pair)!
+    } catch (error) {
+      console.error("Error reading price for limit order:", error)
+      continue
+    }
+    if (!(price >= order.targetPrice)) continue
+    // Cancelled, or picked up by an overlapping check, while the price was being read
+    if (filling.has(order.id)) continue
+    if (readLimitOrders(owner).find((candidate) => candidate.id === order.id)?.status !== "open") continue
+
+    filling.add(order.id)
+    try {
+      const fill = await executor.fill(order, price)
+      const update = { status: "filled" as const, filledAt: Date.now(), ...fill, error: undefined }
+      const filledOrder = updateLimitOrder(owner, order.id, update)
+      if (filledOrder) filled.push(filledOrder)
+    } catch (error: any) {
+      console.error("Error filling limit order:", error)
+      updateLimitOrder(owner, order.id, { error: error?.message || String(error) })
+    } finally {
+      filling.delete(order.id)
+    }
+  }
+
+  return filled
+}
+
+// Fills orders with a swap through a DeFi backend. The swap's minimum output is the order's target, so a
+// route quoting below it fails the fill instead of trading at a worse price.
+export function createSwapExecutor(backend: DefiBackend, wallet: WalletContextState): LimitOrderExecutor {
+  const bestRoute = async (order: LimitOrder, slippageBps: number) => {
+    const { inputToken, outputToken, inputAmount } = order
+    const [route] = await backend.getSwapRoutes(inputToken, outputToken, inputAmount, slippageBps)
+    if (!route) {
+      throw new LimitOrderError(`No route from ${inputToken.symbol} to ${outputToken.symbol}`)
+    }
+    return route
+  }
+
+  return {
+    name: backend.mode,
+
+    async fill(order) {
+      const { inputToken, outputToken, inputAmount, targetPrice } = order
+      const minimumOut = Math.ceil(inputAmount * targetPrice * Math.pow(10, outputToken.decimals))
+
+      // Quote once to see how far above the target the route is, then again allowing slippage down to it
+      const quoted = Number((await bestRoute(order, 0)).outAmount)
+      if (quoted < minimumOut) {
+        throw new LimitOrderError("The swap rate is below the order's target price")
+      }
+      const slippageBps = Math.min(MAX_FILL_SLIPPAGE_BPS, Math.floor(((quoted - minimumOut) * 10000) / quoted))
+      const route = await bestRoute(order, slippageBps)
+      if (Number(route.outAmountWithSlippage) < minimumOut) {
+        throw new LimitOrderError("The swap rate is below the order's target price")
+      }
+
+      const result = await backend.swap(wallet, { inputToken, outputToken, amount: inputAmount, slippageBps }, route)
+      return { signature: result.signature, outputAmount: result.outputAmount }
+    },
+  }
+}
+
+// Matches orders locally at the market price, less a fee, with no wallet or network involved.
+// Used in tests and demos in place of the swap executor.
+export class LimitOrderMatchingSimulator implements LimitOrderExecutor {
+  readonly name = "matching-simulator"
+  readonly fills: { order: LimitOrder; price: number; outputAmount: number }[] = []
+
+  constructor(private readonly feeBps = 0) {}
+
+  async fill(order: LimitOrder, marketPrice: number): Promise<LimitOrderFill> {
+    if (marketPrice < order.targetPrice) {
+      throw new LimitOrderError("The market price is below the order's target price")
+    }
+
+    const outputAmount = order.inputAmount * marketPrice * (1 - this.feeBps / 10000)
+    if (outputAmount < order.inputAmount * order.targetPrice) {
+      throw new LimitOrderError("The fee would take the fill below the order's target price")
+    }
+
+    this.fills.push({ order, price: marketPrice, outputAmount })
+    return { outputAmount }
+  }
+}
+
+let executorOverride: LimitOrderExecutor | null = null
+
+// The executor set with setLimitOrderExecutor, if any; otherwise null and orders fill through the backend
+export function getLimitOrderExecutor(): LimitOrderExecutor | null {
+  return executorOverride
+}
+
+// Fill orders with another executor, e.g. the matching simulator in tests. Passing null goes back to swaps.
+export function setLimitOrderExecutor(next: LimitOrderExecutor | null) {
+  executorOverride = next
+}
@@ -8,13 +8,8 @@ import {
   type SftWithToken,
 } from "@metaplex-foundation/js"
 import type { WalletContextState } from "@solana/wallet-adapter-react"
-
-// NFT Collection address
-export const GOLD_COLLECTION_ADDRESS = {
-  devnet: "GoLDNFT111111111111111111111111111111111111",
-  testnet: "GoLDNFT111111111111111111111111111111111111",
-  "mainnet-beta": "GoLDNFT111111111111111111111111111111111111",
-}
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { getNetworkAddresses } from "@/constants/addresses"
 
 // Get all NFTs owned by a wallet
 export async function getNftsForOwner(
@@ -37,9 +32,11 @@ export async function getNftsForOwner(
 export async function getGoldNftsForOwner(
   connection: Connection,
   walletPublicKey: PublicKey,
+  network: NetworkType,
 ): Promise<(Nft | NftWithToken | Sft | SftWithToken)[]> {
   try {
     const allNfts = await getNftsForOwner(connection, walletPublicKey)
+    const collectionAddress = getNetworkAddresses(network).goldCollection
 
     // Filter for NFTs from the GOLD collection
     // In a real implementation, you would check the collection address
@@ -47,7 +44,7 @@ export async function getGoldNftsForOwner(
       // Check if the NFT belongs to the GOLD collection
       // This is a simplified check - in production you would verify the collection address
       return (
-        nft.collection?.address.toString() === GOLD_COLLECTION_ADDRESS.devnet ||
+        nft.collection?.address.toString() === collectionAddress ||
         nft.name.includes("GOLD") ||
         nft.symbol === "GOLD"
       )
@@ -0,0 +1,54 @@
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+
+// Token prices and daily price history from the app's price routes, in USD
+
+export async function fetchTokenPrice(network: NetworkType, mint: string): Promise<number> {
+  const response = await fetch(`/api/token-price?mint=${mint}&network=${network}`)
+  if (!response.ok) {
+    throw new Error(`No price for ${mint}`)
+  }
+
+  const { price } = await response.json()
+  return price
+}
+
+// Price of one input token in output tokens
+export async function fetchPairPrice(network: NetworkType, inputMint: string, outputMint: string): Promise<number> {
+  const [inputPrice, outputPrice] = await Promise.all([
+    fetchTokenPrice(network, inputMint),
+    fetchTokenPrice(network, outputMint),
+  ])
+  return inputPrice / outputPrice
+}
+
+export interface PricePoint {
+  timestamp: number
+  price: number
+}
+
+// One price a day over the last days, oldest first
+export async function fetchPriceHistory(network: NetworkType, mint: string, days: number): Promise<PricePoint[]> {
+  const response = await fetch(`/api/token-price-history?mint=${mint}&days=${days}&network=${network}`)
+  if (!response.ok) {
+    throw new Error(`No price history for ${mint}`)
+  }
+
+  return response.json()
+}
+
+// Daily prices of one input token in output tokens
+export async function fetchPairPriceHistory(
+  network: NetworkType,
+  inputMint: string,
+  outputMint: string,
+  days: number,
+): Promise<number[]> {
+  const [inputHistory, outputHistory] = await Promise.all([
+    fetchPriceHistory(network, inputMint, days),
+    fetchPriceHistory(network, outputMint, days),
+  ])
+  const length = Math.min(inputHistory.length, outputHistory.length)
+  return inputHistory
+    .slice(-length)
+    .map((point, index) => point.price / outputHistory[outputHistory.length - length + index].price)
+}
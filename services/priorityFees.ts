@@ -0,0 +1,133 @@
+import {
+  ComputeBudgetProgram,
+  type Connection,
+  type PublicKey,
+  type Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js"
+
+// Priority fee estimation and compute budget management
+
+export type PriorityFeePreset = "slow" | "standard" | "fast" | "custom"
+
+export interface PriorityFeeSettings {
+  preset: PriorityFeePreset
+  customMicroLamports: number // compute unit price used by the custom preset
+}
+
+export const PRIORITY_FEE_PRESETS: { value: PriorityFeePreset; label: string }[] = [
+  { value: "slow", label: "Slow (Cheaper)" },
+  { value: "standard", label: "Standard" },
+  { value: "fast", label: "Fast" },
+  { value: "custom", label: "Custom" },
+]
+
+export const DEFAULT_PRIORITY_FEE_SETTINGS: PriorityFeeSettings = { preset: "standard", customMicroLamports: 1000 }
+
+// Percentile of recent prioritization fees each preset pays
+const PRESET_PERCENTILES: Record<Exclude<PriorityFeePreset, "custom">, number> = {
+  slow: 25,
+  standard: 50,
+  fast: 75,
+}
+
+// Bounds on the estimated compute unit price, in micro-lamports
+const MIN_MICRO_LAMPORTS = 1
+const MAX_MICRO_LAMPORTS = 1000000
+
+// Headroom added on top of the simulated compute units
+const COMPUTE_UNIT_MARGIN = 1.1
+const MAX_COMPUTE_UNITS = 1400000
+
+export function isPriorityFeePreset(value: unknown): value is PriorityFeePreset {
+  return PRIORITY_FEE_PRESETS.some((preset) => preset.value === value)
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]
+}
+
+// Compute unit price for a preset, from the fees recently paid to write the given accounts
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  settings: PriorityFeeSettings,
+): Promise<number> {
+  if (settings.preset === "custom") {
+    return Math.max(0, Math.min(MAX_MICRO_LAMPORTS, Math.round(settings.customMicroLamports)))
+  }
+
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts })
+    const fees = recent.map((fee) => fee.prioritizationFee).filter((fee) => fee > 0)
+    const estimate = percentile(fees, PRESET_PERCENTILES[settings.preset])
+    return Math.max(MIN_MICRO_LAMPORTS, Math.min(MAX_MICRO_LAMPORTS, Math.ceil(estimate)))
+  } catch (error) {
+    console.error("Error estimating priority fee:", error)
+    return MIN_MICRO_LAMPORTS
+  }
+}
+
+// Writable accounts of a transaction, which determine the fee market it competes in
+export function getWritableAccounts(transaction: Transaction): PublicKey[] {
+  const seen = new Set<string>()
+  const accounts: PublicKey[] = []
+  const add = (key: PublicKey) => {
+    if (seen.has(key.toBase58())) return
+    seen.add(key.toBase58())
+    accounts.push(key)
+  }
+
+  if (transaction.feePayer) add(transaction.feePayer)
+  transaction.instructions.forEach((instruction) => {
+    instruction.keys.filter((key) => key.isWritable).forEach((key) => add(key.pubkey))
+  })
+  return accounts
+}
+
+// Replace any compute budget instructions with a unit limit and price, ahead of the other instructions
+export function setComputeBudget(transaction: Transaction, units: number | undefined, microLamports: number) {
+  const instructions = transaction.instructions.filter(
+    (instruction) => !instruction.programId.equals(ComputeBudgetProgram.programId),
+  )
+  const budget = [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })]
+  if (units !== undefined) budget.unshift(ComputeBudgetProgram.setComputeUnitLimit({ units }))
+  transaction.instructions = [...budget, ...instructions]
+}
+
+// Simulate with the maximum limit to size the compute budget. Undefined when simulation fails,
+// leaving the runtime default so the preview reports the actual failure.
+async function estimateComputeUnits(connection: Connection, transaction: Transaction): Promise<number | undefined> {
+  try {
+    const simulation = await connection.simulateTransaction(new VersionedTransaction(transaction.compileMessage()), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+    })
+    const { err, unitsConsumed } = simulation.value
+    if (err || !unitsConsumed) return undefined
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN))
+  } catch (error) {
+    console.error("Error estimating compute units:", error)
+    return undefined
+  }
+}
+
+// Add compute budget instructions for the preferred priority fee to a transaction the app built.
+// Needs the fee payer and recent blockhash set. Returns the compute unit price.
+export async function applyPriorityFee(
+  connection: Connection,
+  transaction: Transaction,
+  settings: PriorityFeeSettings,
+): Promise<number> {
+  const microLamports = await estimatePriorityFee(connection, getWritableAccounts(transaction), settings)
+
+  // Size the limit with the price already in place, so the simulated instructions match what's sent
+  setComputeBudget(transaction, MAX_COMPUTE_UNITS, microLamports)
+  const units = await estimateComputeUnits(connection, transaction)
+  setComputeBudget(transaction, units, microLamports)
+
+  return microLamports
+}
@@ -0,0 +1,59 @@
+// Fixed-window rate limiting for API routes, keyed by client IP. Counts live in the server's memory,
+// so each instance limits on its own.
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfter: number // seconds until the window resets
+}
+
+// Thrown by callers that check a limit deep in a request, for the route to answer 429
+export class RateLimitError extends Error {
+  constructor(readonly retryAfter: number) {
+    super("Rate limit exceeded")
+    this.name = "RateLimitError"
+  }
+}
+
+export class RateLimiter {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>()
+  private lastPrune = 0
+
+  constructor(
+    readonly limit: number,
+    readonly windowMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  check(key: string): RateLimitResult {
+    const now = this.now()
+    let window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      this.prune(now)
+      window = { count: 0, resetAt: now + this.windowMs }
+      this.windows.set(key, window)
+    }
+
+    window.count += 1
+    return {
+      allowed: window.count <= this.limit,
+      remaining: Math.max(0, this.limit - window.count),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    }
+  }
+
+  // Drop expired windows, at most once per window, so one-off clients don't accumulate
+  private prune(now: number) {
+    if (now - this.lastPrune < this.windowMs) return
+    this.lastPrune = now
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key)
+    }
+  }
+}
+
+// Client IP from the proxy headers, falling back to a shared key when there are none
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+  return forwarded || headers.get("x-real-ip") || "unknown"
+}
@@ -0,0 +1,123 @@
+import { type Connection, PublicKey, SystemProgram } from "@solana/web3.js"
+import { isValidAddress } from "@/constants/addresses"
+import { isTokenProgram } from "@/services/tokenPrograms"
+
+// Recipient checks for transfers: address and name resolution, plus warnings about accounts that are
+// probably not what the user meant to send to
+
+export type RecipientWarning =
+  | "offCurve" // a program-derived address, only its program can move funds out
+  | "program" // an executable program
+  | "tokenAccount" // a token account rather than the wallet owning it
+  | "programOwned" // a data account owned by some program
+  | "self" // the sender's own wallet
+
+export interface ResolvedRecipient {
+  address: PublicKey
+  name: string | null // the name the address was resolved from
+  warnings: RecipientWarning[]
+}
+
+export type RecipientErrorReason = "invalid" | "unresolved"
+
+// Thrown when the recipient isn't an address and no resolver knows the name
+export class RecipientError extends Error {
+  constructor(
+    readonly reason: RecipientErrorReason,
+    message: string,
+  ) {
+    super(message)
+    this.name = "RecipientError"
+  }
+}
+
+// Resolves human-readable names, such as .sol domains, to wallet addresses
+export interface NameResolver {
+  supports(name: string): boolean
+  resolve(connection: Connection, name: string): Promise<PublicKey | null>
+}
+
+// Solana Name Service: .sol domains are name accounts under the .sol TLD, and the owner field
+// of a domain's account is the wallet it resolves to
+const SNS_PROGRAM_ID = new PublicKey("namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX")
+const SNS_SOL_TLD = new PublicKey("58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx")
+const SNS_HASH_PREFIX = "SPL Name Service"
+const SNS_OWNER_OFFSET = 32 // after the parent name key
+
+async function hashSnsName(name: string): Promise<Buffer> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(SNS_HASH_PREFIX + name))
+  return Buffer.from(digest)
+}
+
+async function getSnsNameAccount(name: string, parent: PublicKey): Promise<PublicKey> {
+  const [address] = PublicKey.findProgramAddressSync(
+    [await hashSnsName(name), Buffer.alloc(32), parent.toBuffer()],
+    SNS_PROGRAM_ID,
+  )
+  return address
+}
+
+export const snsResolver: NameResolver = {
+  supports: (name) => /^([a-z0-9-]+\.)?[a-z0-9-]+\.sol$/.test(name.toLowerCase()),
+
+  async resolve(connection, name) {
+    // "sub.domain.sol" is a subdomain, hashed with a leading null byte under its domain
+    const labels = name.toLowerCase().replace(/\.sol$/, "").split(".")
+    const domain = labels[labels.length - 1]
+    let account = await getSnsNameAccount(domain, SNS_SOL_TLD)
+    if (labels.length === 2) account = await getSnsNameAccount(`\0${labels[0]}`, account)
+
+    const info = await connection.getAccountInfo(account)
+    if (!info || info.data.length < SNS_OWNER_OFFSET + 32) return null
+    return new PublicKey(info.data.subarray(SNS_OWNER_OFFSET, SNS_OWNER_OFFSET + 32))
+  },
+}
+
+export const NAME_RESOLVERS: NameResolver[] = [snsResolver]
+
+// Warnings for an address, from its curve point and the account stored at it
+export async function getRecipientWarnings(
+  connection: Connection,
+  address: PublicKey,
+  sender: PublicKey | null,
+): Promise<RecipientWarning[]> {
+  const warnings: RecipientWarning[] = []
+  if (sender?.equals(address)) warnings.push("self")
+  if (!PublicKey.isOnCurve(address.toBytes())) warnings.push("offCurve")
+
+  const account = await connection.getAccountInfo(address)
+  if (account?.executable) {
+    warnings.push("program")
+  } else if (account && isTokenProgram(account.owner)) {
+    warnings.push("tokenAccount")
+  } else if (account && !account.owner.equals(SystemProgram.programId)) {
+    warnings.push("programOwned")
+  }
+  return warnings
+}
+
+// Turn what the user typed, an address or a name, into a recipient
+export async function resolveRecipient(
+  connection: Connection,
+  input: string,
+  sender: PublicKey | null,
+  resolvers: NameResolver[] = NAME_RESOLVERS,
+): Promise<ResolvedRecipient> {
+  const value = input.trim()
+
+  if (isValidAddress(value)) {
+    const address = new PublicKey(value)
+    return { address, name: null, warnings: await getRecipientWarnings(connection, address, sender) }
+  }
+
+  const resolver = resolvers.find((candidate) => candidate.supports(value))
+  if (!resolver) {
+    throw new RecipientError("invalid", "Enter a wallet address or a .sol name")
+  }
+
+  const address = await resolver.resolve(connection, value)
+  if (!address) {
+    throw new RecipientError("unresolved", `${value} isn't registered`)
+  }
+  return { address, name: value, warnings: await getRecipientWarnings(connection, address, sender) }
+}
@@ -0,0 +1,234 @@
+import { Connection, type FetchFn } from "@solana/web3.js"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { LOCALNET_RPC_URL } from "@/constants/addresses"
+
+// RPC endpoint management: built-in and custom endpoints per network, health checks and failover
+//
+// Endpoints are ranked by their last health check. The connection sends each request to the best
+// ranked endpoint and moves down the list when one fails, so a single bad endpoint doesn't stall the app.
+
+export interface RpcEndpoint {
+  url: string
+  label: string
+  custom: boolean
+}
+
+export interface RpcHealth {
+  url: string
+  healthy: boolean
+  latencyMs: number | null // round trip of getSlot
+  slot: number | null
+  slotLag: number | null // slots behind the most advanced endpoint of the same network
+  version: string | null
+  error: string | null
+  checkedAt: number
+}
+
+export const RPC_ENDPOINTS_STORAGE_KEY = "goldium_rpc_endpoints"
+
+export const DEFAULT_RPC_ENDPOINTS: Record<NetworkType, RpcEndpoint[]> = {
+  "mainnet-beta": [{ url: "https://api.mainnet-beta.solana.com", label: "Solana Public RPC", custom: false }],
+  testnet: [{ url: "https://api.testnet.solana.com", label: "Solana Public RPC", custom: false }],
+  devnet: [{ url: "https://api.devnet.solana.com", label: "Solana Public RPC", custom: false }],
+  localnet: [{ url: LOCALNET_RPC_URL, label: "Local validator", custom: false }],
+}
+
+export const HEALTH_CHECK_INTERVAL_MS = 30000
+const HEALTH_CHECK_TIMEOUT_MS = 5000
+
+// An endpoint further behind than this is treated as unhealthy (about 40 seconds of slots)
+export const MAX_SLOT_LAG = 100
+
+// Thrown when a custom endpoint can't be added
+export class RpcEndpointError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RpcEndpointError"
+  }
+}
+
+function readCustomEndpoints(): Partial<Record<NetworkType, RpcEndpoint[]>> {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = localStorage.getItem(RPC_ENDPOINTS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error("Error reading custom RPC endpoints:", error)
+    return {}
+  }
+}
+
+function writeCustomEndpoints(endpoints: Partial<Record<NetworkType, RpcEndpoint[]>>) {
+  try {
+    localStorage.setItem(RPC_ENDPOINTS_STORAGE_KEY, JSON.stringify(endpoints))
+  } catch (error) {
+    console.error("Error saving custom RPC endpoints:", error)
+  }
+}
+
+export function getCustomEndpoints(network: NetworkType): RpcEndpoint[] {
+  return readCustomEndpoints()[network] ?? []
+}
+
+// Built-in endpoints followed by the user's own
+export function getEndpoints(network: NetworkType): RpcEndpoint[] {
+  return [...DEFAULT_RPC_ENDPOINTS[network], ...getCustomEndpoints(network)]
+}
+
+export function normalizeEndpointUrl(url: string): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    throw new RpcEndpointError("Enter a valid URL, e.g. https://my-rpc.example.com")
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new RpcEndpointError("RPC endpoints must use http or https")
+  }
+  return parsed.toString().replace(/\/$/, "")
+}
+
+export function addCustomEndpoint(network: NetworkType, url: string, label?: string): RpcEndpoint {
+  const normalized = normalizeEndpointUrl(url)
+  if (getEndpoints(network).some((endpoint) => endpoint.url === normalized)) {
+    throw new RpcEndpointError("This endpoint has already been added")
+  }
+
+  const endpoint: RpcEndpoint = { url: normalized, label: label?.trim() || new URL(normalized).host, custom: true }
+  const stored = readCustomEndpoints()
+  writeCustomEndpoints({ ...stored, [network]: [...(stored[network] ?? []), endpoint] })
+  return endpoint
+}
+
+export function removeCustomEndpoint(network: NetworkType, url: string) {
+  const stored = readCustomEndpoints()
+  writeCustomEndpoints({ ...stored, [network]: (stored[network] ?? []).filter((endpoint) => endpoint.url !== url) })
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (error) => {
+        clearTimeout(timer)
+        reject(error)
+      },
+    )
+  })
+}
+
+// Probe one endpoint. Slot lag is filled in by checkEndpoints, which can compare endpoints.
+export async function checkEndpoint(url: string): Promise<RpcHealth> {
+  const connection = new Connection(url, { commitment: "processed", disableRetryOnRateLimit: true })
+  const start = Date.now()
+
+  try {
+    const slot = await withTimeout(connection.getSlot("processed"), HEALTH_CHECK_TIMEOUT_MS)
+    const latencyMs = Date.now() - start
+    const version = await withTimeout(connection.getVersion(), HEALTH_CHECK_TIMEOUT_MS)
+
+    return {
+      url,
+      healthy: true,
+      latencyMs,
+      slot,
+      slotLag: 0,
+      version: version["solana-core"],
+      error: null,
+      checkedAt: Date.now(),
+    }
+  } catch (error: any) {
+    return {
+      url,
+      healthy: false,
+      latencyMs: null,
+      slot: null,
+      slotLag: null,
+      version: null,
+      error: error?.message || "Endpoint unreachable",
+      checkedAt: Date.now(),
+    }
+  }
+}
+
+// Probe every endpoint of a network and mark the ones lagging behind the others
+export async function checkEndpoints(endpoints: RpcEndpoint[]): Promise<Record<string, RpcHealth>> {
+  const results = await Promise.all(endpoints.map((endpoint) => checkEndpoint(endpoint.url)))
+  const highestSlot = Math.max(0, ...results.map((result) => result.slot ?? 0))
+
+  const health: Record<string, RpcHealth> = {}
+  results.forEach((result) => {
+    if (result.slot === null) {
+      health[result.url] = result
+      return
+    }
+    const slotLag = highestSlot - result.slot
+    health[result.url] = {
+      ...result,
+      slotLag,
+      healthy: slotLag <= MAX_SLOT_LAG,
+      error: slotLag > MAX_SLOT_LAG ? `${slotLag} slots behind` : null,
+    }
+  })
+  return health
+}
+
+// Endpoint URLs from most to least preferred: healthy by latency, then unchecked, then unhealthy
+export function rankEndpoints(endpoints: RpcEndpoint[], health: Record<string, RpcHealth>): string[] {
+  const score = (url: string) => {
+    const result = health[url]
+    if (!result) return 1
+    return result.healthy ? 0 : 2
+  }
+
+  return endpoints
+    .map((endpoint, index) => ({ url: endpoint.url, index }))
+    .sort((a, b) => {
+      const byScore = score(a.url) - score(b.url)
+      if (byScore !== 0) return byScore
+      const byLatency = (health[a.url]?.latencyMs ?? Infinity) - (health[b.url]?.latencyMs ?? Infinity)
+      return byLatency !== 0 && !Number.isNaN(byLatency) ? byLatency : a.index - b.index
+    })
+    .map(({ url }) => url)
+}
+
+// Responses worth retrying on another endpoint
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+// A fetch for Connection that tries each candidate endpoint in turn. `onFailover` is told which
+// endpoint answered after the preferred one failed, so the caller can switch to it.
+export function createFailoverFetch(
+  getCandidates: () => string[],
+  onFailover: (url: string, error: string) => void,
+): FetchFn {
+  return (async (input: any, init?: any) => {
+    const candidates = getCandidates()
+    const urls = candidates.length > 0 ? candidates : [String(input)]
+    let lastError = ""
+    let lastResponse: Response | undefined
+
+    for (let i = 0; i < urls.length; i++) {
+      try {
+        const response = await fetch(urls[i], init)
+        if (!isRetryableStatus(response.status) || i === urls.length - 1) {
+          if (i > 0 && !isRetryableStatus(response.status)) onFailover(urls[i], lastError)
+          return response
+        }
+        lastResponse = response
+        lastError = `${urls[i]} responded with ${response.status} ${response.statusText}`
+      } catch (error: any) {
+        lastError = `${urls[i]}: ${error?.message || "request failed"}`
+        if (i === urls.length - 1) throw error
+      }
+      console.warn(`RPC request failed, trying the next endpoint. ${lastError}`)
+    }
+
+    return lastResponse as Response
+  }) as FetchFn
+}
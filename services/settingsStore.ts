@@ -0,0 +1,252 @@
+import {
+  DEFAULT_PRIORITY_FEE_SETTINGS,
+  type PriorityFeeSettings,
+  isPriorityFeePreset,
+} from "@/services/priorityFees"
+import {
+  DEFAULT_SLIPPAGE_BOUNDS,
+  type SlippageBounds,
+  isValidSlippageBounds,
+  isValidSlippageBps,
+} from "@/services/slippage"
+
+// User settings, persisted per wallet
+//
+// Settings are stored as a versioned document. Older documents are upgraded through
+// SETTINGS_MIGRATIONS on load or import, then validated field by field against the defaults.
+
+export type ThemePreference = "dark" | "light"
+export type LanguagePreference = "en" | "es" | "fr" | "zh" | "ja"
+
+export interface NotificationSettings {
+  transactions: boolean
+  priceAlerts: boolean
+  newPools: boolean
+  marketing: boolean
+}
+
+export interface AppSettings {
+  version: number
+  theme: ThemePreference
+  language: LanguagePreference
+  slippageBps: number // default slippage for swaps
+  slippageBounds: SlippageBounds // range auto slippage stays within
+  priorityFee: PriorityFeeSettings
+  notifications: NotificationSettings
+}
+
+export type SettingsUpdate = Partial<Omit<AppSettings, "version">>
+
+export const SETTINGS_VERSION = 1
+export const SETTINGS_STORAGE_KEY = "goldium_settings"
+
+export const THEMES: ThemePreference[] = ["dark", "light"]
+export const LANGUAGES: { value: LanguagePreference; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+  { value: "fr", label: "Français" },
+  { value: "zh", label: "中文" },
+  { value: "ja", label: "日本語" },
+]
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  version: SETTINGS_VERSION,
+  theme: "dark",
+  language: "en",
+  slippageBps: 100,
+  slippageBounds: DEFAULT_SLIPPAGE_BOUNDS,
+  priorityFee: DEFAULT_PRIORITY_FEE_SETTINGS,
+  notifications: {
+    transactions: true,
+    priceAlerts: true,
+    newPools: false,
+    marketing: false,
+  },
+}
+
+// Thrown when an imported settings file can't be read
+export class SettingsImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SettingsImportError"
+  }
+}
+
+// Upgrades from each version to the next
+const SETTINGS_MIGRATIONS: Record<number, (settings: any) => any> = {
+  // Version 0: unversioned preferences kept under their own keys, see readLegacySettings
+  0: (settings) => ({ ...settings, version: 1 }),
+}
+
+function readJson(key: string): any {
+  try {
+    const item = localStorage.getItem(key)
+    return item ? JSON.parse(item) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Preferences saved before the settings store existed
+function readLegacySettings(): any {
+  return {
+    version: 0,
+    theme: readJson("goldium-theme"),
+    language: readJson("goldium-language"),
+    priorityFee: readJson("goldium_priority_fee"),
+  }
+}
+
+function migrate(settings: any): any {
+  let migrated = settings
+  let version = typeof migrated.version === "number" ? migrated.version : 0
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SettingsImportError(`Settings version ${version} is not valid`)
+  }
+  if (version > SETTINGS_VERSION) {
+    throw new SettingsImportError(`Settings version ${version} is newer than this app supports`)
+  }
+
+  while (version < SETTINGS_VERSION) {
+    migrated = SETTINGS_MIGRATIONS[version](migrated)
+    version = migrated.version
+  }
+  return migrated
+}
+
+function validFlag(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback
+}
+
+// Keep valid fields, falling back to the defaults for anything missing or malformed
+function validate(settings: any): AppSettings {
+  const priorityFee = settings.priorityFee ?? {}
+  const notifications = settings.notifications ?? {}
+  const slippageBps = Math.round(Number(settings.slippageBps))
+  const slippageBounds = settings.slippageBounds ?? {}
+  const customMicroLamports = Number(priorityFee.customMicroLamports)
+
+  return {
+    version: SETTINGS_VERSION,
+    theme: THEMES.includes(settings.theme) ? settings.theme : DEFAULT_SETTINGS.theme,
+    language: LANGUAGES.some((language) => language.value === settings.language)
+      ? settings.language
+      : DEFAULT_SETTINGS.language,
+    slippageBps: isValidSlippageBps(slippageBps) ? slippageBps : DEFAULT_SETTINGS.slippageBps,
+    slippageBounds: isValidSlippageBounds(slippageBounds)
+      ? { minBps: slippageBounds.minBps, maxBps: slippageBounds.maxBps }
+      : DEFAULT_SETTINGS.slippageBounds,
+    priorityFee: {
+      preset: isPriorityFeePreset(priorityFee.preset) ? priorityFee.preset : DEFAULT_PRIORITY_FEE_SETTINGS.preset,
+      customMicroLamports:
+        Number.isFinite(customMicroLamports) && customMicroLamports >= 0
+          ? customMicroLamports
+          : DEFAULT_PRIORITY_FEE_SETTINGS.customMicroLamports,
+    },
+    notifications: {
+      transactions: validFlag(notifications.transactions, DEFAULT_SETTINGS.notifications.transactions),
+      priceAlerts: validFlag(notifications.priceAlerts, DEFAULT_SETTINGS.notifications.priceAlerts),
+      newPools: validFlag(notifications.newPools, DEFAULT_SETTINGS.notifications.newPools),
+      marketing: validFlag(notifications.marketing, DEFAULT_SETTINGS.notifications.marketing),
+    },
+  }
+}
+
+function storageKey(owner: string | null): string {
+  return owner ? `${SETTINGS_STORAGE_KEY}:${owner}` : SETTINGS_STORAGE_KEY
+}
+
+type SettingsListener = (settings: AppSettings) => void
+
+let currentOwner: string | null = null
+let currentSettings: AppSettings = DEFAULT_SETTINGS
+const listeners = new Set<SettingsListener>()
+
+function setCurrentSettings(settings: AppSettings) {
+  currentSettings = settings
+  listeners.forEach((listener) => {
+    try {
+      listener(settings)
+    } catch (error) {
+      console.error("Error in settings listener:", error)
+    }
+  })
+}
+
+function persist(settings: AppSettings) {
+  if (typeof window === "undefined") return
+  try {
+    localStorage.setItem(storageKey(currentOwner), JSON.stringify(settings))
+  } catch (error) {
+    console.error("Error saving settings:", error)
+  }
+}
+
+// Current settings, available outside React, e.g. to the transaction engine
+export function getSettings(): AppSettings {
+  return currentSettings
+}
+
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Switch to a wallet's settings, or the settings used without a wallet when owner is null.
+// A wallet without saved settings starts from those.
+export function loadSettings(owner: string | null): AppSettings {
+  currentOwner = owner
+  if (typeof window === "undefined") return currentSettings
+
+  const stored = readJson(storageKey(owner)) ?? (owner ? readJson(storageKey(null)) : undefined)
+
+  let settings: AppSettings
+  try {
+    settings = validate(migrate(stored ?? readLegacySettings()))
+  } catch (error) {
+    console.error("Error loading settings:", error)
+    settings = DEFAULT_SETTINGS
+  }
+
+  if (stored?.version !== SETTINGS_VERSION) persist(settings)
+  setCurrentSettings(settings)
+  return settings
+}
+
+export function updateSettings(updates: SettingsUpdate): AppSettings {
+  const settings = validate({ ...currentSettings, ...updates })
+  persist(settings)
+  setCurrentSettings(settings)
+  return settings
+}
+
+export function resetSettings(): AppSettings {
+  persist(DEFAULT_SETTINGS)
+  setCurrentSettings(DEFAULT_SETTINGS)
+  return DEFAULT_SETTINGS
+}
+
+export function exportSettings(): string {
+  return JSON.stringify(currentSettings, null, 2)
+}
+
+// Replace the current settings with an exported document, migrating it if it's older
+export function importSettings(json: string): AppSettings {
+  let parsed: any
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new SettingsImportError("Settings file is not valid JSON")
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new SettingsImportError("Settings file doesn't contain settings")
+  }
+
+  const settings = validate(migrate(parsed))
+  persist(settings)
+  setCurrentSettings(settings)
+  return settings
+}
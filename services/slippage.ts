@@ -0,0 +1,118 @@
+// Slippage tolerance for swaps: validation, warnings and the auto-slippage recommendation.
+//
+// Auto slippage covers how far the price may move between the quote and the swap landing. It adds up a
+// base allowance and three market signals: the quote's price impact, recent volatility of the pair and
+// the trade's size against pool liquidity. The result is rounded up and clamped to the user's bounds.
+
+export interface SlippageBounds {
+  minBps: number
+  maxBps: number
+}
+
+export interface SlippageConditions {
+  priceImpactPct: number // of the quote, as a fraction
+  volatility: number | null // standard deviation of daily returns, as a fraction; null when unknown
+  liquidityShare: number | null // trade value over pool liquidity; null when unknown
+}
+
+export interface SlippageRecommendation {
+  bps: number // within the bounds
+  unclampedBps: number
+  impactBps: number
+  volatilityBps: number
+  liquidityBps: number
+}
+
+export type SlippageWarning = "high" | "frontRunning"
+
+export const MAX_SLIPPAGE_BPS = 5000
+export const HIGH_SLIPPAGE_BPS = 300
+export const FRONT_RUNNING_SLIPPAGE_BPS = 1000 // enough room for a sandwich to be worth a bot's while
+export const DEFAULT_SLIPPAGE_BOUNDS: SlippageBounds = { minBps: 10, maxBps: 300 }
+export const SLIPPAGE_HISTORY_DAYS = 14
+
+const BASE_SLIPPAGE_BPS = 20 // fees and rounding between quote and swap
+const IMPACT_FACTOR = 0.5 // a pool the trade moves this much moves as much again for a trade landing first
+const EXECUTION_WINDOW_DAYS = 2 / (24 * 60) // from quote to confirmation, generously
+const VOLATILITY_SIGMAS = 2
+const LIQUIDITY_FACTOR = 0.5
+const UNKNOWN_VOLATILITY_BPS = 50
+const UNKNOWN_LIQUIDITY_BPS = 25
+const ROUNDING_BPS = 5
+
+// Thrown when a slippage value or bounds are out of range
+export class SlippageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SlippageError"
+  }
+}
+
+export function isValidSlippageBps(bps: number): boolean {
+  return Number.isInteger(bps) && bps >= 0 && bps <= MAX_SLIPPAGE_BPS
+}
+
+export function assertValidSlippageBps(bps: number) {
+  if (!isValidSlippageBps(bps)) {
+    throw new SlippageError(`Slippage must be between 0% and ${MAX_SLIPPAGE_BPS / 100}%`)
+  }
+}
+
+export function isValidSlippageBounds(bounds: Partial<SlippageBounds>): bounds is SlippageBounds {
+  const { minBps, maxBps } = bounds
+  return (
+    typeof minBps === "number" &&
+    typeof maxBps === "number" &&
+    isValidSlippageBps(minBps) &&
+    isValidSlippageBps(maxBps) &&
+    minBps <= maxBps
+  )
+}
+
+// Slippage worth warning about: a high tolerance can cost noticeably more than quoted, and a very high one
+// invites front-running
+export function getSlippageWarning(bps: number): SlippageWarning | null {
+  if (bps >= FRONT_RUNNING_SLIPPAGE_BPS) return "frontRunning"
+  if (bps >= HIGH_SLIPPAGE_BPS) return "high"
+  return null
+}
+
+// Standard deviation of day-to-day returns in a price series, oldest first
+export function dailyVolatility(prices: number[]): number | null {
+  const returns: number[] = []
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i - 1] > 0 && prices[i] > 0) returns.push(prices[i] / prices[i - 1] - 1)
+  }
+  if (returns.length < 2) return null
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1)
+  return Math.sqrt(variance)
+}
+
+export function recommendSlippage(
+  conditions: SlippageConditions,
+  bounds: SlippageBounds = DEFAULT_SLIPPAGE_BOUNDS,
+): SlippageRecommendation {
+  if (!isValidSlippageBounds(bounds)) {
+    throw new SlippageError("Minimum slippage must not be above the maximum")
+  }
+
+  const { priceImpactPct, volatility, liquidityShare } = conditions
+  const impactBps = Math.max(0, priceImpactPct) * 10000 * IMPACT_FACTOR
+  const volatilityBps =
+    volatility === null
+      ? UNKNOWN_VOLATILITY_BPS
+      : volatility * Math.sqrt(EXECUTION_WINDOW_DAYS) * VOLATILITY_SIGMAS * 10000
+  const liquidityBps = liquidityShare === null ? UNKNOWN_LIQUIDITY_BPS : liquidityShare * 10000 * LIQUIDITY_FACTOR
+
+  const total = BASE_SLIPPAGE_BPS + impactBps + volatilityBps + liquidityBps
+  const unclampedBps = Number.isFinite(total) ? Math.ceil(total / ROUNDING_BPS) * ROUNDING_BPS : bounds.maxBps
+  return {
+    bps: Math.min(bounds.maxBps, Math.max(bounds.minBps, unclampedBps)),
+    unclampedBps,
+    impactBps,
+    volatilityBps,
+    liquidityBps,
+  }
+}
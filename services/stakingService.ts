@@ -0,0 +1,268 @@
+import { type Connection, PublicKey, Transaction } from "@solana/web3.js"
+import { createAssociatedTokenAccountInstruction } from "@solana/spl-token"
+import type { WalletContextState } from "@solana/wallet-adapter-react"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { GOLD_TOKEN, getGoldTokenForNetwork } from "@/constants/tokens"
+import { getAddress } from "@/constants/addresses"
+import {
+  type StakingPoolAccount,
+  type UserStakeAccount,
+  decodeStakingPoolAccount,
+  decodeUserStakeAccount,
+  toRawAmount,
+  toUiAmount,
+} from "@/utils/staking-layout"
+import {
+  type UserStakeInstructionAccounts,
+  createClaimRewardsInstruction,
+  createStakeInstruction,
+  createUnstakeInstruction,
+} from "@/utils/staking-instructions"
+import { getMintInfo, getTokenAccountAddress } from "@/services/tokenPrograms"
+import { sendTransaction } from "@/services/transactionEngine"
+
+// APY used until the pool account has been read
+export const DEFAULT_STAKING_APY: Record<NetworkType, number> = {
+  devnet: 20,
+  testnet: 15,
+  "mainnet-beta": 12,
+  localnet: 20,
+}
+
+// Minimum stake duration used until the pool account has been read
+export const MIN_STAKE_DURATION = 604800 // 7 days in seconds
+
+const STAKING_POOL_SEED = "staking_pool"
+const USER_STAKE_SEED = "user_stake"
+const SECONDS_PER_DAY = 86400
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY
+
+// Staking pool info
+export interface StakingPoolInfo {
+  address: string
+  totalStaked: number
+  apy: number
+  lockupPeriod: number // in seconds, 0 for flexible
+  rewardTokenMint: string
+  rewardTokenSymbol: string
+}
+
+// User staking info
+export interface UserStakingInfo {
+  stakedAmount: number
+  rewards: number // accrued on-chain, excluding rewards since the last claim
+  stakingTime: number // timestamp
+  unlockTime: number // timestamp, 0 for flexible
+  lastClaimTime: number // timestamp
+  isLocked: boolean
+}
+
+export const EMPTY_USER_STAKING_INFO: UserStakingInfo = {
+  stakedAmount: 0,
+  rewards: 0,
+  stakingTime: 0,
+  unlockTime: 0,
+  lastClaimTime: 0,
+  isLocked: false,
+}
+
+// Convert a decoded pool account to pool info
+export function toStakingPoolInfo(address: PublicKey, pool: StakingPoolAccount, decimals: number): StakingPoolInfo {
+  return {
+    address: address.toBase58(),
+    totalStaked: toUiAmount(pool.totalStaked, decimals),
+    apy: pool.rewardRateBps / 100,
+    lockupPeriod: pool.lockupPeriod,
+    rewardTokenMint: pool.rewardMint.toBase58(),
+    rewardTokenSymbol: GOLD_TOKEN.symbol,
+  }
+}
+
+// Convert a decoded user stake account to user staking info
+export function toUserStakingInfo(
+  userStake: UserStakeAccount,
+  decimals: number,
+  now: number = Date.now(),
+): UserStakingInfo {
+  return {
+    stakedAmount: toUiAmount(userStake.amount, decimals),
+    rewards: toUiAmount(userStake.rewardsAccrued, decimals),
+    stakingTime: userStake.stakeTimestamp * 1000,
+    unlockTime: userStake.lockupEnd * 1000,
+    lastClaimTime: userStake.lastClaimTime * 1000,
+    isLocked: userStake.lockupEnd * 1000 > now,
+  }
+}
+
+// Rewards accrued on-chain plus rewards earned since the last claim
+export function calculatePendingRewards(info: UserStakingInfo, apy: number, now: number = Date.now()): number {
+  if (info.stakedAmount <= 0) return info.rewards
+
+  const since = info.lastClaimTime || info.stakingTime
+  if (since <= 0) return info.rewards
+
+  const elapsedSeconds = Math.max(0, (now - since) / 1000)
+  return info.rewards + (info.stakedAmount * (apy / 100) * elapsedSeconds) / SECONDS_PER_YEAR
+}
+
+// Client for the GOLD staking program on a single network
+export class StakingClient {
+  readonly programId: PublicKey
+  readonly poolAddress: PublicKey
+
+  constructor(
+    readonly connection: Connection,
+    readonly network: NetworkType,
+  ) {
+    this.programId = getAddress(network, "stakingProgram")
+    this.poolAddress = getAddress(network, "stakingPool")
+  }
+
+  get stakeToken() {
+    return getGoldTokenForNetwork(this.network)
+  }
+
+  // Derive the pool PDA from the program ID
+  findStakingPoolPDA(): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([Buffer.from(STAKING_POOL_SEED)], this.programId)
+  }
+
+  // Derive a user's stake account PDA
+  findUserStakePDA(owner: PublicKey): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([Buffer.from(USER_STAKE_SEED), owner.toBuffer()], this.programId)
+  }
+
+  // Resolve the accounts used by stake, unstake and claim for a wallet
+  async getUserStakeInstructionAccounts(owner: PublicKey): Promise<UserStakeInstructionAccounts> {
+    const stakeMint = await getMintInfo(this.connection, this.stakeToken.mint)
+    const [userStake] = this.findUserStakePDA(owner)
+
+    return {
+      owner,
+      userStake,
+      pool: this.poolAddress,
+      userTokenAccount: getTokenAccountAddress(stakeMint, owner),
+      vault: getTokenAccountAddress(stakeMint, this.poolAddress, true), // allowOwnerOffCurve
+      stakeMint: stakeMint.address,
+      tokenProgram: stakeMint.programId,
+    }
+  }
+
+  // Get staking pool info, or null if the pool hasn't been initialized on this network
+  async getPoolInfo(): Promise<StakingPoolInfo | null> {
+    try {
+      const accountInfo = await this.connection.getAccountInfo(this.poolAddress)
+
+      if (!accountInfo) {
+        return null
+      }
+
+      return toStakingPoolInfo(this.poolAddress, decodeStakingPoolAccount(accountInfo.data), this.stakeToken.decimals)
+    } catch (error) {
+      console.error("Error getting staking pool info:", error)
+      throw error
+    }
+  }
+
+  // Get user staking info
+  async getUserStakingInfo(owner: PublicKey): Promise<UserStakingInfo> {
+    try {
+      const [userStakePDA] = this.findUserStakePDA(owner)
+      const accountInfo = await this.connection.getAccountInfo(userStakePDA)
+
+      if (!accountInfo) {
+        // User hasn't staked yet
+        return EMPTY_USER_STAKING_INFO
+      }
+
+      return toUserStakingInfo(decodeUserStakeAccount(accountInfo.data), this.stakeToken.decimals)
+    } catch (error) {
+      console.error("Error getting user staking info:", error)
+      throw error
+    }
+  }
+
+  // Stake tokens
+  async stake(wallet: WalletContextState, amount: number): Promise<string> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    const accounts = await this.getUserStakeInstructionAccounts(wallet.publicKey)
+    const transaction = new Transaction()
+
+    // If the user token account doesn't exist, create it
+    const userTokenAccountInfo = await this.connection.getAccountInfo(accounts.userTokenAccount)
+    if (!userTokenAccountInfo) {
+      transaction.add(
+        createAssociatedTokenAccountInstruction(
+          wallet.publicKey, // payer
+          accounts.userTokenAccount, // associatedToken
+          wallet.publicKey, // owner
+          accounts.stakeMint, // mint
+          accounts.tokenProgram,
+        ),
+      )
+    }
+
+    transaction.add(
+      createStakeInstruction(accounts, { amount: toRawAmount(amount, this.stakeToken.decimals) }, this.programId),
+    )
+
+    return this.sendTransaction(wallet, transaction, `Stake ${amount} ${this.stakeToken.symbol}`)
+  }
+
+  // Unstake tokens
+  async unstake(wallet: WalletContextState, amount: number): Promise<string> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    const accounts = await this.getUserStakeInstructionAccounts(wallet.publicKey)
+    const transaction = new Transaction().add(
+      createUnstakeInstruction(accounts, { amount: toRawAmount(amount, this.stakeToken.decimals) }, this.programId),
+    )
+
+    return this.sendTransaction(wallet, transaction, `Unstake ${amount} ${this.stakeToken.symbol}`)
+  }
+
+  // Claim rewards
+  async claimRewards(wallet: WalletContextState): Promise<string> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    const accounts = await this.getUserStakeInstructionAccounts(wallet.publicKey)
+    const transaction = new Transaction().add(createClaimRewardsInstruction(accounts, this.programId))
+
+    return this.sendTransaction(wallet, transaction, "Claim staking rewards")
+  }
+
+  // Rewards accrued on-chain plus rewards earned since the last claim
+  calculatePendingRewards(info: UserStakingInfo, apy: number, now: number = Date.now()): number {
+    return calculatePendingRewards(info, apy, now)
+  }
+
+  // Seconds until the stake can be withdrawn
+  getTimeRemaining(info: UserStakingInfo, now: number = Date.now()): number {
+    if (info.unlockTime <= 0) return 0
+    return Math.max(0, Math.floor((info.unlockTime - now) / 1000))
+  }
+
+  // Format a lock time in seconds as "1d 2h 3m"
+  static formatTimeRemaining(seconds: number): string {
+    if (seconds <= 0) return "Ready to unstake"
+
+    const days = Math.floor(seconds / SECONDS_PER_DAY)
+    const hours = Math.floor((seconds % SECONDS_PER_DAY) / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+
+    return `${days}d ${hours}h ${minutes}m`
+  }
+
+  // Sign, send and confirm a staking transaction
+  private sendTransaction(wallet: WalletContextState, transaction: Transaction, label: string): Promise<string> {
+    return sendTransaction(this.connection, wallet, transaction, { label })
+  }
+
+}
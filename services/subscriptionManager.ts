@@ -0,0 +1,251 @@
+import type {
+  AccountInfo,
+  Commitment,
+  Connection,
+  GetProgramAccountsFilter,
+  KeyedAccountInfo,
+  PublicKey,
+} from "@solana/web3.js"
+
+// Shared WebSocket subscriptions with a polling fallback.
+//
+// Components subscribing to the same account, program filter or slot share one socket
+// subscription. A slot heartbeat watches the socket: when it goes quiet, subscriptions are
+// served by polling and re-opened periodically until notifications resume.
+
+export const SOCKET_STALE_AFTER_MS = 15000 // no slot notification for this long means the socket is down
+export const POLL_INTERVAL_MS = 10000
+export const RECONNECT_INTERVAL_MS = 30000
+
+type Listener<T> = (value: T) => void
+
+interface Subscription<T> {
+  listeners: Set<Listener<T>>
+  socketId: number | null
+  // Open the socket subscription, returning its id
+  open(emit: Listener<T>): number
+  close(id: number): Promise<void>
+  // Fetch the current value, emitting anything that changed since the last poll
+  poll(emit: Listener<T>): Promise<void>
+}
+
+// Fingerprint of an account's state, used to detect changes while polling
+function fingerprint(account: AccountInfo<Buffer> | null): string {
+  return account ? `${account.lamports}:${account.owner.toBase58()}:${account.data.toString("base64")}` : "none"
+}
+
+export class SubscriptionManager {
+  private readonly subscriptions = new Map<string, Subscription<any>>()
+  private heartbeatId: number | null = null
+  private watchdog: ReturnType<typeof setInterval> | null = null
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private lastSlotAt = 0
+  private lastReconnectAt = 0
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly commitment: Commitment = "confirmed",
+  ) {}
+
+  // True while the socket is down and subscriptions are served by polling
+  get isPolling(): boolean {
+    return this.pollTimer !== null
+  }
+
+  get size(): number {
+    return this.subscriptions.size
+  }
+
+  subscribeAccount(address: PublicKey, listener: Listener<AccountInfo<Buffer> | null>): () => void {
+    let last: string | undefined
+
+    return this.add(`account:${address.toBase58()}`, listener, () => ({
+      open: (emit) => this.connection.onAccountChange(address, emit, this.commitment),
+      close: (id) => this.connection.removeAccountChangeListener(id),
+      poll: async (emit) => {
+        const account = await this.connection.getAccountInfo(address, this.commitment)
+        const current = fingerprint(account)
+        if (current !== last) {
+          last = current
+          emit(account)
+        }
+      },
+    }))
+  }
+
+  subscribeProgram(
+    programId: PublicKey,
+    filters: GetProgramAccountsFilter[],
+    listener: Listener<KeyedAccountInfo>,
+  ): () => void {
+    const known = new Map<string, string>()
+
+    return this.add(`program:${programId.toBase58()}:${JSON.stringify(filters)}`, listener, () => ({
+      open: (emit) => this.connection.onProgramAccountChange(programId, emit, this.commitment, filters),
+      close: (id) => this.connection.removeProgramAccountChangeListener(id),
+      poll: async (emit) => {
+        const accounts = await this.connection.getProgramAccounts(programId, { commitment: this.commitment, filters })
+        accounts.forEach(({ pubkey, account }) => {
+          const current = fingerprint(account)
+          if (known.get(pubkey.toBase58()) !== current) {
+            known.set(pubkey.toBase58(), current)
+            emit({ accountId: pubkey, accountInfo: account })
+          }
+        })
+      },
+    }))
+  }
+
+  subscribeSlot(listener: Listener<number>): () => void {
+    let last: number | undefined
+
+    return this.add("slot", listener, () => ({
+      open: (emit) => this.connection.onSlotChange(({ slot }) => emit(slot)),
+      close: (id) => this.connection.removeSlotChangeListener(id),
+      poll: async (emit) => {
+        const slot = await this.connection.getSlot(this.commitment)
+        if (slot !== last) {
+          last = slot
+          emit(slot)
+        }
+      },
+    }))
+  }
+
+  // Register a listener, creating the shared subscription on first use
+  private add<T>(
+    key: string,
+    listener: Listener<T>,
+    create: () => Omit<Subscription<T>, "listeners" | "socketId">,
+  ): () => void {
+    let subscription = this.subscriptions.get(key) as Subscription<T> | undefined
+
+    if (!subscription) {
+      subscription = { ...create(), listeners: new Set(), socketId: null }
+      this.subscriptions.set(key, subscription)
+      this.open(subscription)
+      this.start()
+    }
+
+    subscription.listeners.add(listener)
+
+    return () => {
+      const current = this.subscriptions.get(key)
+      if (!current) return
+
+      current.listeners.delete(listener)
+      if (current.listeners.size > 0) return
+
+      this.subscriptions.delete(key)
+      this.close(current)
+      if (this.subscriptions.size === 0) this.stop()
+    }
+  }
+
+  private emitter<T>(subscription: Subscription<T>): Listener<T> {
+    return (value) => {
+      subscription.listeners.forEach((listener) => {
+        try {
+          listener(value)
+        } catch (error) {
+          console.error("Error in subscription listener:", error)
+        }
+      })
+    }
+  }
+
+  private open(subscription: Subscription<any>) {
+    try {
+      subscription.socketId = subscription.open(this.emitter(subscription))
+    } catch (error) {
+      console.error("Error opening subscription:", error)
+    }
+  }
+
+  private close(subscription: Subscription<any>) {
+    if (subscription.socketId === null) return
+
+    subscription.close(subscription.socketId).catch((error) => console.error("Error closing subscription:", error))
+    subscription.socketId = null
+  }
+
+  // Start the slot heartbeat and the watchdog checking it
+  private start() {
+    if (this.watchdog) return
+
+    this.lastSlotAt = Date.now()
+    this.lastReconnectAt = Date.now()
+    this.openHeartbeat()
+    this.watchdog = setInterval(() => this.checkSocket(), SOCKET_STALE_AFTER_MS / 3)
+  }
+
+  private stop() {
+    if (this.watchdog) clearInterval(this.watchdog)
+    this.watchdog = null
+    this.stopPolling()
+    this.closeHeartbeat()
+  }
+
+  private openHeartbeat() {
+    this.heartbeatId = this.connection.onSlotChange(() => {
+      this.lastSlotAt = Date.now()
+      if (this.isPolling) this.stopPolling()
+    })
+  }
+
+  private closeHeartbeat() {
+    if (this.heartbeatId === null) return
+
+    this.connection
+      .removeSlotChangeListener(this.heartbeatId)
+      .catch((error) => console.error("Error closing slot heartbeat:", error))
+    this.heartbeatId = null
+  }
+
+  private checkSocket() {
+    if (Date.now() - this.lastSlotAt < SOCKET_STALE_AFTER_MS) return
+
+    if (!this.isPolling) this.startPolling()
+    if (Date.now() - this.lastReconnectAt >= RECONNECT_INTERVAL_MS) this.reconnect()
+  }
+
+  // Re-open every socket subscription; the connection re-establishes the socket if it dropped
+  private reconnect() {
+    this.lastReconnectAt = Date.now()
+    this.closeHeartbeat()
+    this.subscriptions.forEach((subscription) => {
+      this.close(subscription)
+      this.open(subscription)
+    })
+    this.openHeartbeat()
+  }
+
+  private startPolling() {
+    console.warn("Subscription socket unavailable, falling back to polling")
+    this.poll()
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS)
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    this.pollTimer = null
+  }
+
+  private poll() {
+    this.subscriptions.forEach((subscription) => {
+      subscription.poll(this.emitter(subscription)).catch((error) => console.error("Error polling subscription:", error))
+    })
+  }
+}
+
+const managers = new WeakMap<Connection, SubscriptionManager>()
+
+// Subscription manager shared by everything using a connection
+export function getSubscriptionManager(connection: Connection): SubscriptionManager {
+  let manager = managers.get(connection)
+  if (!manager) {
+    manager = new SubscriptionManager(connection)
+    managers.set(connection, manager)
+  }
+  return manager
+}
@@ -0,0 +1,188 @@
+import { Connection, PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js"
+import { LOCALNET_RPC_URL, NETWORKS, getAddress, getNetworkAddresses } from "@/constants/addresses"
+import { AVAILABLE_TOKENS } from "@/constants/tokens"
+import { FIXTURE_QUOTES } from "@/services/backends/fixtures"
+
+// Swap aggregators the quote and swap API routes forward to
+// - jupiter: the Jupiter v6 API, or any server speaking it at JUPITER_API_URL
+// - mock: a local stand-in quoting recorded prices and returning memo transactions, for tests against localnet
+// SWAP_AGGREGATOR picks one, and tests can plug in their own with setSwapAggregator.
+
+export interface QuoteParams {
+  inputMint: string
+  outputMint: string
+  amount: string // raw input amount in base units
+  slippageBps: number
+  onlyDirectRoutes?: boolean
+  excludeDexes?: string[] // AMM labels to route around, as reported in routePlan
+}
+
+// Options forwarded to the aggregator's swap endpoint
+export interface SwapParams {
+  quoteResponse: any
+  userPublicKey: string
+  wrapAndUnwrapSol?: boolean
+  computeUnitPriceMicroLamports?: number
+  asLegacyTransaction?: boolean
+  dynamicComputeUnitLimit?: boolean
+  skipUserAccountsCheck?: boolean
+}
+
+export interface SwapResponse {
+  swapTransaction: string // base64, versioned or legacy
+  lastValidBlockHeight?: number
+}
+
+export interface SwapAggregator {
+  readonly name: string
+  quote(params: QuoteParams): Promise<any>
+  swap(params: SwapParams): Promise<SwapResponse>
+}
+
+// Thrown for requests the aggregator rejects, carrying the status to answer with
+export class AggregatorError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message)
+    this.name = "AggregatorError"
+  }
+}
+
+export const DEFAULT_JUPITER_API_URL = "https://quote-api.jup.ag/v6"
+
+async function readJson(response: Response): Promise<any> {
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export function createJupiterAggregator(baseUrl = DEFAULT_JUPITER_API_URL): SwapAggregator {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, init)
+    const data = await readJson(response)
+    if (!response.ok) {
+      throw new AggregatorError(response.status, "Jupiter API error", data)
+    }
+    return data
+  }
+
+  return {
+    name: "jupiter",
+
+    quote(params) {
+      const search = new URLSearchParams({
+        inputMint: params.inputMint,
+        outputMint: params.outputMint,
+        amount: params.amount,
+        slippageBps: params.slippageBps.toString(),
+      })
+      if (params.onlyDirectRoutes) search.append("onlyDirectRoutes", "true")
+      if (params.excludeDexes?.length) search.append("excludeDexes", params.excludeDexes.join(","))
+      return request(`/quote?${search}`)
+    },
+
+    swap(params) {
+      return request("/swap", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      })
+    },
+  }
+}
+
+// A known mint's token, with the mints of its network by symbol
+function findListedToken(mint: string) {
+  for (const network of NETWORKS) {
+    const { solMint, goldMint, usdcMint, bonkMint } = getNetworkAddresses(network)
+    const mints: Record<string, string> = { SOL: solMint, GOLD: goldMint, USDC: usdcMint, BONK: bonkMint }
+    const symbol = Object.keys(mints).find((candidate) => mints[candidate] === mint)
+    const token = AVAILABLE_TOKENS.find((candidate) => candidate.symbol === symbol)
+    if (token) return { token, mints }
+  }
+  return null
+}
+
+export function createMockAggregator(rpcUrl = LOCALNET_RPC_URL): SwapAggregator {
+  const connection = new Connection(rpcUrl, "confirmed")
+
+  return {
+    name: "mock",
+
+    // The best recorded route the filters allow
+    async quote(params) {
+      const input = findListedToken(params.inputMint)
+      const output = findListedToken(params.outputMint)
+      const candidates = (input && output && FIXTURE_QUOTES[`${input.token.symbol}-${output.token.symbol}`]) || []
+      const recorded = candidates.find(
+        (quote) =>
+          (!params.onlyDirectRoutes || quote.hops.length === 1) &&
+          !quote.hops.some((label) => params.excludeDexes?.includes(label)),
+      )
+      if (!input || !output || !recorded) {
+        throw new AggregatorError(400, "No route found", { inputMint: params.inputMint, outputMint: params.outputMint })
+      }
+
+      const { decimals: inputDecimals } = input.token
+      const { decimals: outputDecimals } = output.token
+      const outAmount = Math.floor(
+        (Number(params.amount) / Math.pow(10, inputDecimals)) * recorded.outPerIn * Math.pow(10, outputDecimals),
+      )
+      const mints = [params.inputMint, ...recorded.via.map((symbol) => input.mints[symbol]), params.outputMint]
+      return {
+        inputMint: params.inputMint,
+        inAmount: params.amount,
+        outputMint: params.outputMint,
+        outAmount: outAmount.toString(),
+        otherAmountThreshold: Math.floor((outAmount * (10000 - params.slippageBps)) / 10000).toString(),
+        swapMode: "ExactIn",
+        slippageBps: params.slippageBps,
+        priceImpactPct: recorded.priceImpactPct,
+        routePlan: recorded.hops.map((label, i) => ({
+          swapInfo: { label, inputMint: mints[i], outputMint: mints[i + 1] },
+          percent: 100,
+        })),
+      }
+    },
+
+    // A memo recording the swap, signed and paid for by the user like a real one
+    async swap(params) {
+      const user = new PublicKey(params.userPublicKey)
+      const { inputMint, inAmount, outputMint, outAmount } = params.quoteResponse ?? {}
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed")
+      const transaction = new Transaction({ feePayer: user, recentBlockhash: blockhash }).add(
+        new TransactionInstruction({
+          keys: [{ pubkey: user, isSigner: true, isWritable: true }],
+          programId: getAddress("localnet", "memoProgram"),
+          data: Buffer.from(`Mock swap ${inAmount} ${inputMint} for ${outAmount} ${outputMint}`),
+        }),
+      )
+      const swapTransaction = transaction
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64")
+      return { swapTransaction, lastValidBlockHeight }
+    },
+  }
+}
+
+let aggregator: SwapAggregator | null = null
+
+// The aggregator chosen by SWAP_AGGREGATOR, unless one was plugged in
+export function getSwapAggregator(): SwapAggregator {
+  aggregator ??=
+    process.env.SWAP_AGGREGATOR === "mock"
+      ? createMockAggregator(process.env.MOCK_AGGREGATOR_RPC_URL || undefined)
+      : createJupiterAggregator(process.env.JUPITER_API_URL || undefined)
+  return aggregator
+}
+
+// Replace the upstream, e.g. with a mock in tests. Passing null goes back to the configured one.
+export function setSwapAggregator(next: SwapAggregator | null) {
+  aggregator = next
+}
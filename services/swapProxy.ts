@@ -0,0 +1,137 @@
+import { isValidAddress } from "@/constants/addresses"
+import { RateLimitError, RateLimiter } from "@/services/rateLimit"
+import { MAX_SLIPPAGE_BPS } from "@/services/slippage"
+import {
+  AggregatorError,
+  type QuoteParams,
+  type SwapAggregator,
+  type SwapParams,
+  type SwapResponse,
+  getSwapAggregator,
+} from "@/services/swapAggregators"
+
+// Server side of the quote and swap API routes. Quotes are cached briefly per mint pair, amount and
+// slippage, and identical requests in flight share one upstream call. Both routes are rate limited per IP;
+// quotes only count against the limit when they call upstream.
+
+export const QUOTE_CACHE_TTL_MS = 5000
+const MAX_CACHED_QUOTES = 500
+
+// Each swap card refresh asks for up to 3 quotes: the best route and two alternatives
+export const quoteRateLimiter = new RateLimiter(180, 60 * 1000)
+export const swapRateLimiter = new RateLimiter(10, 60 * 1000)
+
+const MAX_EXCLUDED_DEXES = 20
+
+// Cached quotes, and quotes still being fetched, which later requests wait on instead of fetching again
+const quoteCache = new Map<string, { expiresAt: number; quote: Promise<any> }>()
+
+function quoteCacheKey(aggregator: SwapAggregator, params: QuoteParams): string {
+  const { inputMint, outputMint, amount, slippageBps, onlyDirectRoutes, excludeDexes = [] } = params
+  const routes = onlyDirectRoutes ? "direct" : "any"
+  return [aggregator.name, inputMint, outputMint, amount, slippageBps, routes, [...excludeDexes].sort()].join(":")
+}
+
+function pruneQuoteCache(now: number) {
+  for (const [key, entry] of quoteCache) {
+    if (entry.expiresAt <= now) quoteCache.delete(key)
+  }
+  // Still full of fresh quotes: drop the oldest, which Map keeps first
+  while (quoteCache.size >= MAX_CACHED_QUOTES) {
+    quoteCache.delete(quoteCache.keys().next().value!)
+  }
+}
+
+// Validated quote parameters from a request body
+export function parseQuoteParams(body: any): QuoteParams {
+  const { inputMint, outputMint, amount, slippageBps = 50, onlyDirectRoutes, excludeDexes } = body ?? {}
+  if (!isValidAddress(inputMint) || !isValidAddress(outputMint)) {
+    throw new AggregatorError(400, "inputMint and outputMint must be valid mint addresses")
+  }
+  if (inputMint === outputMint) {
+    throw new AggregatorError(400, "inputMint and outputMint must differ")
+  }
+  if (!/^[1-9]\d*$/.test(String(amount))) {
+    throw new AggregatorError(400, "amount must be a positive integer in base units")
+  }
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+    throw new AggregatorError(400, `slippageBps must be an integer from 0 to ${MAX_SLIPPAGE_BPS}`)
+  }
+  if (
+    excludeDexes !== undefined &&
+    (!Array.isArray(excludeDexes) ||
+      excludeDexes.length > MAX_EXCLUDED_DEXES ||
+      excludeDexes.some((label) => typeof label !== "string" || !label || label.includes(",")))
+  ) {
+    throw new AggregatorError(400, `excludeDexes must be a list of at most ${MAX_EXCLUDED_DEXES} AMM labels`)
+  }
+
+  const params: QuoteParams = {
+    inputMint,
+    outputMint,
+    amount: String(amount),
+    slippageBps,
+    onlyDirectRoutes: onlyDirectRoutes === true,
+  }
+  if (excludeDexes?.length) params.excludeDexes = excludeDexes
+  return params
+}
+
+// Validated swap parameters from a request body. Only known options are forwarded.
+export function parseSwapParams(body: any): SwapParams {
+  const { quoteResponse, userPublicKey } = body ?? {}
+  if (!quoteResponse || typeof quoteResponse !== "object") {
+    throw new AggregatorError(400, "quoteResponse is required")
+  }
+  if (!isValidAddress(userPublicKey)) {
+    throw new AggregatorError(400, "userPublicKey must be a valid address")
+  }
+
+  const params: SwapParams = { quoteResponse, userPublicKey }
+  const flags = ["wrapAndUnwrapSol", "asLegacyTransaction", "dynamicComputeUnitLimit", "skipUserAccountsCheck"] as const
+  flags.forEach((flag) => {
+    if (typeof body[flag] === "boolean") params[flag] = body[flag]
+  })
+  if (Number.isInteger(body.computeUnitPriceMicroLamports) && body.computeUnitPriceMicroLamports >= 0) {
+    params.computeUnitPriceMicroLamports = body.computeUnitPriceMicroLamports
+  }
+  return params
+}
+
+// A quote, from the cache when a fresh one exists. `cached` is true when no upstream call was made for it.
+// With a client key, an upstream call is checked against quoteRateLimiter and throws RateLimitError past it.
+export async function getQuote(
+  params: QuoteParams,
+  aggregator: SwapAggregator = getSwapAggregator(),
+  clientKey?: string,
+): Promise<{ quote: any; cached: boolean }> {
+  const key = quoteCacheKey(aggregator, params)
+  const now = Date.now()
+  const entry = quoteCache.get(key)
+  if (entry && entry.expiresAt > now) {
+    return { quote: await entry.quote, cached: true }
+  }
+
+  if (clientKey !== undefined) {
+    const limit = quoteRateLimiter.check(clientKey)
+    if (!limit.allowed) throw new RateLimitError(limit.retryAfter)
+  }
+
+  pruneQuoteCache(now)
+  const quote = aggregator.quote(params)
+  quoteCache.set(key, { expiresAt: now + QUOTE_CACHE_TTL_MS, quote })
+
+  // Failures aren't cached
+  quote.catch(() => {
+    if (quoteCache.get(key)?.quote === quote) quoteCache.delete(key)
+  })
+  return { quote: await quote, cached: false }
+}
+
+export function buildSwap(params: SwapParams, aggregator: SwapAggregator = getSwapAggregator()): Promise<SwapResponse> {
+  return aggregator.swap(params)
+}
+
+export function clearQuoteCache() {
+  quoteCache.clear()
+}
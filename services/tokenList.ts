@@ -0,0 +1,243 @@
+import type { Connection } from "@solana/web3.js"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { NETWORK_ADDRESSES, isValidAddress } from "@/constants/addresses"
+import { AVAILABLE_TOKENS, type Token } from "@/constants/tokens"
+import bundledTokenList from "@/constants/token-list.json"
+import { getMintInfo } from "@/services/tokenPrograms"
+
+// Token list: the tokens a user can pick, per network
+//
+// Tokens come from three places. The dApp's own tokens (from the address registry) and list entries tagged
+// "verified" are verified; other list entries are community tokens; mints a user pastes in are imported and
+// kept per wallet. The list is a standard token-list document, bundled as a snapshot and optionally
+// refreshed from NEXT_PUBLIC_TOKEN_LIST_URL.
+
+export type TokenTier = "verified" | "community" | "imported"
+
+export interface ListedToken extends Token {
+  tier: TokenTier
+  tags: string[]
+}
+
+// One entry of a token-list document
+interface TokenListEntry {
+  chainId: number
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  logoURI?: string
+  tags?: string[]
+}
+
+interface TokenListDocument {
+  name: string
+  timestamp: string
+  tokens: TokenListEntry[]
+}
+
+type ImportedTokens = Partial<Record<NetworkType, ListedToken[]>>
+
+export const IMPORTED_TOKENS_STORAGE_KEY = "goldium_imported_tokens"
+
+// Token-list chain ids; localnet mints only exist on the local validator, so it has none
+const CHAIN_IDS: Partial<Record<NetworkType, number>> = {
+  "mainnet-beta": 101,
+  testnet: 102,
+  devnet: 103,
+}
+
+const TIER_ORDER: Record<TokenTier, number> = { verified: 0, imported: 1, community: 2 }
+
+// Thrown when a token list can't be read or a mint can't be imported
+export class TokenListError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TokenListError"
+  }
+}
+
+function isTokenListEntry(entry: any): entry is TokenListEntry {
+  return (
+    !!entry &&
+    typeof entry.chainId === "number" &&
+    isValidAddress(entry.address) &&
+    typeof entry.symbol === "string" &&
+    typeof entry.name === "string" &&
+    Number.isInteger(entry.decimals) &&
+    entry.decimals >= 0
+  )
+}
+
+// Validate a token-list document, dropping malformed entries rather than the whole list
+export function parseTokenList(json: unknown): TokenListDocument {
+  const list = json as Partial<TokenListDocument> | null
+  if (!list || typeof list !== "object" || !Array.isArray(list.tokens)) {
+    throw new TokenListError("Token list must have a tokens array")
+  }
+  return {
+    name: typeof list.name === "string" ? list.name : "Token list",
+    timestamp: typeof list.timestamp === "string" ? list.timestamp : "",
+    tokens: list.tokens.filter(isTokenListEntry),
+  }
+}
+
+let tokenList: TokenListDocument = parseTokenList(bundledTokenList)
+
+type TokenListListener = () => void
+const listeners = new Set<TokenListListener>()
+
+function notify() {
+  listeners.forEach((listener) => {
+    try {
+      listener()
+    } catch (error) {
+      console.error("Error in token list listener:", error)
+    }
+  })
+}
+
+// Called when the list is refreshed or a token is imported or removed
+export function subscribeTokenList(listener: TokenListListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Replace the bundled snapshot with the hosted list, keeping the snapshot if the fetch fails.
+// Returns whether the list changed.
+export async function refreshTokenList(url = process.env.NEXT_PUBLIC_TOKEN_LIST_URL): Promise<boolean> {
+  if (!url) return false
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new TokenListError(`Token list request failed with status ${response.status}`)
+    }
+    const list = parseTokenList(await response.json())
+    if (list.timestamp && tokenList.timestamp && list.timestamp <= tokenList.timestamp) return false
+
+    tokenList = list
+    notify()
+    return true
+  } catch (error) {
+    console.error("Error refreshing token list, using the bundled snapshot:", error)
+    return false
+  }
+}
+
+function storageKey(owner: string | null): string {
+  return owner ? `${IMPORTED_TOKENS_STORAGE_KEY}:${owner}` : IMPORTED_TOKENS_STORAGE_KEY
+}
+
+function readImportedTokens(owner: string | null): ImportedTokens {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = localStorage.getItem(storageKey(owner))
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error("Error reading imported tokens:", error)
+    return {}
+  }
+}
+
+function writeImportedTokens(owner: string | null, tokens: ImportedTokens) {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(tokens))
+  } catch (error) {
+    console.error("Error saving imported tokens:", error)
+  }
+}
+
+export function getImportedTokens(network: NetworkType, owner: string | null): ListedToken[] {
+  return readImportedTokens(owner)[network] ?? []
+}
+
+// The dApp's own tokens, with the network's mints from the registry
+function getRegistryTokens(network: NetworkType): ListedToken[] {
+  const { goldMint, solMint, usdcMint, bonkMint } = NETWORK_ADDRESSES[network]
+  const mints: Record<string, string> = { GOLD: goldMint, SOL: solMint, USDC: usdcMint, BONK: bonkMint }
+  return AVAILABLE_TOKENS.map((token) => ({
+    ...token,
+    mint: mints[token.symbol] ?? token.mint,
+    tier: "verified",
+    tags: [],
+  }))
+}
+
+function getListTokens(network: NetworkType): ListedToken[] {
+  const chainId = CHAIN_IDS[network]
+  return tokenList.tokens
+    .filter((entry) => entry.chainId === chainId)
+    .map((entry) => ({
+      name: entry.name,
+      symbol: entry.symbol,
+      mint: entry.address,
+      decimals: entry.decimals,
+      logoURI: entry.logoURI ?? "",
+      tier: entry.tags?.includes("verified") ? "verified" : "community",
+      tags: entry.tags ?? [],
+    }))
+}
+
+// Every token for a network, verified first. A mint listed in more than one place keeps its first entry,
+// so the registry overrides the list and the list overrides imports.
+export function getTokenList(network: NetworkType, owner: string | null = null): ListedToken[] {
+  const seen = new Set<string>()
+  return [...getRegistryTokens(network), ...getListTokens(network), ...getImportedTokens(network, owner)]
+    .filter((token) => {
+      if (seen.has(token.mint)) return false
+      seen.add(token.mint)
+      return true
+    })
+    .sort((a, b) => TIER_ORDER[a.tier] - TIER_ORDER[b.tier])
+}
+
+export function findToken(network: NetworkType, mint: string, owner: string | null = null): ListedToken | undefined {
+  return getTokenList(network, owner).find((token) => token.mint === mint)
+}
+
+// Import a mint the list doesn't have. Decimals are read from the mint account, so the address must be
+// an SPL Token or Token-2022 mint on the connection's cluster.
+export async function importToken(
+  connection: Connection,
+  network: NetworkType,
+  owner: string | null,
+  mint: string,
+): Promise<ListedToken> {
+  const address = mint.trim()
+  if (!isValidAddress(address)) {
+    throw new TokenListError("Enter a valid token mint address")
+  }
+  if (findToken(network, address, owner)) {
+    throw new TokenListError("This token is already in the list")
+  }
+
+  let decimals: number
+  try {
+    decimals = (await getMintInfo(connection, address)).decimals
+  } catch (error) {
+    console.error("Error reading mint:", error)
+    throw new TokenListError("No token mint found at this address")
+  }
+
+  const token: ListedToken = {
+    name: address,
+    symbol: `${address.slice(0, 4)}…${address.slice(-4)}`,
+    mint: address,
+    decimals,
+    logoURI: "",
+    tier: "imported",
+    tags: [],
+  }
+  const stored = readImportedTokens(owner)
+  writeImportedTokens(owner, { ...stored, [network]: [...(stored[network] ?? []), token] })
+  notify()
+  return token
+}
+
+export function removeImportedToken(network: NetworkType, owner: string | null, mint: string) {
+  const stored = readImportedTokens(owner)
+  writeImportedTokens(owner, { ...stored, [network]: (stored[network] ?? []).filter((token) => token.mint !== mint) })
+  notify()
+}
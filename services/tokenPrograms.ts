@@ -0,0 +1,173 @@
+import { type Connection, PublicKey, type TransactionInstruction } from "@solana/web3.js"
+import {
+  type InterestBearingMintConfigState,
+  type TransferFeeConfig,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  amountToUiAmountWithoutSimulation,
+  calculateEpochFee,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getInterestBearingMintConfigState,
+  getTransferFeeConfig,
+  unpackAccount,
+  unpackMint,
+} from "@solana/spl-token"
+import { toUiAmount } from "@/utils/staking-layout"
+
+// Token program resolution for SPL Token and Token-2022 mints
+//
+// A mint's owning program decides which program its token accounts, ATAs and transfer instructions use.
+// Token-2022 mints may also carry extensions that change amounts: a transfer fee is withheld from every
+// transfer, and an interest-bearing mint displays balances with accrued interest.
+
+export const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]
+
+export interface MintInfo {
+  address: PublicKey
+  programId: PublicKey
+  decimals: number
+  transferFee: TransferFeeConfig | null
+  interestBearing: InterestBearingMintConfigState | null
+}
+
+// Thrown when an address isn't a mint of either token program
+export class TokenMintError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TokenMintError"
+  }
+}
+
+// Extension settings rarely change, so mints are cached briefly per connection
+const MINT_CACHE_TTL_MS = 5 * 60 * 1000
+
+const mintCache = new WeakMap<Connection, Map<string, { info: Promise<MintInfo>; fetchedAt: number }>>()
+
+export function isTokenProgram(programId: PublicKey): boolean {
+  return TOKEN_PROGRAMS.some((tokenProgram) => tokenProgram.equals(programId))
+}
+
+async function fetchMintInfo(connection: Connection, address: PublicKey): Promise<MintInfo> {
+  const account = await connection.getAccountInfo(address)
+  if (!account) {
+    throw new TokenMintError(`No mint found at ${address.toBase58()}`)
+  }
+  if (!isTokenProgram(account.owner)) {
+    throw new TokenMintError(`${address.toBase58()} is not a token mint, owned by ${account.owner.toBase58()}`)
+  }
+
+  const mint = unpackMint(address, account, account.owner)
+  return {
+    address,
+    programId: account.owner,
+    decimals: mint.decimals,
+    transferFee: getTransferFeeConfig(mint),
+    interestBearing: getInterestBearingMintConfigState(mint),
+  }
+}
+
+// Read a mint and detect its token program from the account owner
+export function getMintInfo(connection: Connection, mint: PublicKey | string): Promise<MintInfo> {
+  const address = typeof mint === "string" ? new PublicKey(mint) : mint
+  const key = address.toBase58()
+
+  let cache = mintCache.get(connection)
+  if (!cache) {
+    cache = new Map()
+    mintCache.set(connection, cache)
+  }
+
+  const cached = cache.get(key)
+  if (cached && Date.now() - cached.fetchedAt < MINT_CACHE_TTL_MS) return cached.info
+
+  const info = fetchMintInfo(connection, address)
+  cache.set(key, { info, fetchedAt: Date.now() })
+  // Don't keep failures around, the mint may be created later
+  info.catch(() => cache?.delete(key))
+  return info
+}
+
+// The owner's associated token account, derived with the mint's token program
+export function getTokenAccountAddress(mint: MintInfo, owner: PublicKey, allowOwnerOffCurve = false): PublicKey {
+  return getAssociatedTokenAddressSync(mint.address, owner, allowOwnerOffCurve, mint.programId)
+}
+
+// Raw balance of the owner's associated token account, 0 when it doesn't exist
+export async function getTokenAccountBalance(
+  connection: Connection,
+  mint: MintInfo,
+  owner: PublicKey,
+): Promise<bigint> {
+  const address = getTokenAccountAddress(mint, owner)
+  const account = await connection.getAccountInfo(address)
+  if (!account) return BigInt(0)
+  return unpackAccount(address, account, mint.programId).amount
+}
+
+// Fee withheld from a transfer of a raw amount in the given epoch
+export function getTransferFee(mint: MintInfo, amount: bigint, epoch: bigint): bigint {
+  return mint.transferFee ? calculateEpochFee(mint.transferFee, epoch, amount) : BigInt(0)
+}
+
+// What the recipient receives when a raw amount is sent in the current epoch
+export async function getAmountAfterTransferFee(
+  connection: Connection,
+  mint: MintInfo,
+  amount: bigint,
+): Promise<bigint> {
+  if (!mint.transferFee) return amount
+  const { epoch } = await connection.getEpochInfo()
+  return amount - getTransferFee(mint, amount, BigInt(epoch))
+}
+
+// UI amount of a raw amount, including accrued interest for interest-bearing mints
+export function toMintUiAmount(mint: MintInfo, amount: bigint, now: number = Date.now()): number {
+  const config = mint.interestBearing
+  if (!config) return toUiAmount(amount, mint.decimals)
+
+  return Number(
+    amountToUiAmountWithoutSimulation(
+      amount,
+      mint.decimals,
+      Math.floor(now / 1000),
+      Number(config.lastUpdateTimestamp),
+      Number(config.initializationTimestamp),
+      config.preUpdateAverageRate,
+      config.currentRate,
+    ),
+  )
+}
+
+// Instructions sending a raw amount to the recipient's associated token account, creating it when missing.
+// transferChecked makes the token program verify the mint and decimals, and works with transfer-fee mints.
+export function createTokenTransferInstructions(
+  mint: MintInfo,
+  sender: PublicKey,
+  recipient: PublicKey,
+  amount: bigint,
+): TransactionInstruction[] {
+  const source = getTokenAccountAddress(mint, sender)
+  const destination = getTokenAccountAddress(mint, recipient, true)
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      sender, // payer
+      destination,
+      recipient,
+      mint.address,
+      mint.programId,
+    ),
+    createTransferCheckedInstruction(
+      source,
+      mint.address,
+      destination,
+      sender,
+      amount,
+      mint.decimals,
+      [],
+      mint.programId,
+    ),
+  ]
+}
@@ -1,19 +1,24 @@
 "use client"
 
-import { type Connection, PublicKey, Transaction, TransactionInstruction, SystemProgram } from "@solana/web3.js"
-import {
-  TOKEN_PROGRAM_ID,
-  getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  createMint,
-  getOrCreateAssociatedTokenAccount,
-  transfer,
-  getMint,
-} from "@solana/spl-token"
+import { type Connection, type PublicKey, Transaction, TransactionInstruction, SystemProgram } from "@solana/web3.js"
+import { NATIVE_MINT, createAssociatedTokenAccountInstruction, createMint, getMint } from "@solana/spl-token"
 import type { WalletContextState } from "@solana/wallet-adapter-react"
-import type { NetworkType } from "@/components/NetworkContextProvider"
-import { GOLD_MINT_ADDRESS } from "@/constants/tokens"
-import { GOLD_TOKEN_METADATA } from "@/constants/tokens"
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import type { BatchTransferResult } from "@/services/backends/types"
+import { packInstructions, sendTransaction, sendTransactions } from "@/services/transactionEngine"
+import {
+  createTokenTransferInstructions,
+  getMintInfo,
+  getTokenAccountAddress,
+  getTokenAccountBalance,
+  toMintUiAmount,
+} from "@/services/tokenPrograms"
+import { getAddress } from "@/constants/addresses"
+import { GOLD_TOKEN_METADATA, SOL_TOKEN } from "@/constants/tokens"
+import { toRawAmount } from "@/utils/staking-layout"
+
+// Transactions signed per wallet approval in a batch; larger rounds risk the blockhash expiring while they're sent
+const MAX_TRANSACTIONS_PER_APPROVAL = 8
 
 // Mint GOLD tokens to a wallet
 export async function mintGoldTokens(
@@ -27,11 +32,11 @@ export async function mintGoldTokens(
       throw new Error("Wallet not connected")
     }
 
-    // Get the GOLD mint address for the current network
-    const goldMintAddress = new PublicKey(GOLD_MINT_ADDRESS[network])
+    // Get the GOLD mint for the current network, with the token program that owns it
+    const goldMint = await getMintInfo(connection, getAddress(network, "goldMint"))
 
     // Get the associated token account for the wallet
-    const tokenAccount = await getAssociatedTokenAddress(goldMintAddress, wallet.publicKey)
+    const tokenAccount = getTokenAccountAddress(goldMint, wallet.publicKey)
 
     // Check if the token account exists
     const tokenAccountInfo = await connection.getAccountInfo(tokenAccount)
@@ -46,7 +51,8 @@ export async function mintGoldTokens(
           wallet.publicKey, // payer
           tokenAccount, // associatedToken
           wallet.publicKey, // owner
-          goldMintAddress, // mint
+          goldMint.address, // mint
+          goldMint.programId,
         ),
       )
     }
@@ -56,65 +62,34 @@ export async function mintGoldTokens(
       keys: [
         { pubkey: wallet.publicKey, isSigner: true, isWritable: true },
         { pubkey: tokenAccount, isSigner: false, isWritable: true },
-        { pubkey: goldMintAddress, isSigner: false, isWritable: true },
+        { pubkey: goldMint.address, isSigner: false, isWritable: true },
         { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: goldMint.programId, isSigner: false, isWritable: false },
       ],
-      programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
+      programId: getAddress(network, "memoProgram"),
       data: Buffer.from(`Mint ${amount} GOLD tokens`),
     })
 
     transaction.add(mockMintInstruction)
 
-    // Sign and send the transaction
-    transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash
-    transaction.feePayer = wallet.publicKey
-
-    const signedTransaction = await wallet.signTransaction(transaction)
-    const signature = await connection.sendRawTransaction(signedTransaction.serialize())
-
-    // Wait for confirmation
-    await connection.confirmTransaction(signature)
-
-    return signature
+    // Sign, send and wait for confirmation
+    return await sendTransaction(connection, wallet, transaction, { label: `Mint ${amount} GOLD` })
   } catch (error) {
     console.error("Error minting GOLD tokens:", error)
     throw error
   }
 }
 
-// Get token balance
+// Get token balance, for SPL Token and Token-2022 mints
 export async function getTokenBalance(
   connection: Connection,
   walletPublicKey: PublicKey,
   mintAddress: string,
 ): Promise<number> {
   try {
-    // Get the associated token account
-    const tokenAccount = await getAssociatedTokenAddress(new PublicKey(mintAddress), walletPublicKey)
-
-    // Get the token account info
-    try {
-      const tokenAccountInfo = await connection.getAccountInfo(tokenAccount)
-
-      if (!tokenAccountInfo) {
-        return 0
-      }
-
-      // Parse the token account data
-      const accountInfo = await connection.getParsedAccountInfo(tokenAccount)
-      const accountData: any = accountInfo.value?.data
-
-      if (!accountData || !accountData.parsed || !accountData.parsed.info || !accountData.parsed.info.tokenAmount) {
-        return 0
-      }
-
-      const balance = accountData.parsed.info.tokenAmount.uiAmount || 0
-      return balance
-    } catch (err) {
-      console.error("Error getting token account info:", err)
-      return 0
-    }
+    const mint = await getMintInfo(connection, mintAddress)
+    const amount = await getTokenAccountBalance(connection, mint, walletPublicKey)
+    return toMintUiAmount(mint, amount)
   } catch (error) {
     console.error("Error getting token balance:", error)
     return 0
@@ -127,28 +102,7 @@ export async function getGoldTokenBalance(
   walletPublicKey: PublicKey,
   network: NetworkType = "testnet",
 ): Promise<number> {
-  try {
-    // Find the associated token account for the GOLD token
-    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(walletPublicKey, {
-      programId: TOKEN_PROGRAM_ID,
-    })
-
-    // Find the GOLD token account
-    const goldTokenAccount = tokenAccounts.value.find(
-      (account) => account.account.data.parsed.info.mint === GOLD_MINT_ADDRESS[network],
-    )
-
-    if (!goldTokenAccount) {
-      return 0
-    }
-
-    // Get the balance
-    const balance = goldTokenAccount.account.data.parsed.info.tokenAmount.uiAmount
-    return balance
-  } catch (error) {
-    console.error("Error getting GOLD token balance:", error)
-    return 0
-  }
+  return getTokenBalance(connection, walletPublicKey, getAddress(network, "goldMint").toBase58())
 }
 
 // Create a new GOLD token mint (for testnet testing)
@@ -178,63 +132,143 @@ export async function createGoldTokenMint(connection: Connection, wallet: Wallet
   }
 }
 
-// Transfer GOLD tokens
-export async function transferGoldTokens(
+// Transfer native SOL
+export async function transferSol(
   connection: Connection,
   wallet: WalletContextState,
   recipient: PublicKey,
   amount: number,
-  network: NetworkType = "testnet",
 ): Promise<string> {
   try {
     if (!wallet.publicKey || !wallet.signTransaction) {
       throw new Error("Wallet not connected")
     }
 
-    // Get the mint
-    const mintPublicKey = new PublicKey(GOLD_MINT_ADDRESS[network])
-
-    // Get the sender's token account
-    const senderTokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      {
-        publicKey: wallet.publicKey,
-        signTransaction: wallet.signTransaction,
-        signAllTransactions: wallet.signAllTransactions!,
-      },
-      mintPublicKey,
-      wallet.publicKey,
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: wallet.publicKey,
+        toPubkey: recipient,
+        lamports: toRawAmount(amount, SOL_TOKEN.decimals),
+      }),
     )
 
-    // Get or create the recipient's token account
-    const recipientTokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      {
-        publicKey: wallet.publicKey,
-        signTransaction: wallet.signTransaction,
-        signAllTransactions: wallet.signAllTransactions!,
-      },
-      mintPublicKey,
-      recipient,
+    // Sign, send and wait for confirmation
+    return await sendTransaction(connection, wallet, transaction, { label: `Send ${amount} SOL` })
+  } catch (error) {
+    console.error("Error transferring SOL:", error)
+    throw error
+  }
+}
+
+// Transfer tokens of any mint. The recipient's token account is created when missing.
+export async function transferTokens(
+  connection: Connection,
+  wallet: WalletContextState,
+  mintAddress: PublicKey,
+  recipient: PublicKey,
+  amount: number,
+  symbol = "tokens",
+): Promise<string> {
+  try {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    const mint = await getMintInfo(connection, mintAddress)
+    const transaction = new Transaction().add(
+      ...createTokenTransferInstructions(mint, wallet.publicKey, recipient, toRawAmount(amount, mint.decimals)),
     )
 
-    // Transfer tokens
-    const signature = await transfer(
-      connection,
-      {
-        publicKey: wallet.publicKey,
-        signTransaction: wallet.signTransaction,
-        signAllTransactions: wallet.signAllTransactions!,
-      },
-      senderTokenAccount.address,
-      recipientTokenAccount.address,
-      wallet.publicKey,
-      amount * Math.pow(10, GOLD_TOKEN_METADATA.decimals),
+    // Sign, send and wait for confirmation
+    return await sendTransaction(connection, wallet, transaction, { label: `Send ${amount} ${symbol}` })
+  } catch (error) {
+    console.error("Error transferring tokens:", error)
+    throw error
+  }
+}
+
+// Transfer GOLD tokens
+export async function transferGoldTokens(
+  connection: Connection,
+  wallet: WalletContextState,
+  recipient: PublicKey,
+  amount: number,
+  network: NetworkType = "testnet",
+): Promise<string> {
+  return transferTokens(connection, wallet, getAddress(network, "goldMint"), recipient, amount, "GOLD")
+}
+
+// Send SOL or tokens of one mint to many wallets. Transfers are packed several to a transaction and signed
+// in rounds, one wallet approval each. A round that can't be sent, e.g. because it was declined, fails every
+// transfer from there on without sending them.
+export async function transferTokensBatch(
+  connection: Connection,
+  wallet: WalletContextState,
+  mintAddress: PublicKey,
+  transfers: { recipient: PublicKey; amount: number }[],
+  symbol = "tokens",
+  onResult?: (result: BatchTransferResult) => void,
+): Promise<BatchTransferResult[]> {
+  try {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+    const sender = wallet.publicKey
+
+    // SOL is identified by the wrapped SOL mint
+    const mint = mintAddress.equals(NATIVE_MINT) ? null : await getMintInfo(connection, mintAddress)
+    const packed = packInstructions(
+      sender,
+      transfers.map(({ recipient, amount }) =>
+        mint
+          ? createTokenTransferInstructions(mint, sender, recipient, toRawAmount(amount, mint.decimals))
+          : [
+              SystemProgram.transfer({
+                fromPubkey: sender,
+                toPubkey: recipient,
+                lamports: toRawAmount(amount, SOL_TOKEN.decimals),
+              }),
+            ],
+      ),
     )
 
-    return signature
+    const results: BatchTransferResult[] = []
+    const settle = (indices: number[], outcome: Omit<BatchTransferResult, "index">) =>
+      indices.forEach((index) => {
+        results[index] = { index, ...outcome }
+        onResult?.(results[index])
+      })
+
+    for (let start = 0; start < packed.length; start += MAX_TRANSACTIONS_PER_APPROVAL) {
+      const round = packed.slice(start, start + MAX_TRANSACTIONS_PER_APPROVAL)
+      const count = round.reduce((sum, { groups }) => sum + groups.length, 0)
+
+      let sent: Promise<string>[]
+      try {
+        sent = await sendTransactions(
+          connection,
+          wallet,
+          round.map(({ transaction }) => transaction),
+          { label: `Send ${symbol} to ${count} wallets` },
+        )
+      } catch (error: any) {
+        packed.slice(start).forEach(({ groups }) => settle(groups, { error: error.message }))
+        break
+      }
+
+      await Promise.all(
+        sent.map((confirmed, i) =>
+          confirmed.then(
+            (signature) => settle(round[i].groups, { signature }),
+            (error) => settle(round[i].groups, { error: error.message }),
+          ),
+        ),
+      )
+    }
+
+    return results
   } catch (error) {
-    console.error("Error transferring GOLD tokens:", error)
+    console.error("Error sending batch transfer:", error)
     throw error
   }
 }
@@ -242,11 +276,11 @@ export async function transferGoldTokens(
 // Get token supply
 export async function getGoldTokenSupply(connection: Connection, network: NetworkType = "testnet"): Promise<number> {
   try {
-    const mintPublicKey = new PublicKey(GOLD_MINT_ADDRESS[network])
-    const mintInfo = await getMint(connection, mintPublicKey)
+    const goldMint = await getMintInfo(connection, getAddress(network, "goldMint"))
+    const mintInfo = await getMint(connection, goldMint.address, "confirmed", goldMint.programId)
 
     // Update any references to token supply or distribution to reflect 1M total supply
-    return Number(mintInfo.supply) / Math.pow(10, GOLD_TOKEN_METADATA.decimals)
+    return Number(mintInfo.supply) / Math.pow(10, goldMint.decimals)
   } catch (error) {
     console.error("Error getting GOLD token supply:", error)
     return 0
@@ -0,0 +1,407 @@
+import {
+  type Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  type TransactionInstruction,
+  type VersionedTransaction,
+} from "@solana/web3.js"
+import {
+  type TransactionPreview,
+  TransactionCancelledError,
+  confirmPreview,
+  mergePreviews,
+  simulateTransactionPreview,
+} from "@/services/transactionPreview"
+import { applyPriorityFee } from "@/services/priorityFees"
+import { getSettings } from "@/services/settingsStore"
+
+// Transaction lifecycle engine
+//
+// Every transaction is tracked through built → signed → sent → processed → confirmed → finalized.
+// Transactions the app builds get compute budget instructions for the priority fee chosen in Settings.
+// Before signing it is simulated, and the decoded preview must be confirmed by the user.
+// Until it lands, the signed transaction is rebroadcast until its blockhash expires, at which
+// point it is marked expired. Failures carry the program logs from simulation or execution.
+// Batches are previewed together and signed with a single wallet prompt.
+
+export type TransactionLifecycleStatus =
+  | "built"
+  | "signed"
+  | "sent"
+  | "processed"
+  | "confirmed"
+  | "finalized"
+  | "expired"
+  | "failed"
+  | "cancelled" // declined at the preview, never signed
+
+export interface TrackedTransaction {
+  id: string
+  label: string
+  status: TransactionLifecycleStatus
+  signature?: string
+  lastValidBlockHeight?: number
+  error?: string
+  logs?: string[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface TransactionSigner {
+  publicKey: PublicKey | null
+  signTransaction?: <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>
+  signAllTransactions?: <T extends Transaction | VersionedTransaction>(transactions: T[]) => Promise<T[]>
+}
+
+export interface SendTransactionOptions {
+  label?: string
+  commitment?: "processed" | "confirmed" | "finalized" // resolve once this is reached, tracking continues
+  lastValidBlockHeight?: number // expiry of the blockhash a prebuilt transaction carries, if known
+  simulate?: boolean // simulate and ask for confirmation before signing, defaults to true
+  priorityFee?: boolean // add compute budget instructions to legacy transactions, defaults to true
+  minimumReceived?: TransactionPreview["minimumReceived"]
+  onStatusChange?: (transaction: TrackedTransaction) => void
+}
+
+export const REBROADCAST_INTERVAL_MS = 2000
+const MAX_LOG_LINES = 50
+
+// Room left in packed transactions for the compute budget program and its two instructions
+const COMPUTE_BUDGET_RESERVE_BYTES = 64
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58()
+
+const COMMITMENT_LEVELS: TransactionLifecycleStatus[] = ["processed", "confirmed", "finalized"]
+
+// Thrown when a transaction fails simulation or execution
+export class TransactionFailedError extends Error {
+  constructor(
+    message: string,
+    readonly logs: string[] = [],
+    readonly signature?: string,
+  ) {
+    super(message)
+    this.name = "TransactionFailedError"
+  }
+}
+
+// Thrown when a transaction's blockhash expires before it lands
+export class TransactionExpiredError extends Error {
+  constructor(readonly signature: string) {
+    super("Transaction expired before it was confirmed. Please try again.")
+    this.name = "TransactionExpiredError"
+  }
+}
+
+type TransactionListener = (transaction: TrackedTransaction) => void
+
+const listeners = new Set<TransactionListener>()
+
+// Observe every tracked transaction, e.g. to keep a transaction history
+export function onTransactionUpdate(listener: TransactionListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function isPendingStatus(status: TransactionLifecycleStatus): boolean {
+  return status === "built" || status === "signed" || status === "sent" || status === "processed"
+}
+
+function trimLogs(logs: string[] | null | undefined): string[] | undefined {
+  return logs && logs.length > 0 ? logs.slice(-MAX_LOG_LINES) : undefined
+}
+
+function createTracker(label: string, onStatusChange?: TransactionListener) {
+  const tracked: TrackedTransaction = {
+    id: `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    label,
+    status: "built",
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+
+  return (updates: Partial<TrackedTransaction>) => {
+    Object.assign(tracked, updates, { updatedAt: Date.now() })
+    const snapshot = { ...tracked }
+    ;[...listeners, ...(onStatusChange ? [onStatusChange] : [])].forEach((listener) => {
+      try {
+        listener(snapshot)
+      } catch (error) {
+        console.error("Error in transaction listener:", error)
+      }
+    })
+  }
+}
+
+// Logs of a landed transaction
+async function fetchTransactionLogs(connection: Connection, signature: string): Promise<string[] | undefined> {
+  try {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    })
+    return trimLogs(transaction?.meta?.logMessages)
+  } catch (error) {
+    console.error("Error fetching transaction logs:", error)
+    return undefined
+  }
+}
+
+// Submit a signed transaction, turning preflight failures into errors carrying the simulation logs
+async function submit(connection: Connection, raw: Buffer | Uint8Array): Promise<string> {
+  try {
+    return await connection.sendRawTransaction(raw, { skipPreflight: false, maxRetries: 0 })
+  } catch (error: any) {
+    if (error instanceof SendTransactionError) {
+      const logs = error.logs ?? (await error.getLogs(connection).catch(() => []))
+      throw new TransactionFailedError(error.transactionError.message || error.message, trimLogs(logs))
+    }
+    throw error
+  }
+}
+
+// Follow a sent transaction through its commitment levels, rebroadcasting until it lands or expires.
+// Resolves once `commitment` is reached and keeps reporting until finalized.
+function track(
+  connection: Connection,
+  raw: Buffer | Uint8Array,
+  signature: string,
+  lastValidBlockHeight: number,
+  commitment: TransactionLifecycleStatus,
+  update: (updates: Partial<TrackedTransaction>) => void,
+): Promise<string> {
+  const target = COMMITMENT_LEVELS.indexOf(commitment)
+
+  return new Promise((resolve, reject) => {
+    let reached = -1
+    let settled = false
+
+    const fail = (error: Error, status: TransactionLifecycleStatus, logs?: string[]) => {
+      update({ status, error: error.message, logs })
+      if (!settled) reject(error)
+      settled = true
+    }
+
+    const tick = async () => {
+      try {
+        const { value } = await connection.getSignatureStatuses([signature])
+        const status = value[0]
+
+        if (status?.err) {
+          const logs = await fetchTransactionLogs(connection, signature)
+          return fail(
+            new TransactionFailedError(`Transaction failed: ${JSON.stringify(status.err)}`, logs, signature),
+            "failed",
+            logs,
+          )
+        }
+
+        const level = status?.confirmationStatus ? COMMITMENT_LEVELS.indexOf(status.confirmationStatus) : -1
+        while (reached < level) {
+          reached += 1
+          update({ status: COMMITMENT_LEVELS[reached] })
+        }
+
+        if (!settled && reached >= target) {
+          settled = true
+          resolve(signature)
+        }
+        if (reached === COMMITMENT_LEVELS.length - 1) return
+
+        const blockHeight = await connection.getBlockHeight("confirmed")
+        if (blockHeight > lastValidBlockHeight) {
+          if (reached < 0) return fail(new TransactionExpiredError(signature), "expired")
+
+          // Landed but not finalized within the validity window; stop following it
+          if (!settled) resolve(signature)
+          settled = true
+          return
+        }
+
+        if (reached < 0) {
+          connection
+            .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+            .catch((error) => console.error("Error rebroadcasting transaction:", error))
+        }
+      } catch (error) {
+        // Transient RPC errors shouldn't end tracking
+        console.error("Error checking transaction status:", error)
+      }
+
+      setTimeout(tick, REBROADCAST_INTERVAL_MS)
+    }
+
+    setTimeout(tick, REBROADCAST_INTERVAL_MS)
+  })
+}
+
+// Build, sign, send and confirm a transaction, reporting each lifecycle step
+export async function sendTransaction(
+  connection: Connection,
+  signer: TransactionSigner,
+  transaction: Transaction | VersionedTransaction,
+  options: SendTransactionOptions = {},
+): Promise<string> {
+  const label = options.label ?? "Transaction"
+  const update = createTracker(label, options.onStatusChange)
+  let lastValidBlockHeight = options.lastValidBlockHeight
+  let raw: Buffer | Uint8Array
+  let signature: string
+
+  try {
+    if (!signer.publicKey || !signer.signTransaction) {
+      throw new Error("Wallet not connected")
+    }
+
+    if (transaction instanceof Transaction) {
+      transaction.feePayer ??= signer.publicKey
+      if (!transaction.recentBlockhash) {
+        const latest = await connection.getLatestBlockhash("confirmed")
+        transaction.recentBlockhash = latest.blockhash
+        lastValidBlockHeight = latest.lastValidBlockHeight
+      }
+      if (options.priorityFee !== false) {
+        await applyPriorityFee(connection, transaction, getSettings().priorityFee)
+      }
+    }
+
+    // Prebuilt transactions with an unknown expiry: the latest blockhash's is a close upper bound
+    lastValidBlockHeight ??= (await connection.getLatestBlockhash("confirmed")).lastValidBlockHeight
+    update({ status: "built", lastValidBlockHeight })
+
+    if (options.simulate !== false) {
+      const preview = await simulateTransactionPreview(connection, signer.publicKey, transaction, label)
+      await confirmPreview({ ...preview, minimumReceived: options.minimumReceived })
+    }
+
+    const signed = await signer.signTransaction(transaction)
+    update({ status: "signed" })
+
+    raw = signed.serialize()
+    signature = await submit(connection, raw)
+    update({ status: "sent", signature })
+  } catch (error: any) {
+    const status = error instanceof TransactionCancelledError ? "cancelled" : "failed"
+    update({ status, error: error.message, logs: trimLogs(error.logs) })
+    throw error
+  }
+
+  return track(connection, raw, signature, lastValidBlockHeight, options.commitment ?? "confirmed", update)
+}
+
+// Pack instruction groups into as few legacy transactions as fit the packet size, keeping each group
+// in one transaction. Returns the transactions with the indices of the groups each one carries.
+export function packInstructions(
+  payer: PublicKey,
+  groups: TransactionInstruction[][],
+): { transaction: Transaction; groups: number[] }[] {
+  const fits = (transaction: Transaction) => {
+    const message = transaction.compileMessage()
+    const size = 1 + 64 * message.header.numRequiredSignatures + message.serialize().length
+    return size + COMPUTE_BUDGET_RESERVE_BYTES <= PACKET_DATA_SIZE
+  }
+  const empty = () => new Transaction({ feePayer: payer, recentBlockhash: PLACEHOLDER_BLOCKHASH })
+
+  const packed: { transaction: Transaction; groups: number[] }[] = []
+  let current = { transaction: empty(), groups: [] as number[] }
+
+  groups.forEach((instructions, index) => {
+    const candidate = empty().add(...current.transaction.instructions, ...instructions)
+    if (current.groups.length > 0 && !fits(candidate)) {
+      packed.push(current)
+      current = { transaction: empty().add(...instructions), groups: [index] }
+    } else {
+      current = { transaction: candidate, groups: [...current.groups, index] }
+    }
+    if (!fits(current.transaction)) {
+      throw new Error(`Instructions for item ${index + 1} don't fit in a single transaction`)
+    }
+  })
+  if (current.groups.length > 0) packed.push(current)
+
+  // Sending fetches a fresh blockhash
+  packed.forEach(({ transaction }) => {
+    transaction.recentBlockhash = undefined
+  })
+  return packed
+}
+
+// Build, preview, sign and send a batch of legacy transactions with one wallet prompt.
+// Resolves once every transaction is sent, with one promise per transaction settling when it is confirmed.
+// Failing before that, e.g. when the batch is declined, rejects and sends nothing.
+export async function sendTransactions(
+  connection: Connection,
+  signer: TransactionSigner,
+  transactions: Transaction[],
+  options: Omit<SendTransactionOptions, "lastValidBlockHeight" | "minimumReceived"> = {},
+): Promise<Promise<string>[]> {
+  const label = options.label ?? "Transaction"
+  const trackers = transactions.map((_, i) => {
+    const part = transactions.length > 1 ? ` (${i + 1}/${transactions.length})` : ""
+    return createTracker(label + part, options.onStatusChange)
+  })
+  const updateAll = (updates: Partial<TrackedTransaction>) => trackers.forEach((update) => update(updates))
+
+  let signed: Transaction[]
+  let lastValidBlockHeight: number
+  try {
+    if (!signer.publicKey || !(signer.signAllTransactions || signer.signTransaction)) {
+      throw new Error("Wallet not connected")
+    }
+    const payer = signer.publicKey
+
+    const latest = await connection.getLatestBlockhash("confirmed")
+    lastValidBlockHeight = latest.lastValidBlockHeight
+    for (const transaction of transactions) {
+      transaction.feePayer ??= payer
+      transaction.recentBlockhash = latest.blockhash
+      if (options.priorityFee !== false) {
+        await applyPriorityFee(connection, transaction, getSettings().priorityFee)
+      }
+    }
+    updateAll({ status: "built", lastValidBlockHeight })
+
+    if (options.simulate !== false) {
+      const previews = await Promise.all(
+        transactions.map((transaction) => simulateTransactionPreview(connection, payer, transaction, label)),
+      )
+      await confirmPreview(mergePreviews(label, previews))
+    }
+
+    if (signer.signAllTransactions) {
+      signed = await signer.signAllTransactions(transactions)
+    } else {
+      // Wallets without batch signing prompt once per transaction
+      signed = []
+      for (const transaction of transactions) signed.push(await signer.signTransaction!(transaction))
+    }
+    updateAll({ status: "signed" })
+  } catch (error: any) {
+    const status = error instanceof TransactionCancelledError ? "cancelled" : "failed"
+    updateAll({ status, error: error.message, logs: trimLogs(error.logs) })
+    throw error
+  }
+
+  // Submitted one by one, so a transaction failing preflight doesn't hold back the rest
+  const sent: Promise<string>[] = []
+  for (const [i, transaction] of signed.entries()) {
+    const update = trackers[i]
+    const raw = transaction.serialize()
+    let confirmed: Promise<string>
+    try {
+      const signature = await submit(connection, raw)
+      update({ status: "sent", signature })
+      confirmed = track(connection, raw, signature, lastValidBlockHeight, options.commitment ?? "confirmed", update)
+    } catch (error: any) {
+      update({ status: "failed", error: error.message, logs: trimLogs(error.logs) })
+      confirmed = Promise.reject(error)
+    }
+    // Failures are the caller's to handle once the batch is returned, not unhandled meanwhile
+    confirmed.catch(() => {})
+    sent.push(confirmed)
+  }
+  return sent
+}
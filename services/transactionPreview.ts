@@ -0,0 +1,225 @@
+import {
+  type AccountInfo,
+  type Connection,
+  LAMPORTS_PER_SOL,
+  type ParsedAccountData,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js"
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getMint, unpackAccount } from "@solana/spl-token"
+import { AVAILABLE_TOKENS, SOL_TOKEN } from "@/constants/tokens"
+import { toUiAmount } from "@/utils/staking-layout"
+
+// Pre-flight simulation and confirmation previews
+
+// Change to one of the signer's balances, in UI units. Negative when sent.
+export interface BalanceChange {
+  mint: string
+  symbol: string
+  amount: number
+}
+
+export interface TransactionPreview {
+  label: string
+  changes: BalanceChange[] // excluding the network fee
+  fee: number // in SOL
+  computeUnits?: number
+  minimumReceived?: { symbol: string; amount: number }
+}
+
+export type PreviewHandler = (preview: TransactionPreview) => Promise<boolean>
+
+// Thrown when the user declines a previewed transaction
+export class TransactionCancelledError extends Error {
+  constructor() {
+    super("Transaction cancelled")
+    this.name = "TransactionCancelledError"
+  }
+}
+
+// Thrown when a transaction fails pre-flight simulation
+export class SimulationFailedError extends Error {
+  constructor(
+    message: string,
+    readonly logs: string[] = [],
+  ) {
+    super(message)
+    this.name = "SimulationFailedError"
+  }
+}
+
+let previewHandler: PreviewHandler | null = null
+
+// Register the UI asking the user to confirm previews. Without one, previews are accepted.
+export function setPreviewHandler(handler: PreviewHandler): () => void {
+  previewHandler = handler
+  return () => {
+    if (previewHandler === handler) previewHandler = null
+  }
+}
+
+// Ask the user to confirm a preview, throwing if they decline
+export async function confirmPreview(preview: TransactionPreview): Promise<void> {
+  if (previewHandler && !(await previewHandler(preview))) {
+    throw new TransactionCancelledError()
+  }
+}
+
+function symbolForMint(mint: string): string {
+  return AVAILABLE_TOKENS.find((token) => token.mint === mint)?.symbol ?? `${mint.slice(0, 4)}…${mint.slice(-4)}`
+}
+
+// Build a preview from UI amounts before and after, keyed by symbol. Used by the ledger simulator.
+export function toBalanceChanges(before: Record<string, number>, after: Record<string, number>): BalanceChange[] {
+  return Object.keys({ ...before, ...after })
+    .map((symbol) => ({
+      mint: AVAILABLE_TOKENS.find((token) => token.symbol === symbol)?.mint ?? symbol,
+      symbol,
+      amount: (after[symbol] ?? 0) - (before[symbol] ?? 0),
+    }))
+    .filter((change) => Math.abs(change.amount) > 1e-12)
+}
+
+interface TokenState {
+  mint: string
+  amount: bigint
+  decimals?: number
+}
+
+// Combine the previews of a batch into one, summing balance changes per mint
+export function mergePreviews(label: string, previews: TransactionPreview[]): TransactionPreview {
+  const changes = new Map<string, BalanceChange>()
+  previews.forEach((preview) =>
+    preview.changes.forEach((change) => {
+      const merged = changes.get(change.mint)
+      changes.set(change.mint, merged ? { ...merged, amount: merged.amount + change.amount } : { ...change })
+    }),
+  )
+
+  return {
+    label,
+    changes: [...changes.values()].filter((change) => change.amount !== 0),
+    fee: previews.reduce((sum, preview) => sum + preview.fee, 0),
+    computeUnits: previews.reduce((sum, preview) => sum + (preview.computeUnits ?? 0), 0) || undefined,
+  }
+}
+
+// Token account state before simulation, from parsed account data
+function parsedTokenState(account: AccountInfo<Buffer | ParsedAccountData> | null, owner: string): TokenState | null {
+  const data = account?.data
+  if (!data || Buffer.isBuffer(data) || data.parsed?.type !== "account") return null
+
+  const info = data.parsed.info
+  if (info.owner !== owner) return null
+  return { mint: info.mint, amount: BigInt(info.tokenAmount.amount), decimals: info.tokenAmount.decimals }
+}
+
+// Token account state after simulation, from the returned base64 data
+function simulatedTokenState(
+  address: PublicKey,
+  account: { lamports: number; owner: string; data: string[] } | null,
+  owner: string,
+): TokenState | null {
+  if (!account || account.lamports === 0) return null
+
+  const programId = new PublicKey(account.owner)
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) return null
+
+  try {
+    const data = Buffer.from(account.data[0], "base64")
+    const tokenAccount = unpackAccount(
+      address,
+      { data, owner: programId, lamports: account.lamports, executable: false },
+      programId,
+    )
+    if (tokenAccount.owner.toBase58() !== owner) return null
+    return { mint: tokenAccount.mint.toBase58(), amount: tokenAccount.amount }
+  } catch {
+    return null
+  }
+}
+
+async function getDecimals(connection: Connection, mint: string, programId?: PublicKey): Promise<number> {
+  const known = AVAILABLE_TOKENS.find((token) => token.mint === mint)
+  if (known) return known.decimals
+  return (await getMint(connection, new PublicKey(mint), "confirmed", programId)).decimals
+}
+
+// Simulate a transaction and decode what it does to the payer's balances.
+// Throws SimulationFailedError, with the program logs, when the transaction would fail.
+export async function simulateTransactionPreview(
+  connection: Connection,
+  payer: PublicKey,
+  transaction: Transaction | VersionedTransaction,
+  label: string,
+): Promise<TransactionPreview> {
+  const versioned =
+    transaction instanceof Transaction ? new VersionedTransaction(transaction.compileMessage()) : transaction
+  const { message } = versioned
+  const owner = payer.toBase58()
+
+  // The payer plus every writable account, which covers the payer's token accounts
+  const addresses = [payer]
+  message.staticAccountKeys.forEach((key, i) => {
+    if (message.isAccountWritable(i) && !key.equals(payer)) addresses.push(key)
+  })
+
+  const [pre, fee, simulation] = await Promise.all([
+    connection.getMultipleParsedAccounts(addresses, { commitment: "confirmed" }),
+    connection.getFeeForMessage(message, "confirmed"),
+    connection.simulateTransaction(versioned, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+      accounts: { encoding: "base64", addresses: addresses.map((address) => address.toBase58()) },
+    }),
+  ])
+
+  const { err, logs, accounts, unitsConsumed } = simulation.value
+  if (err) {
+    throw new SimulationFailedError(`Simulation failed: ${JSON.stringify(err)}`, logs ?? [])
+  }
+
+  const feeLamports = fee.value ?? 0
+  const changes: BalanceChange[] = []
+
+  // Native SOL; the simulated payer balance already has the fee deducted
+  const lamportsBefore = pre.value[0]?.lamports ?? 0
+  const lamportsAfter = accounts?.[0]?.lamports ?? lamportsBefore
+  const lamportsChange = lamportsAfter - lamportsBefore + feeLamports
+  if (lamportsChange !== 0) {
+    changes.push({ mint: SOL_TOKEN.mint, symbol: SOL_TOKEN.symbol, amount: lamportsChange / LAMPORTS_PER_SOL })
+  }
+
+  // Token accounts, summed per mint. Wrapped SOL is already reflected in the lamports above.
+  const deltas = new Map<string, { amount: bigint; decimals?: number; programId: PublicKey }>()
+  for (let i = 1; i < addresses.length; i++) {
+    const simulated = accounts?.[i] ?? null
+    const before = parsedTokenState(pre.value[i], owner)
+    const after = simulatedTokenState(addresses[i], simulated, owner)
+    const mint = before?.mint ?? after?.mint
+    if (!mint || mint === NATIVE_MINT.toBase58()) continue
+
+    const delta = deltas.get(mint) ?? { amount: BigInt(0), programId: TOKEN_PROGRAM_ID }
+    delta.amount += (after?.amount ?? BigInt(0)) - (before?.amount ?? BigInt(0))
+    delta.decimals ??= before?.decimals
+    if (simulated) delta.programId = new PublicKey(simulated.owner)
+    deltas.set(mint, delta)
+  }
+
+  for (const [mint, delta] of deltas) {
+    if (delta.amount === BigInt(0)) continue
+
+    const decimals = delta.decimals ?? (await getDecimals(connection, mint, delta.programId))
+    const magnitude = toUiAmount(delta.amount < BigInt(0) ? -delta.amount : delta.amount, decimals)
+    changes.push({ mint, symbol: symbolForMint(mint), amount: delta.amount < BigInt(0) ? -magnitude : magnitude })
+  }
+
+  return {
+    label,
+    changes,
+    fee: feeLamports / LAMPORTS_PER_SOL,
+    computeUnits: unitsConsumed,
+  }
+}
@@ -0,0 +1,10 @@
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { LOCALNET_RPC_URL } from "@/constants/addresses"
+
+// Solana Explorer link for a transaction or account on the given network.
+// Localnet goes through the explorer's custom cluster option, pointed at the local validator.
+export function getExplorerUrl(kind: "tx" | "address", value: string, network: NetworkType): string {
+  const cluster =
+    network === "localnet" ? `cluster=custom&customUrl=${encodeURIComponent(LOCALNET_RPC_URL)}` : `cluster=${network}`
+  return `https://explorer.solana.com/${kind}/${value}?${cluster}`
+}
@@ -1,10 +1,10 @@
 import { type Connection, PublicKey, Transaction, TransactionInstruction, SystemProgram } from "@solana/web3.js"
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction } from "@solana/spl-token"
-import { FAUCET_PROGRAM_ID, GOLD_TOKEN } from "@/constants/tokens"
+import { createAssociatedTokenAccountInstruction } from "@solana/spl-token"
 import type { WalletContextState } from "@solana/wallet-adapter-react"
-
-// Faucet program ID
-const FAUCET_PROGRAM_ID_PUBKEY = new PublicKey(FAUCET_PROGRAM_ID)
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { getAddress } from "@/constants/addresses"
+import { getMintInfo, getTokenAccountAddress } from "@/services/tokenPrograms"
+import { sendTransaction } from "@/services/transactionEngine"
 
 // Faucet PDA seed
 const FAUCET_SEED = "faucet"
@@ -13,22 +13,22 @@ const FAUCET_SEED = "faucet"
 const USER_CLAIM_SEED = "user_claim"
 
 // Find faucet PDA
-export async function findFaucetPDA() {
-  return PublicKey.findProgramAddressSync([Buffer.from(FAUCET_SEED)], FAUCET_PROGRAM_ID_PUBKEY)
+export async function findFaucetPDA(network: NetworkType) {
+  return PublicKey.findProgramAddressSync([Buffer.from(FAUCET_SEED)], getAddress(network, "faucetProgram"))
 }
 
 // Find user claim PDA
-export async function findUserClaimPDA(walletPubkey: PublicKey) {
+export async function findUserClaimPDA(walletPubkey: PublicKey, network: NetworkType) {
   return PublicKey.findProgramAddressSync(
     [Buffer.from(USER_CLAIM_SEED), walletPubkey.toBuffer()],
-    FAUCET_PROGRAM_ID_PUBKEY,
+    getAddress(network, "faucetProgram"),
   )
 }
 
 // Get user claim info
-export async function getUserClaimInfo(connection: Connection, walletPubkey: PublicKey) {
+export async function getUserClaimInfo(connection: Connection, walletPubkey: PublicKey, network: NetworkType) {
   try {
-    const [userClaimPDA] = await findUserClaimPDA(walletPubkey)
+    const [userClaimPDA] = await findUserClaimPDA(walletPubkey, network)
 
     // Fetch the user claim account data
     const accountInfo = await connection.getAccountInfo(userClaimPDA)
@@ -68,24 +68,20 @@ export async function getUserClaimInfo(connection: Connection, walletPubkey: Pub
 export async function claimFromFaucet(
   connection: Connection,
   wallet: WalletContextState,
+  network: NetworkType,
 ): Promise<{ success: boolean; signature?: string; error?: string }> {
   try {
     if (!wallet.publicKey || !wallet.signTransaction) {
       throw new Error("Wallet not connected")
     }
 
-    const goldMintPubkey = new PublicKey(GOLD_TOKEN.mint)
-    const [faucetPDA] = await findFaucetPDA()
-    const [userClaimPDA] = await findUserClaimPDA(wallet.publicKey)
+    const goldMint = await getMintInfo(connection, getAddress(network, "goldMint"))
+    const [faucetPDA] = await findFaucetPDA(network)
+    const [userClaimPDA] = await findUserClaimPDA(wallet.publicKey, network)
 
     // Get the associated token accounts
-    const userTokenAccount = await getAssociatedTokenAddress(goldMintPubkey, wallet.publicKey)
-
-    const faucetTokenAccount = await getAssociatedTokenAddress(
-      goldMintPubkey,
-      faucetPDA,
-      true, // allowOwnerOffCurve
-    )
+    const userTokenAccount = getTokenAccountAddress(goldMint, wallet.publicKey)
+    const faucetTokenAccount = getTokenAccountAddress(goldMint, faucetPDA, true) // allowOwnerOffCurve
 
     // Check if the user token account exists
     const userTokenAccountInfo = await connection.getAccountInfo(userTokenAccount)
@@ -100,7 +96,8 @@ export async function claimFromFaucet(
           wallet.publicKey, // payer
           userTokenAccount, // associatedToken
           wallet.publicKey, // owner
-          goldMintPubkey, // mint
+          goldMint.address, // mint
+          goldMint.programId,
         ),
       )
     }
@@ -115,29 +112,18 @@ export async function claimFromFaucet(
         { pubkey: faucetPDA, isSigner: false, isWritable: true },
         { pubkey: userTokenAccount, isSigner: false, isWritable: true },
         { pubkey: faucetTokenAccount, isSigner: false, isWritable: true },
-        { pubkey: goldMintPubkey, isSigner: false, isWritable: false },
-        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: goldMint.address, isSigner: false, isWritable: false },
+        { pubkey: goldMint.programId, isSigner: false, isWritable: false },
         { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
       ],
-      programId: FAUCET_PROGRAM_ID_PUBKEY,
+      programId: getAddress(network, "faucetProgram"),
       data: Buffer.from([0]), // 0 = claim instruction
     })
 
     transaction.add(claimInstruction)
 
-    // Sign and send the transaction
-    transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash
-    transaction.feePayer = wallet.publicKey
-
-    const signedTransaction = await wallet.signTransaction(transaction)
-    const signature = await connection.sendRawTransaction(signedTransaction.serialize())
-
-    // Wait for confirmation
-    const confirmation = await connection.confirmTransaction(signature, "confirmed")
-
-    if (confirmation.value.err) {
-      throw new Error(`Transaction failed: ${confirmation.value.err.toString()}`)
-    }
+    // Sign, send and wait for confirmation
+    const signature = await sendTransaction(connection, wallet, transaction, { label: "Claim GOLD from faucet" })
 
     return {
       success: true,
@@ -0,0 +1,248 @@
+import type { LanguagePreference } from "@/services/settingsStore"
+import en from "@/locales/en.json"
+import es from "@/locales/es.json"
+import fr from "@/locales/fr.json"
+import zh from "@/locales/zh.json"
+import ja from "@/locales/ja.json"
+
+// Message catalogs and locale-aware formatting
+//
+// Catalogs live in locales/<language>.json as flat dotted keys. Messages use a subset of ICU
+// MessageFormat: {name}, {name, number}, {name, number, percent}, {name, date},
+// {name, plural, =0 {…} one {# item} other {# items}} and {name, select, a {…} other {…}}.
+// English is the source catalog; other locales fall back to it for missing keys.
+
+export type MessageKey = keyof typeof en
+export type MessageValues = Record<string, string | number | Date>
+
+type Catalog = Partial<Record<MessageKey, string>>
+
+const CATALOGS: Record<LanguagePreference, Catalog> = { en, es, fr, zh, ja }
+
+// BCP 47 tags used for Intl formatting
+export const LOCALE_TAGS: Record<LanguagePreference, string> = {
+  en: "en-US",
+  es: "es-ES",
+  fr: "fr-FR",
+  zh: "zh-CN",
+  ja: "ja-JP",
+}
+
+const isDevelopment = process.env.NODE_ENV === "development"
+
+// Intl formatters are relatively expensive to construct, so they're shared
+const numberFormats = new Map<string, Intl.NumberFormat>()
+const dateFormats = new Map<string, Intl.DateTimeFormat>()
+const pluralRules = new Map<string, Intl.PluralRules>()
+
+function numberFormat(locale: string, options: Intl.NumberFormatOptions = {}): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+function dateFormat(locale: string, options: Intl.DateTimeFormatOptions = {}): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = dateFormats.get(key)
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options)
+    dateFormats.set(key, format)
+  }
+  return format
+}
+
+function pluralCategory(locale: string, value: number): string {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(locale)
+    pluralRules.set(locale, rules)
+  }
+  return rules.select(value)
+}
+
+// Index of the brace closing the one opened at `open`, or -1 when unbalanced
+function closingBrace(message: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < message.length; i++) {
+    if (message[i] === "{") depth += 1
+    if (message[i] === "}" && --depth === 0) return i
+  }
+  return -1
+}
+
+// Split on top-level commas, at most `limit` times
+function splitArgument(body: string, limit: number): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < body.length && parts.length < limit; i++) {
+    if (body[i] === "{") depth += 1
+    if (body[i] === "}") depth -= 1
+    if (body[i] === "," && depth === 0) {
+      parts.push(body.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  parts.push(body.slice(start).trim())
+  return parts
+}
+
+// Options of a plural or select argument, e.g. `=0 {none} one {# item} other {# items}`
+function parseOptions(body: string): Map<string, string> {
+  const options = new Map<string, string>()
+  let i = 0
+  while (i < body.length) {
+    const open = body.indexOf("{", i)
+    if (open < 0) break
+    const close = closingBrace(body, open)
+    if (close < 0) break
+    options.set(body.slice(i, open).trim(), body.slice(open + 1, close))
+    i = close + 1
+  }
+  return options
+}
+
+function formatValue(locale: string, value: string | number | Date | undefined, style?: string): string {
+  if (value === undefined) return ""
+  if (value instanceof Date) return dateFormat(locale, { dateStyle: "medium" }).format(value)
+  if (typeof value === "number" || style === "number") {
+    const number = Number(value)
+    if (style === "percent") return numberFormat(locale, { style: "percent", maximumFractionDigits: 2 }).format(number)
+    if (style === "integer") return numberFormat(locale, { maximumFractionDigits: 0 }).format(number)
+    return numberFormat(locale, { maximumFractionDigits: 6 }).format(number)
+  }
+  return value
+}
+
+function formatArgument(locale: string, body: string, values: MessageValues, pluralValue?: number): string {
+  const [name, type, style] = splitArgument(body, 2)
+  const value = values[name]
+
+  switch (type) {
+    case "plural": {
+      const count = Number(value)
+      const options = parseOptions(style ?? "")
+      const option = options.get(`=${count}`) ?? options.get(pluralCategory(locale, count)) ?? options.get("other")
+      return option === undefined ? "" : formatMessage(locale, option, values, count)
+    }
+    case "select": {
+      const options = parseOptions(style ?? "")
+      const option = options.get(String(value)) ?? options.get("other")
+      return option === undefined ? "" : formatMessage(locale, option, values, pluralValue)
+    }
+    case "number":
+      return formatValue(locale, value, style ?? "number")
+    case "date":
+      return value === undefined ? "" : dateFormat(locale, { dateStyle: "medium" }).format(new Date(value))
+    case "time":
+      return value === undefined ? "" : dateFormat(locale, { timeStyle: "short" }).format(new Date(value))
+    default:
+      return formatValue(locale, value)
+  }
+}
+
+// Format an ICU-style message. `#` inside a plural option stands for the plural value.
+export function formatMessage(
+  locale: string,
+  message: string,
+  values: MessageValues = {},
+  pluralValue?: number,
+): string {
+  let result = ""
+  let i = 0
+  while (i < message.length) {
+    const char = message[i]
+    if (char === "{") {
+      const close = closingBrace(message, i)
+      if (close < 0) return result + message.slice(i)
+      result += formatArgument(locale, message.slice(i + 1, close), values, pluralValue)
+      i = close + 1
+    } else if (char === "#" && pluralValue !== undefined) {
+      result += formatValue(locale, pluralValue)
+      i += 1
+    } else {
+      result += char
+      i += 1
+    }
+  }
+  return result
+}
+
+// Keys looked up at runtime but missing from a catalog, reported in development
+const missingAtRuntime = new Map<LanguagePreference, Set<string>>()
+
+function recordMissing(language: LanguagePreference, key: string) {
+  if (!isDevelopment) return
+
+  const missing = missingAtRuntime.get(language) ?? new Set<string>()
+  if (missing.has(key)) return
+  missing.add(key)
+  missingAtRuntime.set(language, missing)
+  console.warn(`[i18n] Missing translation for "${key}" in ${language}`)
+}
+
+export function translate(language: LanguagePreference, key: MessageKey, values?: MessageValues): string {
+  let message = CATALOGS[language][key]
+  if (message === undefined) {
+    recordMissing(language, key)
+    message = CATALOGS.en[key] ?? key
+  }
+  return formatMessage(LOCALE_TAGS[language], message, values)
+}
+
+// Keys each locale is missing relative to English, plus any unknown keys requested at runtime
+export function getMissingTranslations(): Record<LanguagePreference, string[]> {
+  const sourceKeys = Object.keys(CATALOGS.en) as MessageKey[]
+  const report = {} as Record<LanguagePreference, string[]>
+
+  ;(Object.keys(CATALOGS) as LanguagePreference[]).forEach((language) => {
+    const missing = new Set<string>(sourceKeys.filter((key) => CATALOGS[language][key] === undefined))
+    missingAtRuntime.get(language)?.forEach((key) => missing.add(key))
+    report[language] = Array.from(missing).sort()
+  })
+  return report
+}
+
+// Log the missing-key report. Only does anything in development.
+export function reportMissingTranslations() {
+  if (!isDevelopment) return
+
+  const report = getMissingTranslations()
+  const incomplete = (Object.keys(report) as LanguagePreference[]).filter((language) => report[language].length > 0)
+  if (incomplete.length === 0) return
+
+  console.groupCollapsed(`[i18n] ${incomplete.length} locale(s) have missing translations`)
+  incomplete.forEach((language) => console.warn(`${language}: ${report[language].join(", ")}`))
+  console.groupEnd()
+}
+
+export function formatNumber(language: LanguagePreference, value: number, options?: Intl.NumberFormatOptions): string {
+  return numberFormat(LOCALE_TAGS[language], options).format(value)
+}
+
+// Token amount with the symbol, e.g. "1,234.5 GOLD"
+export function formatTokenAmount(
+  language: LanguagePreference,
+  amount: number,
+  symbol?: string,
+  maximumFractionDigits = 4,
+): string {
+  const formatted = numberFormat(LOCALE_TAGS[language], { maximumFractionDigits }).format(amount)
+  return symbol ? `${formatted} ${symbol}` : formatted
+}
+
+export function formatCurrency(language: LanguagePreference, value: number, currency = "USD"): string {
+  return numberFormat(LOCALE_TAGS[language], { style: "currency", currency }).format(value)
+}
+
+export function formatDate(
+  language: LanguagePreference,
+  date: number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" },
+): string {
+  return dateFormat(LOCALE_TAGS[language], options).format(date)
+}
@@ -1,61 +1,52 @@
-import { type Connection, type PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js"
+import { type Connection, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js"
 import type { Token } from "@/constants/tokens"
+import { estimatePriorityFee } from "@/services/priorityFees"
+import { getSettings } from "@/services/settingsStore"
+import { getAmountAfterTransferFee, getMintInfo, getTokenAccountAddress } from "@/services/tokenPrograms"
+import type { QuoteParams } from "@/services/swapAggregators"
+import { type TransactionSigner, sendTransaction } from "@/services/transactionEngine"
 
-// Jupiter API endpoints
-const JUPITER_QUOTE_API = "https://quote-api.jup.ag/v6/quote"
-const JUPITER_SWAP_API = "https://quote-api.jup.ag/v6/swap"
-
-// Quote parameters
-interface QuoteParams {
-  inputMint: string
-  outputMint: string
-  amount: string
-  slippageBps: number
-  onlyDirectRoutes?: boolean
-  asLegacyTransaction?: boolean
-}
+// Quotes and swap transactions come through the app's API routes, which cache, rate limit and forward
+// them to the configured aggregator
+const QUOTE_API = "/api/quote"
+const SWAP_API = "/api/swap"
 
 // Swap parameters
 interface SwapParams {
   connection: Connection
-  wallet: {
-    publicKey: PublicKey
-    signTransaction?: (tx: Transaction | VersionedTransaction) => Promise<Transaction | VersionedTransaction>
-  }
+  wallet: TransactionSigner
   fromToken: Token
   toToken: Token
   quote: any
   slippageBps: number
 }
 
-// Get quote from Jupiter API
-export async function getQuote(params: QuoteParams) {
+// Error message from an API route's `{ error, details }` response
+async function readApiError(response: Response): Promise<string> {
   try {
-    // Construct the URL with query parameters
-    const url = new URL(JUPITER_QUOTE_API)
-    url.searchParams.append("inputMint", params.inputMint)
-    url.searchParams.append("outputMint", params.outputMint)
-    url.searchParams.append("amount", params.amount)
-    url.searchParams.append("slippageBps", params.slippageBps.toString())
-
-    if (params.onlyDirectRoutes) {
-      url.searchParams.append("onlyDirectRoutes", "true")
-    }
-
-    if (params.asLegacyTransaction) {
-      url.searchParams.append("asLegacyTransaction", "true")
-    }
+    const { error, details } = await response.json()
+    return details ? `${error}: ${JSON.stringify(details)}` : error
+  } catch {
+    return `${response.status} ${response.statusText}`
+  }
+}
 
-    // Fetch quote from Jupiter API
-    const response = await fetch(url.toString())
+// Get quote through the quote API route
+export async function getQuote(params: QuoteParams) {
+  try {
+    const response = await fetch(QUOTE_API, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(params),
+    })
 
     if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(`Jupiter API error: ${JSON.stringify(errorData)}`)
+      throw new Error(`Quote API error: ${await readApiError(response)}`)
     }
 
-    const data = await response.json()
-    return data
+    return await response.json()
   } catch (error) {
     console.error("Error fetching quote:", error)
     throw error
@@ -73,20 +64,35 @@ export async function executeSwap(
       throw new Error("Wallet not connected")
     }
 
+    // Priority fee from the fees recently paid to trade against the route's AMMs
+    const ammKeys: PublicKey[] = (quote.routePlan ?? []).map((step: any) => new PublicKey(step.swapInfo.ammKey))
+    const computeUnitPriceMicroLamports = await estimatePriorityFee(
+      connection,
+      [wallet.publicKey, ...ammKeys],
+      getSettings().priorityFee,
+    )
+
+    // Jupiter only creates a missing output token account when it checks the user's accounts. Deriving the
+    // account with the output mint's program keeps Token-2022 outputs from being skipped.
+    const outputMint = await getMintInfo(connection, params.toToken.mint)
+    const outputAccount = await connection.getAccountInfo(getTokenAccountAddress(outputMint, wallet.publicKey))
+
+    // Quotes are before the output mint's transfer fee, which is withheld from what the wallet receives
+    const minimumReceived = await getAmountAfterTransferFee(connection, outputMint, BigInt(quote.otherAmountThreshold))
+
     // Prepare the swap transaction
     const swapRequestBody = {
       quoteResponse: quote,
       userPublicKey: wallet.publicKey.toString(),
       wrapAndUnwrapSol: true,
-      feeAccount: null,
-      computeUnitPriceMicroLamports: 50, // Adjust priority fee as needed
+      computeUnitPriceMicroLamports,
       asLegacyTransaction: true, // Use legacy transaction for better compatibility
       dynamicComputeUnitLimit: true, // Automatically adjust compute unit limit
-      skipUserAccountsCheck: true, // Skip checking if user has all required token accounts
+      skipUserAccountsCheck: outputAccount !== null, // Only skip the check when the output account exists
     }
 
     // Get the swap transaction
-    const swapResponse = await fetch(JUPITER_SWAP_API, {
+    const swapResponse = await fetch(SWAP_API, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -95,50 +101,31 @@ export async function executeSwap(
     })
 
     if (!swapResponse.ok) {
-      const errorData = await swapResponse.json()
-      throw new Error(`Jupiter Swap API error: ${JSON.stringify(errorData)}`)
+      throw new Error(`Swap API error: ${await readApiError(swapResponse)}`)
     }
 
     const swapData = await swapResponse.json()
 
-    // Sign and send the transaction
-    let signedTx
-    let signature
-
     if (swapData.swapTransaction) {
-      // Decode and sign the transaction
+      // Decode the transaction, versioned or legacy
       const serializedTransaction = Buffer.from(swapData.swapTransaction, "base64")
-
+      let transaction: Transaction | VersionedTransaction
       try {
-        // Try to decode as versioned transaction first
-        const tx = VersionedTransaction.deserialize(serializedTransaction)
-
-        // Sign the transaction
-        if (wallet.signTransaction) {
-          signedTx = await wallet.signTransaction(tx)
-          signature = await connection.sendRawTransaction(signedTx.serialize())
-        } else {
-          throw new Error("Wallet does not support signing transactions")
-        }
+        transaction = VersionedTransaction.deserialize(serializedTransaction)
       } catch (e) {
-        // If not a versioned transaction, try legacy transaction
-        const tx = Transaction.from(serializedTransaction)
-
-        // Sign the transaction
-        if (wallet.signTransaction) {
-          signedTx = await wallet.signTransaction(tx)
-          signature = await connection.sendRawTransaction(signedTx.serialize())
-        } else {
-          throw new Error("Wallet does not support signing transactions")
-        }
+        transaction = Transaction.from(serializedTransaction)
       }
 
-      // Wait for confirmation
-      const confirmation = await connection.confirmTransaction(signature, "confirmed")
-
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${confirmation.value.err.toString()}`)
-      }
+      // Sign, send and wait for confirmation. Jupiter already sized the compute budget.
+      const signature = await sendTransaction(connection, wallet, transaction, {
+        label: `Swap ${params.fromToken.symbol} for ${params.toToken.symbol}`,
+        lastValidBlockHeight: swapData.lastValidBlockHeight,
+        priorityFee: false,
+        minimumReceived: {
+          symbol: params.toToken.symbol,
+          amount: Number(minimumReceived) / Math.pow(10, outputMint.decimals),
+        },
+      })
 
       return {
         success: true,
@@ -146,7 +133,7 @@ export async function executeSwap(
         signature,
       }
     } else {
-      throw new Error("No swap transaction returned from Jupiter API")
+      throw new Error("No swap transaction returned from the swap API")
     }
   } catch (error: any) {
     console.error("Error executing swap:", error)
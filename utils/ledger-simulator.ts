@@ -0,0 +1,974 @@
+import { AVAILABLE_TOKENS, SOL_TOKEN, type Token } from "@/constants/tokens"
+import { toRawAmount, toUiAmount } from "@/utils/staking-layout"
+
+// Deterministic in-memory Solana ledger used by the simulator backend and the testing dashboard.
+// Amounts are tracked in raw units so every transaction conserves supply exactly.
+
+export const SLOT_DURATION_MS = 400
+export const BASE_FEE_LAMPORTS = BigInt(5000)
+export const TOKEN_ACCOUNT_RENT_LAMPORTS = BigInt(2039280)
+export const POOL_FEE_BPS = 30
+export const LP_DECIMALS = 9
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000
+const BPS = BigInt(10000)
+const ZERO = BigInt(0)
+
+// Genesis for deterministic runs: 2024-06-01T00:00:00Z
+export const LEDGER_GENESIS_TIME = 1717200000 * 1000
+
+// Well-known owners for program-held accounts
+export const PROTOCOL_OWNER = "protocol"
+export const BRIDGE_ESCROW_OWNER = "bridge-escrow"
+
+export type LedgerBalances = Record<string, number>
+
+export interface LedgerPoolConfig {
+  id: string
+  tokenA: string
+  tokenB: string
+  reserveA: number
+  reserveB: number
+}
+
+export interface LedgerOptions {
+  tokens?: Token[]
+  pools?: LedgerPoolConfig[]
+  initialBalances?: LedgerBalances // minted to every owner the first time they transact
+  stakingApy?: number // percent
+  lockupPeriod?: number // seconds
+  faucetCooldown?: number // seconds, 0 to disable
+  signaturePrefix?: string
+  genesisTime?: number // ms, used when no clock is given
+  clock?: () => number // ms; follow a real clock instead of the slot clock
+  referencePrices?: Record<string, number> // USD, used to value pools
+}
+
+// SPL token account
+export interface LedgerTokenAccount {
+  address: string
+  owner: string
+  symbol: string
+  mint: string
+  amount: bigint
+}
+
+interface LedgerPool {
+  id: string
+  tokenA: string
+  tokenB: string
+  reserveA: bigint
+  reserveB: bigint
+  lpSymbol: string
+  lpSupply: bigint
+  feeVault: Record<string, bigint> // swap fees held for liquidity providers
+  accruedFees: Record<string, Record<string, bigint>> // owner -> symbol -> amount
+  volume: number // USD
+}
+
+interface LedgerStakePosition {
+  amount: bigint
+  stakeTime: number // ms, time of the latest deposit
+  lastUpdateTime: number // ms
+  rewards: bigint
+}
+
+interface LedgerBridgeTransfer {
+  signature: string
+  owner: string
+  targetNetwork: string
+  amount: bigint
+  slot: number
+}
+
+export type LedgerTransactionType =
+  | "airdrop"
+  | "mint"
+  | "transfer"
+  | "swap"
+  | "addLiquidity"
+  | "removeLiquidity"
+  | "claimPoolFees"
+  | "stake"
+  | "unstake"
+  | "claimStakingRewards"
+  | "faucet"
+  | "bridge"
+
+export interface LedgerTransaction {
+  signature: string
+  type: LedgerTransactionType
+  payer: string
+  slot: number
+  timestamp: number
+  status: "confirmed" | "failed"
+  error?: string
+}
+
+interface LedgerState {
+  slot: number
+  warpMs: number
+  transactionCount: number
+  lamports: Record<string, bigint>
+  tokenAccounts: Record<string, LedgerTokenAccount>
+  pools: Record<string, LedgerPool>
+  stakes: Record<string, LedgerStakePosition>
+  stakeVault: bigint
+  faucetClaims: Record<string, number>
+  bridgeTransfers: LedgerBridgeTransfer[]
+  supply: Record<string, bigint>
+  collectedFees: bigint // lamports
+  rentDeposits: bigint // lamports
+  fundedOwners: string[]
+  transactions: LedgerTransaction[]
+}
+
+// Opaque copy of the ledger state
+export interface LedgerSnapshot {
+  readonly slot: number
+  readonly state: LedgerState
+}
+
+// Called after every change to ledger state: a transaction, a clock warp or a restore
+export type LedgerListener = (slot: number) => void
+
+// Error thrown when a transaction would break a ledger invariant
+export class LedgerInvariantError extends Error {
+  constructor(readonly violations: string[]) {
+    super(`Ledger invariant violated: ${violations.join("; ")}`)
+    this.name = "LedgerInvariantError"
+  }
+}
+
+export const DEFAULT_LEDGER_POOLS: LedgerPoolConfig[] = [
+  { id: "GOLD-SOL", tokenA: "GOLD", tokenB: "SOL", reserveA: 500000, reserveB: 2500 },
+  { id: "GOLD-USDC", tokenA: "GOLD", tokenB: "USDC", reserveA: 300000, reserveB: 150000 },
+  { id: "SOL-USDC", tokenA: "SOL", tokenB: "USDC", reserveA: 16000, reserveB: 1600000 },
+  { id: "GOLD-BONK", tokenA: "GOLD", tokenB: "BONK", reserveA: 42000, reserveB: 33600000 },
+]
+
+export const DEFAULT_REFERENCE_PRICES: Record<string, number> = {
+  SOL: 100,
+  GOLD: 0.5,
+  USDC: 1,
+  BONK: 0.000625,
+}
+
+function cloneRecord<T>(record: Record<string, T>, clone: (value: T) => T): Record<string, T> {
+  const copy: Record<string, T> = {}
+  Object.keys(record).forEach((key) => (copy[key] = clone(record[key])))
+  return copy
+}
+
+function cloneState(state: LedgerState): LedgerState {
+  return {
+    ...state,
+    lamports: { ...state.lamports },
+    tokenAccounts: cloneRecord(state.tokenAccounts, (account) => ({ ...account })),
+    pools: cloneRecord(state.pools, (pool) => ({
+      ...pool,
+      feeVault: { ...pool.feeVault },
+      accruedFees: cloneRecord(pool.accruedFees, (fees) => ({ ...fees })),
+    })),
+    stakes: cloneRecord(state.stakes, (stake) => ({ ...stake })),
+    faucetClaims: { ...state.faucetClaims },
+    bridgeTransfers: state.bridgeTransfers.map((transfer) => ({ ...transfer })),
+    supply: { ...state.supply },
+    fundedOwners: [...state.fundedOwners],
+    transactions: state.transactions.map((transaction) => ({ ...transaction })),
+  }
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, ZERO)
+}
+
+// Integer square root for initial LP supply
+function sqrt(value: bigint): bigint {
+  if (value < BigInt(2)) return value
+  let x = value
+  let y = (x + BigInt(1)) / BigInt(2)
+  while (y < x) {
+    x = y
+    y = (x + value / x) / BigInt(2)
+  }
+  return x
+}
+
+// Constant-product output for an input amount, after the pool fee
+function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  const amountInAfterFee = (amountIn * BigInt(10000 - POOL_FEE_BPS)) / BPS
+  return (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee)
+}
+
+export class LedgerSimulator {
+  private state: LedgerState
+  private readonly tokens: Token[]
+  private readonly options: LedgerOptions
+  private readonly genesis: LedgerSnapshot
+  private readonly listeners = new Set<LedgerListener>()
+  private silent = false // set during a dry run, whose changes listeners never see
+
+  constructor(options: LedgerOptions = {}) {
+    this.options = options
+    this.tokens = options.tokens ?? AVAILABLE_TOKENS
+    this.state = this.createGenesisState()
+    this.genesis = this.snapshot()
+  }
+
+  private createGenesisState(): LedgerState {
+    const state: LedgerState = {
+      slot: 0,
+      warpMs: 0,
+      transactionCount: 0,
+      lamports: {},
+      tokenAccounts: {},
+      pools: {},
+      stakes: {},
+      stakeVault: ZERO,
+      faucetClaims: {},
+      bridgeTransfers: [],
+      supply: {},
+      collectedFees: ZERO,
+      rentDeposits: ZERO,
+      fundedOwners: [],
+      transactions: [],
+    }
+    this.tokens.forEach((token) => (state.supply[token.symbol] = ZERO))
+    this.state = state
+
+    // Seed pools; the protocol owns the initial liquidity
+    ;(this.options.pools ?? DEFAULT_LEDGER_POOLS).forEach((config) => {
+      const reserveA = this.toRaw(config.tokenA, config.reserveA)
+      const reserveB = this.toRaw(config.tokenB, config.reserveB)
+      const lpSymbol = `${config.id}-LP`
+      const lpSupply = sqrt(reserveA * reserveB)
+
+      state.supply[config.tokenA] = (state.supply[config.tokenA] ?? ZERO) + reserveA
+      state.supply[config.tokenB] = (state.supply[config.tokenB] ?? ZERO) + reserveB
+      state.supply[lpSymbol] = lpSupply
+      state.pools[config.id] = {
+        id: config.id,
+        tokenA: config.tokenA,
+        tokenB: config.tokenB,
+        reserveA,
+        reserveB,
+        lpSymbol,
+        lpSupply,
+        feeVault: { [config.tokenA]: ZERO, [config.tokenB]: ZERO },
+        accruedFees: {},
+        volume: 0,
+      }
+      this.openTokenAccount(PROTOCOL_OWNER, lpSymbol).amount = lpSupply
+    })
+
+    return state
+  }
+
+  // Clock
+
+  get slot(): number {
+    return this.state.slot
+  }
+
+  // Current ledger time in ms
+  now(): number {
+    if (this.options.clock) return this.options.clock() + this.state.warpMs
+    return (this.options.genesisTime ?? LEDGER_GENESIS_TIME) + this.state.slot * SLOT_DURATION_MS
+  }
+
+  advanceSlots(slots: number) {
+    this.state.slot += Math.max(0, Math.floor(slots))
+  }
+
+  // Move the clock forward, e.g. past a staking lockup
+  warp(seconds: number) {
+    const ms = Math.max(0, seconds * 1000)
+    this.state.slot += Math.ceil(ms / SLOT_DURATION_MS)
+    this.state.warpMs += ms
+    this.notify()
+  }
+
+  // Snapshots
+
+  snapshot(): LedgerSnapshot {
+    return { slot: this.state.slot, state: cloneState(this.state) }
+  }
+
+  restore(snapshot: LedgerSnapshot) {
+    this.state = cloneState(snapshot.state)
+    this.notify()
+  }
+
+  reset() {
+    this.restore(this.genesis)
+  }
+
+  // Run changes and roll them back, returning what run read from the changed ledger. Listeners aren't
+  // notified of either, e.g. while previewing a transaction the user hasn't confirmed.
+  dryRun<T>(run: () => T): T {
+    const state = cloneState(this.state)
+    const silent = this.silent
+    this.silent = true
+    try {
+      return run()
+    } finally {
+      this.state = state
+      this.silent = silent
+    }
+  }
+
+  // Subscriptions
+
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify() {
+    if (this.silent) return
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.state.slot)
+      } catch (error) {
+        console.error("Error in ledger listener:", error)
+      }
+    })
+  }
+
+  // Tokens and amounts
+
+  getToken(symbol: string): Token {
+    const token = this.tokens.find((t) => t.symbol === symbol)
+    if (token) return token
+    if (symbol.endsWith("-LP")) {
+      return { name: `${symbol} token`, symbol, mint: `${symbol}-mint`, decimals: LP_DECIMALS, logoURI: "" }
+    }
+    throw new Error(`Unknown token ${symbol}`)
+  }
+
+  toRaw(symbol: string, amount: number): bigint {
+    return toRawAmount(amount, this.getToken(symbol).decimals)
+  }
+
+  toUi(symbol: string, amount: bigint): number {
+    return toUiAmount(amount, this.getToken(symbol).decimals)
+  }
+
+  private isNative(symbol: string) {
+    return symbol === SOL_TOKEN.symbol
+  }
+
+  // Accounts
+
+  private tokenAccountAddress(owner: string, symbol: string) {
+    return `${owner}:${this.getToken(symbol).mint}`
+  }
+
+  private openTokenAccount(owner: string, symbol: string, payer?: string): LedgerTokenAccount {
+    const address = this.tokenAccountAddress(owner, symbol)
+    let account = this.state.tokenAccounts[address]
+
+    if (!account) {
+      // The payer funds rent for accounts it creates, like an associated token account
+      if (payer) {
+        this.debitRaw(payer, SOL_TOKEN.symbol, TOKEN_ACCOUNT_RENT_LAMPORTS)
+        this.state.rentDeposits += TOKEN_ACCOUNT_RENT_LAMPORTS
+      }
+      account = { address, owner, symbol, mint: this.getToken(symbol).mint, amount: ZERO }
+      this.state.tokenAccounts[address] = account
+    }
+
+    return account
+  }
+
+  getRawBalance(owner: string, symbol: string): bigint {
+    if (this.isNative(symbol)) return this.state.lamports[owner] ?? ZERO
+    return this.state.tokenAccounts[this.tokenAccountAddress(owner, symbol)]?.amount ?? ZERO
+  }
+
+  getBalance(owner: string, symbol: string): number {
+    return this.toUi(symbol, this.getRawBalance(owner, symbol))
+  }
+
+  // Balances for every known token, plus any LP tokens the owner holds
+  getBalances(owner: string): LedgerBalances {
+    const balances: LedgerBalances = {}
+    this.tokens.forEach((token) => (balances[token.symbol] = this.getBalance(owner, token.symbol)))
+    this.getTokenAccounts(owner)
+      .filter((account) => !(account.symbol in balances))
+      .forEach((account) => (balances[account.symbol] = this.toUi(account.symbol, account.amount)))
+    return balances
+  }
+
+  getTokenAccounts(owner: string): LedgerTokenAccount[] {
+    return Object.values(this.state.tokenAccounts)
+      .filter((account) => account.owner === owner)
+      .map((account) => ({ ...account }))
+  }
+
+  private debitRaw(owner: string, symbol: string, amount: bigint) {
+    const balance = this.getRawBalance(owner, symbol)
+    if (amount < ZERO || balance < amount) {
+      throw new Error(
+        `Insufficient ${symbol} balance. Required: ${this.toUi(symbol, amount)}, Available: ${this.toUi(symbol, balance)}`,
+      )
+    }
+
+    if (this.isNative(symbol)) {
+      this.state.lamports[owner] = balance - amount
+    } else {
+      this.openTokenAccount(owner, symbol).amount = balance - amount
+    }
+  }
+
+  private creditRaw(owner: string, symbol: string, amount: bigint, payer?: string) {
+    if (this.isNative(symbol)) {
+      this.state.lamports[owner] = this.getRawBalance(owner, symbol) + amount
+    } else {
+      this.openTokenAccount(owner, symbol, payer).amount += amount
+    }
+  }
+
+  private mintRaw(owner: string, symbol: string, amount: bigint, payer?: string) {
+    this.creditRaw(owner, symbol, amount, payer)
+    this.state.supply[symbol] = (this.state.supply[symbol] ?? ZERO) + amount
+  }
+
+  // Give an owner the initial balances the first time it is seen
+  openWallet(owner: string) {
+    if (!this.options.initialBalances || this.state.fundedOwners.includes(owner)) return
+
+    this.state.fundedOwners.push(owner)
+    Object.entries(this.options.initialBalances).forEach(([symbol, amount]) => {
+      if (amount > 0) this.mintRaw(owner, symbol, this.toRaw(symbol, amount))
+    })
+  }
+
+  // Transactions
+
+  // Run a transaction atomically: charge the fee, apply the changes, advance a slot.
+  // Any error rolls the ledger back and records the transaction as failed.
+  private transact<T>(
+    type: LedgerTransactionType,
+    payer: string,
+    apply: () => T,
+    chargeFee = true,
+  ): { signature: string; result: T } {
+    this.openWallet(payer)
+    const before = cloneState(this.state)
+
+    this.state.transactionCount += 1
+    this.state.slot += 1
+    const signature = `${this.options.signaturePrefix ?? "sim"}-${this.state.transactionCount}`
+    const transaction: LedgerTransaction = {
+      signature,
+      type,
+      payer,
+      slot: this.state.slot,
+      timestamp: this.now(),
+      status: "confirmed",
+    }
+
+    try {
+      if (chargeFee) {
+        this.debitRaw(payer, SOL_TOKEN.symbol, BASE_FEE_LAMPORTS)
+        this.state.collectedFees += BASE_FEE_LAMPORTS
+      }
+
+      const result = apply()
+
+      const violations = this.checkInvariants()
+      if (violations.length > 0) throw new LedgerInvariantError(violations)
+
+      this.state.transactions.push(transaction)
+      this.notify()
+      return { signature, result }
+    } catch (error: any) {
+      this.state = before
+      this.state.transactionCount += 1
+      this.state.slot = transaction.slot
+      this.state.transactions.push({ ...transaction, status: "failed", error: error.message })
+      throw error
+    }
+  }
+
+  getTransaction(signature: string): LedgerTransaction | undefined {
+    return this.state.transactions.find((transaction) => transaction.signature === signature)
+  }
+
+  getTransactions(): LedgerTransaction[] {
+    return this.state.transactions.map((transaction) => ({ ...transaction }))
+  }
+
+  // Devnet-style SOL airdrop, paid for by the cluster
+  airdrop(owner: string, amount: number): string {
+    return this.transact(
+      "airdrop",
+      owner,
+      () => this.mintRaw(owner, SOL_TOKEN.symbol, this.toRaw(SOL_TOKEN.symbol, amount)),
+      false,
+    ).signature
+  }
+
+  // Mint tokens to an owner, e.g. to seed a scenario
+  mintTo(owner: string, symbol: string, amount: number): string {
+    return this.transact("mint", owner, () => {
+      this.mintRaw(owner, symbol, this.toRaw(symbol, amount), owner)
+    }).signature
+  }
+
+  transfer(owner: string, recipient: string, symbol: string, amount: number): string {
+    return this.transact("transfer", owner, () => {
+      const raw = this.toRaw(symbol, amount)
+      if (raw <= ZERO) throw new Error("Amount must be greater than zero")
+      this.debitRaw(owner, symbol, raw)
+      this.creditRaw(recipient, symbol, raw, owner)
+    }).signature
+  }
+
+  // Swaps
+
+  getPoolIds(): string[] {
+    return Object.keys(this.state.pools)
+  }
+
+  // Pool state in UI units
+  getPool(poolId: string) {
+    const pool = this.poolById(poolId)
+    return {
+      id: pool.id,
+      tokenA: pool.tokenA,
+      tokenB: pool.tokenB,
+      reserveA: this.toUi(pool.tokenA, pool.reserveA),
+      reserveB: this.toUi(pool.tokenB, pool.reserveB),
+      lpSymbol: pool.lpSymbol,
+      lpSupply: this.toUi(pool.lpSymbol, pool.lpSupply),
+      volume: pool.volume,
+    }
+  }
+
+  private poolById(poolId: string): LedgerPool {
+    const pool = this.state.pools[poolId]
+    if (!pool) throw new Error(`Unknown pool ${poolId}`)
+    return pool
+  }
+
+  private findPool(tokenA: string, tokenB: string): LedgerPool | undefined {
+    return Object.values(this.state.pools).find(
+      (pool) => (pool.tokenA === tokenA && pool.tokenB === tokenB) || (pool.tokenA === tokenB && pool.tokenB === tokenA),
+    )
+  }
+
+  // Every direct pool and two-hop path through a shared token, direct first
+  findPaths(input: string, output: string): string[][] {
+    if (input === output) return []
+
+    const paths = this.tokens
+      .map((token) => token.symbol)
+      .filter(
+        (symbol) =>
+          symbol !== input && symbol !== output && this.findPool(input, symbol) && this.findPool(symbol, output),
+      )
+      .map((intermediate) => [input, intermediate, output])
+    return this.findPool(input, output) ? [[input, output], ...paths] : paths
+  }
+
+  // Direct pool, or a two-hop path through a shared token
+  findPath(input: string, output: string): string[] | null {
+    return this.findPaths(input, output)[0] ?? null
+  }
+
+  // A path from input to output whose every hop has a pool
+  private isPath(path: string[], input: string, output: string) {
+    return (
+      path.length >= 2 &&
+      path[0] === input &&
+      path[path.length - 1] === output &&
+      path.slice(1).every((symbol, i) => this.findPool(path[i], symbol))
+    )
+  }
+
+  private quoteRaw(path: string[], amountIn: bigint) {
+    let amount = amountIn
+    let spot = Number(amountIn)
+    const hopAmounts: bigint[] = [] // input of each hop
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const pool = this.findPool(path[i], path[i + 1])!
+      const [reserveIn, reserveOut] =
+        pool.tokenA === path[i] ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA]
+      hopAmounts.push(amount)
+      amount = getAmountOut(amount, reserveIn, reserveOut)
+      spot = (spot * Number(reserveOut)) / Number(reserveIn)
+    }
+
+    return { amountOut: amount, priceImpact: spot > 0 ? Math.max(0, 1 - Number(amount) / spot) : 0, hopAmounts }
+  }
+
+  // Quote along a path, by default the one swap() takes. Pool fees are in each hop's input token.
+  quoteSwap(input: string, output: string, amount: number, path = this.findPath(input, output)) {
+    if (!path || !this.isPath(path, input, output)) return null
+
+    const { amountOut, priceImpact, hopAmounts } = this.quoteRaw(path, this.toRaw(input, amount))
+    const fees = hopAmounts.map((hopAmount, i) => this.toUi(path[i], (hopAmount * BigInt(POOL_FEE_BPS)) / BPS))
+    return { path, amountOut: this.toUi(output, amountOut), priceImpact, fees }
+  }
+
+  swap(owner: string, input: string, output: string, amount: number, minAmountOut = 0, route?: string[]) {
+    const { signature, result } = this.transact("swap", owner, () => {
+      const path = route ?? this.findPath(input, output)
+      if (!path || !this.isPath(path, input, output)) throw new Error(`No route from ${input} to ${output}`)
+
+      const amountIn = this.toRaw(input, amount)
+      if (amountIn <= ZERO) throw new Error("Amount must be greater than zero")
+
+      const { amountOut } = this.quoteRaw(path, amountIn)
+      if (amountOut < this.toRaw(output, minAmountOut)) throw new Error("Slippage tolerance exceeded")
+
+      this.debitRaw(owner, input, amountIn)
+
+      // Apply each hop; the pool fee is set aside for liquidity providers
+      let hopAmount = amountIn
+      for (let i = 0; i < path.length - 1; i++) {
+        const pool = this.findPool(path[i], path[i + 1])!
+        const aToB = pool.tokenA === path[i]
+        const [reserveIn, reserveOut] = aToB ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA]
+        const out = getAmountOut(hopAmount, reserveIn, reserveOut)
+        const fee = (hopAmount * BigInt(POOL_FEE_BPS)) / BPS
+        const k = reserveIn * reserveOut
+
+        const newReserveIn = reserveIn + hopAmount - fee
+        const newReserveOut = reserveOut - out
+        if (newReserveIn * newReserveOut < k) throw new Error("Constant product decreased")
+
+        if (aToB) {
+          pool.reserveA = newReserveIn
+          pool.reserveB = newReserveOut
+        } else {
+          pool.reserveB = newReserveIn
+          pool.reserveA = newReserveOut
+        }
+
+        this.distributePoolFee(pool, path[i], fee)
+        pool.volume += this.toUi(path[i], hopAmount) * this.referencePrice(path[i])
+        hopAmount = out
+      }
+
+      this.creditRaw(owner, output, hopAmount, owner)
+      return { path, amountIn: this.toUi(input, amountIn), amountOut: this.toUi(output, hopAmount) }
+    })
+
+    return { signature, ...result }
+  }
+
+  // Split a swap fee between liquidity providers by LP share; rounding dust stays in the vault
+  private distributePoolFee(pool: LedgerPool, symbol: string, fee: bigint) {
+    pool.feeVault[symbol] = (pool.feeVault[symbol] ?? ZERO) + fee
+
+    this.lpAccounts(pool).forEach((account) => {
+      const share = (fee * account.amount) / pool.lpSupply
+      if (share <= ZERO) return
+
+      const fees = (pool.accruedFees[account.owner] = pool.accruedFees[account.owner] ?? {})
+      fees[symbol] = (fees[symbol] ?? ZERO) + share
+    })
+  }
+
+  private lpAccounts(pool: LedgerPool) {
+    return Object.values(this.state.tokenAccounts).filter(
+      (account) => account.symbol === pool.lpSymbol && account.amount > ZERO,
+    )
+  }
+
+  referencePrice(symbol: string): number {
+    return (this.options.referencePrices ?? DEFAULT_REFERENCE_PRICES)[symbol] ?? 0
+  }
+
+  // Liquidity
+
+  // Deposit tokenA with the matching amount of tokenB at the current pool ratio
+  addLiquidity(owner: string, poolId: string, amountA: number) {
+    const { signature, result } = this.transact("addLiquidity", owner, () => {
+      const pool = this.poolById(poolId)
+      const rawA = this.toRaw(pool.tokenA, amountA)
+      if (rawA <= ZERO) throw new Error("Amount must be greater than zero")
+
+      const rawB = (rawA * pool.reserveB + pool.reserveA - BigInt(1)) / pool.reserveA
+      const minted = (rawA * pool.lpSupply) / pool.reserveA
+      if (minted <= ZERO) throw new Error("Deposit too small")
+
+      this.debitRaw(owner, pool.tokenA, rawA)
+      this.debitRaw(owner, pool.tokenB, rawB)
+      pool.reserveA += rawA
+      pool.reserveB += rawB
+      pool.lpSupply += minted
+      this.mintRaw(owner, pool.lpSymbol, minted, owner)
+
+      return {
+        amountA: this.toUi(pool.tokenA, rawA),
+        amountB: this.toUi(pool.tokenB, rawB),
+        lpTokens: this.toUi(pool.lpSymbol, minted),
+      }
+    })
+
+    return { signature, ...result }
+  }
+
+  removeLiquidity(owner: string, poolId: string, lpTokens: number) {
+    const { signature, result } = this.transact("removeLiquidity", owner, () => {
+      const pool = this.poolById(poolId)
+      const burned = this.toRaw(pool.lpSymbol, lpTokens)
+      if (burned <= ZERO) throw new Error("Amount must be greater than zero")
+
+      const rawA = (pool.reserveA * burned) / pool.lpSupply
+      const rawB = (pool.reserveB * burned) / pool.lpSupply
+
+      this.debitRaw(owner, pool.lpSymbol, burned)
+      this.state.supply[pool.lpSymbol] -= burned
+      pool.lpSupply -= burned
+      pool.reserveA -= rawA
+      pool.reserveB -= rawB
+      this.creditRaw(owner, pool.tokenA, rawA, owner)
+      this.creditRaw(owner, pool.tokenB, rawB, owner)
+
+      return { amountA: this.toUi(pool.tokenA, rawA), amountB: this.toUi(pool.tokenB, rawB) }
+    })
+
+    return { signature, ...result }
+  }
+
+  // Fees owed to an owner, per token
+  getAccruedPoolFees(owner: string, poolId: string): LedgerBalances {
+    const pool = this.poolById(poolId)
+    const fees: LedgerBalances = {}
+    Object.entries(pool.accruedFees[owner] ?? {}).forEach(
+      ([symbol, amount]) => (fees[symbol] = this.toUi(symbol, amount)),
+    )
+    return fees
+  }
+
+  claimPoolFees(owner: string, poolId: string) {
+    const { signature, result } = this.transact("claimPoolFees", owner, () => {
+      const pool = this.poolById(poolId)
+      const fees = pool.accruedFees[owner] ?? {}
+      const claimed: LedgerBalances = {}
+
+      Object.entries(fees).forEach(([symbol, amount]) => {
+        if (amount <= ZERO) return
+        pool.feeVault[symbol] -= amount
+        this.creditRaw(owner, symbol, amount, owner)
+        claimed[symbol] = this.toUi(symbol, amount)
+      })
+
+      if (Object.keys(claimed).length === 0) throw new Error("No fees to claim")
+      delete pool.accruedFees[owner]
+      return claimed
+    })
+
+    return { signature, claimed: result }
+  }
+
+  // Staking
+
+  get stakingApy(): number {
+    return this.options.stakingApy ?? 0
+  }
+
+  get lockupPeriod(): number {
+    return this.options.lockupPeriod ?? 0
+  }
+
+  get totalStaked(): number {
+    return this.toUi(this.stakeSymbol, this.state.stakeVault)
+  }
+
+  private get stakeSymbol() {
+    return "GOLD"
+  }
+
+  // Rewards earned by a position up to now, in raw units
+  private pendingRewardsRaw(position: LedgerStakePosition, now: number): bigint {
+    const elapsed = Math.max(0, now - position.lastUpdateTime)
+    const apyBps = BigInt(Math.round(this.stakingApy * 100))
+    return position.rewards + (position.amount * apyBps * BigInt(Math.floor(elapsed))) / (BPS * BigInt(MS_PER_YEAR))
+  }
+
+  getStakePosition(owner: string) {
+    const position = this.state.stakes[owner]
+    if (!position) return null
+
+    const unlockTime = position.amount > ZERO ? position.stakeTime + this.lockupPeriod * 1000 : 0
+    return {
+      amount: this.toUi(this.stakeSymbol, position.amount),
+      rewards: this.toUi(this.stakeSymbol, this.pendingRewardsRaw(position, this.now())),
+      stakeTime: position.stakeTime,
+      lastUpdateTime: position.lastUpdateTime,
+      unlockTime,
+      isLocked: unlockTime > this.now(),
+    }
+  }
+
+  // Move rewards earned since the last update into the accrued balance
+  private settle(owner: string): LedgerStakePosition {
+    const now = this.now()
+    const position = this.state.stakes[owner] ?? { amount: ZERO, stakeTime: 0, lastUpdateTime: now, rewards: ZERO }
+    position.rewards = this.pendingRewardsRaw(position, now)
+    position.lastUpdateTime = now
+    this.state.stakes[owner] = position
+    return position
+  }
+
+  stake(owner: string, amount: number): string {
+    return this.transact("stake", owner, () => {
+      const raw = this.toRaw(this.stakeSymbol, amount)
+      if (raw <= ZERO) throw new Error("Amount must be greater than zero")
+
+      this.debitRaw(owner, this.stakeSymbol, raw)
+      // Each deposit restarts the lockup for the whole position
+      const position = this.settle(owner)
+      position.stakeTime = this.now()
+      position.amount += raw
+      this.state.stakeVault += raw
+    }).signature
+  }
+
+  unstake(owner: string, amount: number): string {
+    return this.transact("unstake", owner, () => {
+      const raw = this.toRaw(this.stakeSymbol, amount)
+      const position = this.getStakePosition(owner)
+
+      if (raw <= ZERO || !position || raw > this.toRaw(this.stakeSymbol, position.amount)) {
+        throw new Error("Amount exceeds staked balance")
+      }
+      if (position.isLocked) {
+        const days = Math.ceil((position.unlockTime - this.now()) / 86400000)
+        throw new Error(`Stake is still locked. ${days} days remaining.`)
+      }
+
+      const settled = this.settle(owner)
+      settled.amount -= raw
+      this.state.stakeVault -= raw
+      this.creditRaw(owner, this.stakeSymbol, raw, owner)
+    }).signature
+  }
+
+  claimStakingRewards(owner: string) {
+    const { signature, result } = this.transact("claimStakingRewards", owner, () => {
+      const position = this.settle(owner)
+      if (position.rewards <= ZERO) throw new Error("No rewards to claim")
+
+      const rewards = position.rewards
+      position.rewards = ZERO
+      this.mintRaw(owner, this.stakeSymbol, rewards, owner)
+      return this.toUi(this.stakeSymbol, rewards)
+    })
+
+    return { signature, rewards: result }
+  }
+
+  // Faucet
+
+  // Seconds until the owner can claim from the faucet again
+  getFaucetCooldownRemaining(owner: string): number {
+    const lastClaim = this.state.faucetClaims[owner]
+    const cooldown = this.options.faucetCooldown ?? 0
+    if (!lastClaim || cooldown <= 0) return 0
+    return Math.max(0, Math.ceil((lastClaim + cooldown * 1000 - this.now()) / 1000))
+  }
+
+  claimFaucet(owner: string, amount: number): string {
+    return this.transact("faucet", owner, () => {
+      const remaining = this.getFaucetCooldownRemaining(owner)
+      if (remaining > 0) {
+        const hours = Math.floor(remaining / 3600)
+        const minutes = Math.floor((remaining % 3600) / 60)
+        throw new Error(`Cannot claim yet. ${hours}h ${minutes}m remaining.`)
+      }
+
+      this.mintRaw(owner, "GOLD", this.toRaw("GOLD", amount), owner)
+      this.state.faucetClaims[owner] = this.now()
+    }).signature
+  }
+
+  // Bridge
+
+  // Lock GOLD in the bridge escrow for release on another network
+  bridgeOut(owner: string, amount: number, targetNetwork: string): string {
+    return this.transact("bridge", owner, () => {
+      const raw = this.toRaw("GOLD", amount)
+      if (raw <= ZERO) throw new Error("Amount must be greater than zero")
+
+      this.debitRaw(owner, "GOLD", raw)
+      this.creditRaw(BRIDGE_ESCROW_OWNER, "GOLD", raw)
+      this.state.bridgeTransfers.push({
+        signature: `${this.options.signaturePrefix ?? "sim"}-${this.state.transactionCount}`,
+        owner,
+        targetNetwork,
+        amount: raw,
+        slot: this.state.slot,
+      })
+    }).signature
+  }
+
+  getBridgeTransfers(owner: string) {
+    return this.state.bridgeTransfers
+      .filter((transfer) => transfer.owner === owner)
+      .map((transfer) => ({ ...transfer, amount: this.toUi("GOLD", transfer.amount) }))
+  }
+
+  // Invariants
+
+  // Returns a description of every broken invariant; empty when the ledger is consistent
+  checkInvariants(): string[] {
+    const violations: string[] = []
+    const { state } = this
+    const pools = Object.values(state.pools)
+
+    Object.entries(state.lamports).forEach(([owner, lamports]) => {
+      if (lamports < ZERO) violations.push(`negative SOL balance for ${owner}`)
+    })
+    Object.values(state.tokenAccounts).forEach((account) => {
+      if (account.amount < ZERO) violations.push(`negative ${account.symbol} balance for ${account.owner}`)
+    })
+
+    // Every unit of supply is held by exactly one account, reserve, vault or fee sink
+    Object.keys(state.supply).forEach((symbol) => {
+      const held = this.isNative(symbol)
+        ? sum(Object.values(state.lamports)) + state.collectedFees + state.rentDeposits
+        : sum(Object.values(state.tokenAccounts).filter((a) => a.symbol === symbol).map((a) => a.amount))
+      const pooled = sum(
+        pools.map(
+          (pool) =>
+            (pool.tokenA === symbol ? pool.reserveA : ZERO) +
+            (pool.tokenB === symbol ? pool.reserveB : ZERO) +
+            (pool.feeVault[symbol] ?? ZERO),
+        ),
+      )
+      const staked = symbol === this.stakeSymbol ? state.stakeVault : ZERO
+
+      if (held + pooled + staked !== state.supply[symbol]) {
+        violations.push(`${symbol} supply mismatch`)
+      }
+    })
+
+    pools.forEach((pool) => {
+      if (pool.reserveA <= ZERO || pool.reserveB <= ZERO) violations.push(`${pool.id} reserves depleted`)
+
+      const lpHeld = sum(this.lpAccounts(pool).map((account) => account.amount))
+      if (lpHeld !== pool.lpSupply) violations.push(`${pool.id} LP supply mismatch`)
+
+      Object.keys(pool.feeVault).forEach((symbol) => {
+        const owed = sum(Object.values(pool.accruedFees).map((fees) => fees[symbol] ?? ZERO))
+        if (owed > pool.feeVault[symbol]) violations.push(`${pool.id} owes more ${symbol} fees than it holds`)
+      })
+    })
+
+    const staked = sum(Object.values(state.stakes).map((position) => position.amount))
+    if (staked !== state.stakeVault) violations.push("stake vault mismatch")
+
+    return violations
+  }
+}
@@ -0,0 +1,56 @@
+import { PublicKey } from "@solana/web3.js"
+import type { StakingPoolAccount, UserStakeAccount } from "@/utils/staking-layout"
+
+// Captured staking program account data with the values each field is expected to decode to.
+// Used to check the account layouts offline and to seed local/recorded backends.
+
+export interface AccountFixture<T> {
+  address: string
+  owner: string
+  data: string // base64
+  decoded: T
+}
+
+// Staking pool PDA (seed "staking_pool")
+export const STAKING_POOL_FIXTURE: AccountFixture<StakingPoolAccount> = {
+  address: "8TfCndXXdpw8ftqKcsGts4qXzJgGVuuTdEFQtxv3DMjg",
+  owner: "GStKMnqHM6uJiVKGiznWSJQNuDtcMiNMM2WgaTJgr5P9",
+  data:
+    "yxPW3NyaGGZ+jAiHYL/eHd3PMsF/IJuCQu5SqvEx+s2I0OosbQsG8pH0TwhaJhmJGAo5nC9lHOR4aNnH5T5yeLDGpIyyG5Z/kfRPCFomGYkYCjmcL2Uc" +
+    "5Hho2cflPnJ4sMakjLIbln8ThOiLhUHntR2KAJ28CFDrgXhaAouG9to1pNbDalBdsAAg+E3ecAQA4gQAAAAAAAAAAIBkWmYAAAAA/w==",
+  decoded: {
+    authority: new PublicKey("9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"),
+    stakeMint: new PublicKey("ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump"),
+    rewardMint: new PublicKey("ApkBg8kzMBpVKxvgrw67vkd5KuGWqSu2GVb19eK4pump"),
+    vault: new PublicKey("2KCHtGQQ7FpNrXEae125hqgy4AbP4BHwiew6qEW4nLo1"),
+    totalStaked: BigInt("1250000000000000"), // 1,250,000 GOLD
+    rewardRateBps: 1250, // 12.5% APY
+    lockupPeriod: 0, // flexible
+    lastUpdateTime: 1717200000,
+    bump: 255,
+  },
+}
+
+// User stake PDA (seeds "user_stake" + 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU)
+export const USER_STAKE_FIXTURE: AccountFixture<UserStakeAccount> = {
+  address: "C7eKKqsWxEmnJwNm6P5GpDiV8VDDpDs5PE9SGYx8VRF3",
+  owner: "GStKMnqHM6uJiVKGiznWSJQNuDtcMiNMM2WgaTJgr5P9",
+  data:
+    "ZjWjawmKV5lnUgVcILPp2HRmVt33OFVQf4erbYdSPkx2p/o2CWqZ627WGyVR48vlnkpuWxzXzRMwJDlovdsrByf+tCRieKTbAIhSanQAAAAAKlFmAAAA" +
+    "AIBkWmYAAAAAgKvpowAAAAAAcFZmAAAAAP0=",
+  decoded: {
+    owner: new PublicKey("7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU"),
+    pool: new PublicKey("8TfCndXXdpw8ftqKcsGts4qXzJgGVuuTdEFQtxv3DMjg"),
+    amount: BigInt("500000000000"), // 500 GOLD
+    stakeTimestamp: 1716595200,
+    lockupEnd: 1717200000, // 7 days after staking
+    rewardsAccrued: BigInt("2750000000"), // 2.75 GOLD
+    lastClaimTime: 1716940800,
+    bump: 253,
+  },
+}
+
+// Decode a fixture's base64 data into raw account bytes
+export function fixtureData(fixture: AccountFixture<unknown>): Buffer {
+  return Buffer.from(fixture.data, "base64")
+}
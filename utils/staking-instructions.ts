@@ -0,0 +1,181 @@
+import {
+  type AccountMeta,
+  type PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from "@solana/web3.js"
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from "@solana/spl-token"
+import { BorshWriter } from "@/utils/staking-layout"
+
+// Anchor instruction discriminators: first 8 bytes of sha256("global:<instruction_name>")
+export const STAKING_INSTRUCTION_DISCRIMINATORS = {
+  initializePool: Buffer.from([95, 180, 10, 172, 84, 174, 232, 40]),
+  stake: Buffer.from([206, 176, 202, 18, 200, 209, 179, 108]),
+  unstake: Buffer.from([90, 95, 107, 42, 205, 124, 50, 225]),
+  claimRewards: Buffer.from([4, 144, 132, 71, 116, 23, 151, 80]),
+  updateRewardRate: Buffer.from([105, 157, 0, 185, 21, 144, 163, 159]),
+}
+
+export type StakingInstructionName = keyof typeof STAKING_INSTRUCTION_DISCRIMINATORS
+
+// Instruction args
+export interface InitializePoolArgs {
+  rewardRateBps: number // annual reward rate in basis points
+  lockupPeriod: number // seconds, 0 for flexible
+}
+
+export interface StakeArgs {
+  amount: bigint // raw token units
+}
+
+export interface UnstakeArgs {
+  amount: bigint // raw token units
+}
+
+export interface UpdateRewardRateArgs {
+  rewardRateBps: number
+}
+
+// Instruction accounts
+export interface InitializePoolAccounts {
+  authority: PublicKey
+  pool: PublicKey
+  stakeMint: PublicKey
+  rewardMint: PublicKey
+  vault: PublicKey
+  tokenProgram: PublicKey // program owning the stake mint, SPL Token or Token-2022
+}
+
+// Accounts shared by stake, unstake and claim
+export interface UserStakeInstructionAccounts {
+  owner: PublicKey
+  userStake: PublicKey
+  pool: PublicKey
+  userTokenAccount: PublicKey
+  vault: PublicKey
+  stakeMint: PublicKey
+  tokenProgram: PublicKey // program owning the stake mint, SPL Token or Token-2022
+}
+
+export interface UpdateRewardRateAccounts {
+  authority: PublicKey
+  pool: PublicKey
+}
+
+function writable(pubkey: PublicKey, isSigner = false): AccountMeta {
+  return { pubkey, isSigner, isWritable: true }
+}
+
+function readonly(pubkey: PublicKey, isSigner = false): AccountMeta {
+  return { pubkey, isSigner, isWritable: false }
+}
+
+function userStakeKeys(accounts: UserStakeInstructionAccounts): AccountMeta[] {
+  return [
+    writable(accounts.owner, true),
+    writable(accounts.userStake),
+    writable(accounts.pool),
+    writable(accounts.userTokenAccount),
+    writable(accounts.vault),
+    readonly(accounts.stakeMint),
+    readonly(accounts.tokenProgram),
+  ]
+}
+
+// Create an initialize_pool instruction
+export function createInitializePoolInstruction(
+  accounts: InitializePoolAccounts,
+  args: InitializePoolArgs,
+  programId: PublicKey,
+): TransactionInstruction {
+  const data = new BorshWriter()
+    .bytes(STAKING_INSTRUCTION_DISCRIMINATORS.initializePool)
+    .u16(args.rewardRateBps)
+    .i64(args.lockupPeriod)
+    .toBuffer()
+
+  return new TransactionInstruction({
+    keys: [
+      writable(accounts.authority, true),
+      writable(accounts.pool),
+      readonly(accounts.stakeMint),
+      readonly(accounts.rewardMint),
+      writable(accounts.vault),
+      readonly(accounts.tokenProgram),
+      readonly(ASSOCIATED_TOKEN_PROGRAM_ID),
+      readonly(SystemProgram.programId),
+      readonly(SYSVAR_RENT_PUBKEY),
+    ],
+    programId,
+    data,
+  })
+}
+
+// Create a stake instruction
+export function createStakeInstruction(
+  accounts: UserStakeInstructionAccounts,
+  args: StakeArgs,
+  programId: PublicKey,
+): TransactionInstruction {
+  const data = new BorshWriter().bytes(STAKING_INSTRUCTION_DISCRIMINATORS.stake).u64(args.amount).toBuffer()
+
+  return new TransactionInstruction({
+    // The user stake account is created on first stake, so the system program is required
+    keys: [...userStakeKeys(accounts), readonly(SystemProgram.programId)],
+    programId,
+    data,
+  })
+}
+
+// Create an unstake instruction
+export function createUnstakeInstruction(
+  accounts: UserStakeInstructionAccounts,
+  args: UnstakeArgs,
+  programId: PublicKey,
+): TransactionInstruction {
+  const data = new BorshWriter().bytes(STAKING_INSTRUCTION_DISCRIMINATORS.unstake).u64(args.amount).toBuffer()
+
+  return new TransactionInstruction({
+    keys: userStakeKeys(accounts),
+    programId,
+    data,
+  })
+}
+
+// Create a claim_rewards instruction
+export function createClaimRewardsInstruction(
+  accounts: UserStakeInstructionAccounts,
+  programId: PublicKey,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: userStakeKeys(accounts),
+    programId,
+    data: Buffer.from(STAKING_INSTRUCTION_DISCRIMINATORS.claimRewards),
+  })
+}
+
+// Create an update_reward_rate instruction
+export function createUpdateRewardRateInstruction(
+  accounts: UpdateRewardRateAccounts,
+  args: UpdateRewardRateArgs,
+  programId: PublicKey,
+): TransactionInstruction {
+  const data = new BorshWriter()
+    .bytes(STAKING_INSTRUCTION_DISCRIMINATORS.updateRewardRate)
+    .u16(args.rewardRateBps)
+    .toBuffer()
+
+  return new TransactionInstruction({
+    keys: [readonly(accounts.authority, true), writable(accounts.pool)],
+    programId,
+    data,
+  })
+}
+
+// Identify which staking instruction a data buffer encodes
+export function getStakingInstructionName(data: Buffer | Uint8Array): StakingInstructionName | null {
+  const discriminator = Buffer.from(data).subarray(0, 8)
+  const entry = Object.entries(STAKING_INSTRUCTION_DISCRIMINATORS).find(([, value]) => value.equals(discriminator))
+  return entry ? (entry[0] as StakingInstructionName) : null
+}
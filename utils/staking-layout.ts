@@ -0,0 +1,210 @@
+import { PublicKey } from "@solana/web3.js"
+
+// Anchor account discriminators: first 8 bytes of sha256("account:<AccountName>")
+export const STAKING_POOL_DISCRIMINATOR = Buffer.from([203, 19, 214, 220, 220, 154, 24, 102])
+export const USER_STAKE_DISCRIMINATOR = Buffer.from([102, 53, 163, 107, 9, 138, 87, 153])
+
+// Serialized account sizes (discriminator included)
+export const STAKING_POOL_ACCOUNT_SIZE = 8 + 32 * 4 + 8 + 2 + 8 + 8 + 1
+export const USER_STAKE_ACCOUNT_SIZE = 8 + 32 * 2 + 8 + 8 + 8 + 8 + 8 + 1
+
+// On-chain staking pool account
+export interface StakingPoolAccount {
+  authority: PublicKey
+  stakeMint: PublicKey
+  rewardMint: PublicKey
+  vault: PublicKey
+  totalStaked: bigint // raw token units
+  rewardRateBps: number // annual reward rate in basis points
+  lockupPeriod: number // seconds, 0 for flexible
+  lastUpdateTime: number // unix seconds
+  bump: number
+}
+
+// On-chain user stake account
+export interface UserStakeAccount {
+  owner: PublicKey
+  pool: PublicKey
+  amount: bigint // raw token units
+  stakeTimestamp: number // unix seconds
+  lockupEnd: number // unix seconds, 0 when not locked
+  rewardsAccrued: bigint // raw token units
+  lastClaimTime: number // unix seconds
+  bump: number
+}
+
+// Error thrown when account bytes don't match the expected layout
+export class AccountLayoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AccountLayoutError"
+  }
+}
+
+// Sequential little-endian reader for Borsh-encoded data
+class BorshReader {
+  private offset = 0
+
+  constructor(private readonly data: Buffer) {}
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new AccountLayoutError(
+        `Unexpected end of account data: need ${length} bytes at offset ${this.offset}, have ${this.data.length}`,
+      )
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+
+  u8(): number {
+    return this.take(1)[0]
+  }
+
+  u16(): number {
+    return this.take(2).readUInt16LE(0)
+  }
+
+  u64(): bigint {
+    return this.take(8).readBigUInt64LE(0)
+  }
+
+  i64(): number {
+    return Number(this.take(8).readBigInt64LE(0))
+  }
+
+  publicKey(): PublicKey {
+    return new PublicKey(this.take(32))
+  }
+
+  discriminator(expected: Buffer, accountName: string) {
+    const actual = this.take(8)
+    if (!actual.equals(expected)) {
+      throw new AccountLayoutError(`Account data is not a ${accountName} account`)
+    }
+  }
+}
+
+// Sequential little-endian writer for Borsh-encoded data
+export class BorshWriter {
+  private readonly chunks: Buffer[] = []
+
+  u8(value: number) {
+    this.chunks.push(Buffer.from([value]))
+    return this
+  }
+
+  u16(value: number) {
+    const buffer = Buffer.alloc(2)
+    buffer.writeUInt16LE(value, 0)
+    this.chunks.push(buffer)
+    return this
+  }
+
+  u64(value: bigint) {
+    const buffer = Buffer.alloc(8)
+    buffer.writeBigUInt64LE(value, 0)
+    this.chunks.push(buffer)
+    return this
+  }
+
+  i64(value: number) {
+    const buffer = Buffer.alloc(8)
+    buffer.writeBigInt64LE(BigInt(value), 0)
+    this.chunks.push(buffer)
+    return this
+  }
+
+  publicKey(value: PublicKey) {
+    this.chunks.push(value.toBuffer())
+    return this
+  }
+
+  bytes(value: Buffer) {
+    this.chunks.push(value)
+    return this
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks)
+  }
+}
+
+// Decode a staking pool account
+export function decodeStakingPoolAccount(data: Buffer | Uint8Array): StakingPoolAccount {
+  const reader = new BorshReader(Buffer.from(data))
+  reader.discriminator(STAKING_POOL_DISCRIMINATOR, "StakingPool")
+
+  return {
+    authority: reader.publicKey(),
+    stakeMint: reader.publicKey(),
+    rewardMint: reader.publicKey(),
+    vault: reader.publicKey(),
+    totalStaked: reader.u64(),
+    rewardRateBps: reader.u16(),
+    lockupPeriod: reader.i64(),
+    lastUpdateTime: reader.i64(),
+    bump: reader.u8(),
+  }
+}
+
+// Decode a user stake account
+export function decodeUserStakeAccount(data: Buffer | Uint8Array): UserStakeAccount {
+  const reader = new BorshReader(Buffer.from(data))
+  reader.discriminator(USER_STAKE_DISCRIMINATOR, "UserStake")
+
+  return {
+    owner: reader.publicKey(),
+    pool: reader.publicKey(),
+    amount: reader.u64(),
+    stakeTimestamp: reader.i64(),
+    lockupEnd: reader.i64(),
+    rewardsAccrued: reader.u64(),
+    lastClaimTime: reader.i64(),
+    bump: reader.u8(),
+  }
+}
+
+// Encode a staking pool account (used for fixtures and local simulation)
+export function encodeStakingPoolAccount(account: StakingPoolAccount): Buffer {
+  return new BorshWriter()
+    .bytes(STAKING_POOL_DISCRIMINATOR)
+    .publicKey(account.authority)
+    .publicKey(account.stakeMint)
+    .publicKey(account.rewardMint)
+    .publicKey(account.vault)
+    .u64(account.totalStaked)
+    .u16(account.rewardRateBps)
+    .i64(account.lockupPeriod)
+    .i64(account.lastUpdateTime)
+    .u8(account.bump)
+    .toBuffer()
+}
+
+// Encode a user stake account (used for fixtures and local simulation)
+export function encodeUserStakeAccount(account: UserStakeAccount): Buffer {
+  return new BorshWriter()
+    .bytes(USER_STAKE_DISCRIMINATOR)
+    .publicKey(account.owner)
+    .publicKey(account.pool)
+    .u64(account.amount)
+    .i64(account.stakeTimestamp)
+    .i64(account.lockupEnd)
+    .u64(account.rewardsAccrued)
+    .i64(account.lastClaimTime)
+    .u8(account.bump)
+    .toBuffer()
+}
+
+// Convert raw token units to a UI amount
+export function toUiAmount(raw: bigint, decimals: number): number {
+  const divisor = BigInt(Math.pow(10, decimals))
+  return Number(raw / divisor) + Number(raw % divisor) / Math.pow(10, decimals)
+}
+
+// Convert a UI amount to raw token units
+export function toRawAmount(amount: number, decimals: number): bigint {
+  const [whole, fraction = ""] = amount.toFixed(decimals).split(".")
+  return BigInt(whole + fraction.padEnd(decimals, "0"))
+}
@@ -1,444 +1,483 @@
-// Test swap functionality
-export async function testSwap(
-  publicKey: string,
-  inputToken: string,
-  outputToken: string,
-  amount: number,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    // Check if user has enough balance
-    const inputBalance = localStorage.getItem(`${publicKey}_${inputToken.toLowerCase()}Balance`)
-    if (!inputBalance || Number(inputBalance) < amount) {
-      return {
-        success: false,
-        message: `Insufficient ${inputToken} balance. Required: ${amount}, Available: ${inputBalance || 0}`,
-      }
+import type { NetworkType } from "@/components/providers/NetworkContextProvider"
+import { type Token, getGoldTokenForNetwork } from "@/constants/tokens"
+import {
+  LimitOrderMatchingSimulator,
+  type LimitOrderStatus,
+  cancelLimitOrder,
+  checkLimitOrders,
+  clearClosedLimitOrders,
+  getLimitOrders,
+  placeLimitOrder,
+} from "@/services/limitOrders"
+import { MIN_STAKE_DURATION } from "@/services/stakingService"
+import type { LedgerBalances, LedgerSimulator } from "@/utils/ledger-simulator"
+
+// Scripted scenarios run against the ledger simulator. Limit orders are matched by the matching simulator
+// at the ledger's pool prices, on the ledger's clock.
+
+export type ScenarioAction =
+  | { action: "airdrop"; amount: number }
+  | { action: "faucet"; amount: number }
+  | { action: "swap"; input: string; output: string; amount: number; minAmountOut?: number }
+  | { action: "addLiquidity"; pool: string; amount: number }
+  | { action: "removeLiquidity"; pool: string; lpTokens?: number; fraction?: number }
+  | { action: "claimPoolFees"; pool: string }
+  | { action: "stake"; amount: number }
+  | { action: "unstake"; amount: number }
+  | { action: "claimStakingRewards" }
+  | { action: "bridge"; amount: number; targetNetwork: string }
+
+interface BalanceExpectation {
+  token: string
+  equals?: number
+  min?: number
+  max?: number
+  tolerance?: number
+}
+
+// Limit order steps name their order, so later steps can refer to it
+export type LimitOrderAction =
+  | {
+      action: "placeLimitOrder"
+      order: string
+      input: string
+      output: string
+      amount: number
+      targetPrice: number // output per input
+      expiresIn: number // seconds
     }
+  | { action: "checkLimitOrders" }
+  | { action: "cancelLimitOrder"; order: string }
+
+export type ScenarioAssertion =
+  | ({ action: "expectBalance" } & BalanceExpectation)
+  | ({ action: "expectDelta" } & BalanceExpectation) // change caused by the previous action
+  | { action: "expectInvariants" }
+  | { action: "expectLimitOrder"; order: string; status: LimitOrderStatus }
+
+export type ScenarioStep = (
+  // expectError: expect the action to fail, optionally with this message
+  | ((ScenarioAction | LimitOrderAction) & { expectError?: string | boolean })
+  | ScenarioAssertion
+  | { action: "warp"; seconds: number }
+) & { label?: string }
+
+export interface Scenario {
+  name: string
+  steps: ScenarioStep[]
+}
 
-    // Simulate swap
-    const inputAmount = amount
-    const outputAmount = amount * 0.98 // 2% slippage
+export interface ScenarioStepResult {
+  feature: string
+  success: boolean
+  message: string
+  signature?: string
+}
 
-    // Update balances
-    const newInputBalance = Number(inputBalance) - inputAmount
-    localStorage.setItem(`${publicKey}_${inputToken.toLowerCase()}Balance`, newInputBalance.toString())
+export interface ScenarioResult {
+  name: string
+  success: boolean
+  steps: ScenarioStepResult[]
+  balances: LedgerBalances
+  slot: number
+}
 
-    const outputBalance = localStorage.getItem(`${publicKey}_${outputToken.toLowerCase()}Balance`) || "0"
-    const newOutputBalance = Number(outputBalance) + outputAmount
-    localStorage.setItem(`${publicKey}_${outputToken.toLowerCase()}Balance`, newOutputBalance.toString())
+export interface ScenarioOptions {
+  restore?: boolean // roll the ledger back once the scenario finishes
+  stopOnFailure?: boolean
+  network?: NetworkType // of limit orders, whose GOLD mint must match the network; devnet by default
+}
 
-    return {
-      success: true,
-      message: `Successfully swapped ${inputAmount} ${inputToken} for ${outputAmount.toFixed(4)} ${outputToken}`,
-    }
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || "Failed to test swap",
-    }
-  }
+const DEFAULT_TOLERANCE = 1e-9
+
+const STEP_LABELS: Record<ScenarioStep["action"], string> = {
+  airdrop: "Airdrop",
+  faucet: "Faucet",
+  swap: "Swap",
+  addLiquidity: "Add Liquidity",
+  removeLiquidity: "Remove Liquidity",
+  claimPoolFees: "Claim Fees",
+  stake: "Stake",
+  unstake: "Unstake",
+  claimStakingRewards: "Claim Rewards",
+  bridge: "Bridge",
+  placeLimitOrder: "Place Limit Order",
+  checkLimitOrders: "Check Limit Orders",
+  cancelLimitOrder: "Cancel Limit Order",
+  warp: "Warp",
+  expectBalance: "Balance Check",
+  expectDelta: "Balance Change",
+  expectInvariants: "Ledger Invariants",
+  expectLimitOrder: "Limit Order Status",
 }
 
-// Test liquidity pool functionality
-export async function testLiquidityPool(
-  publicKey: string,
-  action: "add" | "remove" | "claim",
-  amount?: number,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    if (action === "add") {
-      if (!amount) {
-        return {
-          success: false,
-          message: "Amount is required for adding liquidity",
-        }
-      }
+function isLimitOrderAction(step: ScenarioAction | LimitOrderAction): step is LimitOrderAction {
+  return step.action === "placeLimitOrder" || step.action === "checkLimitOrders" || step.action === "cancelLimitOrder"
+}
 
-      // Check if user has enough GOLD
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      if (Number(goldBalance) < amount) {
-        return {
-          success: false,
-          message: `Insufficient GOLD balance. Required: ${amount}, Available: ${goldBalance}`,
-        }
-      }
+// Limit orders placed by a scenario, kept apart from the wallet's own orders and removed when it finishes
+class ScenarioLimitOrders {
+  readonly owner: string
+  private readonly ids = new Map<string, string>() // order name to id
+  private readonly symbols = new Map<string, string>() // mint to ledger symbol
+  private readonly executor = new LimitOrderMatchingSimulator()
+
+  constructor(
+    private readonly ledger: LedgerSimulator,
+    owner: string,
+    private readonly network: NetworkType,
+  ) {
+    this.owner = `scenario:${owner}`
+  }
 
-      // Update GOLD balance
-      const newGoldBalance = Number(goldBalance) - amount
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
+  private token(symbol: string): Token {
+    const token = symbol === "GOLD" ? getGoldTokenForNetwork(this.network) : this.ledger.getToken(symbol)
+    this.symbols.set(token.mint, symbol)
+    return token
+  }
 
-      // Update LP tokens
-      const lpTokens = localStorage.getItem(`${publicKey}_lpTokens`) || "0"
-      const newLpTokens = Number(lpTokens) + amount * 10 // 1 GOLD = 10 LP tokens
-      localStorage.setItem(`${publicKey}_lpTokens`, newLpTokens.toString())
+  private id(name: string): string {
+    const id = this.ids.get(name)
+    if (!id) throw new Error(`No limit order named ${name}`)
+    return id
+  }
 
-      return {
-        success: true,
-        message: `Successfully added ${amount} GOLD to the liquidity pool`,
-      }
-    } else if (action === "remove") {
-      if (!amount) {
-        return {
-          success: false,
-          message: "Amount is required for removing liquidity",
-        }
-      }
+  // Price of one input token in output tokens, as the ledger's pools would pay it
+  private price(inputMint: string, outputMint: string): number {
+    const quote = this.ledger.quoteSwap(this.symbols.get(inputMint) ?? "", this.symbols.get(outputMint) ?? "", 1)
+    if (!quote) throw new Error("No route between the order's tokens")
+    return quote.amountOut
+  }
 
-      // Check if user has enough LP tokens
-      const lpTokens = localStorage.getItem(`${publicKey}_lpTokens`) || "0"
-      if (Number(lpTokens) < amount) {
-        return {
-          success: false,
-          message: `Insufficient LP tokens. Required: ${amount}, Available: ${lpTokens}`,
+  async apply(step: LimitOrderAction): Promise<{ message: string }> {
+    switch (step.action) {
+      case "placeLimitOrder": {
+        const request = {
+          inputToken: this.token(step.input),
+          outputToken: this.token(step.output),
+          inputAmount: step.amount,
+          targetPrice: step.targetPrice,
+          expiresIn: step.expiresIn * 1000,
         }
-      }
-
-      // Update LP tokens
-      const newLpTokens = Number(lpTokens) - amount
-      localStorage.setItem(`${publicKey}_lpTokens`, newLpTokens.toString())
-
-      // Update GOLD balance
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      const newGoldBalance = Number(goldBalance) + amount * 0.1 // 1 LP token = 0.1 GOLD
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-
-      return {
-        success: true,
-        message: `Successfully removed ${amount} LP tokens from the liquidity pool`,
-      }
-    } else if (action === "claim") {
-      // Simulate claiming fees
-      const lpTokens = localStorage.getItem(`${publicKey}_lpTokens`) || "0"
-      if (Number(lpTokens) <= 0) {
+        const order = placeLimitOrder(this.owner, this.network, request, this.ledger.now())
+        this.ids.set(step.order, order.id)
         return {
-          success: false,
-          message: "No LP tokens to claim fees from",
+          message: `Placed ${step.order}: ${step.amount} ${step.input} for ${step.output} at ${step.targetPrice}`,
         }
       }
-
-      // Calculate fees (0.3% of pool volume per day, proportional to LP tokens)
-      const fees = Number(lpTokens) * 0.003 * 0.01 // Assuming 1% of pool volume per day
-
-      // Update GOLD balance
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      const newGoldBalance = Number(goldBalance) + fees
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-
-      return {
-        success: true,
-        message: `Successfully claimed ${fees.toFixed(4)} GOLD in fees`,
+      case "checkLimitOrders": {
+        const filled = await checkLimitOrders(
+          this.owner,
+          this.network,
+          this.executor,
+          async (inputMint, outputMint) => this.price(inputMint, outputMint),
+          this.ledger.now(),
+        )
+        const names = filled.map((order) => Array.from(this.ids).find(([, id]) => id === order.id)?.[0] ?? order.id)
+        return { message: names.length > 0 ? `Filled ${names.join(", ")}` : "No orders filled" }
       }
-    }
-
-    return {
-      success: false,
-      message: "Invalid action",
-    }
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || "Failed to test liquidity pool",
+      case "cancelLimitOrder":
+        cancelLimitOrder(this.owner, this.id(step.order))
+        return { message: `Cancelled ${step.order}` }
     }
   }
-}
-
-// Test staking functionality
-export async function testStaking(
-  publicKey: string,
-  action: "stake" | "unstake" | "claim",
-  amount?: number,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    if (action === "stake") {
-      if (!amount) {
-        return {
-          success: false,
-          message: "Amount is required for staking",
-        }
-      }
 
-      // Check if user has enough GOLD
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      if (Number(goldBalance) < amount) {
-        return {
-          success: false,
-          message: `Insufficient GOLD balance. Required: ${amount}, Available: ${goldBalance}`,
-        }
-      }
+  status(name: string): LimitOrderStatus | undefined {
+    const id = this.ids.get(name)
+    return getLimitOrders(this.owner, this.network).find((order) => order.id === id)?.status
+  }
 
-      // Update GOLD balance
-      const newGoldBalance = Number(goldBalance) - amount
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
+  cleanUp() {
+    if (this.ids.size === 0) return
+    getLimitOrders(this.owner, this.network)
+      .filter((order) => order.status === "open")
+      .forEach((order) => cancelLimitOrder(this.owner, order.id))
+    clearClosedLimitOrders(this.owner, this.network)
+  }
+}
 
-      // Update staked amount
-      const stakedAmount = localStorage.getItem(`${publicKey}_stakedAmount`) || "0"
-      const newStakedAmount = Number(stakedAmount) + amount
-      localStorage.setItem(`${publicKey}_stakedAmount`, newStakedAmount.toString())
+// GOLD handed out by the faucet on each network
+export function getFaucetAmount(network: string): number {
+  if (network === "mainnet-beta") return 10
+  if (network === "testnet") return 50
+  return 100 // devnet
+}
 
-      // Set stake start time if this is the first stake
-      if (Number(stakedAmount) <= 0) {
-        const now = Math.floor(Date.now() / 1000)
-        localStorage.setItem(`${publicKey}_stakeStartTime`, now.toString())
-      }
+function checkRange(value: number, { equals, min, max, tolerance = DEFAULT_TOLERANCE }: BalanceExpectation) {
+  if (equals !== undefined && Math.abs(value - equals) > tolerance) return `expected ${equals}, got ${value}`
+  if (min !== undefined && value < min - tolerance) return `expected at least ${min}, got ${value}`
+  if (max !== undefined && value > max + tolerance) return `expected at most ${max}, got ${value}`
+  return null
+}
 
+// Apply an action to the ledger, returning the signature and a description
+function applyAction(
+  ledger: LedgerSimulator,
+  owner: string,
+  step: ScenarioAction,
+): { signature: string; message: string } {
+  switch (step.action) {
+    case "airdrop":
+      return { signature: ledger.airdrop(owner, step.amount), message: `Airdropped ${step.amount} SOL` }
+    case "faucet":
       return {
-        success: true,
-        message: `Successfully staked ${amount} GOLD`,
-      }
-    } else if (action === "unstake") {
-      if (!amount) {
-        return {
-          success: false,
-          message: "Amount is required for unstaking",
-        }
-      }
-
-      // Check if user has enough staked GOLD
-      const stakedAmount = localStorage.getItem(`${publicKey}_stakedAmount`) || "0"
-      if (Number(stakedAmount) < amount) {
-        return {
-          success: false,
-          message: `Insufficient staked GOLD. Required: ${amount}, Available: ${stakedAmount}`,
-        }
-      }
-
-      // Check if minimum stake duration has passed
-      const stakeStartTime = localStorage.getItem(`${publicKey}_stakeStartTime`) || "0"
-      const now = Math.floor(Date.now() / 1000)
-      const stakeDuration = now - Number(stakeStartTime)
-      const minStakeDuration = 604800 // 7 days in seconds
-
-      if (stakeDuration < minStakeDuration) {
-        return {
-          success: false,
-          message: `Cannot unstake yet. ${Math.ceil((minStakeDuration - stakeDuration) / 86400)} days remaining.`,
-        }
+        signature: ledger.claimFaucet(owner, step.amount),
+        message: `Claimed ${step.amount} GOLD tokens from the faucet`,
       }
-
-      // Update staked amount
-      const newStakedAmount = Number(stakedAmount) - amount
-      localStorage.setItem(`${publicKey}_stakedAmount`, newStakedAmount.toString())
-
-      // Update GOLD balance
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      const newGoldBalance = Number(goldBalance) + amount
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-
-      // Reset stake start time if all tokens are unstaked
-      if (newStakedAmount <= 0) {
-        localStorage.removeItem(`${publicKey}_stakeStartTime`)
-      }
-
+    case "swap": {
+      const result = ledger.swap(owner, step.input, step.output, step.amount, step.minAmountOut)
       return {
-        success: true,
-        message: `Successfully unstaked ${amount} GOLD`,
+        signature: result.signature,
+        message: `Swapped ${result.amountIn} ${step.input} for ${result.amountOut.toFixed(4)} ${step.output} via ${result.path.join(" → ")}`,
       }
-    } else if (action === "claim") {
-      // Check if user has staked GOLD
-      const stakedAmount = localStorage.getItem(`${publicKey}_stakedAmount`) || "0"
-      if (Number(stakedAmount) <= 0) {
-        return {
-          success: false,
-          message: "No staked GOLD to claim rewards from",
-        }
+    }
+    case "addLiquidity": {
+      const result = ledger.addLiquidity(owner, step.pool, step.amount)
+      const pool = ledger.getPool(step.pool)
+      return {
+        signature: result.signature,
+        message: `Added ${result.amountA} ${pool.tokenA} and ${result.amountB.toFixed(4)} ${pool.tokenB} for ${result.lpTokens.toFixed(4)} LP tokens`,
       }
-
-      // Calculate rewards
-      const stakeStartTime = localStorage.getItem(`${publicKey}_stakeStartTime`) || "0"
-      const now = Math.floor(Date.now() / 1000)
-      const stakeDuration = now - Number(stakeStartTime)
-      const dailyRewardRate = 0.15 / 365 // 15% APY
-      const daysStaked = stakeDuration / 86400
-      const rewards = Number(stakedAmount) * dailyRewardRate * daysStaked
-
-      // Update GOLD balance
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      const newGoldBalance = Number(goldBalance) + rewards
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-
-      // Reset stake start time for future reward calculations
-      localStorage.setItem(`${publicKey}_stakeStartTime`, now.toString())
-
+    }
+    case "removeLiquidity": {
+      const pool = ledger.getPool(step.pool)
+      const lpTokens = step.lpTokens ?? ledger.getBalance(owner, pool.lpSymbol) * (step.fraction ?? 1)
+      const result = ledger.removeLiquidity(owner, step.pool, lpTokens)
       return {
-        success: true,
-        message: `Successfully claimed ${rewards.toFixed(4)} GOLD rewards`,
+        signature: result.signature,
+        message: `Removed ${lpTokens.toFixed(4)} LP tokens for ${result.amountA.toFixed(4)} ${pool.tokenA} and ${result.amountB.toFixed(4)} ${pool.tokenB}`,
       }
     }
-
-    return {
-      success: false,
-      message: "Invalid action",
+    case "claimPoolFees": {
+      const { signature, claimed } = ledger.claimPoolFees(owner, step.pool)
+      const amounts = Object.entries(claimed).map(([symbol, amount]) => `${amount} ${symbol}`)
+      return { signature, message: `Claimed ${amounts.join(" and ")} in fees` }
     }
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || "Failed to test staking",
+    case "stake":
+      return { signature: ledger.stake(owner, step.amount), message: `Staked ${step.amount} GOLD` }
+    case "unstake":
+      return { signature: ledger.unstake(owner, step.amount), message: `Unstaked ${step.amount} GOLD` }
+    case "claimStakingRewards": {
+      const { signature, rewards } = ledger.claimStakingRewards(owner)
+      return { signature, message: `Claimed ${rewards.toFixed(4)} GOLD rewards` }
     }
+    case "bridge":
+      return {
+        signature: ledger.bridgeOut(owner, step.amount, step.targetNetwork),
+        message: `Bridged ${step.amount} GOLD to ${step.targetNetwork}`,
+      }
   }
 }
 
-// Test bridge functionality
-export async function testBridge(
-  publicKey: string,
-  sourceNetwork: string,
-  targetNetwork: string,
-  amount: number,
-): Promise<{ success: boolean; message: string; txId?: string }> {
-  try {
-    // Check if user has enough GOLD on source network
-    if (sourceNetwork === "solana") {
-      const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-      if (Number(goldBalance) < amount) {
-        return {
-          success: false,
-          message: `Insufficient GOLD balance on ${sourceNetwork}. Required: ${amount}, Available: ${goldBalance}`,
+// Run a scenario for one owner, asserting on balances along the way
+export async function runScenario(
+  ledger: LedgerSimulator,
+  owner: string,
+  scenario: Scenario,
+  options: ScenarioOptions = {},
+): Promise<ScenarioResult> {
+  const snapshot = options.restore ? ledger.snapshot() : null
+  const limitOrders = new ScenarioLimitOrders(ledger, owner, options.network ?? "devnet")
+  ledger.openWallet(owner)
+  const results: ScenarioStepResult[] = []
+  let balancesBefore = ledger.getBalances(owner)
+  let balancesAfter = balancesBefore
+
+  for (const step of scenario.steps) {
+    const feature = step.label ?? STEP_LABELS[step.action]
+    let result: ScenarioStepResult
+
+    switch (step.action) {
+      case "warp":
+        ledger.warp(step.seconds)
+        result = { feature, success: true, message: `Advanced the clock by ${step.seconds} seconds` }
+        break
+      case "expectBalance": {
+        const balance = ledger.getBalance(owner, step.token)
+        const failure = checkRange(balance, step)
+        result = {
+          feature,
+          success: !failure,
+          message: failure ? `${step.token}: ${failure}` : `${step.token} balance is ${balance}`,
         }
+        break
       }
-
-      // Update GOLD balance on source network
-      const newGoldBalance = Number(goldBalance) - amount
-      localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-    }
-
-    // Generate transaction ID
-    const txId = `bridge-${Date.now()}-${Math.floor(Math.random() * 1000)}`
-
-    // Store bridge transaction in history
-    const bridgeHistory = JSON.parse(localStorage.getItem(`${publicKey}_bridgeHistory`) || "[]")
-    bridgeHistory.push({
-      id: txId,
-      sourceNetwork,
-      targetNetwork,
-      amount,
-      status: "completed",
-      timestamp: Date.now(),
-    })
-    localStorage.setItem(`${publicKey}_bridgeHistory`, JSON.stringify(bridgeHistory))
-
-    return {
-      success: true,
-      message: `Successfully bridged ${amount} GOLD from ${sourceNetwork} to ${targetNetwork}`,
-      txId,
-    }
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || "Failed to test bridge",
-    }
-  }
-}
-
-// Test faucet functionality
-export async function testFaucet(
-  publicKey: string,
-  network: string,
-): Promise<{ success: boolean; message: string; amount?: number }> {
-  try {
-    // Check if user is in cooldown period
-    const lastClaimTime = localStorage.getItem(`${publicKey}_lastClaimTime`)
-    if (lastClaimTime) {
-      const now = Date.now()
-      const timeSinceLastClaim = now - Number(lastClaimTime)
-      const cooldownPeriod = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
-
-      if (timeSinceLastClaim < cooldownPeriod) {
-        const timeRemaining = cooldownPeriod - timeSinceLastClaim
-        const hoursRemaining = Math.floor(timeRemaining / (60 * 60 * 1000))
-        const minutesRemaining = Math.floor((timeRemaining % (60 * 60 * 1000)) / (60 * 1000))
-
-        return {
-          success: false,
-          message: `Cannot claim yet. ${hoursRemaining}h ${minutesRemaining}m remaining.`,
+      case "expectDelta": {
+        const delta = (balancesAfter[step.token] ?? 0) - (balancesBefore[step.token] ?? 0)
+        const failure = checkRange(delta, step)
+        result = {
+          feature,
+          success: !failure,
+          message: failure ? `${step.token} change: ${failure}` : `${step.token} changed by ${delta}`,
         }
+        break
+      }
+      case "expectInvariants": {
+        const violations = ledger.checkInvariants()
+        result = {
+          feature,
+          success: violations.length === 0,
+          message: violations.length === 0 ? "Ledger is consistent" : violations.join("; "),
+        }
+        break
+      }
+      case "expectLimitOrder": {
+        const status = limitOrders.status(step.order)
+        result = {
+          feature,
+          success: status === step.status,
+          message:
+            status === step.status
+              ? `${step.order} is ${status}`
+              : `${step.order}: expected ${step.status}, got ${status ?? "no such order"}`,
+        }
+        break
+      }
+      default: {
+        balancesBefore = ledger.getBalances(owner)
+        try {
+          const { signature, message }: { signature?: string; message: string } = isLimitOrderAction(step)
+            ? await limitOrders.apply(step)
+            : applyAction(ledger, owner, step)
+          result = step.expectError
+            ? { feature, success: false, message: `Expected failure, but: ${message}`, signature }
+            : { feature, success: true, message, signature }
+        } catch (error: any) {
+          const message: string = error.message || "Transaction failed"
+          const expected =
+            step.expectError === true || (typeof step.expectError === "string" && message.includes(step.expectError))
+          result = { feature, success: expected, message: expected ? `Failed as expected: ${message}` : message }
+        }
+        balancesAfter = ledger.getBalances(owner)
       }
     }
 
-    // Determine airdrop amount based on network
-    let amount = 100 // Default for devnet
-    if (network === "mainnet-beta") {
-      amount = 10
-    } else if (network === "testnet") {
-      amount = 50
-    }
-
-    // Update GOLD balance
-    const goldBalance = localStorage.getItem(`${publicKey}_goldBalance`) || "0"
-    const newGoldBalance = Number(goldBalance) + amount
-    localStorage.setItem(`${publicKey}_goldBalance`, newGoldBalance.toString())
-
-    // Update last claim time
-    localStorage.setItem(`${publicKey}_lastClaimTime`, Date.now().toString())
-
-    return {
-      success: true,
-      message: `Successfully claimed ${amount} GOLD tokens from the faucet`,
-      amount,
-    }
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || "Failed to test faucet",
-    }
-  }
-}
-
-// Initialize test environment
-export function initializeTestEnvironment(publicKey: string): void {
-  // Set default balances if not already set
-  if (!localStorage.getItem(`${publicKey}_goldBalance`)) {
-    localStorage.setItem(`${publicKey}_goldBalance`, "1000")
-  }
-
-  if (!localStorage.getItem(`${publicKey}_solBalance`)) {
-    localStorage.setItem(`${publicKey}_solBalance`, "10")
+    results.push(result)
+    if (!result.success && options.stopOnFailure) break
   }
 
-  if (!localStorage.getItem(`${publicKey}_usdcBalance`)) {
-    localStorage.setItem(`${publicKey}_usdcBalance`, "500")
+  const outcome: ScenarioResult = {
+    name: scenario.name,
+    success: results.every((result) => result.success),
+    steps: results,
+    balances: ledger.getBalances(owner),
+    slot: ledger.slot,
   }
 
-  if (!localStorage.getItem(`${publicKey}_bonkBalance`)) {
-    localStorage.setItem(`${publicKey}_bonkBalance`, "1000000")
-  }
+  limitOrders.cleanUp()
+  if (snapshot) ledger.restore(snapshot)
+  return outcome
+}
 
-  // Initialize other state
-  if (!localStorage.getItem(`${publicKey}_lpTokens`)) {
-    localStorage.setItem(`${publicKey}_lpTokens`, "0")
-  }
+// Swaps through direct and two-hop routes
+export const SWAP_SCENARIO: Scenario = {
+  name: "Swapping",
+  steps: [
+    { action: "swap", input: "GOLD", output: "USDC", amount: 10, label: "Swap GOLD to USDC" },
+    { action: "expectDelta", token: "GOLD", equals: -10 },
+    { action: "expectDelta", token: "USDC", min: 4 },
+    { action: "swap", input: "SOL", output: "GOLD", amount: 0.1, label: "Swap SOL to GOLD" },
+    { action: "expectDelta", token: "GOLD", min: 15 },
+    { action: "swap", input: "USDC", output: "BONK", amount: 1, label: "Swap USDC to BONK (two hops)" },
+    { action: "expectDelta", token: "BONK", min: 1000 },
+    { action: "swap", input: "GOLD", output: "SOL", amount: 1000000, expectError: "Insufficient GOLD" },
+    { action: "expectInvariants" },
+  ],
+}
 
-  if (!localStorage.getItem(`${publicKey}_stakedAmount`)) {
-    localStorage.setItem(`${publicKey}_stakedAmount`, "0")
-  }
+// Provide liquidity, earn fees from a swap, then withdraw
+export const LIQUIDITY_SCENARIO: Scenario = {
+  name: "Liquidity",
+  steps: [
+    { action: "addLiquidity", pool: "GOLD-SOL", amount: 10 },
+    { action: "expectDelta", token: "GOLD", equals: -10 },
+    { action: "swap", input: "SOL", output: "GOLD", amount: 0.1, label: "Generate Pool Fees" },
+    { action: "claimPoolFees", pool: "GOLD-SOL" },
+    { action: "removeLiquidity", pool: "GOLD-SOL", fraction: 0.5 },
+    { action: "expectDelta", token: "GOLD", min: 4.9 },
+    { action: "expectInvariants" },
+  ],
+}
 
-  if (!localStorage.getItem(`${publicKey}_bridgeHistory`)) {
-    localStorage.setItem(`${publicKey}_bridgeHistory`, "[]")
-  }
+// Stake, respect the lockup, claim rewards and withdraw
+export const STAKING_SCENARIO: Scenario = {
+  name: "Staking",
+  steps: [
+    { action: "stake", amount: 10 },
+    { action: "expectDelta", token: "GOLD", equals: -10 },
+    { action: "unstake", amount: 5, expectError: "locked", label: "Unstake During Lockup" },
+    { action: "warp", seconds: MIN_STAKE_DURATION },
+    { action: "claimStakingRewards" },
+    { action: "expectDelta", token: "GOLD", min: 0.01 },
+    { action: "unstake", amount: 5 },
+    { action: "expectDelta", token: "GOLD", equals: 5 },
+    { action: "expectInvariants" },
+  ],
 }
 
-// Reset test environment
-export function resetTestEnvironment(publicKey: string): void {
-  localStorage.removeItem(`${publicKey}_goldBalance`)
-  localStorage.removeItem(`${publicKey}_solBalance`)
-  localStorage.removeItem(`${publicKey}_usdcBalance`)
-  localStorage.removeItem(`${publicKey}_bonkBalance`)
-  localStorage.removeItem(`${publicKey}_lpTokens`)
-  localStorage.removeItem(`${publicKey}_stakedAmount`)
-  localStorage.removeItem(`${publicKey}_stakeStartTime`)
-  localStorage.removeItem(`${publicKey}_lastClaimTime`)
-  localStorage.removeItem(`${publicKey}_bridgeHistory`)
-
-  // Re-initialize with default values
-  initializeTestEnvironment(publicKey)
+// Limit orders on GOLD-SOL: one fills once a swap lifts the GOLD price, one is cancelled, one expires.
+// GOLD starts at 0.005 SOL in the ledger's pool.
+export const LIMIT_ORDER_SCENARIO: Scenario = {
+  name: "Limit orders",
+  steps: [
+    {
+      action: "placeLimitOrder",
+      order: "Take profit",
+      input: "GOLD",
+      output: "SOL",
+      amount: 100,
+      targetPrice: 0.0051,
+      expiresIn: 60 * 60,
+    },
+    {
+      action: "placeLimitOrder",
+      order: "Buy the dip",
+      input: "SOL",
+      output: "GOLD",
+      amount: 1,
+      targetPrice: 210,
+      expiresIn: 60 * 60,
+    },
+    {
+      action: "placeLimitOrder",
+      order: "Short-lived",
+      input: "GOLD",
+      output: "USDC",
+      amount: 50,
+      targetPrice: 1,
+      expiresIn: 60,
+    },
+    { action: "checkLimitOrders", label: "Check Below Target" },
+    { action: "expectLimitOrder", order: "Take profit", status: "open" },
+    { action: "airdrop", amount: 100 },
+    { action: "swap", input: "SOL", output: "GOLD", amount: 50, label: "Lift the GOLD Price" },
+    { action: "checkLimitOrders", label: "Check Above Target" },
+    { action: "expectLimitOrder", order: "Take profit", status: "filled" },
+    { action: "expectLimitOrder", order: "Buy the dip", status: "open" },
+    { action: "cancelLimitOrder", order: "Take profit", expectError: "Only open orders", label: "Cancel Filled Order" },
+    { action: "cancelLimitOrder", order: "Buy the dip" },
+    { action: "expectLimitOrder", order: "Buy the dip", status: "cancelled" },
+    { action: "warp", seconds: 120 },
+    { action: "checkLimitOrders", label: "Check After Expiry" },
+    { action: "expectLimitOrder", order: "Short-lived", status: "expired" },
+  ],
 }
 
-// Get user balances
-export function getUserBalances(publicKey: string): Record<string, number> {
+// Every DeFi flow in one run, as driven by the DeFi tester
+export function createDefiScenario(network: string): Scenario {
+  const faucetAmount = getFaucetAmount(network)
+
   return {
-    GOLD: Number(localStorage.getItem(`${publicKey}_goldBalance`) || "0"),
-    SOL: Number(localStorage.getItem(`${publicKey}_solBalance`) || "0"),
-    USDC: Number(localStorage.getItem(`${publicKey}_usdcBalance`) || "0"),
-    BONK: Number(localStorage.getItem(`${publicKey}_bonkBalance`) || "0"),
-    LP: Number(localStorage.getItem(`${publicKey}_lpTokens`) || "0"),
-    STAKED: Number(localStorage.getItem(`${publicKey}_stakedAmount`) || "0"),
+    name: "DeFi features",
+    steps: [
+      ...SWAP_SCENARIO.steps.slice(0, 3),
+      ...LIQUIDITY_SCENARIO.steps.slice(0, -1),
+      ...STAKING_SCENARIO.steps.slice(0, -1),
+      { action: "bridge", amount: 10, targetNetwork: "ethereum" },
+      { action: "expectDelta", token: "GOLD", equals: -10 },
+      { action: "faucet", amount: faucetAmount },
+      { action: "expectDelta", token: "GOLD", equals: faucetAmount },
+      { action: "expectInvariants" },
+    ],
   }
 }
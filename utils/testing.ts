@@ -1,7 +1,7 @@
 import type { Connection } from "@solana/web3.js"
 import type { WalletContextState } from "@solana/wallet-adapter-react"
 import type { NetworkType } from "@/components/providers/NetworkContextProvider"
-import { GOLD_MINT_ADDRESS } from "@/constants/tokens"
+import { getNetworkAddresses } from "@/constants/addresses"
 import { getTokenBalance } from "@/services/tokenService"
 
 // Test result interface
@@ -79,7 +79,7 @@ export async function testTokenBalance(
       }
     }
 
-    const goldMintAddress = GOLD_MINT_ADDRESS[network]
+    const goldMintAddress = getNetworkAddresses(network).goldMint
     const balance = await getTokenBalance(connection, wallet.publicKey, goldMintAddress)
 
     return {